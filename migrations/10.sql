@@ -0,0 +1,36 @@
+
+-- Units of each currency per 1 USD
+CREATE TABLE fx_rates (
+  currency TEXT PRIMARY KEY,
+  rate REAL NOT NULL,
+  updated_at DATETIME NOT NULL
+);
+
+INSERT INTO fx_rates (currency, rate, updated_at) VALUES
+  ('USD', 1.0, CURRENT_TIMESTAMP),
+  ('EUR', 0.92, CURRENT_TIMESTAMP),
+  ('GBP', 0.79, CURRENT_TIMESTAMP),
+  ('ZAR', 18.25, CURRENT_TIMESTAMP),
+  ('JPY', 151.40, CURRENT_TIMESTAMP);
+
+CREATE TABLE fx_quotes (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  base_currency TEXT NOT NULL,
+  currency TEXT NOT NULL,
+  amount REAL NOT NULL,
+  rate REAL NOT NULL,
+  base_amount REAL NOT NULL,
+  transaction_id TEXT,
+  created_at DATETIME NOT NULL,
+  expires_at DATETIME NOT NULL
+);
+
+CREATE INDEX idx_fx_quotes_user_id ON fx_quotes(user_id);
+
+ALTER TABLE transactions ADD COLUMN fx_quote_id TEXT;
+ALTER TABLE transactions ADD COLUMN fx_rate REAL;
+ALTER TABLE transactions ADD COLUMN base_currency TEXT;
+ALTER TABLE transactions ADD COLUMN base_amount REAL;
+
+CREATE UNIQUE INDEX idx_transactions_fx_quote_id ON transactions(fx_quote_id);
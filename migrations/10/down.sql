@@ -0,0 +1,10 @@
+
+DROP INDEX idx_transactions_fx_quote_id;
+ALTER TABLE transactions DROP COLUMN base_amount;
+ALTER TABLE transactions DROP COLUMN base_currency;
+ALTER TABLE transactions DROP COLUMN fx_rate;
+ALTER TABLE transactions DROP COLUMN fx_quote_id;
+
+DROP INDEX idx_fx_quotes_user_id;
+DROP TABLE fx_quotes;
+DROP TABLE fx_rates;
@@ -0,0 +1,28 @@
+
+-- Transfer fee schedule. NULL currency/country matches any; amount_from, min_fee and max_fee are in the base currency (USD)
+CREATE TABLE fee_rules (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  currency TEXT,
+  country TEXT,
+  amount_from REAL NOT NULL DEFAULT 0,
+  percentage REAL NOT NULL,
+  min_fee REAL NOT NULL DEFAULT 0,
+  max_fee REAL,
+  updated_at DATETIME NOT NULL
+);
+
+INSERT INTO fee_rules (currency, country, amount_from, percentage, min_fee, max_fee, updated_at) VALUES
+  (NULL, NULL, 0, 2.0, 5, 100, CURRENT_TIMESTAMP),
+  (NULL, NULL, 1000, 1.5, 5, 250, CURRENT_TIMESTAMP),
+  (NULL, NULL, 10000, 1.0, 5, 500, CURRENT_TIMESTAMP),
+  (NULL, NULL, 50000, 0.5, 5, 1000, CURRENT_TIMESTAMP),
+  ('EUR', NULL, 0, 1.0, 3, 50, CURRENT_TIMESTAMP),
+  (NULL, 'ZA', 0, 0.5, 2, 50, CURRENT_TIMESTAMP);
+
+ALTER TABLE fx_quotes ADD COLUMN country TEXT;
+ALTER TABLE fx_quotes ADD COLUMN fee REAL;
+ALTER TABLE fx_quotes ADD COLUMN fee_percentage REAL;
+ALTER TABLE fx_quotes ADD COLUMN total_debit REAL;
+
+ALTER TABLE transactions ADD COLUMN fee REAL;
+ALTER TABLE transactions ADD COLUMN total_debit REAL;
@@ -0,0 +1,10 @@
+
+ALTER TABLE transactions DROP COLUMN total_debit;
+ALTER TABLE transactions DROP COLUMN fee;
+
+ALTER TABLE fx_quotes DROP COLUMN total_debit;
+ALTER TABLE fx_quotes DROP COLUMN fee_percentage;
+ALTER TABLE fx_quotes DROP COLUMN fee;
+ALTER TABLE fx_quotes DROP COLUMN country;
+
+DROP TABLE fee_rules;
@@ -0,0 +1,25 @@
+
+CREATE TABLE scheduled_payments (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  amount REAL NOT NULL,
+  currency TEXT NOT NULL,
+  recipient_account TEXT NOT NULL,
+  swift_code TEXT NOT NULL,
+  reference TEXT,
+  frequency TEXT NOT NULL,
+  start_date TEXT NOT NULL,
+  end_date TEXT,
+  max_runs INTEGER,
+  next_run_date TEXT NOT NULL,
+  run_count INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'Active',
+  last_run_at DATETIME,
+  last_transaction_id TEXT,
+  last_error TEXT,
+  created_at DATETIME NOT NULL,
+  updated_at DATETIME NOT NULL
+);
+
+CREATE INDEX idx_scheduled_payments_user_id ON scheduled_payments(user_id);
+CREATE INDEX idx_scheduled_payments_due ON scheduled_payments(status, next_run_date);
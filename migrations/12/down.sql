@@ -0,0 +1,4 @@
+
+DROP INDEX idx_scheduled_payments_due;
+DROP INDEX idx_scheduled_payments_user_id;
+DROP TABLE scheduled_payments;
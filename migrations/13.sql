@@ -0,0 +1,17 @@
+
+CREATE TABLE payment_batches (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  payment_count INTEGER NOT NULL,
+  base_currency TEXT NOT NULL,
+  base_amount REAL NOT NULL,
+  fee REAL NOT NULL,
+  total_debit REAL NOT NULL,
+  created_at DATETIME NOT NULL
+);
+
+CREATE INDEX idx_payment_batches_user_id ON payment_batches(user_id);
+
+ALTER TABLE transactions ADD COLUMN batch_id TEXT;
+
+CREATE INDEX idx_transactions_batch_id ON transactions(batch_id);
@@ -0,0 +1,6 @@
+
+DROP INDEX idx_transactions_batch_id;
+ALTER TABLE transactions DROP COLUMN batch_id;
+
+DROP INDEX idx_payment_batches_user_id;
+DROP TABLE payment_batches;
@@ -0,0 +1,20 @@
+
+-- Payment limits. A NULL user_id row is the default for every customer; a customer's own row replaces it
+-- for the same currency. A NULL currency covers all payments, measured in the base currency (USD);
+-- otherwise only payments in that currency, measured in it. NULL limits are unlimited.
+CREATE TABLE payment_limits (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id TEXT,
+  currency TEXT,
+  per_transaction REAL,
+  daily_limit REAL,
+  monthly_limit REAL,
+  updated_at DATETIME NOT NULL
+);
+
+CREATE UNIQUE INDEX idx_payment_limits_scope ON payment_limits(COALESCE(user_id, ''), COALESCE(currency, ''));
+
+INSERT INTO payment_limits (user_id, currency, per_transaction, daily_limit, monthly_limit, updated_at) VALUES
+  (NULL, NULL, 25000, 50000, 200000, CURRENT_TIMESTAMP);
+
+CREATE INDEX idx_transactions_user_created ON transactions(user_id, created_at);
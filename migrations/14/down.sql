@@ -0,0 +1,5 @@
+
+DROP INDEX idx_transactions_user_created;
+
+DROP INDEX idx_payment_limits_scope;
+DROP TABLE payment_limits;
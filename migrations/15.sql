@@ -0,0 +1,17 @@
+
+-- Messages generated when employees submit Verified payments to SWIFT, kept for reconciliation
+CREATE TABLE swift_submissions (
+  id TEXT PRIMARY KEY,
+  submitted_by TEXT NOT NULL,
+  payment_count INTEGER NOT NULL,
+  control_sum REAL NOT NULL,
+  pain001_xml TEXT NOT NULL,
+  mt103_text TEXT,
+  created_at DATETIME NOT NULL
+);
+
+CREATE INDEX idx_swift_submissions_created_at ON swift_submissions(created_at);
+
+ALTER TABLE transactions ADD COLUMN swift_submission_id TEXT;
+
+CREATE INDEX idx_transactions_swift_submission_id ON transactions(swift_submission_id);
@@ -0,0 +1,6 @@
+
+DROP INDEX idx_transactions_swift_submission_id;
+ALTER TABLE transactions DROP COLUMN swift_submission_id;
+
+DROP INDEX idx_swift_submissions_created_at;
+DROP TABLE swift_submissions;
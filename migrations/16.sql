@@ -0,0 +1,82 @@
+
+-- Double-entry ledger behind account balances (see src/worker/ledger.ts). The postings of an entry sum
+-- to zero; customer account IDs are '<type>:<currency>:<user id>', system ones '<type>:<currency>'.
+CREATE TABLE ledger_accounts (
+  id TEXT PRIMARY KEY,
+  user_id TEXT,
+  type TEXT NOT NULL,
+  currency TEXT NOT NULL,
+  created_at DATETIME NOT NULL
+);
+
+CREATE INDEX idx_ledger_accounts_user_id ON ledger_accounts(user_id);
+
+CREATE TABLE ledger_entries (
+  id TEXT PRIMARY KEY,
+  kind TEXT NOT NULL,
+  transaction_id TEXT,
+  description TEXT,
+  created_at DATETIME NOT NULL
+);
+
+CREATE INDEX idx_ledger_entries_transaction_id ON ledger_entries(transaction_id);
+
+CREATE TABLE ledger_postings (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  entry_id TEXT NOT NULL,
+  account_id TEXT NOT NULL,
+  amount REAL NOT NULL
+);
+
+CREATE INDEX idx_ledger_postings_account_id ON ledger_postings(account_id);
+CREATE INDEX idx_ledger_postings_entry_id ON ledger_postings(entry_id);
+
+-- Every existing payment was debited in USD: at its base amount, or at face value before quotes existed
+INSERT INTO ledger_accounts (id, user_id, type, currency, created_at)
+SELECT type || ':USD:' || users.id, users.id, type, 'USD', CURRENT_TIMESTAMP
+FROM users, (SELECT 'customer_available' AS type UNION ALL SELECT 'customer_held')
+WHERE users.role = 'customer'
+UNION ALL
+SELECT type || ':USD', NULL, type, 'USD', CURRENT_TIMESTAMP
+FROM (SELECT 'outgoing_settlement' AS type UNION ALL SELECT 'fee_income' UNION ALL SELECT 'funding');
+
+-- Opening balances. Balances used to be a flat 13,000.75 USD less held payments, ignoring sent ones, so
+-- each customer is credited that plus everything already sent; settling the sent payments below then
+-- leaves every customer with the balance they were shown before.
+INSERT INTO ledger_entries (id, kind, transaction_id, description, created_at)
+SELECT 'opening:' || id, 'deposit', NULL, 'Opening balance', CURRENT_TIMESTAMP FROM users WHERE role = 'customer';
+
+INSERT INTO ledger_postings (entry_id, account_id, amount)
+SELECT 'opening:' || users.id, 'customer_available:USD:' || users.id, 13000.75 + COALESCE((
+  SELECT SUM(COALESCE(total_debit, amount)) FROM transactions WHERE user_id = users.id AND status = 'Sent'
+), 0)
+FROM users WHERE role = 'customer';
+
+INSERT INTO ledger_postings (entry_id, account_id, amount)
+SELECT entry_id, 'funding:USD', -amount FROM ledger_postings WHERE entry_id LIKE 'opening:%';
+
+-- Existing payments: held and sent ones get a hold, and sent ones are then settled
+INSERT INTO ledger_entries (id, kind, transaction_id, description, created_at)
+SELECT 'hold:' || transaction_id, 'hold', transaction_id, NULL, created_at
+FROM transactions WHERE status IN ('Pending', 'Verified', 'RecallRequested', 'Sent');
+
+INSERT INTO ledger_postings (entry_id, account_id, amount)
+SELECT 'hold:' || transaction_id, 'customer_available:USD:' || user_id, -COALESCE(total_debit, amount)
+FROM transactions WHERE status IN ('Pending', 'Verified', 'RecallRequested', 'Sent')
+UNION ALL
+SELECT 'hold:' || transaction_id, 'customer_held:USD:' || user_id, COALESCE(total_debit, amount)
+FROM transactions WHERE status IN ('Pending', 'Verified', 'RecallRequested', 'Sent');
+
+INSERT INTO ledger_entries (id, kind, transaction_id, description, created_at)
+SELECT 'settlement:' || transaction_id, 'settlement', transaction_id, NULL, COALESCE(sent_at, updated_at)
+FROM transactions WHERE status = 'Sent';
+
+INSERT INTO ledger_postings (entry_id, account_id, amount)
+SELECT 'settlement:' || transaction_id, 'customer_held:USD:' || user_id, -COALESCE(total_debit, amount)
+FROM transactions WHERE status = 'Sent'
+UNION ALL
+SELECT 'settlement:' || transaction_id, 'outgoing_settlement:USD', COALESCE(base_amount, amount)
+FROM transactions WHERE status = 'Sent'
+UNION ALL
+SELECT 'settlement:' || transaction_id, 'fee_income:USD', COALESCE(fee, 0)
+FROM transactions WHERE status = 'Sent';
@@ -0,0 +1,8 @@
+
+DROP INDEX idx_ledger_postings_entry_id;
+DROP INDEX idx_ledger_postings_account_id;
+DROP TABLE ledger_postings;
+DROP INDEX idx_ledger_entries_transaction_id;
+DROP TABLE ledger_entries;
+DROP INDEX idx_ledger_accounts_user_id;
+DROP TABLE ledger_accounts;
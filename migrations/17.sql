@@ -0,0 +1,9 @@
+
+-- Multi-currency wallets: a payment can be paid from any of the customer's currency wallets, so
+-- base_currency and base_amount are now the wallet's. reference_amount is the converted amount in USD,
+-- which payment limits and fee tiers are measured in. Until now every base amount was in USD.
+ALTER TABLE fx_quotes ADD COLUMN reference_amount REAL;
+ALTER TABLE transactions ADD COLUMN reference_amount REAL;
+
+UPDATE fx_quotes SET reference_amount = base_amount;
+UPDATE transactions SET reference_amount = base_amount WHERE base_amount IS NOT NULL;
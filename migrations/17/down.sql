@@ -0,0 +1,3 @@
+
+ALTER TABLE transactions DROP COLUMN reference_amount;
+ALTER TABLE fx_quotes DROP COLUMN reference_amount;
@@ -0,0 +1,33 @@
+
+-- Two-factor authentication: TOTP authenticators, one-time recovery codes and the pending second step of a login
+CREATE TABLE user_totp (
+  user_id TEXT PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  secret TEXT NOT NULL, -- AES-GCM encrypted under a key derived from PASSWORD_PEPPER
+  confirmed_at DATETIME, -- NULL until the customer has entered a first code; 2FA is only on once confirmed
+  last_used_step INTEGER, -- time step of the last accepted code, so a code cannot be used twice
+  created_at DATETIME NOT NULL
+);
+
+CREATE TABLE recovery_codes (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  code_hash TEXT NOT NULL,
+  used_at DATETIME,
+  created_at DATETIME NOT NULL
+);
+
+CREATE INDEX idx_recovery_codes_user_id ON recovery_codes(user_id);
+
+CREATE TABLE login_challenges (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  token_hash TEXT NOT NULL UNIQUE,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  created_at DATETIME NOT NULL,
+  expires_at DATETIME NOT NULL
+);
+
+CREATE INDEX idx_login_challenges_user_id ON login_challenges(user_id);
+
+-- When the session last proved the second factor; step-up actions need this to be recent
+ALTER TABLE sessions ADD COLUMN second_factor_at DATETIME;
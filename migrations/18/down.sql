@@ -0,0 +1,10 @@
+
+ALTER TABLE sessions DROP COLUMN second_factor_at;
+
+DROP INDEX idx_login_challenges_user_id;
+DROP TABLE login_challenges;
+
+DROP INDEX idx_recovery_codes_user_id;
+DROP TABLE recovery_codes;
+
+DROP TABLE user_totp;
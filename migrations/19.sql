@@ -0,0 +1,25 @@
+
+-- Passkeys (WebAuthn credentials) customers sign in with instead of a password
+CREATE TABLE passkeys (
+  id TEXT PRIMARY KEY, -- credential ID, base64url
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  public_key TEXT NOT NULL, -- JWK
+  algorithm INTEGER NOT NULL, -- COSE algorithm identifier
+  sign_count INTEGER NOT NULL DEFAULT 0,
+  transports TEXT, -- JSON array, passed back to the browser to help it find the passkey
+  backed_up INTEGER NOT NULL DEFAULT 0,
+  created_at DATETIME NOT NULL,
+  last_used_at DATETIME
+);
+
+CREATE INDEX idx_passkeys_user_id ON passkeys(user_id);
+
+-- Challenges issued for passkey registration and sign-in, each usable once
+CREATE TABLE webauthn_challenges (
+  challenge TEXT PRIMARY KEY,
+  user_id TEXT REFERENCES users(id) ON DELETE CASCADE, -- NULL for sign-in, where the account is not known yet
+  type TEXT NOT NULL CHECK (type IN ('registration', 'authentication')),
+  created_at DATETIME NOT NULL,
+  expires_at DATETIME NOT NULL
+);
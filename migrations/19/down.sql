@@ -0,0 +1,5 @@
+
+DROP TABLE webauthn_challenges;
+
+DROP INDEX idx_passkeys_user_id;
+DROP TABLE passkeys;
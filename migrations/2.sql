@@ -0,0 +1,3 @@
+
+CREATE UNIQUE INDEX idx_transactions_transaction_id ON transactions(transaction_id);
+CREATE INDEX idx_transactions_user_id ON transactions(user_id, id);
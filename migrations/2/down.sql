@@ -0,0 +1,3 @@
+
+DROP INDEX idx_transactions_user_id;
+DROP INDEX idx_transactions_transaction_id;
@@ -0,0 +1,5 @@
+
+-- Where each session was signed in from, for the list of active sessions
+ALTER TABLE sessions ADD COLUMN device_label TEXT;
+ALTER TABLE sessions ADD COLUMN user_agent TEXT;
+ALTER TABLE sessions ADD COLUMN ip_address TEXT; -- last seen from
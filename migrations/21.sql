@@ -0,0 +1,39 @@
+
+-- Failed sign-ins per attempted username ('account', keyed "<role>:<username>") and per IP address, for
+-- backoff and lockout
+CREATE TABLE login_throttles (
+  scope TEXT NOT NULL CHECK (scope IN ('account', 'ip')),
+  key TEXT NOT NULL,
+  failures INTEGER NOT NULL DEFAULT 0,
+  last_failure_at DATETIME NOT NULL,
+  blocked_until DATETIME, -- no attempts are checked before this
+  PRIMARY KEY (scope, key)
+);
+
+-- Single-use links from the forgot-password flow
+CREATE TABLE password_resets (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  token_hash TEXT NOT NULL UNIQUE,
+  created_at DATETIME NOT NULL,
+  expires_at DATETIME NOT NULL,
+  used_at DATETIME
+);
+
+CREATE INDEX idx_password_resets_user_id ON password_resets(user_id);
+
+-- In-app notifications, such as security alerts
+CREATE TABLE notifications (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL,
+  title TEXT NOT NULL,
+  message TEXT NOT NULL,
+  category TEXT NOT NULL,
+  priority TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'unread' CHECK (status IN ('unread', 'read', 'archived')),
+  created_at DATETIME NOT NULL,
+  read_at DATETIME
+);
+
+CREATE INDEX idx_notifications_user_id ON notifications(user_id, created_at);
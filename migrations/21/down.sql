@@ -0,0 +1,8 @@
+
+DROP INDEX idx_notifications_user_id;
+DROP TABLE notifications;
+
+DROP INDEX idx_password_resets_user_id;
+DROP TABLE password_resets;
+
+DROP TABLE login_throttles;
@@ -0,0 +1,9 @@
+
+-- Token buckets for API rate limiting, keyed "<route group>:session:<id>" or "<route group>:ip:<address>"
+CREATE TABLE rate_limit_buckets (
+  key TEXT PRIMARY KEY,
+  tokens REAL NOT NULL,
+  updated_at INTEGER NOT NULL -- milliseconds since the epoch, so refills can be worked out in SQL
+);
+
+CREATE INDEX idx_rate_limit_buckets_updated_at ON rate_limit_buckets(updated_at);
@@ -0,0 +1,3 @@
+
+DROP INDEX idx_rate_limit_buckets_updated_at;
+DROP TABLE rate_limit_buckets;
@@ -0,0 +1,4 @@
+
+DROP INDEX idx_sessions_user_id;
+DROP TABLE sessions;
+DROP TABLE users;
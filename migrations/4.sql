@@ -0,0 +1,7 @@
+
+ALTER TABLE users ADD COLUMN username TEXT;
+ALTER TABLE users ADD COLUMN account_number TEXT;
+ALTER TABLE users ADD COLUMN password_hash TEXT;
+
+CREATE UNIQUE INDEX idx_users_username ON users(username);
+CREATE UNIQUE INDEX idx_users_account_number ON users(account_number);
@@ -0,0 +1,6 @@
+
+DROP INDEX idx_users_account_number;
+DROP INDEX idx_users_username;
+ALTER TABLE users DROP COLUMN password_hash;
+ALTER TABLE users DROP COLUMN account_number;
+ALTER TABLE users DROP COLUMN username;
@@ -0,0 +1,8 @@
+
+ALTER TABLE users ADD COLUMN role TEXT NOT NULL DEFAULT 'customer';
+
+ALTER TABLE transactions ADD COLUMN verified_by TEXT;
+ALTER TABLE transactions ADD COLUMN verified_at DATETIME;
+ALTER TABLE transactions ADD COLUMN sent_at DATETIME;
+
+CREATE INDEX idx_transactions_status ON transactions(status, id);
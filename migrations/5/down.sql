@@ -0,0 +1,6 @@
+
+DROP INDEX idx_transactions_status;
+ALTER TABLE transactions DROP COLUMN sent_at;
+ALTER TABLE transactions DROP COLUMN verified_at;
+ALTER TABLE transactions DROP COLUMN verified_by;
+ALTER TABLE users DROP COLUMN role;
@@ -0,0 +1,13 @@
+
+CREATE TABLE transaction_events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  transaction_id TEXT NOT NULL,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  actor_id TEXT,
+  actor_role TEXT NOT NULL,
+  reason TEXT,
+  created_at DATETIME NOT NULL
+);
+
+CREATE INDEX idx_transaction_events_transaction_id ON transaction_events(transaction_id, id);
@@ -0,0 +1,3 @@
+
+DROP INDEX idx_transaction_events_transaction_id;
+DROP TABLE transaction_events;
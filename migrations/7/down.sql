@@ -0,0 +1,3 @@
+
+DROP INDEX idx_idempotency_keys_created_at;
+DROP TABLE idempotency_keys;
@@ -0,0 +1,15 @@
+
+CREATE TABLE beneficiaries (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  nickname TEXT NOT NULL,
+  account_number TEXT NOT NULL,
+  swift_code TEXT NOT NULL,
+  bank_name TEXT,
+  country TEXT NOT NULL,
+  default_currency TEXT NOT NULL,
+  created_at DATETIME NOT NULL,
+  updated_at DATETIME NOT NULL
+);
+
+CREATE UNIQUE INDEX idx_beneficiaries_user_nickname ON beneficiaries(user_id, nickname COLLATE NOCASE);
@@ -0,0 +1,3 @@
+
+DROP INDEX idx_beneficiaries_user_nickname;
+DROP TABLE beneficiaries;
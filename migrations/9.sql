@@ -0,0 +1,8 @@
+
+CREATE TABLE bic_directory (
+  bic TEXT PRIMARY KEY,
+  bank_name TEXT NOT NULL,
+  city TEXT NOT NULL,
+  country TEXT NOT NULL,
+  updated_at DATETIME NOT NULL
+);
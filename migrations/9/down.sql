@@ -0,0 +1,2 @@
+
+DROP TABLE bic_directory;
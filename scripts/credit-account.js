@@ -0,0 +1,51 @@
+#!/usr/bin/env node
+
+/**
+ * Account Funding Script
+ *
+ * Customer balances come from the ledger (see src/worker/ledger.ts), and there is no deposit flow in
+ * the app yet. This script creates the SQL for a deposit: a ledger entry crediting the customer's
+ * available funds from the funding account.
+ *
+ * Usage:
+ *   node scripts/credit-account.js <username> <amount> [currency] ["description"] > deposit.sql
+ *   npx wrangler d1 execute DB --remote --file deposit.sql
+ */
+
+import { randomUUID } from 'node:crypto';
+
+function sqlString(value) {
+  return `'${String(value).replace(/'/g, "''")}'`;
+}
+
+const [username, amountArg, currency = 'USD', description = 'Deposit'] = process.argv.slice(2);
+const amount = Number(amountArg);
+
+if (!username || !amountArg) {
+  console.error('❌ Usage: node scripts/credit-account.js <username> <amount> [currency] ["description"]');
+  process.exit(1);
+}
+if (!Number.isFinite(amount) || amount <= 0 || Math.round(amount * 100) !== amount * 100) {
+  console.error('❌ Amount must be a positive number with at most two decimal places');
+  process.exit(1);
+}
+if (!/^[A-Z]{3}$/.test(currency)) {
+  console.error('❌ Currency must be a three-letter ISO code, e.g. USD');
+  process.exit(1);
+}
+
+const now = new Date().toISOString();
+const entryId = randomUUID();
+const customer = `(SELECT id FROM users WHERE username = ${sqlString(username)} AND role = 'customer')`;
+const available = `'customer_available:${currency}:' || ${customer}`;
+
+// The postings go first: with no such customer the account ID is NULL, and the insert fails before
+// anything is written
+console.log(`INSERT INTO ledger_postings (entry_id, account_id, amount) VALUES
+  (${sqlString(entryId)}, ${available}, ${amount}),
+  (${sqlString(entryId)}, 'funding:${currency}', ${-amount});
+INSERT INTO ledger_entries (id, kind, transaction_id, description, created_at) VALUES
+  (${sqlString(entryId)}, 'deposit', NULL, ${sqlString(description)}, ${sqlString(now)});
+INSERT OR IGNORE INTO ledger_accounts (id, user_id, type, currency, created_at) VALUES
+  (${available}, ${customer}, 'customer_available', ${sqlString(currency)}, ${sqlString(now)}),
+  ('funding:${currency}', NULL, 'funding', ${sqlString(currency)}, ${sqlString(now)});`);
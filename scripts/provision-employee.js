@@ -0,0 +1,60 @@
+#!/usr/bin/env node
+
+/**
+ * Employee Provisioning Script
+ *
+ * Employees cannot self-register. This script creates the SQL for an employee account,
+ * hashing the password exactly as src/worker/password.ts does.
+ *
+ * Usage:
+ *   PASSWORD_PEPPER=... EMPLOYEE_PASSWORD=... \
+ *     node scripts/provision-employee.js <username> <email> "<Full Name>" > employee.sql
+ *   npx wrangler d1 execute DB --remote --file employee.sql
+ */
+
+import { webcrypto as crypto } from 'node:crypto';
+
+const PBKDF2_ITERATIONS = 100_000;
+const encoder = new TextEncoder();
+
+async function hashPassword(password, pepper) {
+  const hmacKey = await crypto.subtle.importKey('raw', encoder.encode(pepper), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const peppered = await crypto.subtle.sign('HMAC', hmacKey, encoder.encode(password));
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await crypto.subtle.importKey('raw', peppered, 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations: PBKDF2_ITERATIONS }, key, 256);
+  return ['pbkdf2-sha256', PBKDF2_ITERATIONS, Buffer.from(salt).toString('base64'), Buffer.from(bits).toString('base64')].join('$');
+}
+
+function sqlString(value) {
+  return `'${String(value).replace(/'/g, "''")}'`;
+}
+
+const [username, email, fullName] = process.argv.slice(2);
+const { PASSWORD_PEPPER, EMPLOYEE_PASSWORD } = process.env;
+
+if (!username || !email || !fullName) {
+  console.error('❌ Usage: node scripts/provision-employee.js <username> <email> "<Full Name>"');
+  process.exit(1);
+}
+if (!/^[a-zA-Z0-9._-]{3,20}$/.test(username)) {
+  console.error('❌ Username must be 3-20 characters (letters, numbers, dots, underscores, hyphens)');
+  process.exit(1);
+}
+if (!PASSWORD_PEPPER || !EMPLOYEE_PASSWORD) {
+  console.error('❌ PASSWORD_PEPPER and EMPLOYEE_PASSWORD must be set in the environment');
+  process.exit(1);
+}
+if (EMPLOYEE_PASSWORD.length < 12) {
+  console.error('❌ EMPLOYEE_PASSWORD must be at least 12 characters');
+  process.exit(1);
+}
+
+const now = new Date().toISOString();
+const passwordHash = await hashPassword(EMPLOYEE_PASSWORD, PASSWORD_PEPPER);
+
+console.log(
+  `INSERT INTO users (id, email, given_name, username, password_hash, role, created_at, updated_at) VALUES (` +
+  [crypto.randomUUID(), email.toLowerCase(), fullName.split(' ')[0], username, passwordHash, 'employee', now, now].map(sqlString).join(', ') +
+  `);`
+);
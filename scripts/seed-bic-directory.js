@@ -0,0 +1,79 @@
+#!/usr/bin/env node
+
+/**
+ * BIC Directory Seed Script
+ *
+ * Generates the SQL that loads a BIC directory CSV (bic,bank_name,city,country) into the
+ * bic_directory table. Rows are upserted, so re-running it with an updated file refreshes
+ * existing entries without touching codes that are not in the file.
+ *
+ * Usage:
+ *   node scripts/seed-bic-directory.js [path/to/directory.csv] > bic-directory.sql
+ *   npx wrangler d1 execute DB --remote --file bic-directory.sql
+ */
+
+import { readFileSync } from 'node:fs';
+
+const DEFAULT_DATASET = new URL('../data/bic-directory.csv', import.meta.url);
+const BIC_PATTERN = /^[A-Z]{6}[A-Z0-9]{2}([A-Z0-9]{3})?$/;
+
+function sqlString(value) {
+  return `'${String(value).replace(/'/g, "''")}'`;
+}
+
+// Splits one CSV line, honouring double-quoted fields (for bank names containing commas)
+function parseCsvLine(line) {
+  const fields = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+}
+
+const datasetPath = process.argv[2] ?? DEFAULT_DATASET;
+const [header, ...lines] = readFileSync(datasetPath, 'utf8').split(/\r?\n/).filter(line => line.trim());
+
+if (header.trim() !== 'bic,bank_name,city,country') {
+  console.error('❌ Expected a CSV header of: bic,bank_name,city,country');
+  process.exit(1);
+}
+
+const now = new Date().toISOString();
+const statements = [];
+
+lines.forEach((line, index) => {
+  const [bic, bankName, city, country] = parseCsvLine(line);
+  const normalizedBic = (bic ?? '').toUpperCase();
+  if (!BIC_PATTERN.test(normalizedBic) || !bankName || !city || !/^[A-Z]{2}$/.test(country ?? '')) {
+    console.error(`❌ Invalid row ${index + 2}: ${line}`);
+    process.exit(1);
+  }
+  statements.push(
+    `INSERT INTO bic_directory (bic, bank_name, city, country, updated_at) VALUES (` +
+    [normalizedBic, bankName, city, country, now].map(sqlString).join(', ') +
+    `) ON CONFLICT(bic) DO UPDATE SET bank_name = excluded.bank_name, city = excluded.city, country = excluded.country, updated_at = excluded.updated_at;`
+  );
+});
+
+console.log(statements.join('\n'));
+console.error(`✅ Generated ${statements.length} BIC directory entries`);
@@ -7,12 +7,16 @@ import Login from "@/pages/Login";
 import AuthCallback from "@/pages/AuthCallback";
 import Dashboard from "@/pages/Dashboard";
 import PaymentForm from "@/pages/PaymentForm";
+import BulkPayment from "@/pages/BulkPayment";
 import Profile from "@/pages/Profile";
 import Register from "@/pages/Register";
 import Privacy from "@/pages/Privacy";
 import Terms from "@/pages/Terms";
 import Contact from "@/pages/Contact";
 import ForgotPassword from "@/pages/ForgotPassword";
+import ResetPassword from "@/pages/ResetPassword";
+import EmployeeLogin from "@/pages/EmployeeLogin";
+import EmployeePayments from "@/pages/EmployeePayments";
 
 export default function App() {
   return (
@@ -27,11 +31,17 @@ export default function App() {
               <Route path="/auth/callback" element={<AuthCallback />} />
               <Route path="/dashboard" element={<Dashboard />} />
               <Route path="/payment" element={<PaymentForm />} />
+              <Route path="/payment/bulk" element={<BulkPayment />} />
               <Route path="/profile" element={<Profile />} />
               <Route path="/privacy" element={<Privacy />} />
               <Route path="/terms" element={<Terms />} />
               <Route path="/contact" element={<Contact />} />
               <Route path="/forgot-password" element={<ForgotPassword />} />
+              <Route path="/reset-password" element={<ResetPassword />} />
+              <Route path="/employee">
+                <Route index element={<EmployeePayments />} />
+                <Route path="login" element={<EmployeeLogin />} />
+              </Route>
             </Routes>
           </Router>
         </AuthProvider>
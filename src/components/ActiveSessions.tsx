@@ -0,0 +1,157 @@
+import { useState, useEffect, useCallback } from "react";
+import { AlertCircle, LogOut, Monitor, Smartphone } from "lucide-react";
+import { ConfirmDialog } from "./Dialog";
+import LoadingSpinner from "./LoadingSpinner";
+import type { ActiveSession } from "@/shared/types";
+
+function isMobile(session: ActiveSession) {
+  return /iPhone|iPad|Android/.test(session.device_label ?? "");
+}
+
+// Where the account is signed in, for the Profile security tab. Like TwoFactorSettings it sits inside the
+// Profile form, so its buttons are all type="button".
+export default function ActiveSessions() {
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [confirmRevokeOthers, setConfirmRevokeOthers] = useState(false);
+
+  const fetchSessions = useCallback(async () => {
+    try {
+      const response = await fetch("/api/sessions");
+      if (!response.ok) {
+        throw new Error("Failed to load sessions");
+      }
+      setSessions(await response.json());
+    } catch (error) {
+      console.error("Failed to fetch sessions:", error);
+      setError("Failed to load your active sessions.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSessions();
+  }, [fetchSessions]);
+
+  const handleRevoke = async (session: ActiveSession) => {
+    setRevokingId(session.id);
+    setError(null);
+    try {
+      const response = await fetch(`/api/sessions/${session.id}`, { method: "DELETE" });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Failed to sign out the session");
+      }
+      setSessions(prev => prev.filter(s => s.id !== session.id));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to sign out the session. Please try again.");
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    setError(null);
+    try {
+      const response = await fetch("/api/sessions/revoke-others", { method: "POST" });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Failed to sign out other devices");
+      }
+      setSessions(prev => prev.filter(s => s.current));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to sign out other devices. Please try again.");
+    }
+  };
+
+  const otherSessions = sessions.filter(s => !s.current).length;
+
+  return (
+    <div className="p-4 border border-slate-200 rounded-lg">
+      <div className="flex items-start space-x-3">
+        <Monitor className="w-5 h-5 text-blue-600 mt-0.5" />
+        <div className="flex-1">
+          <h3 className="font-medium text-slate-900">Active Sessions</h3>
+          <p className="text-sm text-slate-600 mt-1">
+            Devices signed in to your account. If you don't recognise one, sign it out and change your password.
+          </p>
+
+          {error && (
+            <p className="mt-3 flex items-center text-sm text-red-600">
+              <AlertCircle className="w-4 h-4 mr-1" /> {error}
+            </p>
+          )}
+
+          {isLoading ? (
+            <div className="flex justify-center py-4">
+              <LoadingSpinner />
+            </div>
+          ) : (
+            <ul className="mt-4 divide-y divide-slate-200 border border-slate-200 rounded-md">
+              {sessions.map(session => {
+                const DeviceIcon = isMobile(session) ? Smartphone : Monitor;
+                return (
+                  <li key={session.id} className="flex items-center justify-between px-3 py-2">
+                    <div className="flex items-start space-x-3">
+                      <DeviceIcon className="w-4 h-4 text-slate-400 mt-0.5" />
+                      <div>
+                        <p className="text-sm font-medium text-slate-900" title={session.user_agent ?? undefined}>
+                          {session.device_label ?? "Unknown device"}
+                          {session.current && (
+                            <span className="ml-2 px-2 py-0.5 text-xs font-medium bg-green-100 text-green-800 rounded-full">
+                              This device
+                            </span>
+                          )}
+                        </p>
+                        <p className="text-xs text-slate-500">
+                          {session.ip_address ?? "Unknown IP"}
+                          {" · "}
+                          {session.current ? "Active now" : `Last active ${new Date(session.last_seen_at).toLocaleString()}`}
+                          {" · "}
+                          Signed in {new Date(session.created_at).toLocaleDateString()}
+                        </p>
+                      </div>
+                    </div>
+                    {!session.current && (
+                      <button
+                        type="button"
+                        onClick={() => handleRevoke(session)}
+                        disabled={revokingId === session.id}
+                        className="px-3 py-1 text-sm text-red-700 border border-red-300 rounded-md hover:bg-red-50 disabled:opacity-50"
+                      >
+                        {revokingId === session.id ? <LoadingSpinner size="sm" /> : "Sign out"}
+                      </button>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          {otherSessions > 0 && (
+            <button
+              type="button"
+              onClick={() => setConfirmRevokeOthers(true)}
+              className="mt-4 inline-flex items-center px-4 py-2 text-sm border border-red-300 rounded-md text-red-700 bg-white hover:bg-red-50"
+            >
+              <LogOut className="w-4 h-4 mr-1" /> Sign Out of All Other Devices
+            </button>
+          )}
+        </div>
+      </div>
+
+      <ConfirmDialog
+        isOpen={confirmRevokeOthers}
+        onClose={() => setConfirmRevokeOthers(false)}
+        onConfirm={handleRevokeOthers}
+        title="Sign Out of All Other Devices"
+        message={`${otherSessions} other session${otherSessions === 1 ? "" : "s"} will be signed out. You will stay signed in on this device.`}
+        confirmText="Sign Out"
+        confirmVariant="danger"
+      />
+    </div>
+  );
+}
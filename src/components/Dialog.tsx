@@ -34,6 +34,7 @@ export default function Dialog({
             <h3 className="text-lg font-medium text-slate-900">{title}</h3>
             {showCloseButton && (
               <button
+                type="button"
                 onClick={onClose}
                 className="text-slate-400 hover:text-slate-600 transition-colors"
               >
@@ -60,6 +61,7 @@ interface ConfirmDialogProps {
   confirmText?: string;
   cancelText?: string;
   confirmVariant?: "primary" | "danger";
+  children?: ReactNode;
 }
 
 export function ConfirmDialog({
@@ -70,7 +72,8 @@ export function ConfirmDialog({
   message,
   confirmText = "Confirm",
   cancelText = "Cancel",
-  confirmVariant = "primary"
+  confirmVariant = "primary",
+  children
 }: ConfirmDialogProps) {
   const confirmButtonClass = confirmVariant === "danger"
     ? "bg-red-600 hover:bg-red-700 text-white"
@@ -80,15 +83,18 @@ export function ConfirmDialog({
     <Dialog isOpen={isOpen} onClose={onClose} title={title} showCloseButton={false}>
       <div className="space-y-4">
         <p className="text-slate-600">{message}</p>
+        {children}
         
         <div className="flex space-x-3 justify-end">
           <button
+            type="button"
             onClick={onClose}
             className="px-4 py-2 text-sm font-medium text-slate-700 bg-slate-100 hover:bg-slate-200 rounded-md transition-colors"
           >
             {cancelText}
           </button>
           <button
+            type="button"
             onClick={() => {
               onConfirm();
               onClose();
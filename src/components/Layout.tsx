@@ -3,7 +3,7 @@ import { Link, useLocation } from "react-router";
 import { useAuth } from "@/contexts/AuthContext";
 import { useTheme } from "@/contexts/ThemeContext";
 import { useTranslation } from "react-i18next";
-import { Shield, LogOut, CreditCard, User, BarChart3, Sun, Moon, Monitor, Bell, MessageSquare, HelpCircle } from "lucide-react";
+import { Shield, LogOut, CreditCard, User, BarChart3, Sun, Moon, Monitor, Bell, MessageSquare, HelpCircle, ClipboardCheck, FileSpreadsheet } from "lucide-react";
 import NotificationCenter from "./NotificationCenter";
 import LiveChat from "./LiveChat";
 import SupportTickets from "./SupportTickets";
@@ -61,11 +61,16 @@ export default function Layout({ children, showSidebar = false }: LayoutProps) {
     localStorage.setItem('lang', newLang);
   };
 
-  const sidebarItems = [
-    { icon: BarChart3, label: t('dashboard'), path: "/dashboard" },
-    { icon: CreditCard, label: t('new_payment') || 'New Payment', path: "/payment" },
-    { icon: User, label: t('profile'), path: "/profile" },
-  ];
+  const sidebarItems = user?.role === 'employee'
+    ? [
+      { icon: ClipboardCheck, label: t('payment_verification') || 'Payment Verification', path: "/employee" },
+    ]
+    : [
+      { icon: BarChart3, label: t('dashboard'), path: "/dashboard" },
+      { icon: CreditCard, label: t('new_payment') || 'New Payment', path: "/payment" },
+      { icon: FileSpreadsheet, label: t('bulk_payments') || 'Bulk Payments', path: "/payment/bulk" },
+      { icon: User, label: t('profile'), path: "/profile" },
+    ];
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50 dark:from-slate-900 dark:to-slate-800">
@@ -157,7 +162,7 @@ export default function Layout({ children, showSidebar = false }: LayoutProps) {
                   </div>
 
                   <span className="text-sm text-slate-600 dark:text-slate-300">
-                    {t('welcome')}, {user.google_user_data?.given_name || user.email}
+                    {t('welcome')}, {user.given_name || user.email}
                   </span>
                   <button
                     onClick={handleLogout}
@@ -0,0 +1,240 @@
+import { useState, useEffect, useCallback } from "react";
+import { AlertCircle, Cloud, Fingerprint, Trash2 } from "lucide-react";
+import Dialog, { ConfirmDialog } from "./Dialog";
+import LoadingSpinner from "./LoadingSpinner";
+import StepUpDialog from "./StepUpDialog";
+import { FormField, Input } from "./FormField";
+import { PasskeyRegistrationSchema, STEP_UP_REQUIRED, type Passkey } from "@/shared/types";
+import { PasskeyCancelledError, createPasskey, isPasskeySupported } from "@/webauthn";
+
+// A name the customer will recognise the device by, from the browser they are adding it on
+function suggestPasskeyName() {
+  const platform = navigator.userAgent;
+  if (/iPhone|iPad/.test(platform)) return "iPhone or iPad";
+  if (/Android/.test(platform)) return "Android phone";
+  if (/Mac OS X/.test(platform)) return "Mac";
+  if (/Windows/.test(platform)) return "Windows PC";
+  return "My passkey";
+}
+
+// Passkeys for signing in without a password, for the Profile security tab. Like TwoFactorSettings it sits
+// inside the Profile form, so it uses plain buttons rather than forms of its own.
+export default function PasskeySettings() {
+  const [passkeys, setPasskeys] = useState<Passkey[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  const [newName, setNewName] = useState("");
+  const [nameError, setNameError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [showStepUp, setShowStepUp] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<Passkey | null>(null);
+
+  const fetchPasskeys = useCallback(async () => {
+    try {
+      const response = await fetch("/api/auth/passkeys");
+      if (!response.ok) {
+        throw new Error("Failed to load passkeys");
+      }
+      setPasskeys(await response.json());
+    } catch (error) {
+      console.error("Failed to fetch passkeys:", error);
+      setError("Failed to load your passkeys.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPasskeys();
+  }, [fetchPasskeys]);
+
+  const openAdd = () => {
+    setNewName(suggestPasskeyName());
+    setNameError(null);
+    setIsAdding(true);
+  };
+
+  const handleAdd = async () => {
+    const name = PasskeyRegistrationSchema.shape.name.safeParse(newName);
+    if (!name.success) {
+      setNameError(name.error.issues[0]?.message || "Name your passkey");
+      return;
+    }
+
+    setIsWorking(true);
+    setNameError(null);
+    try {
+      const optionsResponse = await fetch("/api/auth/passkeys/options", { method: "POST" });
+      const options = await optionsResponse.json().catch(() => ({}));
+      if (!optionsResponse.ok) {
+        if (options.code === STEP_UP_REQUIRED) {
+          setShowStepUp(true);
+          return;
+        }
+        throw new Error(options.error || "Could not add a passkey");
+      }
+
+      const credential = await createPasskey(options);
+      const response = await fetch("/api/auth/passkeys", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: name.data, credential }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || "Could not add a passkey");
+      }
+      setIsAdding(false);
+      fetchPasskeys();
+    } catch (error) {
+      if (!(error instanceof PasskeyCancelledError)) {
+        setNameError(error instanceof Error ? error.message : "Could not add a passkey. Please try again.");
+      }
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleDelete = async (passkey: Passkey) => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/auth/passkeys/${encodeURIComponent(passkey.id)}`, { method: "DELETE" });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Failed to remove passkey");
+      }
+      setPasskeys(prev => prev.filter(p => p.id !== passkey.id));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to remove passkey. Please try again.");
+    }
+  };
+
+  if (!isPasskeySupported()) {
+    return null;
+  }
+
+  return (
+    <div className="p-4 border border-slate-200 rounded-lg">
+      <div className="flex items-start space-x-3">
+        <Fingerprint className="w-5 h-5 text-blue-600 mt-0.5" />
+        <div className="flex-1">
+          <h3 className="font-medium text-slate-900">Passkeys</h3>
+          <p className="text-sm text-slate-600 mt-1">
+            Sign in with your fingerprint, face or device PIN instead of your password. A passkey also counts as your second factor.
+          </p>
+
+          {error && (
+            <p className="mt-3 flex items-center text-sm text-red-600">
+              <AlertCircle className="w-4 h-4 mr-1" /> {error}
+            </p>
+          )}
+
+          {isLoading ? (
+            <div className="flex justify-center py-4">
+              <LoadingSpinner />
+            </div>
+          ) : passkeys.length > 0 && (
+            <ul className="mt-4 divide-y divide-slate-200 border border-slate-200 rounded-md">
+              {passkeys.map(passkey => (
+                <li key={passkey.id} className="flex items-center justify-between px-3 py-2">
+                  <div>
+                    <p className="text-sm font-medium text-slate-900 flex items-center">
+                      {passkey.name}
+                      {passkey.backed_up && (
+                        <span title="Synced to your other devices">
+                          <Cloud className="w-4 h-4 ml-2 text-slate-400" />
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-xs text-slate-500">
+                      Added {new Date(passkey.created_at).toLocaleDateString()}
+                      {" · "}
+                      {passkey.last_used_at ? `Last used ${new Date(passkey.last_used_at).toLocaleDateString()}` : "Never used"}
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => setDeleteTarget(passkey)}
+                    className="p-2 text-slate-400 hover:text-red-600"
+                    title="Remove passkey"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <button
+            type="button"
+            onClick={openAdd}
+            className="mt-4 px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700"
+          >
+            Add a Passkey
+          </button>
+        </div>
+      </div>
+
+      <Dialog isOpen={isAdding} onClose={() => setIsAdding(false)} title="Add a Passkey">
+        <div className="space-y-4">
+          <p className="text-sm text-slate-600">
+            Your browser will ask you to create a passkey with this device, or with a phone or security key.
+          </p>
+          <FormField label="Name" error={nameError ?? undefined} required>
+            <Input
+              type="text"
+              value={newName}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewName(e.target.value)}
+              maxLength={50}
+              autoFocus
+              onKeyDown={(e: React.KeyboardEvent<HTMLInputElement>) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  handleAdd();
+                }
+              }}
+            />
+          </FormField>
+          <div className="flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={() => setIsAdding(false)}
+              className="px-4 py-2 text-slate-700 bg-slate-100 rounded-lg hover:bg-slate-200 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleAdd}
+              disabled={isWorking}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {isWorking ? <LoadingSpinner size="sm" /> : "Continue"}
+            </button>
+          </div>
+        </div>
+      </Dialog>
+
+      <StepUpDialog
+        isOpen={showStepUp}
+        onClose={() => setShowStepUp(false)}
+        onVerified={() => {
+          setShowStepUp(false);
+          handleAdd();
+        }}
+        message="Enter a code from your authenticator app, or a recovery code, before adding a passkey."
+      />
+
+      <ConfirmDialog
+        isOpen={deleteTarget !== null}
+        onClose={() => setDeleteTarget(null)}
+        onConfirm={() => deleteTarget && handleDelete(deleteTarget)}
+        title="Remove Passkey"
+        message={`You will no longer be able to sign in with "${deleteTarget?.name ?? ""}". Remove it from the device's password manager as well.`}
+        confirmText="Remove"
+        confirmVariant="danger"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import { getPasswordStrength } from "@/shared/types";
+
+interface PasswordStrengthMeterProps {
+  password: string;
+}
+
+const SCORE_COLORS = ["bg-red-500", "bg-orange-500", "bg-yellow-500", "bg-blue-500", "bg-green-500"];
+
+export default function PasswordStrengthMeter({ password }: PasswordStrengthMeterProps) {
+  const { score, label } = getPasswordStrength(password);
+
+  if (!password) return null;
+
+  return (
+    <div className="space-y-1" aria-live="polite">
+      <div className="flex space-x-1">
+        {[0, 1, 2, 3].map((segment) => (
+          <div
+            key={segment}
+            className={`h-1.5 flex-1 rounded-full ${segment < Math.max(score, 1) ? SCORE_COLORS[score] : "bg-slate-200"}`}
+          />
+        ))}
+      </div>
+      <p className="text-xs text-slate-600">
+        Password strength: <span className="font-medium">{label}</span>
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import { useState, useEffect } from "react";
+import { useTranslation } from "react-i18next";
+import { AlertCircle } from "lucide-react";
+import LoadingSpinner from "./LoadingSpinner";
+import { PAYMENT_STATUS_LABELS, PaymentTimeline as PaymentTimelineData } from "@/shared/types";
+
+interface PaymentTimelineProps {
+  transactionId: string;
+}
+
+const ACTOR_LABELS = {
+  customer: "You",
+  employee: "SecurePay staff",
+  system: "System",
+} as const;
+
+const STATUS_DOT_COLORS: Record<string, string> = {
+  Pending: "bg-yellow-500",
+  Verified: "bg-blue-500",
+  RecallRequested: "bg-orange-500",
+  Sent: "bg-green-500",
+  Failed: "bg-red-500",
+  Rejected: "bg-red-500",
+  Cancelled: "bg-slate-500",
+};
+
+export default function PaymentTimeline({ transactionId }: PaymentTimelineProps) {
+  const { i18n } = useTranslation();
+  const [timeline, setTimeline] = useState<PaymentTimelineData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const fetchTimeline = async () => {
+      setTimeline(null);
+      setError(null);
+      try {
+        const response = await fetch(`/api/transactions/${encodeURIComponent(transactionId)}/timeline`);
+        if (!response.ok) {
+          throw new Error("Failed to load timeline");
+        }
+        const data = await response.json();
+        if (!cancelled) setTimeline(data);
+      } catch (error) {
+        console.error("Failed to fetch timeline:", error);
+        if (!cancelled) setError("Failed to load payment history.");
+      }
+    };
+
+    fetchTimeline();
+    return () => {
+      cancelled = true;
+    };
+  }, [transactionId]);
+
+  const formatDate = (date: string) => {
+    return new Intl.DateTimeFormat(i18n.language, { dateStyle: 'medium', timeStyle: 'short' }).format(new Date(date));
+  };
+
+  if (error) {
+    return (
+      <div className="flex items-center text-red-700 text-sm">
+        <AlertCircle className="w-4 h-4 mr-2" />
+        {error}
+      </div>
+    );
+  }
+
+  if (!timeline) {
+    return <LoadingSpinner className="py-6" />;
+  }
+
+  return (
+    <ol className="relative border-l border-slate-200 ml-2 space-y-4">
+      {timeline.events.map((event) => (
+        <li key={event.id} className="ml-4">
+          <span className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full ${STATUS_DOT_COLORS[event.to_status] ?? "bg-gray-400"}`} />
+          <p className="text-sm font-semibold text-slate-900">{PAYMENT_STATUS_LABELS[event.to_status] ?? event.to_status}</p>
+          <p className="text-xs text-slate-500">
+            {formatDate(event.created_at)} · {ACTOR_LABELS[event.actor_role]}
+          </p>
+          {event.reason && <p className="text-sm text-slate-600 mt-1">{event.reason}</p>}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,386 @@
+import { useState, useEffect, useCallback } from "react";
+import { Link } from "react-router";
+import { useTranslation } from "react-i18next";
+import { AlertCircle, AlertTriangle, CalendarClock, Pause, Pencil, Play, Plus, XCircle } from "lucide-react";
+import Dialog, { ConfirmDialog } from "./Dialog";
+import LoadingSpinner from "./LoadingSpinner";
+import StepUpDialog from "./StepUpDialog";
+import { FormField, Input, Select } from "./FormField";
+import {
+  SCHEDULE_FREQUENCY_LABELS,
+  STEP_UP_REQUIRED,
+  ScheduledPaymentUpdateSchema,
+  type ScheduledPayment,
+  type ScheduleFrequency,
+} from "@/shared/types";
+
+const STATUS_COLORS: Record<ScheduledPayment["status"], string> = {
+  Active: "bg-green-100 text-green-800",
+  Paused: "bg-yellow-100 text-yellow-800",
+  Completed: "bg-slate-100 text-slate-700",
+  Cancelled: "bg-red-100 text-red-800",
+};
+
+type EditForm = {
+  amount: string;
+  reference: string;
+  frequency: ScheduleFrequency;
+  start_date: string;
+  end_type: "never" | "date" | "count";
+  end_date: string;
+  max_runs: string;
+};
+
+function toEditForm(schedule: ScheduledPayment): EditForm {
+  return {
+    amount: String(schedule.amount),
+    reference: schedule.reference ?? "",
+    frequency: schedule.frequency,
+    start_date: schedule.start_date,
+    end_type: schedule.end_date ? "date" : schedule.max_runs ? "count" : "never",
+    end_date: schedule.end_date ?? "",
+    max_runs: schedule.max_runs ? String(schedule.max_runs) : "",
+  };
+}
+
+export default function ScheduledPayments() {
+  const { i18n } = useTranslation();
+  const [schedules, setSchedules] = useState<ScheduledPayment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [cancelTarget, setCancelTarget] = useState<ScheduledPayment | null>(null);
+  const [editTarget, setEditTarget] = useState<ScheduledPayment | null>(null);
+  const [editForm, setEditForm] = useState<EditForm | null>(null);
+  const [editError, setEditError] = useState<string | null>(null);
+  const [showStepUp, setShowStepUp] = useState(false);
+
+  const fetchSchedules = useCallback(async () => {
+    try {
+      const response = await fetch("/api/scheduled-payments");
+      if (!response.ok) {
+        throw new Error("Failed to load scheduled payments");
+      }
+      setSchedules(await response.json());
+    } catch (error) {
+      console.error("Failed to fetch scheduled payments:", error);
+      setError("Failed to load scheduled payments.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSchedules();
+  }, [fetchSchedules]);
+
+  const replaceSchedule = (updated: ScheduledPayment) => {
+    setSchedules(prev => updated.status === "Cancelled"
+      ? prev.filter(s => s.id !== updated.id)
+      : prev.map(s => (s.id === updated.id ? updated : s)));
+  };
+
+  const runAction = useCallback(async (schedule: ScheduledPayment, action: "pause" | "resume" | "cancel") => {
+    setBusyId(schedule.id);
+    setError(null);
+    try {
+      const response = await fetch(`/api/scheduled-payments/${schedule.id}/${action}`, { method: "POST" });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(result.error || `Failed to ${action} scheduled payment`);
+      }
+      replaceSchedule(result.data);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : `Failed to ${action} scheduled payment`);
+    } finally {
+      setBusyId(null);
+    }
+  }, []);
+
+  const openEdit = (schedule: ScheduledPayment) => {
+    setEditTarget(schedule);
+    setEditForm(toEditForm(schedule));
+    setEditError(null);
+  };
+
+  const handleEditChange = (field: keyof EditForm, value: string) => {
+    setEditForm(prev => (prev ? { ...prev, [field]: value } : prev));
+    setEditError(null);
+  };
+
+  const handleSaveEdit = useCallback(async () => {
+    if (!editTarget || !editForm) return;
+
+    const result = ScheduledPaymentUpdateSchema.safeParse({
+      amount: parseFloat(editForm.amount),
+      currency: editTarget.currency,
+      recipient_account: editTarget.recipient_account,
+      swift_code: editTarget.swift_code,
+      reference: editForm.reference || undefined,
+      frequency: editForm.frequency,
+      // The stored start date, and with it the next payment, is kept unless the customer changes it
+      start_date: editForm.start_date !== editTarget.start_date ? editForm.start_date : undefined,
+      end_date: editForm.frequency !== "once" && editForm.end_type === "date" ? editForm.end_date : undefined,
+      max_runs: editForm.frequency !== "once" && editForm.end_type === "count" ? parseInt(editForm.max_runs, 10) : undefined,
+    });
+    if (!result.success) {
+      setEditError(result.error.issues[0]?.message || "Invalid schedule");
+      return;
+    }
+
+    setBusyId(editTarget.id);
+    try {
+      const response = await fetch(`/api/scheduled-payments/${editTarget.id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(result.data),
+      });
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        if (body.code === STEP_UP_REQUIRED) {
+          // Saved again once verified
+          setShowStepUp(true);
+          return;
+        }
+        throw new Error(body.error || "Failed to update scheduled payment");
+      }
+      replaceSchedule(body.data);
+      setEditTarget(null);
+    } catch (error) {
+      setEditError(error instanceof Error ? error.message : "Failed to update scheduled payment");
+    } finally {
+      setBusyId(null);
+    }
+  }, [editTarget, editForm]);
+
+  const formatCurrency = (amount: number, currency: string) => {
+    return new Intl.NumberFormat(i18n.language, { style: 'currency', currency }).format(amount);
+  };
+
+  const formatDate = (date: string) => {
+    return new Intl.DateTimeFormat(i18n.language, { dateStyle: 'medium', timeZone: 'UTC' }).format(new Date(`${date}T00:00:00Z`));
+  };
+
+  const describeEnd = (schedule: ScheduledPayment) => {
+    if (schedule.frequency === "once") return "—";
+    if (schedule.end_date) return `Until ${formatDate(schedule.end_date)}`;
+    if (schedule.max_runs) return `${schedule.run_count} of ${schedule.max_runs} sent`;
+    return "Until cancelled";
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center">
+          <CalendarClock className="w-5 h-5 text-blue-600 mr-2" />
+          <h2 className="text-xl font-semibold text-slate-900 dark:text-white">Scheduled Payments</h2>
+        </div>
+        <Link to="/payment" className="inline-flex items-center text-sm text-blue-600 dark:text-blue-400 hover:underline">
+          <Plus className="w-4 h-4 mr-1" /> Schedule a payment
+        </Link>
+      </div>
+
+      {error && (
+        <div className="mb-4 flex items-center text-sm text-red-700">
+          <AlertCircle className="w-4 h-4 mr-2" />
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <LoadingSpinner size="md" />
+        </div>
+      ) : schedules.length === 0 ? (
+        <p className="text-slate-500">No scheduled payments.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-slate-200 dark:border-slate-700">
+                <th className="text-left py-3 px-4 font-medium text-slate-500">Next Payment</th>
+                <th className="text-left py-3 px-4 font-medium text-slate-500">Amount</th>
+                <th className="text-left py-3 px-4 font-medium text-slate-500">Recipient</th>
+                <th className="text-left py-3 px-4 font-medium text-slate-500">Frequency</th>
+                <th className="text-left py-3 px-4 font-medium text-slate-500">Ends</th>
+                <th className="text-left py-3 px-4 font-medium text-slate-500">Status</th>
+                <th className="text-right py-3 px-4 font-medium text-slate-500">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {schedules.map((schedule) => {
+                const isEditable = schedule.status === "Active" || schedule.status === "Paused";
+                return (
+                  <tr key={schedule.id} className="border-b border-slate-100 dark:border-slate-700">
+                    <td className="py-4 px-4 text-sm text-slate-900 dark:text-white">
+                      {schedule.status === "Completed" ? "—" : formatDate(schedule.next_run_date)}
+                    </td>
+                    <td className="py-4 px-4 font-semibold text-slate-900 dark:text-white">
+                      {formatCurrency(schedule.amount, schedule.currency)}
+                    </td>
+                    <td className="py-4 px-4 text-sm text-slate-900 dark:text-white">
+                      {schedule.recipient_account.length > 4 ? `****${schedule.recipient_account.slice(-4)}` : schedule.recipient_account}
+                      <span className="ml-2 font-mono text-slate-500">{schedule.swift_code}</span>
+                    </td>
+                    <td className="py-4 px-4 text-sm text-slate-600 dark:text-slate-400">{SCHEDULE_FREQUENCY_LABELS[schedule.frequency]}</td>
+                    <td className="py-4 px-4 text-sm text-slate-600 dark:text-slate-400">{describeEnd(schedule)}</td>
+                    <td className="py-4 px-4">
+                      <div className="flex items-center space-x-2">
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_COLORS[schedule.status]}`}>{schedule.status}</span>
+                        {schedule.last_error && (
+                          <span title={`Last payment failed: ${schedule.last_error}`}>
+                            <AlertTriangle className="w-4 h-4 text-orange-500" />
+                          </span>
+                        )}
+                      </div>
+                    </td>
+                    <td className="py-4 px-4">
+                      {isEditable && (
+                        <div className="flex justify-end space-x-2">
+                          {busyId === schedule.id ? (
+                            <LoadingSpinner size="sm" />
+                          ) : (
+                            <>
+                              {schedule.status === "Active" ? (
+                                <button onClick={() => runAction(schedule, "pause")} title="Pause" className="p-1 text-slate-600 hover:text-slate-900 dark:text-slate-300">
+                                  <Pause className="w-4 h-4" />
+                                </button>
+                              ) : (
+                                <button onClick={() => runAction(schedule, "resume")} title="Resume" className="p-1 text-slate-600 hover:text-slate-900 dark:text-slate-300">
+                                  <Play className="w-4 h-4" />
+                                </button>
+                              )}
+                              <button onClick={() => openEdit(schedule)} title="Edit" className="p-1 text-slate-600 hover:text-slate-900 dark:text-slate-300">
+                                <Pencil className="w-4 h-4" />
+                              </button>
+                              <button onClick={() => setCancelTarget(schedule)} title="Cancel" className="p-1 text-red-600 hover:text-red-800">
+                                <XCircle className="w-4 h-4" />
+                              </button>
+                            </>
+                          )}
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <ConfirmDialog
+        isOpen={cancelTarget !== null}
+        onClose={() => setCancelTarget(null)}
+        onConfirm={() => cancelTarget && runAction(cancelTarget, "cancel")}
+        title="Cancel Scheduled Payment"
+        message="No further payments will be made from this schedule. Payments already sent are not affected."
+        confirmText="Cancel Schedule"
+        cancelText="Keep Schedule"
+        confirmVariant="danger"
+      />
+
+      <Dialog
+        isOpen={editTarget !== null && editForm !== null}
+        onClose={() => setEditTarget(null)}
+        title="Edit Scheduled Payment"
+      >
+        {editTarget && editForm && (
+          <div className="space-y-4">
+            <FormField label={`Amount (${editTarget.currency})`} required>
+              <Input
+                type="number"
+                step="0.01"
+                min="0.01"
+                value={editForm.amount}
+                onChange={(e) => handleEditChange("amount", e.target.value)}
+              />
+            </FormField>
+            <FormField label="Reference">
+              <Input
+                type="text"
+                value={editForm.reference}
+                onChange={(e) => handleEditChange("reference", e.target.value)}
+              />
+            </FormField>
+            <FormField label="Frequency" required>
+              <Select
+                value={editForm.frequency}
+                onChange={(e) => handleEditChange("frequency", e.target.value)}
+                options={Object.entries(SCHEDULE_FREQUENCY_LABELS).map(([value, label]) => ({ value, label }))}
+              />
+            </FormField>
+            <FormField label={editForm.frequency === "once" ? "Payment Date" : "Start Date"} required>
+              <Input
+                type="date"
+                value={editForm.start_date}
+                onChange={(e) => handleEditChange("start_date", e.target.value)}
+              />
+            </FormField>
+            {editForm.frequency !== "once" && (
+              <>
+                <FormField label="Ends">
+                  <Select
+                    value={editForm.end_type}
+                    onChange={(e) => handleEditChange("end_type", e.target.value)}
+                    options={[
+                      { value: "never", label: "Until I cancel it" },
+                      { value: "date", label: "On a date" },
+                      { value: "count", label: "After a number of payments" },
+                    ]}
+                  />
+                </FormField>
+                {editForm.end_type === "date" && (
+                  <FormField label="End Date" required>
+                    <Input
+                      type="date"
+                      value={editForm.end_date}
+                      onChange={(e) => handleEditChange("end_date", e.target.value)}
+                    />
+                  </FormField>
+                )}
+                {editForm.end_type === "count" && (
+                  <FormField label="Number of Payments" required>
+                    <Input
+                      type="number"
+                      min="1"
+                      step="1"
+                      value={editForm.max_runs}
+                      onChange={(e) => handleEditChange("max_runs", e.target.value)}
+                    />
+                  </FormField>
+                )}
+              </>
+            )}
+            {editError && <p className="text-sm text-red-600">{editError}</p>}
+            <div className="flex space-x-3 justify-end">
+              <button
+                onClick={() => setEditTarget(null)}
+                className="px-4 py-2 text-sm font-medium text-slate-700 bg-slate-100 hover:bg-slate-200 rounded-md transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSaveEdit}
+                disabled={busyId === editTarget.id}
+                className="px-4 py-2 text-sm font-medium rounded-md transition-colors bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+              >
+                Save Changes
+              </button>
+            </div>
+          </div>
+        )}
+      </Dialog>
+
+      <StepUpDialog
+        isOpen={showStepUp}
+        onClose={() => setShowStepUp(false)}
+        onVerified={() => {
+          setShowStepUp(false);
+          handleSaveEdit();
+        }}
+        message="This is a large payment. Enter the 6-digit code from your authenticator app, or a recovery code, to save it."
+      />
+    </div>
+  );
+}
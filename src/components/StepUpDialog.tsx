@@ -0,0 +1,105 @@
+import { useState } from "react";
+import { AlertCircle } from "lucide-react";
+import Dialog from "./Dialog";
+import LoadingSpinner from "./LoadingSpinner";
+import { FormField, Input } from "./FormField";
+import { TwoFactorCodeSchema } from "@/shared/types";
+
+interface StepUpDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Called once the session has proven the second factor; retry the action that asked for it
+  onVerified: () => void;
+  message?: string;
+}
+
+// Asks for an authenticator or recovery code when the worker answers 403 STEP_UP_REQUIRED. It has no form of
+// its own, as it is also opened from inside the Profile form.
+export default function StepUpDialog({ isOpen, onClose, onVerified, message }: StepUpDialogProps) {
+  const [code, setCode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  const close = () => {
+    setCode("");
+    setError(null);
+    onClose();
+  };
+
+  const handleVerify = async () => {
+    const result = TwoFactorCodeSchema.safeParse({ code });
+    if (!result.success) {
+      setError(result.error.issues[0]?.message || "Enter your code");
+      return;
+    }
+
+    setIsVerifying(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/auth/step-up", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(result.data),
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Verification failed");
+      }
+      setCode("");
+      onVerified();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Verification failed. Please try again.");
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  return (
+    <Dialog isOpen={isOpen} onClose={close} title="Confirm It's You">
+      <div className="space-y-4">
+        <p className="text-sm text-slate-600">
+          {message ?? "Enter the 6-digit code from your authenticator app, or one of your recovery codes, to continue."}
+        </p>
+        <FormField label="Authentication Code" required>
+          <Input
+            type="text"
+            value={code}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCode(e.target.value)}
+            placeholder="123456"
+            autoComplete="one-time-code"
+            autoFocus
+            maxLength={20}
+            onKeyDown={(e: React.KeyboardEvent<HTMLInputElement>) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                handleVerify();
+              }
+            }}
+          />
+        </FormField>
+        {error && (
+          <p className="flex items-center text-sm text-red-600">
+            <AlertCircle className="w-4 h-4 mr-1" /> {error}
+          </p>
+        )}
+        <div className="flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={close}
+            className="px-4 py-2 text-slate-700 bg-slate-100 rounded-lg hover:bg-slate-200 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleVerify}
+            disabled={isVerifying}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {isVerifying ? <LoadingSpinner size="sm" /> : "Verify"}
+          </button>
+        </div>
+      </div>
+    </Dialog>
+  );
+}
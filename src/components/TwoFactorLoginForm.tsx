@@ -0,0 +1,88 @@
+import { useState } from "react";
+import { AlertCircle, KeyRound } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import LoadingSpinner from "./LoadingSpinner";
+import { FormField, Input } from "./FormField";
+import { TwoFactorCodeSchema, type TwoFactorChallenge } from "@/shared/types";
+
+interface TwoFactorLoginFormProps {
+  challenge: TwoFactorChallenge;
+  onVerified: () => void;
+  // Goes back to the password step, e.g. when the challenge has expired
+  onCancel: () => void;
+}
+
+// Second step of signing in to an account with two-factor authentication
+export default function TwoFactorLoginForm({ challenge, onVerified, onCancel }: TwoFactorLoginFormProps) {
+  const { verifyTwoFactorLogin } = useAuth();
+  const [code, setCode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = TwoFactorCodeSchema.safeParse({ code });
+    if (!result.success) {
+      setError(result.error.issues[0]?.message || "Enter your code");
+      return;
+    }
+
+    setIsVerifying(true);
+    setError(null);
+    try {
+      await verifyTwoFactorLogin(challenge.challenge_token, result.data.code);
+      onVerified();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Verification failed. Please try again.");
+      setCode("");
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="flex items-start space-x-3 p-3 bg-blue-50 rounded-lg">
+        <KeyRound className="w-5 h-5 text-blue-600 mt-0.5" />
+        <p className="text-sm text-blue-800">
+          Enter the 6-digit code from your authenticator app. If you no longer have your phone, enter one of your recovery codes.
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg flex items-center">
+          <AlertCircle className="w-5 h-5 text-red-600 mr-2" />
+          <span className="text-sm text-red-800">{error}</span>
+        </div>
+      )}
+
+      <FormField label="Authentication Code" required>
+        <Input
+          type="text"
+          value={code}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCode(e.target.value)}
+          placeholder="123456"
+          autoComplete="one-time-code"
+          autoFocus
+          maxLength={20}
+        />
+      </FormField>
+
+      <button
+        type="submit"
+        disabled={isVerifying}
+        className="w-full flex items-center justify-center px-4 py-3 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+      >
+        {isVerifying ? <LoadingSpinner size="sm" /> : "Verify"}
+      </button>
+
+      <button
+        type="button"
+        onClick={onCancel}
+        className="w-full text-sm font-medium text-blue-600 hover:text-blue-500 transition-colors"
+      >
+        Start again
+      </button>
+    </form>
+  );
+}
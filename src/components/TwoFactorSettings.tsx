@@ -0,0 +1,346 @@
+import { useState, useEffect, useCallback } from "react";
+import { AlertCircle, CheckCircle, Download, KeyRound, Smartphone } from "lucide-react";
+import Dialog from "./Dialog";
+import LoadingSpinner from "./LoadingSpinner";
+import QrCode from "./QrCode";
+import { FormField, Input } from "./FormField";
+import { TwoFactorCodeSchema, type TwoFactorEnrolment, type TwoFactorStatus } from "@/shared/types";
+
+// Below this many unused recovery codes the customer is nudged to generate new ones
+const LOW_RECOVERY_CODES = 3;
+
+type CodeAction = "recovery-codes" | "disable";
+
+const CODE_ACTIONS: Record<CodeAction, { title: string; description: string; confirmText: string }> = {
+  "recovery-codes": {
+    title: "New Recovery Codes",
+    description: "Your current recovery codes will stop working. Enter a code from your authenticator app to continue.",
+    confirmText: "Generate Codes",
+  },
+  disable: {
+    title: "Turn Off Two-Factor Authentication",
+    description: "Signing in will only need your password. Enter a code from your authenticator app, or a recovery code, to continue.",
+    confirmText: "Turn Off",
+  },
+};
+
+// Groups the secret in fours so it is easier to type into an authenticator app
+function formatSecret(secret: string) {
+  return secret.match(/.{1,4}/g)?.join(" ") ?? secret;
+}
+
+function downloadRecoveryCodes(codes: string[]) {
+  const text = `SecurePay recovery codes\n\nEach code can be used once to sign in if you lose your authenticator.\n\n${codes.join("\n")}\n`;
+  const url = URL.createObjectURL(new Blob([text], { type: "text/plain" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = "securepay-recovery-codes.txt";
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Submits with Enter without reaching the enclosing Profile form
+function onEnter(action: () => void) {
+  return (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      action();
+    }
+  };
+}
+
+// Enrolment and management of the authenticator app, for the Profile security tab. It is rendered inside
+// the Profile form, so it uses plain buttons rather than forms of its own.
+export default function TwoFactorSettings() {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [enrolment, setEnrolment] = useState<TwoFactorEnrolment | null>(null);
+  const [code, setCode] = useState("");
+  const [isWorking, setIsWorking] = useState(false);
+  // Shown once, straight after they are generated
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [codeAction, setCodeAction] = useState<CodeAction | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      const response = await fetch("/api/auth/2fa");
+      if (!response.ok) {
+        throw new Error("Failed to load two-factor status");
+      }
+      setStatus(await response.json());
+    } catch (error) {
+      console.error("Failed to fetch two-factor status:", error);
+      setError("Failed to load two-factor authentication settings.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  // Posts a code to one of the 2FA endpoints and returns the response body
+  const postCode = async (path: string) => {
+    const result = TwoFactorCodeSchema.safeParse({ code });
+    if (!result.success) {
+      throw new Error(result.error.issues[0]?.message || "Enter your code");
+    }
+    const response = await fetch(path, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(result.data),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.error || "The code was not accepted");
+    }
+    return data;
+  };
+
+  const handleStartSetup = async () => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/auth/2fa/setup", { method: "POST" });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || "Could not start setup");
+      }
+      setEnrolment(data);
+      setCode("");
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Could not start setup. Please try again.");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleConfirmSetup = async () => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const data = await postCode("/api/auth/2fa/confirm");
+      setRecoveryCodes(data.recovery_codes);
+      setEnrolment(null);
+      setCode("");
+      fetchStatus();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "The code was not accepted");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const openCodeAction = (action: CodeAction) => {
+    setCode("");
+    setActionError(null);
+    setCodeAction(action);
+  };
+
+  const handleCodeAction = async () => {
+    if (!codeAction) return;
+
+    setIsWorking(true);
+    setActionError(null);
+    try {
+      const data = await postCode(`/api/auth/2fa/${codeAction}`);
+      if (codeAction === "recovery-codes") {
+        setRecoveryCodes(data.recovery_codes);
+      }
+      setCodeAction(null);
+      setCode("");
+      fetchStatus();
+    } catch (error) {
+      setActionError(error instanceof Error ? error.message : "The code was not accepted");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 border border-slate-200 rounded-lg">
+      <div className="flex items-start space-x-3">
+        <Smartphone className="w-5 h-5 text-blue-600 mt-0.5" />
+        <div className="flex-1">
+          <h3 className="font-medium text-slate-900">Two-Factor Authentication</h3>
+          <p className="text-sm text-slate-600 mt-1">
+            Sign in with a code from an authenticator app as well as your password. Large payments also ask for a code.
+          </p>
+
+          {error && (
+            <p className="mt-3 flex items-center text-sm text-red-600">
+              <AlertCircle className="w-4 h-4 mr-1" /> {error}
+            </p>
+          )}
+
+          {recoveryCodes && (
+            <div className="mt-4 p-4 bg-amber-50 border border-amber-200 rounded-lg">
+              <h4 className="font-medium text-amber-900 flex items-center">
+                <KeyRound className="w-4 h-4 mr-1" /> Save your recovery codes
+              </h4>
+              <p className="text-sm text-amber-800 mt-1">
+                Each code signs you in once if you lose your phone. They will not be shown again.
+              </p>
+              <ul className="mt-3 grid grid-cols-2 gap-2 font-mono text-sm text-slate-900">
+                {recoveryCodes.map(recoveryCode => <li key={recoveryCode}>{recoveryCode}</li>)}
+              </ul>
+              <div className="mt-4 flex gap-3">
+                <button
+                  type="button"
+                  onClick={() => downloadRecoveryCodes(recoveryCodes)}
+                  className="inline-flex items-center px-3 py-2 text-sm bg-white border border-amber-300 rounded-md hover:bg-amber-100"
+                >
+                  <Download className="w-4 h-4 mr-1" /> Download
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setRecoveryCodes(null)}
+                  className="px-3 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700"
+                >
+                  I have saved these codes
+                </button>
+              </div>
+            </div>
+          )}
+
+          {status?.enabled ? (
+            <div className="mt-4 space-y-3">
+              <p className="flex items-center text-sm text-green-700">
+                <CheckCircle className="w-4 h-4 mr-1" />
+                On since {status.confirmed_at ? new Date(status.confirmed_at).toLocaleDateString() : "-"}
+              </p>
+              <p className={`text-sm ${status.recovery_codes_remaining <= LOW_RECOVERY_CODES ? "text-amber-700" : "text-slate-600"}`}>
+                {status.recovery_codes_remaining} recovery code{status.recovery_codes_remaining === 1 ? "" : "s"} left
+                {status.recovery_codes_remaining <= LOW_RECOVERY_CODES && ". Generate new ones before you run out."}
+              </p>
+              <div className="flex gap-3">
+                <button
+                  type="button"
+                  onClick={() => openCodeAction("recovery-codes")}
+                  className="px-4 py-2 text-sm border border-slate-300 rounded-md text-slate-700 bg-white hover:bg-slate-50"
+                >
+                  New Recovery Codes
+                </button>
+                <button
+                  type="button"
+                  onClick={() => openCodeAction("disable")}
+                  className="px-4 py-2 text-sm border border-red-300 rounded-md text-red-700 bg-white hover:bg-red-50"
+                >
+                  Turn Off
+                </button>
+              </div>
+            </div>
+          ) : enrolment ? (
+            <div className="mt-4 space-y-4">
+              <ol className="text-sm text-slate-700 list-decimal list-inside space-y-1">
+                <li>Scan this QR code with an authenticator app such as Google Authenticator, Microsoft Authenticator or 1Password.</li>
+                <li>Enter the 6-digit code the app shows to finish.</li>
+              </ol>
+              <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+                <QrCode value={enrolment.otpauth_uri} title="Authenticator setup QR code" />
+                <div className="text-sm text-slate-600">
+                  <p>Can't scan it? Enter this key in the app instead:</p>
+                  <p className="mt-1 font-mono text-slate-900 break-all">{formatSecret(enrolment.secret)}</p>
+                  <a href={enrolment.otpauth_uri} className="mt-2 inline-block text-blue-600 hover:underline">
+                    Open in an authenticator app on this device
+                  </a>
+                </div>
+              </div>
+              <FormField label="Code from the app" required>
+                <Input
+                  type="text"
+                  inputMode="numeric"
+                  value={code}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCode(e.target.value)}
+                  placeholder="123456"
+                  autoComplete="one-time-code"
+                  maxLength={6}
+                  onKeyDown={onEnter(handleConfirmSetup)}
+                />
+              </FormField>
+              <div className="flex gap-3">
+                <button
+                  type="button"
+                  onClick={handleConfirmSetup}
+                  disabled={isWorking}
+                  className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {isWorking ? <LoadingSpinner size="sm" /> : "Turn On"}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setEnrolment(null)}
+                  className="px-4 py-2 text-sm text-slate-700 bg-slate-100 rounded-md hover:bg-slate-200"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : (
+            <button
+              type="button"
+              onClick={handleStartSetup}
+              disabled={isWorking}
+              className="mt-4 px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isWorking ? <LoadingSpinner size="sm" /> : "Set Up Authenticator App"}
+            </button>
+          )}
+        </div>
+      </div>
+
+      <Dialog isOpen={codeAction !== null} onClose={() => setCodeAction(null)} title={codeAction ? CODE_ACTIONS[codeAction].title : ""}>
+        {codeAction && (
+          <div className="space-y-4">
+            <p className="text-sm text-slate-600">{CODE_ACTIONS[codeAction].description}</p>
+            <FormField label="Authentication Code" required>
+              <Input
+                type="text"
+                value={code}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCode(e.target.value)}
+                placeholder="123456"
+                autoComplete="one-time-code"
+                autoFocus
+                maxLength={20}
+                onKeyDown={onEnter(handleCodeAction)}
+              />
+            </FormField>
+            {actionError && (
+              <p className="flex items-center text-sm text-red-600">
+                <AlertCircle className="w-4 h-4 mr-1" /> {actionError}
+              </p>
+            )}
+            <div className="flex justify-end gap-3">
+              <button
+                type="button"
+                onClick={() => setCodeAction(null)}
+                className="px-4 py-2 text-slate-700 bg-slate-100 rounded-lg hover:bg-slate-200 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleCodeAction}
+                disabled={isWorking}
+                className={`px-4 py-2 text-white rounded-lg transition-colors disabled:opacity-50 ${codeAction === "disable" ? "bg-red-600 hover:bg-red-700" : "bg-blue-600 hover:bg-blue-700"}`}
+              >
+                {isWorking ? <LoadingSpinner size="sm" /> : CODE_ACTIONS[codeAction].confirmText}
+              </button>
+            </div>
+          </div>
+        )}
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,336 @@
+import { useState, useEffect, useCallback } from "react";
+import { useTranslation } from "react-i18next";
+import { AlertCircle, ArrowRightLeft, Download, FileText, Wallet } from "lucide-react";
+import Dialog from "./Dialog";
+import LoadingSpinner from "./LoadingSpinner";
+import { FormField, Input, Select } from "./FormField";
+import {
+  CURRENCIES,
+  WalletConversionSchema,
+  todayUtc,
+  type AccountBalance,
+  type WalletBalances,
+  type WalletConversion,
+} from "@/shared/types";
+
+const EMPTY_CONVERSION = { from_currency: "USD", to_currency: "EUR", amount: "" };
+
+const STATEMENT_FORMATS = [
+  { value: "pdf", label: "PDF" },
+  { value: "csv", label: "CSV (spreadsheets)" },
+  { value: "ofx", label: "OFX (accounting software)" },
+];
+
+// First and last day of the current or previous calendar month (UTC)
+function monthRange(monthsBack: number) {
+  const today = new Date(todayUtc());
+  const start = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() - monthsBack, 1));
+  const end = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() - monthsBack + 1, 0));
+  return { from: start.toISOString().slice(0, 10), to: (monthsBack === 0 ? today : end).toISOString().slice(0, 10) };
+}
+
+interface WalletsProps {
+  // Called after a conversion so the page can refresh anything showing balances
+  onConverted?: () => void;
+}
+
+export default function Wallets({ onConverted }: WalletsProps) {
+  const { i18n } = useTranslation();
+  const [wallets, setWallets] = useState<AccountBalance[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showConvert, setShowConvert] = useState(false);
+  const [conversion, setConversion] = useState(EMPTY_CONVERSION);
+  // Indicative rate for the selected pair; the conversion itself uses the rate at the time it is booked
+  const [rate, setRate] = useState<number | null>(null);
+  const [convertError, setConvertError] = useState<string | null>(null);
+  const [isConverting, setIsConverting] = useState(false);
+  const [lastConversion, setLastConversion] = useState<WalletConversion | null>(null);
+  const [statementCurrency, setStatementCurrency] = useState<string | null>(null);
+  const [statement, setStatement] = useState({ ...monthRange(1), format: "pdf" });
+
+  const fetchWallets = useCallback(async () => {
+    try {
+      const response = await fetch("/api/account/balances");
+      if (!response.ok) {
+        throw new Error("Failed to load wallets");
+      }
+      const data: WalletBalances = await response.json();
+      setWallets(data.balances);
+    } catch (error) {
+      console.error("Failed to fetch wallets:", error);
+      setError("Failed to load wallets.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchWallets();
+  }, [fetchWallets]);
+
+  useEffect(() => {
+    if (!showConvert || conversion.from_currency === conversion.to_currency) {
+      setRate(null);
+      return;
+    }
+
+    let cancelled = false;
+    (async () => {
+      try {
+        const params = new URLSearchParams({ from: conversion.from_currency, to: conversion.to_currency });
+        const response = await fetch(`/api/fx/rate?${params}`);
+        if (!cancelled) setRate(response.ok ? (await response.json()).rate : null);
+      } catch (error) {
+        console.error("Failed to fetch exchange rate:", error);
+        if (!cancelled) setRate(null);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [showConvert, conversion.from_currency, conversion.to_currency]);
+
+  const formatMoney = (amount: number, currency: string) =>
+    new Intl.NumberFormat(i18n.language, { style: "currency", currency }).format(amount);
+
+  const openConvert = (fromCurrency: string) => {
+    setConversion({
+      ...EMPTY_CONVERSION,
+      from_currency: fromCurrency,
+      to_currency: fromCurrency === EMPTY_CONVERSION.to_currency ? EMPTY_CONVERSION.from_currency : EMPTY_CONVERSION.to_currency,
+    });
+    setConvertError(null);
+    setLastConversion(null);
+    setShowConvert(true);
+  };
+
+  const handleConvert = async () => {
+    const result = WalletConversionSchema.safeParse({ ...conversion, amount: parseFloat(conversion.amount) });
+    if (!result.success) {
+      setConvertError(result.error.issues[0]?.message || "Invalid conversion");
+      return;
+    }
+
+    setIsConverting(true);
+    setConvertError(null);
+    try {
+      const response = await fetch("/api/account/conversions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(result.data),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || "The conversion failed");
+      }
+      setLastConversion(data);
+      setConversion(prev => ({ ...prev, amount: "" }));
+      fetchWallets();
+      onConverted?.();
+    } catch (error) {
+      setConvertError(error instanceof Error ? error.message : "The conversion failed. Please try again.");
+    } finally {
+      setIsConverting(false);
+    }
+  };
+
+  const statementError = !statement.from || !statement.to
+    ? "Choose a start and end date"
+    : statement.from > statement.to
+      ? "The start date must not be after the end date"
+      : null;
+  const statementUrl = statementCurrency
+    ? `/api/statements?${new URLSearchParams({ currency: statementCurrency, ...statement })}`
+    : "";
+
+  const amount = parseFloat(conversion.amount);
+  const source = wallets.find(w => w.currency === conversion.from_currency);
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <Wallet className="w-5 h-5 text-blue-600" /> Wallets
+        </h3>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <LoadingSpinner />
+        </div>
+      ) : error ? (
+        <p className="flex items-center text-sm text-red-600">
+          <AlertCircle className="w-4 h-4 mr-1" /> {error}
+        </p>
+      ) : (
+        <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-4">
+          {wallets.map(wallet => (
+            <div key={wallet.currency} className="border border-slate-200 dark:border-slate-700 rounded-lg p-4">
+              <div className="text-sm text-slate-500 dark:text-slate-400">{wallet.currency}</div>
+              <div className={`text-xl font-bold ${wallet.available < 0 ? "text-red-600" : "text-slate-900 dark:text-white"}`}>
+                {formatMoney(wallet.available, wallet.currency)}
+              </div>
+              <div className="text-xs text-slate-400 mb-3">Held: {formatMoney(wallet.pending, wallet.currency)}</div>
+              <div className="flex gap-4">
+                <button
+                  onClick={() => openConvert(wallet.currency)}
+                  className="inline-flex items-center text-sm text-blue-600 hover:underline"
+                >
+                  <ArrowRightLeft className="w-4 h-4 mr-1" /> Convert
+                </button>
+                <button
+                  onClick={() => setStatementCurrency(wallet.currency)}
+                  className="inline-flex items-center text-sm text-blue-600 hover:underline"
+                >
+                  <FileText className="w-4 h-4 mr-1" /> Statement
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Dialog isOpen={!!statementCurrency} onClose={() => setStatementCurrency(null)} title={`${statementCurrency ?? ""} Wallet Statement`}>
+        <div className="space-y-4">
+          <div className="flex gap-2">
+            <button
+              onClick={() => setStatement(prev => ({ ...prev, ...monthRange(0) }))}
+              className="px-3 py-1 text-sm bg-slate-100 rounded-lg hover:bg-slate-200 transition-colors"
+            >
+              This month
+            </button>
+            <button
+              onClick={() => setStatement(prev => ({ ...prev, ...monthRange(1) }))}
+              className="px-3 py-1 text-sm bg-slate-100 rounded-lg hover:bg-slate-200 transition-colors"
+            >
+              Last month
+            </button>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <FormField label="From" required>
+              <Input
+                type="date"
+                max={todayUtc()}
+                value={statement.from}
+                onChange={(e) => setStatement(prev => ({ ...prev, from: e.target.value }))}
+              />
+            </FormField>
+            <FormField label="To" required>
+              <Input
+                type="date"
+                max={todayUtc()}
+                value={statement.to}
+                onChange={(e) => setStatement(prev => ({ ...prev, to: e.target.value }))}
+              />
+            </FormField>
+          </div>
+          <FormField label="Format">
+            <Select
+              value={statement.format}
+              onChange={(e) => setStatement(prev => ({ ...prev, format: e.target.value }))}
+              options={STATEMENT_FORMATS}
+            />
+          </FormField>
+          <p className="text-xs text-slate-500">
+            Statements show available funds: payments are debited when they are booked and credited back if they are stopped.
+          </p>
+          {statementError && (
+            <p className="flex items-center text-sm text-red-600">
+              <AlertCircle className="w-4 h-4 mr-1" /> {statementError}
+            </p>
+          )}
+          <div className="flex justify-end gap-3">
+            <button
+              onClick={() => setStatementCurrency(null)}
+              className="px-4 py-2 text-slate-700 bg-slate-100 rounded-lg hover:bg-slate-200 transition-colors"
+            >
+              Close
+            </button>
+            {statementError ? (
+              <span className="px-4 py-2 bg-blue-600 text-white rounded-lg opacity-50 inline-flex items-center">
+                <Download className="w-4 h-4 mr-1" /> Download
+              </span>
+            ) : (
+              <a
+                href={statementUrl}
+                download
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors inline-flex items-center"
+              >
+                <Download className="w-4 h-4 mr-1" /> Download
+              </a>
+            )}
+          </div>
+        </div>
+      </Dialog>
+
+      <Dialog isOpen={showConvert} onClose={() => setShowConvert(false)} title="Convert Between Wallets">
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <FormField label="From">
+              <Select
+                value={conversion.from_currency}
+                onChange={(e) => setConversion(prev => ({ ...prev, from_currency: e.target.value }))}
+                options={wallets.map(w => ({ value: w.currency, label: w.currency }))}
+              />
+            </FormField>
+            <FormField label="To">
+              <Select
+                value={conversion.to_currency}
+                onChange={(e) => setConversion(prev => ({ ...prev, to_currency: e.target.value }))}
+                options={CURRENCIES.filter(c => c.value !== conversion.from_currency).map(c => ({ value: c.value, label: c.label }))}
+              />
+            </FormField>
+          </div>
+          <FormField label={`Amount (${conversion.from_currency})`} required>
+            <Input
+              type="number"
+              step="0.01"
+              min="0.01"
+              value={conversion.amount}
+              onChange={(e) => setConversion(prev => ({ ...prev, amount: e.target.value }))}
+              placeholder="0.00"
+            />
+          </FormField>
+          {source && (
+            <p className="text-sm text-slate-500">Available: {formatMoney(source.available, source.currency)}</p>
+          )}
+          {rate !== null && (
+            <div className="bg-slate-50 rounded-lg p-3 text-sm text-slate-600">
+              <div>1 {conversion.from_currency} = {rate.toFixed(4)} {conversion.to_currency}</div>
+              {amount > 0 && (
+                <div>You receive about <strong className="text-slate-900">{formatMoney(Math.round(amount * rate * 100) / 100, conversion.to_currency)}</strong></div>
+              )}
+            </div>
+          )}
+          {convertError && (
+            <p className="flex items-center text-sm text-red-600">
+              <AlertCircle className="w-4 h-4 mr-1" /> {convertError}
+            </p>
+          )}
+          {lastConversion && (
+            <p className="text-sm text-green-700">
+              Converted {formatMoney(lastConversion.amount, lastConversion.from_currency)} to {formatMoney(lastConversion.converted_amount, lastConversion.to_currency)}.
+            </p>
+          )}
+          <div className="flex justify-end gap-3">
+            <button
+              onClick={() => setShowConvert(false)}
+              className="px-4 py-2 text-slate-700 bg-slate-100 rounded-lg hover:bg-slate-200 transition-colors"
+            >
+              Close
+            </button>
+            <button
+              onClick={handleConvert}
+              disabled={isConverting || !(amount > 0)}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+            >
+              {isConverting ? "Converting..." : "Convert"}
+            </button>
+          </div>
+        </div>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,21 +1,28 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import type { EmployeeLoginCredentials, LoginCredentials, Registration, TwoFactorChallenge } from '@/shared/types';
+import { getPasskey } from '@/webauthn';
 
 interface User {
   id: string;
   email: string;
-  google_user_data?: {
-    given_name?: string;
-  };
+  given_name: string | null;
+  username: string | null;
+  account_number: string | null;
+  role: 'customer' | 'employee';
   created_at: string;
 }
 
 interface AuthContextType {
   user: User | null;
   isPending: boolean;
-  login: () => Promise<void>;
+  // Both resolve to a challenge instead of signing in when the account has 2FA; finish with verifyTwoFactorLogin
+  login: (credentials: LoginCredentials) => Promise<TwoFactorChallenge | null>;
+  employeeLogin: (credentials: EmployeeLoginCredentials) => Promise<TwoFactorChallenge | null>;
+  verifyTwoFactorLogin: (challengeToken: string, code: string) => Promise<void>;
+  // Rejects with PasskeyCancelledError if the customer closes the browser's passkey prompt
+  loginWithPasskey: () => Promise<void>;
+  register: (registration: Registration) => Promise<void>;
   logout: () => Promise<void>;
-  redirectToLogin: () => Promise<void>;
-  exchangeCodeForSessionToken: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -43,25 +50,27 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     checkAuth();
   }, []);
 
-  const login = async () => {
+  const login = async (credentials: LoginCredentials) => {
     try {
-      // Call the backend login endpoint to set session cookie
+      // The backend creates the session and sets it as an HTTP-only cookie
       const response = await fetch('/api/login', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
+        body: JSON.stringify(credentials),
       });
       
       if (response.ok) {
-        // Fetch user data after successful login
-        const userResponse = await fetch('/api/users/me');
-        if (userResponse.ok) {
-          const userData = await userResponse.json();
-          setUser(userData);
+        const result = await response.json();
+        if (result.two_factor_required) {
+          return result as TwoFactorChallenge;
         }
+        setUser(result.user);
+        return null;
       } else {
-        throw new Error('Login failed');
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Login failed');
       }
     } catch (error) {
       console.error('Login failed:', error);
@@ -69,23 +78,115 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const logout = async () => {
+  const employeeLogin = async (credentials: EmployeeLoginCredentials) => {
     try {
-      await fetch('/api/logout');
+      const response = await fetch('/api/employee/login', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(credentials),
+      });
+
+      if (response.ok) {
+        const result = await response.json();
+        if (result.two_factor_required) {
+          return result as TwoFactorChallenge;
+        }
+        setUser(result.user);
+        return null;
+      } else {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Login failed');
+      }
     } catch (error) {
-      console.error('Logout failed:', error);
+      console.error('Employee login failed:', error);
+      throw error;
     }
-    setUser(null);
   };
 
-  const redirectToLogin = async () => {
-    // Simulate OAuth redirect
-    await login();
+  const verifyTwoFactorLogin = async (challengeToken: string, code: string) => {
+    try {
+      const response = await fetch('/api/login/2fa', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ challenge_token: challengeToken, code }),
+      });
+
+      if (response.ok) {
+        const result = await response.json();
+        setUser(result.user);
+      } else {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Verification failed');
+      }
+    } catch (error) {
+      console.error('Two-factor verification failed:', error);
+      throw error;
+    }
   };
 
-  const exchangeCodeForSessionToken = async () => {
-    // Simulate code exchange
-    await login();
+  const loginWithPasskey = async () => {
+    try {
+      const optionsResponse = await fetch('/api/login/passkey/options', { method: 'POST' });
+      if (!optionsResponse.ok) {
+        throw new Error('Passkey sign-in is unavailable. Please try again.');
+      }
+      const assertion = await getPasskey(await optionsResponse.json());
+
+      const response = await fetch('/api/login/passkey', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(assertion),
+      });
+
+      if (response.ok) {
+        const result = await response.json();
+        setUser(result.user);
+      } else {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Passkey sign-in failed');
+      }
+    } catch (error) {
+      console.error('Passkey login failed:', error);
+      throw error;
+    }
+  };
+
+  const register = async (registration: Registration) => {
+    try {
+      const response = await fetch('/api/register', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(registration),
+      });
+
+      if (response.ok) {
+        const result = await response.json();
+        setUser(result.user);
+      } else {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Registration failed');
+      }
+    } catch (error) {
+      console.error('Registration failed:', error);
+      throw error;
+    }
+  };
+
+  const logout = async () => {
+    try {
+      await fetch('/api/logout');
+    } catch (error) {
+      console.error('Logout failed:', error);
+    }
+    setUser(null);
   };
 
   return (
@@ -93,9 +194,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       user,
       isPending,
       login,
-      logout,
-      redirectToLogin,
-      exchangeCodeForSessionToken
+      employeeLogin,
+      verifyTwoFactorLogin,
+      loginWithPasskey,
+      register,
+      logout
     }}>
       {children}
     </AuthContext.Provider>
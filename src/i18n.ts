@@ -18,6 +18,8 @@ const resources = {
       faq: 'FAQ',
       compliance: 'Compliance',
       new_payment: 'New Payment',
+      bulk_payments: 'Bulk Payments',
+      payment_verification: 'Payment Verification',
       back_to_dashboard: 'Back to Dashboard',
       save_changes: 'Save Changes',
       cancel: 'Cancel',
@@ -54,6 +56,8 @@ const resources = {
       faq: 'Preguntas frecuentes',
       compliance: 'Cumplimiento',
       new_payment: 'Nuevo Pago',
+      bulk_payments: 'Pagos masivos',
+      payment_verification: 'Verificación de pagos',
       back_to_dashboard: 'Volver al tablero',
       save_changes: 'Guardar cambios',
       cancel: 'Cancelar',
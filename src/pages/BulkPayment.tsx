@@ -0,0 +1,538 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { Link, useNavigate } from "react-router";
+import { useAuth } from "@/contexts/AuthContext";
+import { useTranslation } from "react-i18next";
+import { ArrowLeft, AlertCircle, CheckCircle, FileSpreadsheet, Trash2, Upload } from "lucide-react";
+import Layout from "@/components/Layout";
+import LoadingSpinner from "@/components/LoadingSpinner";
+import { Input, Select } from "@/components/FormField";
+import Dialog, { ConfirmDialog } from "@/components/Dialog";
+import StepUpDialog from "@/components/StepUpDialog";
+import {
+  MAX_PAYMENT_BATCH_SIZE,
+  PaymentDetailsSchema,
+  STEP_UP_REQUIRED,
+  type FxQuote,
+  type PaymentBatch,
+  type PaymentBatchRowError,
+  type PaymentBatchTotals,
+  type PaymentDetails,
+} from "@/shared/types";
+
+const CSV_COLUMNS = ["amount", "currency", "recipient_account", "swift_code", "reference"] as const;
+const REQUIRED_COLUMNS = ["amount", "currency", "recipient_account", "swift_code"];
+
+const CURRENCY_OPTIONS = ["USD", "EUR", "ZAR", "GBP", "JPY"].map(currency => ({ value: currency, label: currency }));
+
+type BulkRow = Record<(typeof CSV_COLUMNS)[number], string> & {
+  key: number;
+  // Reported by the server when the batch was last submitted
+  serverError?: string;
+};
+
+type BatchQuote = {
+  quotes: FxQuote[];
+  totals: PaymentBatchTotals;
+};
+
+// Splits CSV text into rows of fields, honouring double-quoted fields that contain commas, quotes or newlines
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(fields => fields.some(value => value.trim()));
+}
+
+function toPaymentDetails(row: BulkRow) {
+  return {
+    amount: parseFloat(row.amount),
+    currency: row.currency.trim().toUpperCase(),
+    recipient_account: row.recipient_account.trim(),
+    swift_code: row.swift_code.trim().toUpperCase(),
+    reference: row.reference.trim() || undefined,
+  };
+}
+
+// Field errors for one row, using the same rules as a single payment
+function validateRow(row: BulkRow): Record<string, string> {
+  const errors: Record<string, string> = {};
+  if (!row.amount.trim() || isNaN(parseFloat(row.amount))) {
+    errors.amount = "Amount must be a number";
+  }
+  const result = PaymentDetailsSchema.safeParse(toPaymentDetails(row));
+  for (const issue of result.success ? [] : result.error.issues) {
+    const field = String(issue.path[0]);
+    if (!errors[field]) {
+      errors[field] = issue.message;
+    }
+  }
+  return errors;
+}
+
+export default function BulkPayment() {
+  const { user, isPending } = useAuth();
+  const { i18n } = useTranslation();
+  const navigate = useNavigate();
+  const [rows, setRows] = useState<BulkRow[]>([]);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [batchQuote, setBatchQuote] = useState<BatchQuote | null>(null);
+  const [showConfirmDialog, setShowConfirmDialog] = useState(false);
+  // Large batches from accounts with 2FA need a fresh code before the worker books them
+  const [showStepUp, setShowStepUp] = useState(false);
+  const [batch, setBatch] = useState<PaymentBatch | null>(null);
+
+  useEffect(() => {
+    if (!isPending && !user) {
+      navigate("/login");
+    }
+  }, [user, isPending, navigate]);
+
+  const rowErrors = useMemo(() => rows.map(validateRow), [rows]);
+  const invalidCount = rows.filter((row, index) => Object.keys(rowErrors[index]).length > 0 || row.serverError).length;
+
+  const handleFileChange = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setError(null);
+    setBatchQuote(null);
+    const [header, ...lines] = parseCsv(await file.text());
+    const columns = (header ?? []).map(column => column.trim().toLowerCase());
+    const missing = REQUIRED_COLUMNS.filter(column => !columns.includes(column));
+
+    if (missing.length > 0) {
+      setError(`The CSV is missing the ${missing.join(", ")} column${missing.length > 1 ? "s" : ""}.`);
+      return;
+    }
+    if (lines.length === 0) {
+      setError("The CSV has no payment rows.");
+      return;
+    }
+    if (lines.length > MAX_PAYMENT_BATCH_SIZE) {
+      setError(`A batch can have at most ${MAX_PAYMENT_BATCH_SIZE} payments; this file has ${lines.length}.`);
+      return;
+    }
+
+    setFileName(file.name);
+    setRows(lines.map((fields, index) => {
+      const valueOf = (column: string) => {
+        const position = columns.indexOf(column);
+        return position === -1 ? "" : (fields[position] ?? "").trim();
+      };
+      return {
+        key: index,
+        amount: valueOf("amount"),
+        currency: valueOf("currency").toUpperCase(),
+        recipient_account: valueOf("recipient_account"),
+        swift_code: valueOf("swift_code").toUpperCase(),
+        reference: valueOf("reference"),
+      };
+    }));
+  }, []);
+
+  const handleRowChange = useCallback((key: number, field: (typeof CSV_COLUMNS)[number], value: string) => {
+    setRows(prev => prev.map(row => (row.key === key ? { ...row, [field]: value, serverError: undefined } : row)));
+    // Any edit changes what has to be priced
+    setBatchQuote(null);
+  }, []);
+
+  const removeRow = useCallback((key: number) => {
+    setRows(prev => prev.filter(row => row.key !== key));
+    setBatchQuote(null);
+  }, []);
+
+  const dropInvalidRows = useCallback(() => {
+    setRows(prev => prev.filter(row => Object.keys(validateRow(row)).length === 0 && !row.serverError));
+    setBatchQuote(null);
+  }, []);
+
+  const requestQuotes = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/fx/quotes", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          payments: rows.map(row => {
+            const { amount, currency, swift_code } = toPaymentDetails(row);
+            return { amount, currency, swift_code };
+          }),
+        }),
+      });
+
+      if (response.ok) {
+        setBatchQuote(await response.json());
+        setShowConfirmDialog(true);
+      } else {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Could not price the batch");
+      }
+    } catch (error) {
+      console.error("Batch quote failed:", error);
+      setError(error instanceof Error ? error.message : "Could not price the batch. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [rows]);
+
+  const handleConfirmBatch = useCallback(async () => {
+    if (!batchQuote || batchQuote.quotes.some(quote => new Date(quote.expires_at) <= new Date())) {
+      // The locked rates ran out while the dialog was open; show the customer the new totals first
+      await requestQuotes();
+      setError("Your exchange rates expired. Please review the updated totals and confirm again.");
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/payment-batches", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          payments: rows.map((row, index) => ({
+            ...(toPaymentDetails(row) as PaymentDetails),
+            fx_quote_id: batchQuote.quotes[index].quote_id,
+          })),
+        }),
+      });
+
+      const result = await response.json().catch(() => ({}));
+      if (response.ok) {
+        setBatch(result);
+        setRows([]);
+        setFileName(null);
+        setBatchQuote(null);
+      } else if (result.code === STEP_UP_REQUIRED) {
+        // The quotes are still good, so the batch is sent again as it is once verified
+        setShowStepUp(true);
+      } else {
+        setBatchQuote(null);
+        if (Array.isArray(result.row_errors)) {
+          const errorsByRow = new Map<number, string>(result.row_errors.map((rowError: PaymentBatchRowError) => [rowError.row, rowError.error]));
+          setRows(prev => prev.map((row, index) => ({ ...row, serverError: errorsByRow.get(index) })));
+        }
+        throw new Error(result.error || "The batch could not be submitted");
+      }
+    } catch (error) {
+      console.error("Batch submission failed:", error);
+      setError(error instanceof Error ? error.message : "The batch could not be submitted. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [rows, batchQuote, requestQuotes]);
+
+  const formatCurrency = useCallback((amount: number, currency: string) => {
+    return new Intl.NumberFormat(i18n.language, { style: 'currency', currency }).format(amount);
+  }, [i18n.language]);
+
+  // Sum of the amounts the recipients receive, per payment currency
+  const amountsByCurrency = useMemo(() => {
+    const sums = new Map<string, number>();
+    for (const row of rows) {
+      const { amount, currency } = toPaymentDetails(row);
+      if (!isNaN(amount)) sums.set(currency, (sums.get(currency) ?? 0) + amount);
+    }
+    return [...sums.entries()];
+  }, [rows]);
+
+  if (isPending) {
+    return (
+      <Layout showSidebar>
+        <div className="flex items-center justify-center min-h-[60vh]">
+          <LoadingSpinner size="lg" />
+        </div>
+      </Layout>
+    );
+  }
+
+  if (!user) {
+    return null; // Will redirect in useEffect
+  }
+
+  return (
+    <Layout showSidebar>
+      <div className="p-6 max-w-6xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <Link
+            to="/dashboard"
+            className="inline-flex items-center text-sm text-slate-600 hover:text-slate-900 mb-4 transition-colors"
+          >
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            Back to Dashboard
+          </Link>
+
+          <h1 className="text-3xl font-bold text-slate-900 mb-2">Bulk Payments</h1>
+          <p className="text-slate-600">
+            Pay up to {MAX_PAYMENT_BATCH_SIZE} recipients at once by uploading a CSV file.
+          </p>
+        </div>
+
+        {/* Error Display */}
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+            <div className="flex items-center">
+              <AlertCircle className="w-5 h-5 text-red-600 mr-2" />
+              <span className="text-red-800">{error}</span>
+            </div>
+          </div>
+        )}
+
+        {/* Upload */}
+        <div className="bg-white rounded-xl shadow-lg p-8 mb-6">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div>
+              <h2 className="text-lg font-semibold text-slate-900 mb-1">Upload CSV</h2>
+              <p className="text-sm text-slate-600">
+                The first row must be a header with the columns{" "}
+                <code className="bg-slate-100 px-1 rounded">{CSV_COLUMNS.join(",")}</code>.
+                The reference column is optional.
+              </p>
+            </div>
+            <label className="inline-flex items-center justify-center bg-blue-600 text-white px-4 py-2 rounded-md font-medium hover:bg-blue-700 transition-colors cursor-pointer">
+              <Upload className="w-4 h-4 mr-2" />
+              Choose File
+              <input type="file" accept=".csv,text/csv" onChange={handleFileChange} className="hidden" />
+            </label>
+          </div>
+          {fileName && (
+            <p className="mt-4 flex items-center text-sm text-slate-600">
+              <FileSpreadsheet className="w-4 h-4 mr-1" />
+              {fileName}: {rows.length} payment{rows.length === 1 ? "" : "s"}
+              {invalidCount > 0 && <span className="ml-1 text-red-600">({invalidCount} with errors)</span>}
+            </p>
+          )}
+        </div>
+
+        {/* Review */}
+        {rows.length > 0 && (
+          <div className="bg-white rounded-xl shadow-lg p-8">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-semibold text-slate-900">Review Payments</h2>
+              {invalidCount > 0 && (
+                <button
+                  onClick={dropInvalidRows}
+                  className="text-sm text-red-600 hover:text-red-800 font-medium"
+                >
+                  Drop {invalidCount} row{invalidCount === 1 ? "" : "s"} with errors
+                </button>
+              )}
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-slate-200">
+                    <th className="text-left py-2 px-2 font-medium text-slate-500">#</th>
+                    <th className="text-left py-2 px-2 font-medium text-slate-500">Amount</th>
+                    <th className="text-left py-2 px-2 font-medium text-slate-500">Currency</th>
+                    <th className="text-left py-2 px-2 font-medium text-slate-500">Recipient Account</th>
+                    <th className="text-left py-2 px-2 font-medium text-slate-500">SWIFT Code</th>
+                    <th className="text-left py-2 px-2 font-medium text-slate-500">Reference</th>
+                    <th className="py-2 px-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row, index) => {
+                    const errors = rowErrors[index];
+                    const messages = [...Object.values(errors), ...(row.serverError ? [row.serverError] : [])];
+                    return (
+                      <tr key={row.key} className={`border-b border-slate-100 align-top ${messages.length > 0 ? "bg-red-50" : ""}`}>
+                        <td className="py-2 px-2 text-slate-500">{index + 1}</td>
+                        <td className="py-2 px-2 w-32">
+                          <Input
+                            type="number"
+                            step="0.01"
+                            value={row.amount}
+                            onChange={(e) => handleRowChange(row.key, "amount", e.target.value)}
+                            error={!!errors.amount}
+                          />
+                        </td>
+                        <td className="py-2 px-2 w-28">
+                          <Select
+                            value={row.currency}
+                            onChange={(e) => handleRowChange(row.key, "currency", e.target.value)}
+                            options={CURRENCY_OPTIONS.some(option => option.value === row.currency)
+                              ? CURRENCY_OPTIONS
+                              : [{ value: row.currency, label: row.currency || "—" }, ...CURRENCY_OPTIONS]}
+                            error={!!errors.currency}
+                          />
+                        </td>
+                        <td className="py-2 px-2">
+                          <Input
+                            type="text"
+                            value={row.recipient_account}
+                            onChange={(e) => handleRowChange(row.key, "recipient_account", e.target.value)}
+                            error={!!errors.recipient_account}
+                          />
+                        </td>
+                        <td className="py-2 px-2 w-36">
+                          <Input
+                            type="text"
+                            maxLength={11}
+                            value={row.swift_code}
+                            onChange={(e) => handleRowChange(row.key, "swift_code", e.target.value.toUpperCase())}
+                            error={!!errors.swift_code || row.serverError === "Unknown SWIFT code"}
+                          />
+                        </td>
+                        <td className="py-2 px-2">
+                          <Input
+                            type="text"
+                            value={row.reference}
+                            onChange={(e) => handleRowChange(row.key, "reference", e.target.value)}
+                          />
+                          {messages.length > 0 && (
+                            <ul className="mt-1 text-xs text-red-600 list-disc list-inside">
+                              {messages.map(message => <li key={message}>{message}</li>)}
+                            </ul>
+                          )}
+                        </td>
+                        <td className="py-2 px-2">
+                          <button
+                            onClick={() => removeRow(row.key)}
+                            title="Remove row"
+                            className="p-2 text-slate-400 hover:text-red-600"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            <button
+              onClick={requestQuotes}
+              disabled={isLoading || invalidCount > 0}
+              className="mt-6 w-full bg-blue-600 text-white py-3 rounded-lg font-semibold hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isLoading
+                ? <LoadingSpinner size="sm" />
+                : invalidCount > 0
+                  ? "Fix or drop the rows with errors to continue"
+                  : `Review ${rows.length} Payment${rows.length === 1 ? "" : "s"}`}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Confirmation Dialog */}
+      <ConfirmDialog
+        isOpen={showConfirmDialog}
+        onClose={() => setShowConfirmDialog(false)}
+        onConfirm={handleConfirmBatch}
+        title="Confirm Bulk Payment"
+        message={`Send ${rows.length} payment${rows.length === 1 ? "" : "s"} as one batch?`}
+        confirmText="Send Payments"
+        confirmVariant="primary"
+      >
+        {batchQuote && (
+          <div className="bg-slate-50 rounded-lg p-4 space-y-1 text-sm">
+            {amountsByCurrency.map(([currency, amount]) => (
+              <div key={currency} className="flex justify-between">
+                <span>Total in {currency}:</span>
+                <span className="font-semibold">{formatCurrency(amount, currency)}</span>
+              </div>
+            ))}
+            <div className="flex justify-between">
+              <span>Converted amount:</span>
+              <span className="font-semibold">{formatCurrency(batchQuote.totals.base_amount, batchQuote.totals.base_currency)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Transfer fees:</span>
+              <span className="font-semibold">{formatCurrency(batchQuote.totals.fee, batchQuote.totals.base_currency)}</span>
+            </div>
+            <div className="border-t pt-1 flex justify-between font-semibold">
+              <span>Total debit:</span>
+              <span>{formatCurrency(batchQuote.totals.total_debit, batchQuote.totals.base_currency)}</span>
+            </div>
+            <p className="text-xs text-slate-500">
+              Rates locked until {new Date(Math.min(...batchQuote.quotes.map(quote => Date.parse(quote.expires_at)))).toLocaleTimeString(i18n.language)}
+            </p>
+          </div>
+        )}
+      </ConfirmDialog>
+
+      <StepUpDialog
+        isOpen={showStepUp}
+        onClose={() => setShowStepUp(false)}
+        onVerified={() => {
+          setShowStepUp(false);
+          handleConfirmBatch();
+        }}
+        message="This batch is a large amount. Enter the 6-digit code from your authenticator app, or a recovery code, to send it."
+      />
+
+      {/* Success Dialog */}
+      <Dialog
+        isOpen={batch !== null}
+        onClose={() => setBatch(null)}
+        title="Batch Submitted"
+        showCloseButton={false}
+      >
+        {batch && (
+          <div className="text-center space-y-4">
+            <CheckCircle className="w-16 h-16 text-green-500 mx-auto" />
+            <p className="text-slate-600">
+              {batch.payment_count} payment{batch.payment_count === 1 ? " has" : "s have"} been submitted and {batch.payment_count === 1 ? "is" : "are"} now being processed.
+            </p>
+            <div className="bg-slate-50 rounded-lg p-4 space-y-1 text-sm">
+              <p className="text-slate-600"><strong>Batch ID:</strong></p>
+              <p className="font-mono text-slate-900">{batch.batch_id}</p>
+              <div className="border-t pt-2 mt-2 flex justify-between">
+                <span>Total debited:</span>
+                <span className="font-semibold">{formatCurrency(batch.totals.total_debit, batch.totals.base_currency)}</span>
+              </div>
+            </div>
+            <button
+              onClick={() => navigate("/dashboard")}
+              className="w-full bg-blue-600 text-white px-4 py-2 rounded-md font-medium hover:bg-blue-700 transition-colors"
+            >
+              Back to Dashboard
+            </button>
+          </div>
+        )}
+      </Dialog>
+    </Layout>
+  );
+}
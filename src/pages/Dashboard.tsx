@@ -3,12 +3,18 @@ import { Link, useNavigate } from "react-router";
 import { useAuth } from "@/contexts/AuthContext";
 import { useTranslation } from "react-i18next";
 import {
-  CreditCard, Plus, Clock, CheckCircle, XCircle, AlertCircle, BarChart3, FileText, Download, Zap, TrendingUp, Activity, List, BookOpen
+  CreditCard, Plus, Clock, CheckCircle, XCircle, AlertCircle, BarChart3, FileText, Download, Zap, TrendingUp, Activity, List, BookOpen, RotateCcw, Ban
 } from "lucide-react";
 import Layout from "@/components/Layout";
 import LoadingSpinner from "@/components/LoadingSpinner";
+import Dialog, { ConfirmDialog } from "@/components/Dialog";
+import PaymentTimeline from "@/components/PaymentTimeline";
+import ScheduledPayments from "@/components/ScheduledPayments";
+import Wallets from "@/components/Wallets";
 import {
+  PAYMENT_STATUS_LABELS,
   Transaction,
+  TransactionPage,
   UserProfile,
   AccountBalance,
   TransactionAnalytics,
@@ -19,11 +25,16 @@ import {
   AuditLogEntry
 } from "@/shared/types";
 
+const TRANSACTIONS_PAGE_SIZE = 10;
+
 export default function Dashboard() {
   const { i18n } = useTranslation();
   const { user, isPending } = useAuth();
   const navigate = useNavigate();
   const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [timelineTransactionId, setTimelineTransactionId] = useState<string | null>(null);
   const [profile, setProfile] = useState<UserProfile | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -34,13 +45,16 @@ export default function Dashboard() {
   const [taxReport, setTaxReport] = useState<TaxReport | null>(null);
   const [customReport, setCustomReport] = useState<CustomReport | null>(null);
   const [auditLog, setAuditLog] = useState<AuditLogEntry[]>([]);
+  const [cancelTarget, setCancelTarget] = useState<Transaction | null>(null);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+  const [cancelError, setCancelError] = useState<string | null>(null);
 
   const fetchData = useCallback(async () => {
     setIsLoading(true);
     setError(null);
     try {
       const [transactionsRes, profileRes, balanceRes, analyticsRes, activityRes, monthlyRes, taxRes, customRes, auditRes] = await Promise.all([
-        fetch("/api/transactions"),
+        fetch(`/api/transactions?limit=${TRANSACTIONS_PAGE_SIZE}`),
         fetch("/api/profile"),
         fetch("/api/account/balance"),
         fetch("/api/transactions/analytics"),
@@ -51,7 +65,11 @@ export default function Dashboard() {
         fetch("/api/audit-log"),
       ]);
       
-      if (transactionsRes.ok) setTransactions(await transactionsRes.json());
+      if (transactionsRes.ok) {
+        const page: TransactionPage = await transactionsRes.json();
+        setTransactions(page.transactions);
+        setNextCursor(page.next_cursor);
+      }
       if (profileRes.ok) setProfile(await profileRes.json());
       if (balanceRes.ok) setBalance(await balanceRes.json());
       if (analyticsRes.ok) setAnalytics(await analyticsRes.json());
@@ -68,6 +86,52 @@ export default function Dashboard() {
     }
   }, []);
 
+  const loadMoreTransactions = useCallback(async () => {
+    if (!nextCursor) return;
+    setIsLoadingMore(true);
+    try {
+      const response = await fetch(`/api/transactions?limit=${TRANSACTIONS_PAGE_SIZE}&cursor=${encodeURIComponent(nextCursor)}`);
+      if (response.ok) {
+        const page: TransactionPage = await response.json();
+        setTransactions(prev => [...prev, ...page.transactions]);
+        setNextCursor(page.next_cursor);
+      }
+    } catch (error) {
+      console.error("Failed to load more transactions:", error);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [nextCursor]);
+
+  const refreshBalance = useCallback(async () => {
+    const balanceRes = await fetch("/api/account/balance");
+    if (balanceRes.ok) setBalance(await balanceRes.json());
+  }, []);
+
+  // Pending payments are cancelled outright; Verified ones are recalled, which staff must accept
+  const handleCancelPayment = useCallback(async (transaction: Transaction) => {
+    setCancellingId(transaction.transaction_id);
+    setCancelError(null);
+    try {
+      const response = await fetch(`/api/transactions/${encodeURIComponent(transaction.transaction_id)}/cancel`, {
+        method: "POST",
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "The payment could not be cancelled");
+      }
+      const { data }: { data: Transaction } = await response.json();
+      setTransactions(prev => prev.map(t => (t.transaction_id === data.transaction_id ? data : t)));
+      // A cancelled payment's held funds are released
+      await refreshBalance();
+    } catch (error) {
+      console.error("Cancellation failed:", error);
+      setCancelError(error instanceof Error ? error.message : "The payment could not be cancelled. Please try again.");
+    } finally {
+      setCancellingId(null);
+    }
+  }, [refreshBalance]);
+
   useEffect(() => {
     if (!isPending && !user) {
       navigate("/login");
@@ -82,8 +146,11 @@ export default function Dashboard() {
     switch (status) {
       case "Pending": return <Clock className="w-4 h-4 text-yellow-500" />;
       case "Verified": return <CheckCircle className="w-4 h-4 text-blue-500" />;
+      case "RecallRequested": return <RotateCcw className="w-4 h-4 text-orange-500" />;
       case "Sent": return <CheckCircle className="w-4 h-4 text-green-500" />;
       case "Failed": return <XCircle className="w-4 h-4 text-red-500" />;
+      case "Rejected": return <XCircle className="w-4 h-4 text-red-500" />;
+      case "Cancelled": return <Ban className="w-4 h-4 text-slate-500" />;
       default: return <AlertCircle className="w-4 h-4 text-gray-500" />;
     }
   };
@@ -91,8 +158,11 @@ export default function Dashboard() {
     switch (status) {
       case "Pending": return "bg-yellow-100 text-yellow-800";
       case "Verified": return "bg-blue-100 text-blue-800";
+      case "RecallRequested": return "bg-orange-100 text-orange-800";
       case "Sent": return "bg-green-100 text-green-800";
       case "Failed": return "bg-red-100 text-red-800";
+      case "Rejected": return "bg-red-100 text-red-800";
+      case "Cancelled": return "bg-slate-100 text-slate-700";
       default: return "bg-gray-100 text-gray-800";
     }
   };
@@ -194,7 +264,7 @@ export default function Dashboard() {
           <div>
             <h1 className="text-3xl font-bold text-slate-900 dark:text-white">Dashboard</h1>
             <p className="text-slate-600 dark:text-slate-400 mt-1">
-              Welcome back, {profile.full_name || user.google_user_data?.given_name}
+              Welcome back, {profile.full_name || user.given_name || user.email}
             </p>
           </div>
           <div className="flex gap-2 flex-wrap">
@@ -217,8 +287,8 @@ export default function Dashboard() {
         <div className="grid md:grid-cols-3 gap-6">
           <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-6 flex flex-col items-center">
             <span className="text-slate-500 dark:text-slate-400 text-sm mb-2">Available Balance</span>
-            <span className="text-3xl font-bold text-blue-600 dark:text-blue-400 mb-2">{balance ? formatCurrency(balance.available, balance.currency) : "-"}</span>
-            <span className="text-slate-400 text-xs">Pending: {balance ? formatCurrency(balance.pending, balance.currency) : "-"}</span>
+            <span className={`text-3xl font-bold mb-2 ${balance && balance.available < 0 ? "text-red-600 dark:text-red-400" : "text-blue-600 dark:text-blue-400"}`}>{balance ? formatCurrency(balance.available, balance.currency) : "-"}</span>
+            <span className="text-slate-400 text-xs">Held for outgoing payments: {balance ? formatCurrency(balance.pending, balance.currency) : "-"}</span>
           </div>
           <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-6 flex flex-col items-center">
             <span className="text-slate-500 dark:text-slate-400 text-sm mb-2">Total Sent (YTD)</span>
@@ -232,6 +302,8 @@ export default function Dashboard() {
           </div>
         </div>
 
+        <Wallets onConverted={refreshBalance} />
+
         {/* Analytics & Insights */}
         <div className="grid md:grid-cols-2 gap-6">
           <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-6">
@@ -368,11 +440,18 @@ export default function Dashboard() {
               </ul>
             ) : <p className="text-slate-500">No recent activity.</p>}
           </div>
+          <ScheduledPayments />
           <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-6">
             <div className="flex items-center mb-4">
               <CreditCard className="w-5 h-5 text-blue-600 mr-2" />
               <h2 className="text-xl font-semibold text-slate-900 dark:text-white">Recent Transactions</h2>
             </div>
+            {cancelError && (
+              <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-center text-sm">
+                <AlertCircle className="w-4 h-4 text-red-600 mr-2" />
+                <span className="text-red-800">{cancelError}</span>
+              </div>
+            )}
             {transactions.length === 0 ? (
               <div className="text-center py-12">
                 <CreditCard className="w-16 h-16 text-slate-300 mx-auto mb-4" />
@@ -393,13 +472,20 @@ export default function Dashboard() {
                       <th className="text-left py-3 px-4 font-medium text-slate-500">SWIFT Code</th>
                       <th className="text-left py-3 px-4 font-medium text-slate-500">Status</th>
                       <th className="text-left py-3 px-4 font-medium text-slate-500">Date</th>
+                      <th className="py-3 px-4"></th>
                     </tr>
                   </thead>
                   <tbody>
                     {transactions.map((transaction) => (
                       <tr key={transaction.id} className="border-b border-slate-100 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700">
                         <td className="py-4 px-4">
-                          <span className="font-mono text-sm text-slate-900 dark:text-white">{transaction.transaction_id}</span>
+                          <button
+                            onClick={() => setTimelineTransactionId(transaction.transaction_id)}
+                            className="font-mono text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                            title="View payment history"
+                          >
+                            {transaction.transaction_id}
+                          </button>
                         </td>
                         <td className="py-4 px-4">
                           <span className="font-semibold text-slate-900 dark:text-white">{formatCurrency(transaction.amount, transaction.currency)}</span>
@@ -413,21 +499,76 @@ export default function Dashboard() {
                         <td className="py-4 px-4">
                           <div className="flex items-center space-x-2">
                             {getStatusIcon(transaction.status)}
-                            <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(transaction.status)}`}>{transaction.status}</span>
+                            <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(transaction.status)}`}>{PAYMENT_STATUS_LABELS[transaction.status] ?? transaction.status}</span>
                           </div>
                         </td>
                         <td className="py-4 px-4">
                           <span className="text-sm text-slate-600 dark:text-slate-400">{formatDate(transaction.created_at)}</span>
                         </td>
+                        <td className="py-4 px-4 whitespace-nowrap">
+                          <a
+                            href={`/api/transactions/${encodeURIComponent(transaction.transaction_id)}/receipt.pdf`}
+                            download
+                            className="inline-flex p-1 mr-2 text-slate-500 hover:text-blue-600 align-middle"
+                            title="Download receipt (PDF)"
+                          >
+                            <Download className="w-4 h-4" />
+                          </a>
+                          {(transaction.status === "Pending" || transaction.status === "Verified") && (
+                            <button
+                              onClick={() => setCancelTarget(transaction)}
+                              disabled={cancellingId === transaction.transaction_id}
+                              className="text-sm text-red-600 hover:text-red-800 font-medium disabled:opacity-50"
+                            >
+                              {cancellingId === transaction.transaction_id
+                                ? <LoadingSpinner size="sm" />
+                                : transaction.status === "Pending" ? "Cancel" : "Recall"}
+                            </button>
+                          )}
+                        </td>
                       </tr>
                     ))}
                   </tbody>
                 </table>
+                {nextCursor && (
+                  <div className="mt-4 text-center">
+                    <button
+                      onClick={loadMoreTransactions}
+                      disabled={isLoadingMore}
+                      className="bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 px-4 py-2 rounded hover:bg-slate-200 dark:hover:bg-slate-600 disabled:opacity-50"
+                    >
+                      {isLoadingMore ? <LoadingSpinner size="sm" /> : "Load More"}
+                    </button>
+                  </div>
+                )}
               </div>
             )}
           </div>
         </div>
       </div>
+
+      {/* Payment Timeline Dialog */}
+      <Dialog
+        isOpen={timelineTransactionId !== null}
+        onClose={() => setTimelineTransactionId(null)}
+        title={`Payment ${timelineTransactionId ?? ""}`}
+      >
+        {timelineTransactionId && <PaymentTimeline transactionId={timelineTransactionId} />}
+      </Dialog>
+
+      {/* Cancel / Recall Confirmation */}
+      <ConfirmDialog
+        isOpen={cancelTarget !== null}
+        onClose={() => setCancelTarget(null)}
+        onConfirm={() => cancelTarget && handleCancelPayment(cancelTarget)}
+        title={cancelTarget?.status === "Verified" ? "Recall Payment" : "Cancel Payment"}
+        message={cancelTarget?.status === "Verified"
+          ? `Ask us to recall ${cancelTarget.transaction_id}? It has been verified, so our staff will stop it before it is sent if they still can.`
+          : `Cancel ${cancelTarget?.transaction_id ?? ""}? The held funds will be released to your available balance.`}
+        confirmText={cancelTarget?.status === "Verified" ? "Request Recall" : "Cancel Payment"}
+        cancelText="Keep Payment"
+        confirmVariant="danger"
+      />
     </Layout>
   );
 }
@@ -0,0 +1,168 @@
+import { useState } from "react";
+import { Link, useNavigate } from "react-router";
+import { useAuth } from "@/contexts/AuthContext";
+import { Briefcase, ArrowLeft, AlertCircle, Shield } from "lucide-react";
+import Layout from "@/components/Layout";
+import LoadingSpinner from "@/components/LoadingSpinner";
+import TwoFactorLoginForm from "@/components/TwoFactorLoginForm";
+import { FormField, Input } from "@/components/FormField";
+import { EmployeeLoginSchema, type TwoFactorChallenge } from "@/shared/types";
+
+export default function EmployeeLogin() {
+  const { employeeLogin, isPending } = useAuth();
+  const navigate = useNavigate();
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [formData, setFormData] = useState({
+    username: "",
+    password: "",
+  });
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  // Set when the password was right but the account also needs its second factor
+  const [challenge, setChallenge] = useState<TwoFactorChallenge | null>(null);
+
+  const validateForm = () => {
+    const result = EmployeeLoginSchema.safeParse(formData);
+    if (result.success) {
+      setErrors({});
+      return true;
+    }
+    const newErrors: Record<string, string> = {};
+    result.error.errors.forEach((err) => {
+      if (err.path[0]) {
+        newErrors[err.path[0] as string] = err.message;
+      }
+    });
+    setErrors(newErrors);
+    return false;
+  };
+
+  const handleInputChange = (field: string, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: "" }));
+    }
+    if (error) {
+      setError(null);
+    }
+  };
+
+  const handleLogin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validateForm()) {
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const pendingChallenge = await employeeLogin(formData);
+      if (pendingChallenge) {
+        setChallenge(pendingChallenge);
+        setFormData(prev => ({ ...prev, password: "" }));
+        return;
+      }
+      navigate("/employee");
+    } catch (error) {
+      console.error("Employee login failed:", error);
+      setError(error instanceof Error ? error.message : "Sign in failed. Please try again.");
+      setFormData(prev => ({ ...prev, password: "" }));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="min-h-[80vh] flex items-center justify-center py-12">
+        <div className="max-w-md w-full">
+          {/* Back Link */}
+          <Link
+            to="/"
+            className="inline-flex items-center text-sm text-slate-600 hover:text-slate-900 mb-8 transition-colors"
+          >
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            Back to Home
+          </Link>
+
+          {/* Login Card */}
+          <div className="bg-white rounded-xl shadow-xl p-8">
+            <div className="text-center mb-8">
+              <div className="flex justify-center mb-4">
+                <Briefcase className="w-12 h-12 text-blue-600" />
+              </div>
+              <h1 className="text-2xl font-bold text-slate-900 mb-2">
+                Employee Portal
+              </h1>
+              <p className="text-slate-600">
+                Sign in with your staff credentials to verify international payments.
+              </p>
+            </div>
+
+            {challenge ? (
+              <TwoFactorLoginForm
+                challenge={challenge}
+                onVerified={() => navigate("/employee")}
+                onCancel={() => setChallenge(null)}
+              />
+            ) : (
+              <form onSubmit={handleLogin} className="space-y-6">
+                {error && (
+                  <div className="p-3 bg-red-50 border border-red-200 rounded-lg flex items-center">
+                    <AlertCircle className="w-5 h-5 text-red-600 mr-2" />
+                    <span className="text-sm text-red-800">{error}</span>
+                  </div>
+                )}
+
+                <FormField label="Username" error={errors.username} required>
+                  <Input
+                    type="text"
+                    value={formData.username}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => handleInputChange("username", e.target.value)}
+                    autoComplete="username"
+                    maxLength={20}
+                    error={!!errors.username}
+                  />
+                </FormField>
+
+                <FormField label="Password" error={errors.password} required>
+                  <Input
+                    type="password"
+                    value={formData.password}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => handleInputChange("password", e.target.value)}
+                    autoComplete="current-password"
+                    error={!!errors.password}
+                  />
+                </FormField>
+
+                <button
+                  type="submit"
+                  disabled={isLoading || isPending}
+                  className="w-full flex items-center justify-center px-4 py-3 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  {isLoading || isPending ? (
+                    <LoadingSpinner size="sm" />
+                  ) : (
+                    "Sign In"
+                  )}
+                </button>
+
+                <p className="text-xs text-center text-slate-500">
+                  Employee accounts are issued by your administrator and cannot be self-registered.
+                </p>
+              </form>
+            )}
+          </div>
+
+          {/* Security Notice */}
+          <div className="mt-8 p-4 bg-blue-50 rounded-lg">
+            <p className="text-sm text-blue-800 text-center">
+              <Shield className="w-4 h-4 inline mr-1" />
+              Staff activity in this portal is logged
+            </p>
+          </div>
+        </div>
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,540 @@
+import { useState, useEffect, useCallback } from "react";
+import { useNavigate } from "react-router";
+import { useAuth } from "@/contexts/AuthContext";
+import { useTranslation } from "react-i18next";
+import { AlertCircle, CheckCircle, XCircle, Send, ClipboardCheck, FileCode } from "lucide-react";
+import Layout from "@/components/Layout";
+import LoadingSpinner from "@/components/LoadingSpinner";
+import Dialog, { ConfirmDialog } from "@/components/Dialog";
+import { FormField, Textarea } from "@/components/FormField";
+import { EmployeePayment, MAX_SWIFT_SUBMISSION_SIZE, PAYMENT_STATUS_LABELS, SwiftSubmission } from "@/shared/types";
+
+type QueueStatus = "Pending" | "Verified" | "RecallRequested";
+
+type ReviewState = {
+  account_checked: boolean;
+  swift_checked: boolean;
+};
+
+export default function EmployeePayments() {
+  const { i18n } = useTranslation();
+  const { user, isPending } = useAuth();
+  const navigate = useNavigate();
+  const [status, setStatus] = useState<QueueStatus>("Pending");
+  const [payments, setPayments] = useState<EmployeePayment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reviews, setReviews] = useState<Record<string, ReviewState>>({});
+  const [verifyingId, setVerifyingId] = useState<string | null>(null);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [showSubmitDialog, setShowSubmitDialog] = useState(false);
+  const [includeMt103, setIncludeMt103] = useState(false);
+  const [submissions, setSubmissions] = useState<SwiftSubmission[]>([]);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [rejectingId, setRejectingId] = useState<string | null>(null);
+  const [rejectReason, setRejectReason] = useState("");
+  const [isRejecting, setIsRejecting] = useState(false);
+  // The reason dialog is shared by rejecting a payment and declining a customer's recall request
+  const [isDecliningRecall, setIsDecliningRecall] = useState(false);
+  const [acceptingRecallId, setAcceptingRecallId] = useState<string | null>(null);
+
+  const fetchPayments = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/employee/payments?status=${status}`);
+      if (!response.ok) {
+        throw new Error("Failed to load payments");
+      }
+      setPayments(await response.json());
+      setSelected([]);
+    } catch (error) {
+      console.error("Failed to fetch payments:", error);
+      setError("Failed to load payments. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [status]);
+
+  const fetchSubmissions = useCallback(async () => {
+    try {
+      const response = await fetch("/api/employee/swift-submissions");
+      if (response.ok) {
+        setSubmissions(await response.json());
+      }
+    } catch (error) {
+      console.error("Failed to fetch SWIFT submissions:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isPending) return;
+    if (!user) {
+      navigate("/employee/login");
+      return;
+    }
+    if (user.role !== "employee") {
+      navigate("/dashboard");
+      return;
+    }
+    fetchPayments();
+    fetchSubmissions();
+  }, [user, isPending, navigate, fetchPayments, fetchSubmissions]);
+
+  const updateReview = (transactionId: string, field: keyof ReviewState, value: boolean) => {
+    setReviews(prev => ({
+      ...prev,
+      [transactionId]: { ...(prev[transactionId] ?? { account_checked: false, swift_checked: false }), [field]: value },
+    }));
+  };
+
+  const handleVerify = useCallback(async (transactionId: string) => {
+    setVerifyingId(transactionId);
+    setError(null);
+    try {
+      const response = await fetch(`/api/employee/payments/${encodeURIComponent(transactionId)}/verify`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(reviews[transactionId]),
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Verification failed");
+      }
+      setPayments(prev => prev.filter(p => p.transaction_id !== transactionId));
+      setNotice(`Payment ${transactionId} verified.`);
+    } catch (error) {
+      console.error("Verification failed:", error);
+      setError(error instanceof Error ? error.message : "Verification failed. Please try again.");
+    } finally {
+      setVerifyingId(null);
+    }
+  }, [reviews]);
+
+  const handleSubmitToSwift = useCallback(async () => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/employee/payments/submit", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ transaction_ids: selected, include_mt103: includeMt103 }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Submission failed");
+      }
+      const result = await response.json();
+      setNotice(result.submission_id
+        ? `${result.submitted.length} payment(s) submitted to SWIFT as ${result.submission_id}.`
+        : "No payments were submitted; they are no longer Verified.");
+      await Promise.all([fetchPayments(), fetchSubmissions()]);
+    } catch (error) {
+      console.error("Submission failed:", error);
+      setError(error instanceof Error ? error.message : "Submission failed. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [selected, includeMt103, fetchPayments, fetchSubmissions]);
+
+  const handleReject = useCallback(async () => {
+    if (!rejectingId) return;
+    setIsRejecting(true);
+    setError(null);
+    try {
+      const action = isDecliningRecall ? "recall/decline" : "reject";
+      const response = await fetch(`/api/employee/payments/${encodeURIComponent(rejectingId)}/${action}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ reason: rejectReason }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Rejection failed");
+      }
+      setPayments(prev => prev.filter(p => p.transaction_id !== rejectingId));
+      setSelected(prev => prev.filter(id => id !== rejectingId));
+      setNotice(isDecliningRecall
+        ? `Recall of ${rejectingId} declined; the payment is back in the Verified queue.`
+        : `Payment ${rejectingId} rejected.`);
+      setRejectingId(null);
+      setRejectReason("");
+    } catch (error) {
+      console.error("Rejection failed:", error);
+      setError(error instanceof Error ? error.message : "Rejection failed. Please try again.");
+    } finally {
+      setIsRejecting(false);
+    }
+  }, [rejectingId, rejectReason, isDecliningRecall]);
+
+  const openReasonDialog = (transactionId: string, decliningRecall: boolean) => {
+    setRejectingId(transactionId);
+    setIsDecliningRecall(decliningRecall);
+  };
+
+  const handleAcceptRecall = useCallback(async (transactionId: string) => {
+    setAcceptingRecallId(transactionId);
+    setError(null);
+    try {
+      const response = await fetch(`/api/employee/payments/${encodeURIComponent(transactionId)}/recall/accept`, {
+        method: "POST",
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Recall failed");
+      }
+      setPayments(prev => prev.filter(p => p.transaction_id !== transactionId));
+      setNotice(`Payment ${transactionId} recalled and cancelled.`);
+    } catch (error) {
+      console.error("Recall failed:", error);
+      setError(error instanceof Error ? error.message : "Recall failed. Please try again.");
+    } finally {
+      setAcceptingRecallId(null);
+    }
+  }, []);
+
+  const toggleSelected = (transactionId: string) => {
+    setSelected(prev => prev.includes(transactionId)
+      ? prev.filter(id => id !== transactionId)
+      : [...prev, transactionId]);
+  };
+
+  const formatCurrency = (amount: number, currency: string) => {
+    return new Intl.NumberFormat(i18n.language, { style: 'currency', currency }).format(amount);
+  };
+  const formatDate = (date: string) => {
+    return new Intl.DateTimeFormat(i18n.language, { dateStyle: 'medium', timeStyle: 'short' }).format(new Date(date));
+  };
+
+  const renderCheck = (valid: boolean, label: string) => (
+    <span className={`inline-flex items-center text-xs ${valid ? "text-green-700" : "text-red-700"}`}>
+      {valid ? <CheckCircle className="w-3 h-3 mr-1" /> : <XCircle className="w-3 h-3 mr-1" />}
+      {label}
+    </span>
+  );
+
+  if (isPending || !user || user.role !== "employee") {
+    return (
+      <Layout showSidebar>
+        <div className="flex items-center justify-center min-h-[60vh]">
+          <LoadingSpinner size="lg" />
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout showSidebar>
+      <div className="p-6 space-y-6">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-slate-900 dark:text-white">Payment Verification</h1>
+            <p className="text-slate-600 dark:text-slate-400 mt-1">
+              Check payee details, verify payments and submit them to SWIFT.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            {(["Pending", "Verified", "RecallRequested"] as const).map((tab) => (
+              <button
+                key={tab}
+                onClick={() => setStatus(tab)}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                  status === tab
+                    ? "bg-blue-600 text-white"
+                    : "bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 hover:bg-slate-200 dark:hover:bg-slate-600"
+                }`}
+              >
+                {PAYMENT_STATUS_LABELS[tab]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center">
+            <AlertCircle className="w-5 h-5 text-red-600 mr-2" />
+            <span className="text-red-800">{error}</span>
+          </div>
+        )}
+        {notice && (
+          <div className="p-4 bg-green-50 border border-green-200 rounded-lg flex items-center">
+            <CheckCircle className="w-5 h-5 text-green-600 mr-2" />
+            <span className="text-green-800">{notice}</span>
+          </div>
+        )}
+
+        <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-6">
+          {status === "Verified" && payments.length > 0 && (
+            <div className="flex justify-between items-center mb-4">
+              <label className="flex items-center text-sm text-slate-700 dark:text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={selected.length === Math.min(payments.length, MAX_SWIFT_SUBMISSION_SIZE)}
+                  onChange={(e) => setSelected(e.target.checked ? payments.slice(0, MAX_SWIFT_SUBMISSION_SIZE).map(p => p.transaction_id) : [])}
+                  className="mr-2"
+                />
+                {payments.length > MAX_SWIFT_SUBMISSION_SIZE ? `Select first ${MAX_SWIFT_SUBMISSION_SIZE}` : "Select all"}
+              </label>
+              <div className="flex items-center gap-4">
+                <label className="flex items-center text-sm text-slate-700 dark:text-slate-300">
+                  <input
+                    type="checkbox"
+                    checked={includeMt103}
+                    onChange={(e) => setIncludeMt103(e.target.checked)}
+                    className="mr-2"
+                  />
+                  Also generate MT103
+                </label>
+                <button
+                  onClick={() => setShowSubmitDialog(true)}
+                  disabled={selected.length === 0 || selected.length > MAX_SWIFT_SUBMISSION_SIZE || isSubmitting}
+                  title={selected.length > MAX_SWIFT_SUBMISSION_SIZE ? `Submit at most ${MAX_SWIFT_SUBMISSION_SIZE} payments at a time` : undefined}
+                  className="bg-green-600 text-white px-4 py-2 rounded-lg font-semibold hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
+                >
+                  {isSubmitting ? <LoadingSpinner size="sm" /> : <Send className="w-4 h-4" />}
+                  <span>Submit to SWIFT ({selected.length})</span>
+                </button>
+              </div>
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <LoadingSpinner size="lg" />
+            </div>
+          ) : payments.length === 0 ? (
+            <div className="text-center py-12">
+              <ClipboardCheck className="w-16 h-16 text-slate-300 mx-auto mb-4" />
+              <p className="text-slate-600">
+                {status === "RecallRequested" ? "No recall requests." : `No ${status.toLowerCase()} payments.`}
+              </p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-slate-200 dark:border-slate-700">
+                    {status === "Verified" && <th className="py-3 px-4" />}
+                    <th className="text-left py-3 px-4 font-medium text-slate-500">Transaction ID</th>
+                    <th className="text-left py-3 px-4 font-medium text-slate-500">Customer</th>
+                    <th className="text-left py-3 px-4 font-medium text-slate-500">Amount</th>
+                    <th className="text-left py-3 px-4 font-medium text-slate-500">Payee Account</th>
+                    <th className="text-left py-3 px-4 font-medium text-slate-500">SWIFT Code</th>
+                    <th className="text-left py-3 px-4 font-medium text-slate-500">Created</th>
+                    <th className="text-left py-3 px-4 font-medium text-slate-500">{status === "Pending" ? "Review" : "Actions"}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {payments.map((payment) => {
+                    const review = reviews[payment.transaction_id] ?? { account_checked: false, swift_checked: false };
+                    return (
+                      <tr key={payment.transaction_id} className="border-b border-slate-100 dark:border-slate-700 align-top">
+                        {status === "Verified" && (
+                          <td className="py-4 px-4">
+                            <input
+                              type="checkbox"
+                              checked={selected.includes(payment.transaction_id)}
+                              onChange={() => toggleSelected(payment.transaction_id)}
+                              aria-label={`Select ${payment.transaction_id}`}
+                            />
+                          </td>
+                        )}
+                        <td className="py-4 px-4">
+                          <span className="font-mono text-sm text-slate-900 dark:text-white">{payment.transaction_id}</span>
+                        </td>
+                        <td className="py-4 px-4 text-sm text-slate-900 dark:text-white">
+                          {payment.customer_username}
+                          <div className="text-xs text-slate-500">{payment.customer_account_number}</div>
+                        </td>
+                        <td className="py-4 px-4">
+                          <span className="font-semibold text-slate-900 dark:text-white">{formatCurrency(payment.amount, payment.currency)}</span>
+                        </td>
+                        <td className="py-4 px-4">
+                          <div className="font-mono text-sm text-slate-900 dark:text-white">{payment.recipient_account}</div>
+                          {renderCheck(payment.checks.account_format_valid, "Format")}
+                        </td>
+                        <td className="py-4 px-4">
+                          <div className="font-mono text-sm text-slate-900 dark:text-white">{payment.swift_code}</div>
+                          {renderCheck(payment.checks.swift_format_valid, "Format")}
+                        </td>
+                        <td className="py-4 px-4 text-sm text-slate-600 dark:text-slate-400">{formatDate(payment.created_at)}</td>
+                        {status === "Pending" && (
+                          <td className="py-4 px-4 space-y-2">
+                            <label className="flex items-center text-sm text-slate-700 dark:text-slate-300">
+                              <input
+                                type="checkbox"
+                                checked={review.account_checked}
+                                onChange={(e) => updateReview(payment.transaction_id, "account_checked", e.target.checked)}
+                                className="mr-2"
+                              />
+                              Payee account checked
+                            </label>
+                            <label className="flex items-center text-sm text-slate-700 dark:text-slate-300">
+                              <input
+                                type="checkbox"
+                                checked={review.swift_checked}
+                                onChange={(e) => updateReview(payment.transaction_id, "swift_checked", e.target.checked)}
+                                className="mr-2"
+                              />
+                              SWIFT code checked
+                            </label>
+                            <div className="flex gap-2">
+                              <button
+                                onClick={() => handleVerify(payment.transaction_id)}
+                                disabled={!review.account_checked || !review.swift_checked || verifyingId === payment.transaction_id}
+                                className="bg-blue-600 text-white px-3 py-1 rounded text-sm font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                              >
+                                {verifyingId === payment.transaction_id ? <LoadingSpinner size="sm" /> : "Verify"}
+                              </button>
+                              <button
+                                onClick={() => openReasonDialog(payment.transaction_id, false)}
+                                className="bg-red-50 text-red-700 border border-red-200 px-3 py-1 rounded text-sm font-medium hover:bg-red-100"
+                              >
+                                Reject
+                              </button>
+                            </div>
+                          </td>
+                        )}
+                        {status === "Verified" && (
+                          <td className="py-4 px-4">
+                            <button
+                              onClick={() => openReasonDialog(payment.transaction_id, false)}
+                              className="bg-red-50 text-red-700 border border-red-200 px-3 py-1 rounded text-sm font-medium hover:bg-red-100"
+                            >
+                              Reject
+                            </button>
+                          </td>
+                        )}
+                        {status === "RecallRequested" && (
+                          <td className="py-4 px-4">
+                            <div className="flex gap-2">
+                              <button
+                                onClick={() => handleAcceptRecall(payment.transaction_id)}
+                                disabled={acceptingRecallId === payment.transaction_id}
+                                className="bg-blue-600 text-white px-3 py-1 rounded text-sm font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                              >
+                                {acceptingRecallId === payment.transaction_id ? <LoadingSpinner size="sm" /> : "Accept Recall"}
+                              </button>
+                              <button
+                                onClick={() => openReasonDialog(payment.transaction_id, true)}
+                                className="bg-slate-100 text-slate-700 border border-slate-200 px-3 py-1 rounded text-sm font-medium hover:bg-slate-200"
+                              >
+                                Decline
+                              </button>
+                            </div>
+                          </td>
+                        )}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        {submissions.length > 0 && (
+          <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg p-6">
+            <div className="flex items-center mb-4">
+              <FileCode className="w-5 h-5 text-blue-600 mr-2" />
+              <h2 className="text-xl font-semibold text-slate-900 dark:text-white">SWIFT Submissions</h2>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-slate-200 dark:border-slate-700">
+                    <th className="text-left py-3 px-4 font-medium text-slate-500">Submission ID</th>
+                    <th className="text-left py-3 px-4 font-medium text-slate-500">Payments</th>
+                    <th className="text-left py-3 px-4 font-medium text-slate-500">Control Sum</th>
+                    <th className="text-left py-3 px-4 font-medium text-slate-500">Submitted</th>
+                    <th className="text-left py-3 px-4 font-medium text-slate-500">Messages</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {submissions.map((submission) => (
+                    <tr key={submission.id} className="border-b border-slate-100 dark:border-slate-700">
+                      <td className="py-3 px-4 font-mono text-sm text-slate-900 dark:text-white">{submission.id}</td>
+                      <td className="py-3 px-4 text-sm text-slate-900 dark:text-white">{submission.payment_count}</td>
+                      <td className="py-3 px-4 text-sm text-slate-900 dark:text-white">{submission.control_sum.toFixed(2)}</td>
+                      <td className="py-3 px-4 text-sm text-slate-600 dark:text-slate-400">{formatDate(submission.created_at)}</td>
+                      <td className="py-3 px-4 text-sm space-x-3">
+                        <a
+                          href={`/api/employee/swift-submissions/${encodeURIComponent(submission.id)}/pain.001.xml`}
+                          download
+                          className="text-blue-600 hover:underline"
+                        >
+                          pain.001
+                        </a>
+                        {submission.has_mt103 && (
+                          <a
+                            href={`/api/employee/swift-submissions/${encodeURIComponent(submission.id)}/mt103.txt`}
+                            download
+                            className="text-blue-600 hover:underline"
+                          >
+                            MT103
+                          </a>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <ConfirmDialog
+        isOpen={showSubmitDialog}
+        onClose={() => setShowSubmitDialog(false)}
+        onConfirm={handleSubmitToSwift}
+        title="Submit to SWIFT"
+        message={`Submit ${selected.length} verified payment(s) to SWIFT? They will be marked as Sent.`}
+        confirmText="Submit"
+        confirmVariant="primary"
+      />
+
+      <Dialog
+        isOpen={rejectingId !== null}
+        onClose={() => setRejectingId(null)}
+        title={`${isDecliningRecall ? "Decline recall of" : "Reject"} ${rejectingId ?? ""}`}
+      >
+        <div className="space-y-4">
+          <FormField label="Reason" required tooltip="Recorded in the payment history and shown to the customer">
+            <Textarea
+              rows={3}
+              value={rejectReason}
+              onChange={(e) => setRejectReason(e.target.value)}
+              placeholder={isDecliningRecall
+                ? "e.g. Payment was already released to the correspondent bank"
+                : "e.g. Payee account does not match beneficiary bank records"}
+            />
+          </FormField>
+          <div className="flex space-x-3 justify-end">
+            <button
+              onClick={() => setRejectingId(null)}
+              className="px-4 py-2 text-sm font-medium text-slate-700 bg-slate-100 hover:bg-slate-200 rounded-md transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleReject}
+              disabled={!rejectReason.trim() || isRejecting}
+              className="px-4 py-2 text-sm font-medium rounded-md transition-colors bg-red-600 hover:bg-red-700 text-white disabled:opacity-50"
+            >
+              {isRejecting ? <LoadingSpinner size="sm" /> : isDecliningRecall ? "Decline Recall" : "Reject Payment"}
+            </button>
+          </div>
+        </div>
+      </Dialog>
+    </Layout>
+  );
+}
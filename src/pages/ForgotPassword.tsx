@@ -1,15 +1,12 @@
 import { useState } from "react";
 import { Link } from "react-router";
-import { ArrowLeft, Mail, CheckCircle } from "lucide-react";
+import { ArrowLeft, Mail, CheckCircle, AlertCircle } from "lucide-react";
 import Layout from "@/components/Layout";
 import LoadingSpinner from "@/components/LoadingSpinner";
 import { FormField, Input } from "@/components/FormField";
 import Dialog from "@/components/Dialog";
 import { z } from "zod";
-
-const ForgotPasswordSchema = z.object({
-  email: z.string().email("Please enter a valid email address"),
-});
+import { PasswordResetRequestSchema } from "@/shared/types";
 
 export default function ForgotPassword() {
   const [isLoading, setIsLoading] = useState(false);
@@ -18,10 +15,11 @@ export default function ForgotPassword() {
     email: "",
   });
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
 
   const validateForm = () => {
     try {
-      ForgotPasswordSchema.parse(formData);
+      PasswordResetRequestSchema.parse(formData);
       setErrors({});
       return true;
     } catch (error) {
@@ -54,14 +52,23 @@ export default function ForgotPassword() {
     }
 
     setIsLoading(true);
-    
+    setError(null);
     try {
-      // Simulate API call for password reset
-      await new Promise(resolve => setTimeout(resolve, 2000));
+      // Succeeds whether or not the address has an account, so the form does not reveal which ones do
+      const response = await fetch("/api/password-reset", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(formData),
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Password reset failed");
+      }
       setShowSuccessDialog(true);
       setFormData({ email: "" });
     } catch (error) {
       console.error("Password reset failed:", error);
+      setError(error instanceof Error ? error.message : "Password reset failed. Please try again.");
     } finally {
       setIsLoading(false);
     }
@@ -95,6 +102,13 @@ export default function ForgotPassword() {
             </div>
 
             <form onSubmit={handleSubmit} className="space-y-6">
+              {error && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-lg flex items-center">
+                  <AlertCircle className="w-5 h-5 text-red-600 mr-2" />
+                  <span className="text-sm text-red-800">{error}</span>
+                </div>
+              )}
+
               <FormField
                 label="Email Address"
                 error={errors.email}
@@ -140,7 +154,7 @@ export default function ForgotPassword() {
           <div className="mt-8 p-4 bg-blue-50 rounded-lg">
             <p className="text-sm text-blue-800 text-center">
               <Mail className="w-4 h-4 inline mr-1" />
-              Password reset links are valid for 24 hours and can only be used once
+              Password reset links are valid for 1 hour and can only be used once
             </p>
           </div>
 
@@ -149,7 +163,8 @@ export default function ForgotPassword() {
             <h3 className="text-lg font-semibold text-slate-900 mb-3">Need Additional Help?</h3>
             <div className="space-y-3 text-sm text-slate-600">
               <p>• Check your spam or junk folder if you don't receive the email within 5 minutes</p>
-              <p>• Reset links expire after 24 hours for security reasons</p>
+              <p>• Reset links expire after 1 hour for security reasons</p>
+              <p>• Resetting your password also unlocks your account if it was locked after failed sign-ins</p>
               <p>• If you're still having trouble, <Link to="/contact" className="text-blue-600 hover:text-blue-500">contact our support team</Link></p>
             </div>
           </div>
@@ -166,12 +181,12 @@ export default function ForgotPassword() {
         <div className="text-center space-y-4">
           <CheckCircle className="w-16 h-16 text-green-500 mx-auto" />
           <p className="text-slate-600">
-            We've sent password reset instructions to your email address. 
+            If an account uses this email address, we've sent it password reset instructions.
             Please check your inbox and follow the link to reset your password.
           </p>
           <div className="bg-yellow-50 rounded-lg p-4">
             <p className="text-sm text-yellow-800">
-              <strong>Note:</strong> The reset link will expire in 24 hours for security reasons.
+              <strong>Note:</strong> The reset link will expire in 1 hour for security reasons.
             </p>
           </div>
           <button
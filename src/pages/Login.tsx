@@ -1,21 +1,89 @@
 import { useState } from "react";
-import { Link } from "react-router";
+import { Link, useNavigate } from "react-router";
 import { useAuth } from "@/contexts/AuthContext";
-import { Shield, ArrowLeft } from "lucide-react";
+import { Shield, ArrowLeft, AlertCircle, KeyRound } from "lucide-react";
 import Layout from "@/components/Layout";
 import LoadingSpinner from "@/components/LoadingSpinner";
+import TwoFactorLoginForm from "@/components/TwoFactorLoginForm";
+import { FormField, Input } from "@/components/FormField";
+import { LoginSchema, type TwoFactorChallenge } from "@/shared/types";
+import { PasskeyCancelledError, isPasskeySupported } from "@/webauthn";
 
 export default function Login() {
-  const { redirectToLogin, isPending } = useAuth();
+  const { login, loginWithPasskey, isPending } = useAuth();
+  const navigate = useNavigate();
   const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [formData, setFormData] = useState({
+    username: "",
+    account_number: "",
+    password: "",
+  });
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  // Set when the password was right but the account also needs its second factor
+  const [challenge, setChallenge] = useState<TwoFactorChallenge | null>(null);
+
+  const validateForm = () => {
+    const result = LoginSchema.safeParse(formData);
+    if (result.success) {
+      setErrors({});
+      return true;
+    }
+    const newErrors: Record<string, string> = {};
+    result.error.errors.forEach((err) => {
+      if (err.path[0]) {
+        newErrors[err.path[0] as string] = err.message;
+      }
+    });
+    setErrors(newErrors);
+    return false;
+  };
+
+  const handleInputChange = (field: string, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: "" }));
+    }
+    if (error) {
+      setError(null);
+    }
+  };
+
+  const handleLogin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validateForm()) {
+      return;
+    }
 
-  const handleLogin = async () => {
     setIsLoading(true);
+    setError(null);
     try {
-      await redirectToLogin();
-      // If successful, the user will be redirected or the state will update
+      const pendingChallenge = await login(formData);
+      if (pendingChallenge) {
+        setChallenge(pendingChallenge);
+        setFormData(prev => ({ ...prev, password: "" }));
+        return;
+      }
+      navigate("/dashboard");
     } catch (error) {
       console.error("Login failed:", error);
+      setError(error instanceof Error ? error.message : "Sign in failed. Please try again.");
+      setFormData(prev => ({ ...prev, password: "" }));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handlePasskeyLogin = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await loginWithPasskey();
+      navigate("/dashboard");
+    } catch (error) {
+      if (!(error instanceof PasskeyCancelledError)) {
+        setError(error instanceof Error ? error.message : "Passkey sign-in failed. Please try again.");
+      }
     } finally {
       setIsLoading(false);
     }
@@ -48,57 +116,111 @@ export default function Login() {
               </p>
             </div>
 
-            <div className="space-y-6">
-              <button
-                onClick={handleLogin}
-                disabled={isLoading || isPending}
-                className="w-full flex items-center justify-center px-4 py-3 border border-slate-300 rounded-lg shadow-sm bg-white text-sm font-medium text-slate-700 hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-              >
-                {isLoading || isPending ? (
-                  <LoadingSpinner size="sm" />
-                ) : (
+            {challenge ? (
+              <TwoFactorLoginForm
+                challenge={challenge}
+                onVerified={() => navigate("/dashboard")}
+                onCancel={() => setChallenge(null)}
+              />
+            ) : (
+              <form onSubmit={handleLogin} className="space-y-6">
+                {error && (
+                  <div className="p-3 bg-red-50 border border-red-200 rounded-lg flex items-center">
+                    <AlertCircle className="w-5 h-5 text-red-600 mr-2" />
+                    <span className="text-sm text-red-800">{error}</span>
+                  </div>
+                )}
+
+                <FormField label="Username" error={errors.username} required>
+                  <Input
+                    type="text"
+                    value={formData.username}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => handleInputChange("username", e.target.value)}
+                    placeholder="johndoe"
+                    autoComplete="username"
+                    maxLength={20}
+                    error={!!errors.username}
+                  />
+                </FormField>
+
+                <FormField label="Account Number" error={errors.account_number} required>
+                  <Input
+                    type="text"
+                    inputMode="numeric"
+                    value={formData.account_number}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => handleInputChange("account_number", e.target.value)}
+                    placeholder="12345678"
+                    maxLength={12}
+                    error={!!errors.account_number}
+                  />
+                </FormField>
+
+                <FormField label="Password" error={errors.password} required>
+                  <Input
+                    type="password"
+                    value={formData.password}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => handleInputChange("password", e.target.value)}
+                    autoComplete="current-password"
+                    error={!!errors.password}
+                  />
+                </FormField>
+
+                <button
+                  type="submit"
+                  disabled={isLoading || isPending}
+                  className="w-full flex items-center justify-center px-4 py-3 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  {isLoading || isPending ? (
+                    <LoadingSpinner size="sm" />
+                  ) : (
+                    "Sign In"
+                  )}
+                </button>
+
+                {isPasskeySupported() && (
                   <>
-                    <svg className="w-5 h-5 mr-3" viewBox="0 0 24 24">
-                      <path
-                        fill="currentColor"
-                        d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z"
-                      />
-                      <path
-                        fill="currentColor"
-                        d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"
-                      />
-                      <path
-                        fill="currentColor"
-                        d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z"
-                      />
-                      <path
-                        fill="currentColor"
-                        d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"
-                      />
-                    </svg>
-                    Continue with Google
+                    <div className="flex items-center text-xs text-slate-400">
+                      <div className="flex-1 border-t border-slate-200" />
+                      <span className="px-3">or</span>
+                      <div className="flex-1 border-t border-slate-200" />
+                    </div>
+                    <button
+                      type="button"
+                      onClick={handlePasskeyLogin}
+                      disabled={isLoading || isPending}
+                      className="w-full flex items-center justify-center px-4 py-3 border border-slate-300 text-slate-700 rounded-lg font-semibold hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                      <KeyRound className="w-5 h-5 mr-2" />
+                      Sign in with passkey
+                    </button>
                   </>
                 )}
-              </button>
 
-              <div className="text-center space-y-3">
-                <Link
-                  to="/forgot-password"
-                  className="text-sm font-medium text-blue-600 hover:text-blue-500 transition-colors block"
-                >
-                  Forgot your password?
-                </Link>
-                <p className="text-sm text-slate-600">
-                  Don't have an account?{" "}
+                <div className="text-center space-y-3">
                   <Link
-                    to="/register"
-                    className="font-medium text-blue-600 hover:text-blue-500 transition-colors"
+                    to="/forgot-password"
+                    className="text-sm font-medium text-blue-600 hover:text-blue-500 transition-colors block"
                   >
-                    Create one here
+                    Forgot your password?
                   </Link>
-                </p>
-              </div>
-            </div>
+                  <p className="text-sm text-slate-600">
+                    Don't have an account?{" "}
+                    <Link
+                      to="/register"
+                      className="font-medium text-blue-600 hover:text-blue-500 transition-colors"
+                    >
+                      Create one here
+                    </Link>
+                  </p>
+                  <Link
+                    to="/employee/login"
+                    className="text-xs text-slate-500 hover:text-slate-700 transition-colors block"
+                  >
+                    Employee sign in
+                  </Link>
+                </div>
+              </form>
+            )}
           </div>
 
           {/* Security Notice */}
@@ -2,11 +2,65 @@ import { useState, useEffect, useCallback } from "react";
 import { Link, useNavigate } from "react-router";
 import { useAuth } from "@/contexts/AuthContext";
 import { useTranslation } from "react-i18next";
-import { ArrowLeft, AlertCircle, CheckCircle } from "lucide-react";
+import { ArrowLeft, AlertCircle, CheckCircle, Download, Landmark, UserPlus } from "lucide-react";
 import Layout from "@/components/Layout";
 import LoadingSpinner from "@/components/LoadingSpinner";
 import { FormField, Input, Select } from "@/components/FormField";
 import Dialog, { ConfirmDialog } from "@/components/Dialog";
+import StepUpDialog from "@/components/StepUpDialog";
+import {
+  BeneficiarySchema,
+  SCHEDULE_FREQUENCY_LABELS,
+  ScheduledPaymentSchema,
+  STEP_UP_REQUIRED,
+  SwiftCodeSchema,
+  findLimitBreach,
+  todayUtc,
+  validateRecipientAccount,
+  type AccountBalance,
+  type AccountLimits,
+  type BankDirectoryEntry,
+  type Beneficiary,
+  type FxQuote,
+  type ScheduledPayment,
+  type ScheduleFrequency,
+  type Transaction,
+  type WalletBalances,
+} from "@/shared/types";
+
+type Payee = { recipient_account: string; swift_code: string; currency: string };
+
+type BankLookup =
+  | { status: "idle" | "loading" | "not_found" }
+  | { status: "found"; bank: BankDirectoryEntry };
+
+const EMPTY_FORM = {
+  amount: "",
+  currency: "USD",
+  // Wallet the payment is paid from
+  source_currency: "USD",
+  recipient_account: "",
+  swift_code: "",
+  reference: "",
+};
+
+const EMPTY_SCHEDULE = {
+  timing: "now" as "now" | "schedule",
+  frequency: "once" as ScheduleFrequency,
+  start_date: "",
+  end_type: "never" as "never" | "date" | "count",
+  end_date: "",
+  max_runs: "",
+};
+
+// Earliest start date for a scheduled payment
+function tomorrowUtc() {
+  return new Date(Date.parse(todayUtc()) + 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+function isQuoteValid(quote: FxQuote | null): quote is FxQuote {
+  return !!quote && new Date(quote.expires_at) > new Date();
+}
 
 export default function PaymentForm() {
   const { user, isPending } = useAuth();
@@ -15,16 +69,30 @@ export default function PaymentForm() {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showConfirmDialog, setShowConfirmDialog] = useState(false);
+  // Large payments from accounts with 2FA need a fresh code before the worker books them
+  const [showStepUp, setShowStepUp] = useState(false);
   const [showSuccessDialog, setShowSuccessDialog] = useState(false);
   const [transactionId, setTransactionId] = useState<string | null>(null);
+  const [receipt, setReceipt] = useState<Transaction | null>(null);
+  const [scheduledPayment, setScheduledPayment] = useState<ScheduledPayment | null>(null);
+  // One key per payment attempt: retries of the same confirmed payment reuse it so the server never books it twice
+  const [idempotencyKey, setIdempotencyKey] = useState<string | null>(null);
+  const [beneficiaries, setBeneficiaries] = useState<Beneficiary[]>([]);
+  const [selectedBeneficiaryId, setSelectedBeneficiaryId] = useState("");
+  // Recipient of the last submitted payment, offered for saving from the success dialog
+  const [lastPayee, setLastPayee] = useState<Payee | null>(null);
+  const [payeeForm, setPayeeForm] = useState({ nickname: "", bank_name: "" });
+  const [payeeError, setPayeeError] = useState<string | null>(null);
+  const [isSavingPayee, setIsSavingPayee] = useState(false);
+  const [payeeSaved, setPayeeSaved] = useState(false);
+  const [bankLookup, setBankLookup] = useState<BankLookup>({ status: "idle" });
+  // Locked exchange rate shown in the confirm dialog; the payment is booked at this rate
+  const [quote, setQuote] = useState<FxQuote | null>(null);
+  const [limits, setLimits] = useState<AccountLimits | null>(null);
+  const [wallets, setWallets] = useState<AccountBalance[]>([]);
   
-  const [formData, setFormData] = useState({
-    amount: "",
-    currency: "USD",
-    recipient_account: "",
-    swift_code: "",
-    reference: "",
-  });
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [scheduleData, setScheduleData] = useState(EMPTY_SCHEDULE);
   
   const [errors, setErrors] = useState<Record<string, string>>({});
 
@@ -34,6 +102,92 @@ export default function PaymentForm() {
     }
   }, [user, isPending, navigate]);
 
+  const fetchBeneficiaries = useCallback(async () => {
+    try {
+      const response = await fetch("/api/beneficiaries");
+      if (response.ok) {
+        setBeneficiaries(await response.json());
+      }
+    } catch (error) {
+      console.error("Failed to fetch saved payees:", error);
+    }
+  }, []);
+
+  const fetchLimits = useCallback(async () => {
+    try {
+      const response = await fetch("/api/account/limits");
+      if (response.ok) {
+        setLimits(await response.json());
+      }
+    } catch (error) {
+      console.error("Failed to fetch payment limits:", error);
+    }
+  }, []);
+
+  const fetchWallets = useCallback(async () => {
+    try {
+      const response = await fetch("/api/account/balances");
+      if (response.ok) {
+        const data: WalletBalances = await response.json();
+        setWallets(data.balances);
+      }
+    } catch (error) {
+      console.error("Failed to fetch wallets:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (user) {
+      fetchBeneficiaries();
+      fetchLimits();
+      fetchWallets();
+    }
+  }, [user, fetchBeneficiaries, fetchLimits, fetchWallets]);
+
+  // Look the SWIFT code up in the BIC directory once it is well-formed, debounced while typing
+  useEffect(() => {
+    const swiftCode = formData.swift_code;
+    if (!SwiftCodeSchema.safeParse(swiftCode).success) {
+      setBankLookup({ status: "idle" });
+      return;
+    }
+
+    let cancelled = false;
+    setBankLookup({ status: "loading" });
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/swift/${swiftCode}`);
+        if (cancelled) return;
+        if (response.ok) {
+          setBankLookup({ status: "found", bank: await response.json() });
+        } else {
+          // Only a definite miss blocks the form; the server re-checks the code on submit
+          setBankLookup({ status: response.status === 404 ? "not_found" : "idle" });
+        }
+      } catch (error) {
+        console.error("SWIFT code lookup failed:", error);
+        if (!cancelled) setBankLookup({ status: "idle" });
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [formData.swift_code]);
+
+  const buildSchedulePayload = useCallback(() => ({
+    amount: parseFloat(formData.amount),
+    currency: formData.currency,
+    recipient_account: formData.recipient_account,
+    swift_code: formData.swift_code,
+    reference: formData.reference || undefined,
+    frequency: scheduleData.frequency,
+    start_date: scheduleData.start_date,
+    end_date: scheduleData.end_type === "date" ? scheduleData.end_date : undefined,
+    max_runs: scheduleData.end_type === "count" ? parseInt(scheduleData.max_runs, 10) : undefined,
+  }), [formData, scheduleData]);
+
   const validateForm = useCallback(() => {
     const newErrors: Record<string, string> = {};
     
@@ -46,22 +200,48 @@ export default function PaymentForm() {
       }
     }
     
-    if (!formData.recipient_account.trim()) {
-      newErrors.recipient_account = "Recipient account is required";
-    }
-    
     if (!formData.swift_code.trim()) {
       newErrors.swift_code = "SWIFT code is required";
     } else if (!/^[A-Z]{6}[A-Z0-9]{2}([A-Z0-9]{3})?$/.test(formData.swift_code)) {
       newErrors.swift_code = "Invalid SWIFT code format";
+    } else if (bankLookup.status === "not_found") {
+      newErrors.swift_code = "Unknown SWIFT code";
+    }
+
+    if (!formData.recipient_account.trim()) {
+      newErrors.recipient_account = "Recipient account is required";
+    } else {
+      const accountError = validateRecipientAccount(formData.recipient_account, formData.swift_code);
+      if (accountError) {
+        newErrors.recipient_account = accountError;
+      }
+    }
+
+    if (scheduleData.timing === "schedule") {
+      if (!scheduleData.start_date) {
+        newErrors.start_date = "Start date is required";
+      }
+      const result = ScheduledPaymentSchema.safeParse(buildSchedulePayload());
+      for (const issue of result.success ? [] : result.error.issues) {
+        const field = String(issue.path[0]);
+        if (["frequency", "start_date", "end_date", "max_runs"].includes(field) && !newErrors[field]) {
+          newErrors[field] = issue.message;
+        }
+      }
     }
 
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
-  }, [formData]);
+  }, [formData, bankLookup, scheduleData, buildSchedulePayload]);
 
   const handleInputChange = useCallback((field: string, value: string) => {
     setFormData(prev => ({ ...prev, [field]: value }));
+    // Editing the payment makes it a different request
+    setIdempotencyKey(null);
+    setQuote(null);
+    if (field === "recipient_account" || field === "swift_code") {
+      setSelectedBeneficiaryId("");
+    }
     // Clear error when user starts typing
     if (errors[field]) {
       setErrors(prev => ({ ...prev, [field]: "" }));
@@ -72,6 +252,67 @@ export default function PaymentForm() {
     }
   }, [errors, error]);
 
+  const handleScheduleChange = useCallback((field: keyof typeof EMPTY_SCHEDULE, value: string) => {
+    setScheduleData(prev => ({ ...prev, [field]: value }));
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: "" }));
+    }
+  }, [errors]);
+
+  const handleBeneficiaryChange = useCallback((id: string) => {
+    setSelectedBeneficiaryId(id);
+    const beneficiary = beneficiaries.find(b => b.id === id);
+    if (!beneficiary) {
+      return;
+    }
+    setFormData(prev => ({
+      ...prev,
+      recipient_account: beneficiary.account_number,
+      swift_code: beneficiary.swift_code,
+      currency: beneficiary.default_currency,
+    }));
+    setIdempotencyKey(null);
+    setQuote(null);
+    setErrors(prev => ({ ...prev, recipient_account: "", swift_code: "" }));
+  }, [beneficiaries]);
+
+  const requestQuote = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/fx/quote", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          amount: parseFloat(formData.amount),
+          currency: formData.currency,
+          swift_code: formData.swift_code,
+          source_currency: formData.source_currency,
+        }),
+      });
+
+      if (response.ok) {
+        const newQuote: FxQuote = await response.json();
+        setQuote(newQuote);
+        // Limits in the base currency can only be checked once the converted amount is known
+        const breach = limits && findLimitBreach(limits, [newQuote]);
+        if (breach) {
+          setError(breach.message);
+        } else {
+          setShowConfirmDialog(true);
+        }
+      } else {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Could not get an exchange rate");
+      }
+    } catch (error) {
+      console.error("FX quote failed:", error);
+      setError(error instanceof Error ? error.message : "Could not get an exchange rate. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [formData.amount, formData.currency, formData.swift_code, formData.source_currency, limits]);
+
   const handleSubmit = useCallback((e: React.FormEvent) => {
     e.preventDefault();
     
@@ -79,10 +320,80 @@ export default function PaymentForm() {
       return;
     }
 
-    setShowConfirmDialog(true);
-  }, [validateForm]);
+    // Scheduled payments are priced when each one runs, so there is no quote to confirm
+    if (scheduleData.timing === "schedule") {
+      setShowConfirmDialog(true);
+      return;
+    }
+
+    setIdempotencyKey(prev => prev ?? crypto.randomUUID());
+    if (isQuoteValid(quote)) {
+      setShowConfirmDialog(true);
+    } else {
+      requestQuote();
+    }
+  }, [validateForm, quote, requestQuote, scheduleData.timing]);
+
+  // Offers the payee for saving and clears the form once a payment or schedule has been accepted
+  const completeSubmission = useCallback(() => {
+    setLastPayee({
+      recipient_account: formData.recipient_account,
+      swift_code: formData.swift_code,
+      currency: formData.currency,
+    });
+    setPayeeForm({ nickname: "", bank_name: bankLookup.status === "found" ? bankLookup.bank.bank_name : "" });
+    setPayeeError(null);
+    setPayeeSaved(false);
+    setSelectedBeneficiaryId("");
+    setShowSuccessDialog(true);
+    setFormData(EMPTY_FORM);
+    setScheduleData(EMPTY_SCHEDULE);
+    setErrors({});
+    fetchLimits();
+    fetchWallets();
+  }, [formData, bankLookup, fetchLimits, fetchWallets]);
+
+  const handleConfirmSchedule = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/scheduled-payments", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(buildSchedulePayload()),
+      });
+
+      if (response.ok) {
+        const result = await response.json();
+        setScheduledPayment(result.data);
+        setTransactionId(null);
+        setReceipt(null);
+        completeSubmission();
+      } else {
+        const errorData = await response.json().catch(() => ({}));
+        if (errorData.code === STEP_UP_REQUIRED) {
+          // Sent again once verified
+          setShowStepUp(true);
+          return;
+        }
+        throw new Error(errorData.error || "Could not schedule payment");
+      }
+    } catch (error) {
+      console.error("Scheduling payment failed:", error);
+      setError(error instanceof Error ? error.message : "Could not schedule payment. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [buildSchedulePayload, completeSubmission]);
 
   const handleConfirmPayment = useCallback(async () => {
+    if (!isQuoteValid(quote)) {
+      // The locked rate ran out while the dialog was open; show the customer the new rate first
+      await requestQuote();
+      setError("Your exchange rate expired. Please review the updated rate and confirm again.");
+      return;
+    }
+
     setIsLoading(true);
     setError(null);
     try {
@@ -90,12 +401,14 @@ export default function PaymentForm() {
         ...formData,
         amount: parseFloat(formData.amount),
         reference: formData.reference || undefined,
+        fx_quote_id: quote.quote_id,
       };
 
       const response = await fetch("/api/transactions", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          ...(idempotencyKey ? { "Idempotency-Key": idempotencyKey } : {}),
         },
         body: JSON.stringify(parsedData),
       });
@@ -103,19 +416,23 @@ export default function PaymentForm() {
       if (response.ok) {
         const result = await response.json();
         setTransactionId(result.transaction_id);
-        setShowSuccessDialog(true);
-        // Reset form
-        setFormData({
-          amount: "",
-          currency: "USD",
-          recipient_account: "",
-          swift_code: "",
-          reference: "",
-        });
-        setErrors({});
+        setReceipt(result.data);
+        setScheduledPayment(null);
+        setIdempotencyKey(null);
+        setQuote(null);
+        completeSubmission();
       } else {
-        const errorData = await response.json();
-        throw new Error(errorData.message || "Payment failed");
+        if (response.status === 410) {
+          // Quote expired on the server; the next attempt fetches a fresh one
+          setQuote(null);
+        }
+        const errorData = await response.json().catch(() => ({}));
+        if (errorData.code === STEP_UP_REQUIRED) {
+          // Sent again once verified, with the same idempotency key
+          setShowStepUp(true);
+          return;
+        }
+        throw new Error(errorData.error || errorData.message || "Payment failed");
       }
     } catch (error) {
       console.error("Payment failed:", error);
@@ -123,7 +440,51 @@ export default function PaymentForm() {
     } finally {
       setIsLoading(false);
     }
-  }, [formData]);
+  }, [formData, idempotencyKey, quote, requestQuote, completeSubmission]);
+
+  const handleSavePayee = useCallback(async () => {
+    if (!lastPayee) return;
+
+    const result = BeneficiarySchema.safeParse({
+      nickname: payeeForm.nickname,
+      account_number: lastPayee.recipient_account,
+      swift_code: lastPayee.swift_code,
+      bank_name: payeeForm.bank_name.trim() || undefined,
+      // Characters 5-6 of a BIC are the bank's ISO country code
+      country: lastPayee.swift_code.slice(4, 6),
+      default_currency: lastPayee.currency,
+    });
+    if (!result.success) {
+      setPayeeError(result.error.issues[0]?.message || "Invalid payee details");
+      return;
+    }
+
+    setIsSavingPayee(true);
+    setPayeeError(null);
+    try {
+      const response = await fetch("/api/beneficiaries", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(result.data),
+      });
+
+      if (response.ok) {
+        setPayeeSaved(true);
+        fetchBeneficiaries();
+      } else {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Failed to save payee");
+      }
+    } catch (error) {
+      setPayeeError(error instanceof Error ? error.message : "Failed to save payee");
+    } finally {
+      setIsSavingPayee(false);
+    }
+  }, [lastPayee, payeeForm, fetchBeneficiaries]);
+
+  const isLastPayeeSaved = !!lastPayee && beneficiaries.some(b =>
+    b.account_number === lastPayee.recipient_account && b.swift_code === lastPayee.swift_code
+  );
 
   const formatCurrency = useCallback((amount: string, currency: string) => {
     if (!amount) return "";
@@ -136,6 +497,18 @@ export default function PaymentForm() {
     }).format(numAmount);
   }, [i18n.language]);
 
+  const formatLimit = (value: number | null, currency: string) =>
+    value === null ? "No limit" : new Intl.NumberFormat(i18n.language, { style: 'currency', currency }).format(value);
+
+  // Limits covering the payment being entered, and the first one it would go over
+  const applicableLimits = limits?.limits.filter(limit => limit.currency === null || limit.currency === formData.currency) ?? [];
+  const enteredAmount = parseFloat(formData.amount);
+  const limitBreach = limits && enteredAmount > 0
+    ? findLimitBreach(limits, [{ amount: enteredAmount, currency: formData.currency, reference_amount: quote?.reference_amount }])
+    : null;
+  // A scheduled payment is checked against the daily and monthly limits on the day it runs
+  const limitBlocksSubmit = !!limitBreach && (scheduleData.timing === "now" || limitBreach.code === "PER_TRANSACTION_LIMIT_EXCEEDED");
+
   if (isPending) {
     return (
       <Layout showSidebar>
@@ -167,6 +540,9 @@ export default function PaymentForm() {
           <p className="text-slate-600">
             Send money internationally with secure, fast transfers.
           </p>
+          <p className="text-sm text-slate-500 mt-1">
+            Paying many recipients? <Link to="/payment/bulk" className="text-blue-600 hover:underline">Upload a CSV instead</Link>.
+          </p>
         </div>
 
         {/* Error Display */}
@@ -182,6 +558,25 @@ export default function PaymentForm() {
         {/* Payment Form */}
         <div className="bg-white rounded-xl shadow-lg p-8">
           <form onSubmit={handleSubmit} className="space-y-6">
+            {beneficiaries.length > 0 && (
+              <FormField
+                label="Saved Payee"
+                tooltip="Pick a saved payee to fill in their account details"
+              >
+                <Select
+                  value={selectedBeneficiaryId}
+                  onChange={(e) => handleBeneficiaryChange(e.target.value)}
+                  options={[
+                    { value: "", label: "Enter payee details manually" },
+                    ...beneficiaries.map(b => ({
+                      value: b.id,
+                      label: `${b.nickname} - ${b.account_number} (${b.swift_code})`,
+                    })),
+                  ]}
+                />
+              </FormField>
+            )}
+
             <div className="grid md:grid-cols-2 gap-6">
               <FormField
                 label="Amount"
@@ -218,11 +613,68 @@ export default function PaymentForm() {
               </FormField>
             </div>
 
+            {/* Scheduled payments are always paid from the base currency wallet */}
+            {scheduleData.timing === "now" && wallets.length > 0 && (
+              <FormField
+                label="Pay From"
+                tooltip="The wallet the payment and its fee are debited from. Payments in another currency are converted at the quoted rate."
+              >
+                <Select
+                  value={formData.source_currency}
+                  onChange={(e) => handleInputChange("source_currency", e.target.value)}
+                  options={wallets.map(wallet => ({
+                    value: wallet.currency,
+                    label: `${wallet.currency} wallet - ${new Intl.NumberFormat(i18n.language, { style: 'currency', currency: wallet.currency }).format(wallet.available)} available`,
+                  }))}
+                />
+              </FormField>
+            )}
+
+            {limits && applicableLimits.length > 0 && (
+              <div className={`rounded-lg p-4 text-sm ${limitBreach ? "bg-red-50 border border-red-200" : "bg-slate-50"}`}>
+                <div className="space-y-3">
+                  {applicableLimits.map(limit => {
+                    const currency = limit.currency ?? limits.base_currency;
+                    const dailyUsed = limit.daily.limit ? Math.min(100, (limit.daily.used / limit.daily.limit) * 100) : 0;
+                    return (
+                      <div key={limit.currency ?? "all"}>
+                        <p className="font-medium text-slate-700 mb-1">
+                          {limit.currency ? `${limit.currency} payment limits` : `Payment limits (${currency})`}
+                        </p>
+                        <div className="grid grid-cols-3 gap-2 text-slate-600">
+                          <span>Per payment: <strong className="text-slate-900">{formatLimit(limit.per_transaction, currency)}</strong></span>
+                          <span>Left today: <strong className="text-slate-900">{formatLimit(limit.daily.remaining, currency)}</strong></span>
+                          <span>Left this month: <strong className="text-slate-900">{formatLimit(limit.monthly.remaining, currency)}</strong></span>
+                        </div>
+                        {limit.daily.limit !== null && (
+                          <div className="mt-2 h-1.5 bg-slate-200 rounded-full overflow-hidden">
+                            <div
+                              className={`h-full ${dailyUsed >= 90 ? "bg-red-500" : "bg-blue-500"}`}
+                              style={{ width: `${dailyUsed}%` }}
+                            />
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+                {limitBreach && (
+                  <p className="mt-3 flex items-center text-red-700">
+                    <AlertCircle className="w-4 h-4 mr-1 flex-shrink-0" />
+                    {limitBreach.message}
+                  </p>
+                )}
+                <p className="mt-2 text-xs text-slate-500">
+                  Daily limits reset at {new Date(limits.daily_reset_at).toLocaleString(i18n.language)}.
+                </p>
+              </div>
+            )}
+
             <FormField
               label="Recipient Account Number"
               error={errors.recipient_account}
               required
-              tooltip="Enter the recipient's bank account number"
+              tooltip="IBAN for IBAN countries (e.g. GB29 NWBK 6016 1331 9268 19), otherwise the local account number"
             >
               <Input
                 type="text"
@@ -233,21 +685,33 @@ export default function PaymentForm() {
               />
             </FormField>
 
-            <FormField
-              label="SWIFT Code"
-              error={errors.swift_code}
-              required
-              tooltip="Bank's SWIFT/BIC code (e.g., ABCDUS33)"
-            >
-              <Input
-                type="text"
-                value={formData.swift_code}
-                onChange={(e) => handleInputChange("swift_code", e.target.value.toUpperCase())}
-                placeholder="ABCDUS33"
-                maxLength={11}
-                error={!!errors.swift_code}
-              />
-            </FormField>
+            <div className="space-y-1">
+              <FormField
+                label="SWIFT Code"
+                error={errors.swift_code || (bankLookup.status === "not_found" ? "Unknown SWIFT code" : undefined)}
+                required
+                success={bankLookup.status === "found"}
+                tooltip="Bank's SWIFT/BIC code (e.g., ABCDUS33)"
+              >
+                <Input
+                  type="text"
+                  value={formData.swift_code}
+                  onChange={(e) => handleInputChange("swift_code", e.target.value.toUpperCase())}
+                  placeholder="ABCDUS33"
+                  maxLength={11}
+                  error={!!errors.swift_code || bankLookup.status === "not_found"}
+                />
+              </FormField>
+              {bankLookup.status === "loading" && (
+                <p className="text-sm text-slate-500">Looking up bank...</p>
+              )}
+              {bankLookup.status === "found" && (
+                <p className="flex items-center text-sm text-slate-600">
+                  <Landmark className="w-4 h-4 mr-1" />
+                  {bankLookup.bank.bank_name}, {bankLookup.bank.city}, {bankLookup.bank.country}
+                </p>
+              )}
+            </div>
 
             <FormField
               label="Reference (Optional)"
@@ -261,6 +725,87 @@ export default function PaymentForm() {
               />
             </FormField>
 
+            {/* Timing */}
+            <div className="space-y-4">
+              <FormField label="When">
+                <Select
+                  value={scheduleData.timing}
+                  onChange={(e) => handleScheduleChange("timing", e.target.value)}
+                  options={[
+                    { value: "now", label: "Send now" },
+                    { value: "schedule", label: "Schedule for later or repeat" },
+                  ]}
+                />
+              </FormField>
+
+              {scheduleData.timing === "schedule" && (
+                <div className="grid md:grid-cols-2 gap-6">
+                  <FormField label="Frequency" error={errors.frequency} required>
+                    <Select
+                      value={scheduleData.frequency}
+                      onChange={(e) => handleScheduleChange("frequency", e.target.value)}
+                      options={Object.entries(SCHEDULE_FREQUENCY_LABELS).map(([value, label]) => ({ value, label }))}
+                    />
+                  </FormField>
+
+                  <FormField
+                    label={scheduleData.frequency === "once" ? "Payment Date" : "Start Date"}
+                    error={errors.start_date}
+                    required
+                  >
+                    <Input
+                      type="date"
+                      min={tomorrowUtc()}
+                      value={scheduleData.start_date}
+                      onChange={(e) => handleScheduleChange("start_date", e.target.value)}
+                      error={!!errors.start_date}
+                    />
+                  </FormField>
+
+                  {scheduleData.frequency !== "once" && (
+                    <>
+                      <FormField label="Ends">
+                        <Select
+                          value={scheduleData.end_type}
+                          onChange={(e) => handleScheduleChange("end_type", e.target.value)}
+                          options={[
+                            { value: "never", label: "Until I cancel it" },
+                            { value: "date", label: "On a date" },
+                            { value: "count", label: "After a number of payments" },
+                          ]}
+                        />
+                      </FormField>
+
+                      {scheduleData.end_type === "date" && (
+                        <FormField label="End Date" error={errors.end_date} required>
+                          <Input
+                            type="date"
+                            min={scheduleData.start_date || tomorrowUtc()}
+                            value={scheduleData.end_date}
+                            onChange={(e) => handleScheduleChange("end_date", e.target.value)}
+                            error={!!errors.end_date}
+                          />
+                        </FormField>
+                      )}
+
+                      {scheduleData.end_type === "count" && (
+                        <FormField label="Number of Payments" error={errors.max_runs} required>
+                          <Input
+                            type="number"
+                            min="1"
+                            step="1"
+                            value={scheduleData.max_runs}
+                            onChange={(e) => handleScheduleChange("max_runs", e.target.value)}
+                            error={!!errors.max_runs}
+                          />
+                        </FormField>
+                      )}
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+
             {/* Payment Summary */}
             {formData.amount && parseFloat(formData.amount) > 0 && (
               <div className="bg-slate-50 rounded-lg p-4">
@@ -270,24 +815,21 @@ export default function PaymentForm() {
                     <span>Amount:</span>
                     <span className="font-semibold">{formatCurrency(formData.amount, formData.currency)}</span>
                   </div>
-                  <div className="flex justify-between">
-                    <span>Transfer Fee:</span>
-                    <span className="font-semibold">{formatCurrency((parseFloat(formData.amount) * 0.02).toString(), formData.currency)}</span>
-                  </div>
-                  <div className="border-t pt-1 flex justify-between font-semibold">
-                    <span>Total:</span>
-                    <span>{formatCurrency((parseFloat(formData.amount) * 1.02).toString(), formData.currency)}</span>
-                  </div>
+                  <p className="text-slate-500">
+                    {scheduleData.timing === "schedule"
+                      ? "Each scheduled payment uses the exchange rate and transfer fee on the day it is sent."
+                      : "The exchange rate, transfer fee and total debit are shown before you confirm."}
+                  </p>
                 </div>
               </div>
             )}
 
             <button
               type="submit"
-              disabled={isLoading || !formData.amount || parseFloat(formData.amount) <= 0}
+              disabled={isLoading || bankLookup.status === "loading" || !formData.amount || parseFloat(formData.amount) <= 0 || limitBlocksSubmit}
               className="w-full bg-blue-600 text-white py-3 rounded-lg font-semibold hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              {isLoading ? <LoadingSpinner size="sm" /> : "Continue to Payment"}
+              {isLoading ? <LoadingSpinner size="sm" /> : scheduleData.timing === "schedule" ? "Continue to Schedule" : "Continue to Payment"}
             </button>
           </form>
         </div>
@@ -304,36 +846,162 @@ export default function PaymentForm() {
       <ConfirmDialog
         isOpen={showConfirmDialog}
         onClose={() => setShowConfirmDialog(false)}
-        onConfirm={handleConfirmPayment}
-        title="Confirm Payment"
-        message={`Are you sure you want to send ${formatCurrency(formData.amount, formData.currency)} to ${formData.recipient_account}?`}
-        confirmText="Send Payment"
+        onConfirm={scheduleData.timing === "schedule" ? handleConfirmSchedule : handleConfirmPayment}
+        title={scheduleData.timing === "schedule" ? "Confirm Scheduled Payment" : "Confirm Payment"}
+        message={scheduleData.timing === "schedule"
+          ? `Schedule ${formatCurrency(formData.amount, formData.currency)} to ${formData.recipient_account}: ${SCHEDULE_FREQUENCY_LABELS[scheduleData.frequency].toLowerCase()}, starting ${scheduleData.start_date}?`
+          : `Are you sure you want to send ${formatCurrency(formData.amount, formData.currency)} to ${formData.recipient_account}?`}
+        confirmText={scheduleData.timing === "schedule" ? "Schedule Payment" : "Send Payment"}
         confirmVariant="primary"
+      >
+        {scheduleData.timing === "now" && quote && (
+          <div className="bg-slate-50 rounded-lg p-4 space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span>Exchange rate:</span>
+              <span className="font-semibold">1 {quote.base_currency} = {quote.rate.toFixed(4)} {quote.currency}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Converted amount:</span>
+              <span className="font-semibold">{formatCurrency(String(quote.base_amount), quote.base_currency)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Transfer fee ({quote.fee_percentage}%):</span>
+              <span className="font-semibold">{formatCurrency(String(quote.fee), quote.base_currency)}</span>
+            </div>
+            <div className="border-t pt-1 flex justify-between font-semibold">
+              <span>Total debit:</span>
+              <span>{formatCurrency(String(quote.total_debit), quote.base_currency)}</span>
+            </div>
+            <p className="text-xs text-slate-500">
+              Rate locked until {new Date(quote.expires_at).toLocaleTimeString(i18n.language)}
+            </p>
+          </div>
+        )}
+      </ConfirmDialog>
+
+      <StepUpDialog
+        isOpen={showStepUp}
+        onClose={() => setShowStepUp(false)}
+        onVerified={() => {
+          setShowStepUp(false);
+          if (scheduleData.timing === "schedule") {
+            handleConfirmSchedule();
+          } else {
+            handleConfirmPayment();
+          }
+        }}
+        message={`This is a large payment. Enter the 6-digit code from your authenticator app, or a recovery code, to ${scheduleData.timing === "schedule" ? "schedule" : "send"} it.`}
       />
 
       {/* Success Dialog */}
       <Dialog
         isOpen={showSuccessDialog}
         onClose={() => setShowSuccessDialog(false)}
-        title="Payment Submitted"
+        title={scheduledPayment ? "Payment Scheduled" : "Payment Submitted"}
         showCloseButton={false}
       >
         <div className="text-center space-y-4">
           <CheckCircle className="w-16 h-16 text-green-500 mx-auto" />
-          <p className="text-slate-600">
-            Your payment has been submitted successfully and is now being processed.
-          </p>
-          <div className="bg-slate-50 rounded-lg p-4">
-            <p className="text-sm text-slate-600">
-              <strong>Transaction ID:</strong>
-            </p>
-            <p className="font-mono text-sm text-slate-900 mt-1">
-              {transactionId}
-            </p>
-          </div>
-          <p className="text-xs text-slate-500">
-            Please save this transaction ID for your records.
-          </p>
+          {scheduledPayment ? (
+            <>
+              <p className="text-slate-600">
+                Your payment has been scheduled. You can pause, edit or cancel it from your dashboard.
+              </p>
+              <div className="bg-slate-50 rounded-lg p-4">
+                <p className="text-sm text-slate-600">
+                  <strong>First payment:</strong>
+                </p>
+                <p className="text-sm text-slate-900 mt-1">
+                  {scheduledPayment.next_run_date} ({SCHEDULE_FREQUENCY_LABELS[scheduledPayment.frequency]})
+                </p>
+              </div>
+            </>
+          ) : (
+            <>
+              <p className="text-slate-600">
+                Your payment has been submitted successfully and is now being processed.
+              </p>
+              <div className="bg-slate-50 rounded-lg p-4">
+                <p className="text-sm text-slate-600">
+                  <strong>Transaction ID:</strong>
+                </p>
+                <p className="font-mono text-sm text-slate-900 mt-1">
+                  {transactionId}
+                </p>
+              </div>
+            </>
+          )}
+          {receipt?.base_currency && (
+            <div className="bg-slate-50 rounded-lg p-4 space-y-1 text-sm text-left">
+              <div className="flex justify-between">
+                <span>Amount sent:</span>
+                <span className="font-semibold">{formatCurrency(String(receipt.amount), receipt.currency)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Exchange rate:</span>
+                <span className="font-semibold">1 {receipt.base_currency} = {receipt.fx_rate?.toFixed(4)} {receipt.currency}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Converted amount:</span>
+                <span className="font-semibold">{formatCurrency(String(receipt.base_amount), receipt.base_currency)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Transfer fee:</span>
+                <span className="font-semibold">{formatCurrency(String(receipt.fee), receipt.base_currency)}</span>
+              </div>
+              <div className="border-t pt-1 flex justify-between font-semibold">
+                <span>Total debited:</span>
+                <span>{formatCurrency(String(receipt.total_debit), receipt.base_currency)}</span>
+              </div>
+            </div>
+          )}
+          {!scheduledPayment && transactionId && (
+            <>
+              <a
+                href={`/api/transactions/${encodeURIComponent(transactionId)}/receipt.pdf`}
+                download
+                className="w-full inline-flex items-center justify-center border border-slate-300 text-slate-700 px-4 py-2 rounded-md font-medium hover:bg-slate-50 transition-colors"
+              >
+                <Download className="w-4 h-4 mr-2" />
+                Download Receipt (PDF)
+              </a>
+              <p className="text-xs text-slate-500">
+                Please save this transaction ID for your records.
+              </p>
+            </>
+          )}
+          {lastPayee && (payeeSaved ? (
+            <p className="text-sm text-green-700">Payee saved to your address book.</p>
+          ) : !isLastPayeeSaved && (
+            <div className="border-t pt-4 space-y-3 text-left">
+              <p className="flex items-center text-sm font-semibold text-slate-900">
+                <UserPlus className="w-4 h-4 mr-2" />
+                Save this payee
+              </p>
+              <Input
+                type="text"
+                value={payeeForm.nickname}
+                onChange={(e) => setPayeeForm(prev => ({ ...prev, nickname: e.target.value }))}
+                placeholder="Nickname (e.g. Landlord)"
+                maxLength={50}
+              />
+              <Input
+                type="text"
+                value={payeeForm.bank_name}
+                onChange={(e) => setPayeeForm(prev => ({ ...prev, bank_name: e.target.value }))}
+                placeholder="Bank name (optional)"
+                maxLength={100}
+              />
+              {payeeError && <p className="text-sm text-red-600">{payeeError}</p>}
+              <button
+                onClick={handleSavePayee}
+                disabled={isSavingPayee || !payeeForm.nickname.trim()}
+                className="w-full border border-blue-600 text-blue-600 px-4 py-2 rounded-md font-medium hover:bg-blue-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSavingPayee ? <LoadingSpinner size="sm" /> : "Save Payee"}
+              </button>
+            </div>
+          ))}
           <button
             onClick={() => {
               setShowSuccessDialog(false);
@@ -23,6 +23,9 @@ import Layout from "@/components/Layout";
 import LoadingSpinner from "@/components/LoadingSpinner";
 import { FormField, Input, Select } from "@/components/FormField";
 import Dialog, { ConfirmDialog } from "@/components/Dialog";
+import TwoFactorSettings from "@/components/TwoFactorSettings";
+import PasskeySettings from "@/components/PasskeySettings";
+import ActiveSessions from "@/components/ActiveSessions";
 import {
   UserProfile,
   UserProfileSchema,
@@ -1091,6 +1094,12 @@ export default function Profile() {
                   <h2 className="text-xl font-semibold text-slate-900 mb-6">Security Settings</h2>
                   
                   <div className="space-y-6">
+                    <TwoFactorSettings />
+
+                    {user?.role === "customer" && <PasskeySettings />}
+
+                    <ActiveSessions />
+
                     <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
                       <div className="flex items-start space-x-3">
                         <Trash2 className="w-5 h-5 text-red-600 mt-0.5" />
@@ -0,0 +1,170 @@
+import { useState } from "react";
+import { Link, useSearchParams } from "react-router";
+import { ArrowLeft, KeyRound, CheckCircle, AlertCircle } from "lucide-react";
+import Layout from "@/components/Layout";
+import LoadingSpinner from "@/components/LoadingSpinner";
+import PasswordStrengthMeter from "@/components/PasswordStrengthMeter";
+import { FormField, Input } from "@/components/FormField";
+import { PasswordResetSchema } from "@/shared/types";
+
+// Where the link in the password reset email lands
+export default function ResetPassword() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token") ?? "";
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isDone, setIsDone] = useState(false);
+  const [formData, setFormData] = useState({
+    password: "",
+    confirm_password: "",
+  });
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const validateForm = () => {
+    const newErrors: Record<string, string> = {};
+    const result = PasswordResetSchema.safeParse({ token, password: formData.password });
+    if (!result.success) {
+      result.error.errors.forEach((err) => {
+        const field = err.path[0] === "token" ? "form" : err.path[0] as string;
+        newErrors[field] ??= err.message;
+      });
+    }
+    if (formData.confirm_password !== formData.password) {
+      newErrors.confirm_password = "Passwords don't match";
+    }
+    setErrors(newErrors);
+    if (newErrors.form) {
+      setError(newErrors.form);
+    }
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleInputChange = (field: string, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: "" }));
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (!validateForm()) {
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await fetch("/api/password-reset/confirm", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token, password: formData.password }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Password reset failed");
+      }
+      setIsDone(true);
+    } catch (error) {
+      console.error("Password reset failed:", error);
+      setError(error instanceof Error ? error.message : "Password reset failed. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="min-h-[80vh] flex items-center justify-center py-12">
+        <div className="max-w-md w-full">
+          {/* Back Link */}
+          <Link
+            to="/login"
+            className="inline-flex items-center text-sm text-slate-600 hover:text-slate-900 mb-8 transition-colors"
+          >
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            Back to Login
+          </Link>
+
+          <div className="bg-white rounded-xl shadow-xl p-8">
+            <div className="text-center mb-8">
+              <div className="flex justify-center mb-4">
+                <KeyRound className="w-12 h-12 text-blue-600" />
+              </div>
+              <h1 className="text-2xl font-bold text-slate-900 mb-2">
+                Choose a New Password
+              </h1>
+              <p className="text-slate-600">
+                You will be signed out on all your devices. Your account is unlocked if it was locked after failed sign-ins.
+              </p>
+            </div>
+
+            {isDone ? (
+              <div className="text-center space-y-4">
+                <CheckCircle className="w-16 h-16 text-green-500 mx-auto" />
+                <p className="text-slate-600">Your password has been changed.</p>
+                <Link
+                  to="/login"
+                  className="block w-full bg-blue-600 text-white px-4 py-3 rounded-lg font-semibold hover:bg-blue-700 transition-colors"
+                >
+                  Sign In
+                </Link>
+              </div>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-6">
+                {error && (
+                  <div className="p-3 bg-red-50 border border-red-200 rounded-lg flex items-center">
+                    <AlertCircle className="w-5 h-5 text-red-600 mr-2" />
+                    <span className="text-sm text-red-800">
+                      {error}{" "}
+                      <Link to="/forgot-password" className="font-medium underline">Request a new link</Link>
+                    </span>
+                  </div>
+                )}
+
+                <FormField
+                  label="New Password"
+                  error={errors.password}
+                  required
+                  tooltip="At least 12 characters with upper and lower case letters, a number and a symbol"
+                >
+                  <Input
+                    type="password"
+                    value={formData.password}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => handleInputChange("password", e.target.value)}
+                    autoComplete="new-password"
+                    error={!!errors.password}
+                  />
+                </FormField>
+                <PasswordStrengthMeter password={formData.password} />
+
+                <FormField
+                  label="Confirm Password"
+                  error={errors.confirm_password}
+                  required
+                  success={formData.confirm_password.length > 0 && formData.confirm_password === formData.password}
+                >
+                  <Input
+                    type="password"
+                    value={formData.confirm_password}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => handleInputChange("confirm_password", e.target.value)}
+                    autoComplete="new-password"
+                    error={!!errors.confirm_password}
+                  />
+                </FormField>
+
+                <button
+                  type="submit"
+                  disabled={isLoading}
+                  className="w-full flex items-center justify-center px-4 py-3 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  {isLoading ? <LoadingSpinner size="sm" /> : "Reset Password"}
+                </button>
+              </form>
+            )}
+          </div>
+        </div>
+      </div>
+    </Layout>
+  );
+}
@@ -91,17 +91,491 @@ export type UserProfile = z.infer<typeof UserProfileSchema> & {
   deletion_requested_at: string | null;
 };
 
-// Payment Schema
-export const PaymentSchema = z.object({
-  amount: z.number().positive("Amount must be positive").multipleOf(0.01, "Amount can have at most 2 decimal places"),
-  currency: z.enum(["USD", "EUR", "ZAR", "GBP", "JPY"]),
-  recipient_account: z.string().min(1, "Recipient account is required"),
-  swift_code: z.string().regex(/^[A-Z]{6}[A-Z0-9]{2}([A-Z0-9]{3})?$/, "Invalid SWIFT code format"),
+// Password rules shared by registration (client) and the worker
+export const PasswordSchema = z.string()
+  .min(12, "Password must be at least 12 characters")
+  .max(128, "Password must be at most 128 characters")
+  .regex(/[a-z]/, "Password must contain a lowercase letter")
+  .regex(/[A-Z]/, "Password must contain an uppercase letter")
+  .regex(/[0-9]/, "Password must contain a number")
+  .regex(/[^a-zA-Z0-9]/, "Password must contain a symbol");
+
+export type PasswordStrength = {
+  score: 0 | 1 | 2 | 3 | 4;
+  label: "Very weak" | "Weak" | "Fair" | "Good" | "Strong";
+};
+
+// Rough strength estimate for the registration meter; PasswordSchema is what is enforced
+export function getPasswordStrength(password: string): PasswordStrength {
+  const labels = ["Very weak", "Weak", "Fair", "Good", "Strong"] as const;
+  if (!password) {
+    return { score: 0, label: labels[0] };
+  }
+
+  let points = 0;
+  if (password.length >= 12) points++;
+  if (password.length >= 16) points++;
+  if (/[a-z]/.test(password) && /[A-Z]/.test(password)) points++;
+  if (/[0-9]/.test(password)) points++;
+  if (/[^a-zA-Z0-9]/.test(password)) points++;
+  // Repeated characters and short passwords are easy to guess regardless of character mix
+  if (/(.)\1{2,}/.test(password) || password.length < 8) points = Math.min(points, 1);
+
+  const score = Math.min(4, Math.max(0, points - 1)) as PasswordStrength["score"];
+  return { score, label: labels[score] };
+}
+
+export const RegistrationSchema = UserProfileSchema.pick({
+  full_name: true,
+  id_number: true,
+  account_number: true,
+  username: true,
+}).extend({
+  email: z.string().email("Please enter a valid email address"),
+  password: PasswordSchema,
+});
+
+export type Registration = z.infer<typeof RegistrationSchema>;
+
+export const LoginSchema = z.object({
+  username: UserProfileSchema.shape.username,
+  account_number: UserProfileSchema.shape.account_number,
+  password: z.string().min(1, "Password is required").max(128),
+});
+
+export type LoginCredentials = z.infer<typeof LoginSchema>;
+
+export const EmployeeLoginSchema = z.object({
+  username: UserProfileSchema.shape.username,
+  password: z.string().min(1, "Password is required").max(128),
+});
+
+export type EmployeeLoginCredentials = z.infer<typeof EmployeeLoginSchema>;
+
+// Forgot-password flow for customers. Resetting the password also unlocks an account locked by failed sign-ins.
+export const PasswordResetRequestSchema = z.object({
+  email: z.string().email("Please enter a valid email address"),
+});
+
+export const PasswordResetSchema = z.object({
+  token: z.string().min(1, "This reset link is incomplete").max(100),
+  password: PasswordSchema,
+});
+
+// Two-factor authentication. A code is either the 6 digits from an authenticator app or a recovery code.
+export const TwoFactorCodeSchema = z.object({
+  code: z.string().trim().min(6, "Enter the code from your authenticator app").max(20),
+});
+
+export const TwoFactorLoginSchema = TwoFactorCodeSchema.extend({
+  challenge_token: z.string().min(1).max(100),
+});
+
+// Returned by the login endpoints instead of a session when the account has 2FA turned on
+export type TwoFactorChallenge = {
+  two_factor_required: true;
+  challenge_token: string;
+  expires_at: string;
+};
+
+export type TwoFactorStatus = {
+  enabled: boolean;
+  confirmed_at: string | null;
+  recovery_codes_remaining: number;
+};
+
+export type TwoFactorEnrolment = {
+  secret: string;
+  otpauth_uri: string;
+};
+
+// Customers with 2FA must enter a fresh code to book payments of at least this much, measured like
+// base currency limits by their reference_amount in USD. Bulk batches are measured by their total.
+export const STEP_UP_PAYMENT_THRESHOLD = 10000;
+
+export const STEP_UP_REQUIRED = "STEP_UP_REQUIRED";
+
+// Passkeys (WebAuthn). Binary fields travel as base64url, as in the browser's PublicKeyCredential.toJSON().
+const Base64UrlSchema = z.string().regex(/^[A-Za-z0-9_-]*$/, "Must be base64url").max(16384);
+
+export const PasskeyRegistrationSchema = z.object({
+  name: z.string().trim().min(1, "Name your passkey").max(50, "Names can be at most 50 characters"),
+  credential: z.object({
+    id: Base64UrlSchema.min(1),
+    type: z.literal("public-key"),
+    response: z.object({
+      clientDataJSON: Base64UrlSchema,
+      attestationObject: Base64UrlSchema,
+      transports: z.array(z.string().max(20)).max(10).optional(),
+    }),
+  }),
+});
+
+export type PasskeyRegistration = z.infer<typeof PasskeyRegistrationSchema>;
+
+export const PasskeyAssertionSchema = z.object({
+  id: Base64UrlSchema.min(1),
+  type: z.literal("public-key"),
+  response: z.object({
+    clientDataJSON: Base64UrlSchema,
+    authenticatorData: Base64UrlSchema,
+    signature: Base64UrlSchema,
+    userHandle: Base64UrlSchema.nullish(),
+  }),
+});
+
+export type PasskeyAssertion = z.infer<typeof PasskeyAssertionSchema>;
+
+type PasskeyDescriptor = { id: string; type: "public-key"; transports?: string[] };
+
+// Options for navigator.credentials.create(), with binary fields as base64url
+export type PasskeyCreationOptions = {
+  challenge: string;
+  rp: { id: string; name: string };
+  user: { id: string; name: string; displayName: string };
+  pubKeyCredParams: Array<{ type: "public-key"; alg: number }>;
+  timeout: number;
+  attestation: "none";
+  authenticatorSelection: { residentKey: "required"; requireResidentKey: true; userVerification: "required" };
+  excludeCredentials: PasskeyDescriptor[];
+};
+
+// Options for navigator.credentials.get(), with binary fields as base64url
+export type PasskeyRequestOptions = {
+  challenge: string;
+  rpId: string;
+  timeout: number;
+  userVerification: "required";
+  allowCredentials: PasskeyDescriptor[];
+};
+
+export type Passkey = {
+  id: string;
+  name: string;
+  // Synced to the customer's other devices by their password manager or platform
+  backed_up: boolean;
+  created_at: string;
+  last_used_at: string | null;
+};
+
+// A signed-in session, as listed for the account's owner
+export type ActiveSession = {
+  id: string;
+  device_label: string | null;
+  user_agent: string | null;
+  ip_address: string | null;
+  created_at: string;
+  last_seen_at: string;
+  expires_at: string;
+  // The session making the request
+  current: boolean;
+};
+
+export const CurrencySchema = z.enum(["USD", "EUR", "ZAR", "GBP", "JPY"]);
+
+export type Currency = z.infer<typeof CurrencySchema>;
+
+export const PaymentAmountSchema = z.number().positive("Amount must be positive").multipleOf(0.01, "Amount can have at most 2 decimal places");
+
+// SWIFT/BIC: 4-letter bank code, 2-letter country, 2-character location, optional 3-character branch
+export const SwiftCodeSchema = z.string().regex(/^[A-Z]{6}[A-Z0-9]{2}([A-Z0-9]{3})?$/, "Invalid SWIFT code format");
+
+// IBAN lengths by country (ISO 13616 registry)
+export const IBAN_LENGTHS: Record<string, number> = {
+  AD: 24, AE: 23, AL: 28, AT: 20, AZ: 28, BA: 20, BE: 16, BG: 22, BH: 22, BR: 29,
+  BY: 28, CH: 21, CR: 22, CY: 28, CZ: 24, DE: 22, DK: 18, DO: 28, EE: 20, EG: 29,
+  ES: 24, FI: 18, FO: 18, FR: 27, GB: 22, GE: 22, GI: 23, GL: 18, GR: 27, GT: 28,
+  HR: 21, HU: 28, IE: 22, IL: 23, IQ: 23, IS: 26, IT: 27, JO: 30, KW: 30, KZ: 20,
+  LB: 28, LC: 32, LI: 21, LT: 20, LU: 20, LV: 21, MC: 27, MD: 24, ME: 22, MK: 19,
+  MR: 27, MT: 31, MU: 30, NL: 18, NO: 15, PK: 24, PL: 28, PS: 29, PT: 25, QA: 29,
+  RO: 24, RS: 22, SA: 24, SC: 31, SE: 24, SI: 19, SK: 24, SM: 27, ST: 25, SV: 28,
+  TL: 23, TN: 24, TR: 26, UA: 29, VA: 22, VG: 24, XK: 20,
+};
+
+// Domestic account number formats for countries that do not use IBANs
+export const DOMESTIC_ACCOUNT_FORMATS: Record<string, { pattern: RegExp; description: string }> = {
+  US: { pattern: /^\d{4,17}$/, description: "4-17 digits" },
+  CA: { pattern: /^\d{7,12}$/, description: "7-12 digits" },
+  ZA: { pattern: /^\d{7,11}$/, description: "7-11 digits" },
+  JP: { pattern: /^\d{7}$/, description: "7 digits" },
+  AU: { pattern: /^\d{6,10}$/, description: "6-10 digits" },
+  NZ: { pattern: /^\d{15,16}$/, description: "15-16 digits" },
+  IN: { pattern: /^\d{9,18}$/, description: "9-18 digits" },
+  CN: { pattern: /^\d{12,19}$/, description: "12-19 digits" },
+  SG: { pattern: /^\d{7,11}$/, description: "7-11 digits" },
+  HK: { pattern: /^\d{9,12}$/, description: "9-12 digits" },
+  MX: { pattern: /^\d{18}$/, description: "18 digits (CLABE)" },
+};
+
+// Used when the destination country has no specific rule
+const GENERIC_ACCOUNT_FORMAT = /^[A-Z0-9]{6,34}$/;
+
+export function normalizeAccountNumber(value: string): string {
+  return value.replace(/[\s-]/g, "").toUpperCase();
+}
+
+// ISO 7064 mod 97-10: move the first four characters to the end, map letters to 10-35, remainder must be 1
+export function isValidIbanChecksum(iban: string): boolean {
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const digits = /[A-Z]/.test(char) ? String(char.charCodeAt(0) - 55) : char;
+    for (const digit of digits) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+export function isIban(account: string): boolean {
+  const normalized = normalizeAccountNumber(account);
+  return /^[A-Z]{2}\d{2}/.test(normalized) && normalized.slice(0, 2) in IBAN_LENGTHS;
+}
+
+/**
+ * Validates a payee account number against the destination bank's country, taken from characters 5-6
+ * of the SWIFT/BIC. IBANs are checked for length, check digits and a matching country; otherwise the
+ * domestic format for the country applies. Returns an error message, or null when the account is valid.
+ */
+export function validateRecipientAccount(account: string, swiftCode: string): string | null {
+  const normalized = normalizeAccountNumber(account);
+  const bicCountry = /^[A-Z]{6}/.test(swiftCode) ? swiftCode.slice(4, 6) : null;
+
+  if (isIban(normalized)) {
+    const ibanCountry = normalized.slice(0, 2);
+    if (!/^[A-Z0-9]+$/.test(normalized) || normalized.length !== IBAN_LENGTHS[ibanCountry]) {
+      return `IBANs for ${ibanCountry} must be ${IBAN_LENGTHS[ibanCountry]} characters`;
+    }
+    if (!isValidIbanChecksum(normalized)) {
+      return "IBAN check digits are invalid";
+    }
+    if (bicCountry && bicCountry !== ibanCountry) {
+      return `IBAN country ${ibanCountry} does not match SWIFT code country ${bicCountry}`;
+    }
+    return null;
+  }
+
+  if (bicCountry && bicCountry in IBAN_LENGTHS) {
+    return `Payments to ${bicCountry} require an IBAN`;
+  }
+
+  const domestic = bicCountry ? DOMESTIC_ACCOUNT_FORMATS[bicCountry] : undefined;
+  if (domestic) {
+    return domestic.pattern.test(normalized) ? null : `Account numbers for ${bicCountry} must be ${domestic.description}`;
+  }
+
+  return GENERIC_ACCOUNT_FORMAT.test(normalized) ? null : "Account number must be 6-34 letters or digits";
+}
+
+const PaymentFieldsSchema = z.object({
+  amount: PaymentAmountSchema,
+  currency: CurrencySchema,
+  recipient_account: z.string().trim().min(1, "Recipient account is required").max(42),
+  swift_code: SwiftCodeSchema,
   reference: z.string().optional(),
 });
 
+function refineRecipientAccount(payment: { recipient_account: string; swift_code: string }, ctx: z.RefinementCtx) {
+  const accountError = validateRecipientAccount(payment.recipient_account, payment.swift_code);
+  if (accountError) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["recipient_account"], message: accountError });
+  }
+}
+
+// What the customer enters for a payment, before it is priced
+export const PaymentDetailsSchema = PaymentFieldsSchema.superRefine(refineRecipientAccount);
+
+export type PaymentDetails = z.infer<typeof PaymentDetailsSchema>;
+
+const QuotedPaymentFieldsSchema = PaymentFieldsSchema.extend({
+  fx_quote_id: z.string().min(1, "FX quote is required"),
+});
+
+// Payment Schema. source_currency is the wallet the payment is paid from; it defaults to the base currency.
+export const PaymentSchema = QuotedPaymentFieldsSchema.extend({
+  source_currency: CurrencySchema.optional(),
+}).superRefine(refineRecipientAccount);
+
 export type Payment = z.infer<typeof PaymentSchema>;
 
+export const FxQuoteRequestSchema = z.object({
+  amount: PaymentAmountSchema,
+  currency: CurrencySchema,
+  swift_code: SwiftCodeSchema,
+  source_currency: CurrencySchema.optional(),
+});
+
+export type FxQuoteRequest = z.infer<typeof FxQuoteRequestSchema>;
+
+// A locked price for one payment; `rate` is units of `currency` per 1 unit of `base_currency`, the
+// wallet the payment is paid from. base_amount, fee and total_debit are in that currency.
+// reference_amount is the converted amount in the account's base currency (USD), which limits measure.
+export type FxQuote = {
+  quote_id: string;
+  base_currency: string;
+  currency: string;
+  amount: number;
+  rate: number;
+  base_amount: number;
+  reference_amount: number;
+  fee: number;
+  fee_percentage: number;
+  total_debit: number;
+  expires_at: string;
+};
+
+// Bulk payments: at most this many rows per upload
+export const MAX_PAYMENT_BATCH_SIZE = 100;
+
+// Bulk payments are always paid from the base currency wallet
+export const FxQuoteBatchRequestSchema = z.object({
+  payments: z.array(FxQuoteRequestSchema.omit({ source_currency: true })).min(1).max(MAX_PAYMENT_BATCH_SIZE),
+});
+
+export const PaymentBatchSchema = z.object({
+  payments: z.array(QuotedPaymentFieldsSchema.superRefine(refineRecipientAccount))
+    .min(1, "A batch needs at least one payment")
+    .max(MAX_PAYMENT_BATCH_SIZE, `A batch can have at most ${MAX_PAYMENT_BATCH_SIZE} payments`),
+});
+
+// Sums across a batch's quotes or payments, in the base currency
+export type PaymentBatchTotals = {
+  base_currency: string;
+  base_amount: number;
+  fee: number;
+  total_debit: number;
+};
+
+export type PaymentBatchRowError = {
+  row: number;
+  error: string;
+};
+
+export type PaymentBatch = {
+  batch_id: string;
+  payment_count: number;
+  transaction_ids: string[];
+  totals: PaymentBatchTotals;
+  created_at: string;
+};
+
+// Bank details from the offline BIC directory
+export type BankDirectoryEntry = {
+  bic: string;
+  bank_name: string;
+  city: string;
+  country: string;
+};
+
+// Saved payee (beneficiary) Schema
+export const BeneficiarySchema = z.object({
+  nickname: z.string().trim().min(1, "Nickname is required").max(50, "Nickname must be at most 50 characters"),
+  account_number: z.string().trim().min(1, "Account number is required").max(42),
+  swift_code: SwiftCodeSchema,
+  bank_name: z.string().trim().max(100).optional(),
+  country: z.string().regex(/^[A-Z]{2}$/, "Country must be a 2-letter ISO code"),
+  default_currency: CurrencySchema,
+}).superRefine((beneficiary, ctx) => {
+  const accountError = validateRecipientAccount(beneficiary.account_number, beneficiary.swift_code);
+  if (accountError) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["account_number"], message: accountError });
+  }
+});
+
+export type BeneficiaryInput = z.infer<typeof BeneficiarySchema>;
+
+export type Beneficiary = BeneficiaryInput & {
+  id: string;
+  user_id: string;
+  bank_name: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+// Scheduled / recurring payment Schema
+export const ScheduleFrequencySchema = z.enum(["once", "weekly", "monthly", "last_business_day"]);
+
+export type ScheduleFrequency = z.infer<typeof ScheduleFrequencySchema>;
+
+export const SCHEDULE_FREQUENCY_LABELS: Record<ScheduleFrequency, string> = {
+  once: "One-off",
+  weekly: "Weekly",
+  monthly: "Monthly",
+  last_business_day: "Last business day of each month",
+};
+
+const IsoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD");
+
+// Today's date in UTC as YYYY-MM-DD; schedules run on UTC dates
+export function todayUtc(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+const ScheduleFieldsSchema = PaymentFieldsSchema.extend({
+  frequency: ScheduleFrequencySchema,
+  start_date: IsoDateSchema,
+  end_date: IsoDateSchema.optional(),
+  max_runs: z.number().int().min(1, "Number of payments must be at least 1").max(520).optional(),
+});
+
+// An edit keeps the stored start date, and with it a monthly schedule's day of the month, unless it gives a new one
+const ScheduleUpdateFieldsSchema = ScheduleFieldsSchema.partial({ start_date: true });
+
+function refineSchedule(schedule: z.infer<typeof ScheduleUpdateFieldsSchema>, ctx: z.RefinementCtx) {
+  refineRecipientAccount(schedule, ctx);
+  if (schedule.start_date !== undefined && schedule.start_date <= todayUtc()) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["start_date"], message: "Start date must be in the future" });
+  }
+  if (schedule.start_date !== undefined && schedule.end_date && schedule.end_date < schedule.start_date) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["end_date"], message: "End date must be on or after the start date" });
+  }
+  if (schedule.frequency === "once" && (schedule.end_date || schedule.max_runs)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["frequency"], message: "One-off payments cannot have an end date or count" });
+  }
+}
+
+export const ScheduledPaymentSchema = ScheduleFieldsSchema.superRefine(refineSchedule);
+
+export const ScheduledPaymentUpdateSchema = ScheduleUpdateFieldsSchema.superRefine(refineSchedule);
+
+export type ScheduledPaymentInput = z.infer<typeof ScheduledPaymentSchema>;
+
+export type ScheduledPaymentStatus = "Active" | "Paused" | "Cancelled" | "Completed";
+
+export type ScheduledPayment = {
+  id: string;
+  user_id: string;
+  amount: number;
+  currency: Currency;
+  recipient_account: string;
+  swift_code: string;
+  reference: string | null;
+  frequency: ScheduleFrequency;
+  start_date: string;
+  end_date: string | null;
+  max_runs: number | null;
+  next_run_date: string;
+  run_count: number;
+  status: ScheduledPaymentStatus;
+  last_run_at: string | null;
+  last_transaction_id: string | null;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type PaymentStatus = "Pending" | "Verified" | "RecallRequested" | "Sent" | "Failed" | "Rejected" | "Cancelled";
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  Pending: "Pending",
+  Verified: "Verified",
+  RecallRequested: "Recall Requested",
+  Sent: "Sent",
+  Failed: "Failed",
+  Rejected: "Rejected",
+  Cancelled: "Cancelled",
+};
+
 export type Transaction = {
   id: number;
   user_id: string;
@@ -110,12 +584,70 @@ export type Transaction = {
   currency: string;
   recipient_account: string;
   swift_code: string;
-  status: "Pending" | "Verified" | "Sent" | "Failed";
+  status: PaymentStatus;
   reference?: string;
+  verified_by?: string | null;
+  verified_at?: string | null;
+  sent_at?: string | null;
+  fx_quote_id?: string | null;
+  fx_rate?: number | null;
+  base_currency?: string | null;
+  base_amount?: number | null;
+  reference_amount?: number | null;
+  fee?: number | null;
+  total_debit?: number | null;
+  batch_id?: string | null;
+  swift_submission_id?: string | null;
   created_at: string;
   updated_at: string;
 };
 
+export type TransactionEvent = {
+  id: number;
+  from_status: PaymentStatus | null;
+  to_status: PaymentStatus;
+  actor_role: "customer" | "employee" | "system";
+  reason: string | null;
+  created_at: string;
+};
+
+export type PaymentTimeline = {
+  transaction_id: string;
+  status: PaymentStatus;
+  next_statuses: PaymentStatus[];
+  events: TransactionEvent[];
+};
+
+export type PaymentChecks = {
+  account_format_valid: boolean;
+  swift_format_valid: boolean;
+};
+
+// Payments per SWIFT submission; D1 binds at most 100 parameters per query
+export const MAX_SWIFT_SUBMISSION_SIZE = 100;
+
+// Payments submitted to SWIFT together, with the pain.001 (and optionally MT103) messages generated for them
+export type SwiftSubmission = {
+  id: string;
+  submitted_by: string;
+  payment_count: number;
+  control_sum: number;
+  has_mt103: boolean;
+  created_at: string;
+};
+
+// Payment as seen in the employee verification queue
+export type EmployeePayment = Transaction & {
+  customer_username: string;
+  customer_account_number: string;
+  checks: PaymentChecks;
+};
+
+export type TransactionPage = {
+  transactions: Transaction[];
+  next_cursor: string | null;
+};
+
 // Currency options
 export const CURRENCIES = [
   { value: "USD", label: "USD - US Dollar" },
@@ -153,7 +685,7 @@ export const KYC_DOCUMENT_TYPES = [
   { value: "bank_statement", label: "Bank Statement" },
 ] as const;
 
-// Account Balance
+// Account Balance: one per currency wallet
 export type AccountBalance = {
   available: number;
   pending: number;
@@ -161,6 +693,113 @@ export type AccountBalance = {
   last_updated: string;
 };
 
+export type WalletBalances = {
+  base_currency: Currency;
+  balances: AccountBalance[];
+};
+
+export const WalletConversionSchema = z.object({
+  from_currency: CurrencySchema,
+  to_currency: CurrencySchema,
+  amount: PaymentAmountSchema,
+}).refine(conversion => conversion.from_currency !== conversion.to_currency, {
+  message: "Choose two different wallets",
+  path: ["to_currency"],
+});
+
+export type WalletConversionRequest = z.infer<typeof WalletConversionSchema>;
+
+// `rate` is units of `to_currency` per 1 unit of `from_currency`
+export type WalletConversion = {
+  from_currency: Currency;
+  to_currency: Currency;
+  amount: number;
+  converted_amount: number;
+  rate: number;
+  created_at: string;
+};
+
+// Payment limits. A limit without a currency covers every payment, measured in the base currency;
+// a limit with one covers only payments in that currency, measured in it. A null limit is unlimited.
+export type PaymentLimitCode = "PER_TRANSACTION_LIMIT_EXCEEDED" | "DAILY_LIMIT_EXCEEDED" | "MONTHLY_LIMIT_EXCEEDED";
+
+export type LimitUsage = {
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+};
+
+export type PaymentLimit = {
+  currency: Currency | null;
+  per_transaction: number | null;
+  daily: LimitUsage;
+  monthly: LimitUsage;
+};
+
+export type AccountLimits = {
+  base_currency: Currency;
+  limits: PaymentLimit[];
+  // When daily and monthly usage next starts again from zero (UTC)
+  daily_reset_at: string;
+  monthly_reset_at: string;
+};
+
+export type PaymentLimitBreach = {
+  code: PaymentLimitCode;
+  message: string;
+};
+
+// A payment as the limits see it. reference_amount, its value in the base currency, is unknown until
+// the payment has been quoted.
+export type LimitedPayment = {
+  amount: number;
+  currency: string;
+  reference_amount?: number;
+};
+
+function toCents(value: number) {
+  return Math.round(value * 100);
+}
+
+/**
+ * Checks payments about to be booked together against the account's remaining limits. Used by the
+ * worker to refuse payments and by the payment form to warn before submitting. Limits in the base
+ * currency are skipped for foreign-currency payments that have not been quoted yet.
+ */
+export function findLimitBreach(account: AccountLimits, payments: LimitedPayment[]): PaymentLimitBreach | null {
+  for (const limit of account.limits) {
+    const currency = limit.currency ?? account.base_currency;
+    if (!limit.currency && payments.some(payment => payment.reference_amount === undefined && payment.currency !== account.base_currency)) {
+      continue;
+    }
+    const measured = limit.currency
+      ? payments.filter(payment => payment.currency === limit.currency).map(payment => payment.amount)
+      : payments.map(payment => payment.reference_amount ?? payment.amount);
+    const scope = limit.currency ? `${limit.currency} payments` : "payments";
+
+    if (limit.per_transaction !== null && measured.some(amount => toCents(amount) > toCents(limit.per_transaction!))) {
+      return {
+        code: "PER_TRANSACTION_LIMIT_EXCEEDED",
+        message: `Single ${scope} are limited to ${currency} ${limit.per_transaction.toFixed(2)}`,
+      };
+    }
+
+    const total = measured.reduce((sum, amount) => sum + amount, 0);
+    for (const [period, usage, code] of [
+      ["daily", limit.daily, "DAILY_LIMIT_EXCEEDED"],
+      ["monthly", limit.monthly, "MONTHLY_LIMIT_EXCEEDED"],
+    ] as const) {
+      if (usage.remaining !== null && toCents(total) > toCents(usage.remaining)) {
+        return {
+          code,
+          message: `This exceeds your ${period} limit for ${scope}: ${currency} ${usage.remaining.toFixed(2)} of ${currency} ${usage.limit!.toFixed(2)} remaining`,
+        };
+      }
+    }
+  }
+  return null;
+}
+
 // Transaction Analytics
 export type TransactionAnalytics = {
   total_sent: number;
@@ -0,0 +1,100 @@
+import type { PasskeyAssertion, PasskeyCreationOptions, PasskeyRegistration, PasskeyRequestOptions } from '@/shared/types';
+
+// Browser side of the passkey ceremonies. The API sends and expects binary fields as base64url, which
+// navigator.credentials takes and returns as ArrayBuffers.
+
+function toBuffer(value: string) {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+  return Uint8Array.from(binary, char => char.charCodeAt(0)).buffer;
+}
+
+function fromBuffer(buffer: ArrayBuffer) {
+  let binary = '';
+  new Uint8Array(buffer).forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function isPasskeySupported() {
+  return typeof window !== 'undefined' && !!window.PublicKeyCredential && !!navigator.credentials;
+}
+
+// Thrown when the customer closes the browser's passkey prompt; not worth showing as an error
+export class PasskeyCancelledError extends Error {
+  constructor() {
+    super('Passkey request was cancelled');
+    this.name = 'PasskeyCancelledError';
+  }
+}
+
+function rethrow(error: unknown): never {
+  if (error instanceof DOMException && (error.name === 'NotAllowedError' || error.name === 'AbortError')) {
+    throw new PasskeyCancelledError();
+  }
+  if (error instanceof DOMException && error.name === 'InvalidStateError') {
+    throw new Error('This device already has a passkey for your account');
+  }
+  throw error;
+}
+
+export async function createPasskey(options: PasskeyCreationOptions): Promise<PasskeyRegistration['credential']> {
+  let credential: PublicKeyCredential;
+  try {
+    credential = await navigator.credentials.create({
+      publicKey: {
+        ...options,
+        challenge: toBuffer(options.challenge),
+        user: { ...options.user, id: toBuffer(options.user.id) },
+        excludeCredentials: options.excludeCredentials.map(descriptor => ({
+          ...descriptor,
+          id: toBuffer(descriptor.id),
+          transports: descriptor.transports as AuthenticatorTransport[] | undefined,
+        })),
+      },
+    }) as PublicKeyCredential;
+  } catch (error) {
+    rethrow(error);
+  }
+
+  const response = credential.response as AuthenticatorAttestationResponse;
+  return {
+    id: credential.id,
+    type: 'public-key',
+    response: {
+      clientDataJSON: fromBuffer(response.clientDataJSON),
+      attestationObject: fromBuffer(response.attestationObject),
+      transports: response.getTransports?.(),
+    },
+  };
+}
+
+export async function getPasskey(options: PasskeyRequestOptions): Promise<PasskeyAssertion> {
+  let credential: PublicKeyCredential;
+  try {
+    credential = await navigator.credentials.get({
+      publicKey: {
+        ...options,
+        challenge: toBuffer(options.challenge),
+        allowCredentials: options.allowCredentials.map(descriptor => ({
+          ...descriptor,
+          id: toBuffer(descriptor.id),
+          transports: descriptor.transports as AuthenticatorTransport[] | undefined,
+        })),
+      },
+    }) as PublicKeyCredential;
+  } catch (error) {
+    rethrow(error);
+  }
+
+  const response = credential.response as AuthenticatorAssertionResponse;
+  return {
+    id: credential.id,
+    type: 'public-key',
+    response: {
+      clientDataJSON: fromBuffer(response.clientDataJSON),
+      authenticatorData: fromBuffer(response.authenticatorData),
+      signature: fromBuffer(response.signature),
+      userHandle: response.userHandle ? fromBuffer(response.userHandle) : null,
+    },
+  };
+}
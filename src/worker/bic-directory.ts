@@ -0,0 +1,16 @@
+import type { Env } from "./env";
+import type { BankDirectoryEntry } from "@/shared/types";
+
+// Looks up a SWIFT/BIC in the offline directory. An 11-character code matches its own branch entry
+// if the directory has one, otherwise the institution's 8-character primary office entry.
+export async function lookupBic(db: Env['DB'], bic: string): Promise<BankDirectoryEntry | null> {
+  const institutionBic = bic.slice(0, 8);
+  const entry = await db.prepare(
+    `SELECT bic, bank_name, city, country FROM bic_directory
+     WHERE bic IN (?, ?)
+     ORDER BY length(bic) DESC
+     LIMIT 1`
+  ).bind(bic, institutionBic).first();
+
+  return entry ?? null;
+}
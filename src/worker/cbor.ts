@@ -0,0 +1,93 @@
+// Minimal CBOR (RFC 8949) decoder for WebAuthn attestation objects and COSE keys. It covers the
+// definite-length items those use: integers, byte and text strings, arrays, maps, booleans and null.
+
+export type CborValue = number | Uint8Array | string | CborValue[] | Map<number | string, CborValue> | boolean | null;
+
+class CborReader {
+  offset = 0;
+  private readonly view: DataView;
+
+  constructor(private readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  private ensure(length: number) {
+    if (this.offset + length > this.bytes.length) {
+      throw new Error('Unexpected end of CBOR data');
+    }
+  }
+
+  private readArgument(additional: number) {
+    if (additional < 24) return additional;
+    const length = { 24: 1, 25: 2, 26: 4, 27: 8 }[additional];
+    if (!length) {
+      throw new Error('Unsupported CBOR length encoding');
+    }
+    this.ensure(length);
+    const at = this.offset;
+    this.offset += length;
+    if (length === 1) return this.view.getUint8(at);
+    if (length === 2) return this.view.getUint16(at);
+    if (length === 4) return this.view.getUint32(at);
+    const value = this.view.getBigUint64(at);
+    if (value > BigInt(Number.MAX_SAFE_INTEGER)) {
+      throw new Error('CBOR integer is too large');
+    }
+    return Number(value);
+  }
+
+  private readBytes(length: number) {
+    this.ensure(length);
+    const value = this.bytes.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  read(): CborValue {
+    this.ensure(1);
+    const initial = this.bytes[this.offset++];
+    const major = initial >> 5;
+    const additional = initial & 0x1f;
+
+    if (major === 7) {
+      if (additional === 20) return false;
+      if (additional === 21) return true;
+      if (additional === 22) return null;
+      throw new Error('Unsupported CBOR simple value');
+    }
+
+    const argument = this.readArgument(additional);
+    switch (major) {
+      case 0:
+        return argument;
+      case 1:
+        return -1 - argument;
+      case 2:
+        return this.readBytes(argument);
+      case 3:
+        return new TextDecoder().decode(this.readBytes(argument));
+      case 4:
+        return Array.from({ length: argument }, () => this.read());
+      case 5: {
+        const map = new Map<number | string, CborValue>();
+        for (let i = 0; i < argument; i++) {
+          const key = this.read();
+          if (typeof key !== 'number' && typeof key !== 'string') {
+            throw new Error('Unsupported CBOR map key');
+          }
+          map.set(key, this.read());
+        }
+        return map;
+      }
+      default:
+        throw new Error('Unsupported CBOR item');
+    }
+  }
+}
+
+// Decodes the first item in `bytes`; `length` is how many bytes it took, as items can be followed by others
+export function decodeCbor(bytes: Uint8Array) {
+  const reader = new CborReader(bytes);
+  const value = reader.read();
+  return { value, length: reader.offset };
+}
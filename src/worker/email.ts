@@ -0,0 +1,33 @@
+import type { Env } from "./env";
+
+export type EmailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+};
+
+/**
+ * Posts an email as JSON ({ to, subject, text }) to MAIL_WEBHOOK_URL, which forwards it through the
+ * operator's mail provider. Without it nothing is sent. Failures are logged rather than thrown, so a mail
+ * outage never fails the request that triggered the email. Returns whether the email was accepted.
+ */
+export async function sendEmail(env: Env, message: EmailMessage) {
+  if (!env.MAIL_WEBHOOK_URL) {
+    console.warn(`MAIL_WEBHOOK_URL is not set; not sending "${message.subject}"`);
+    return false;
+  }
+  try {
+    const response = await fetch(env.MAIL_WEBHOOK_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(message),
+    });
+    if (!response.ok) {
+      console.error(`Mail webhook rejected "${message.subject}" with status ${response.status}`);
+    }
+    return response.ok;
+  } catch (err) {
+    console.error(`Mail webhook failed for "${message.subject}":`, err);
+    return false;
+  }
+}
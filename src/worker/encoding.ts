@@ -0,0 +1,39 @@
+// Byte encoding and hashing helpers shared by the worker's security modules
+
+const encoder = new TextEncoder();
+
+export function toHex(bytes: ArrayBuffer | Uint8Array) {
+  return Array.from(new Uint8Array(bytes), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function toBase64(bytes: ArrayBuffer | Uint8Array) {
+  return btoa(String.fromCharCode(...new Uint8Array(bytes)));
+}
+
+export function fromBase64(value: string) {
+  return Uint8Array.from(atob(value), (ch) => ch.charCodeAt(0));
+}
+
+export function toBase64Url(bytes: ArrayBuffer | Uint8Array) {
+  return toBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function fromBase64Url(value: string) {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return fromBase64(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+}
+
+export async function sha256Hex(value: string) {
+  return toHex(await crypto.subtle.digest('SHA-256', encoder.encode(value)));
+}
+
+export function timingSafeEqual(a: Uint8Array, b: Uint8Array) {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i];
+  }
+  return diff === 0;
+}
@@ -0,0 +1,7 @@
+export interface Env {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  DB: any; // D1Database type from Cloudflare Workers
+  PASSWORD_PEPPER: string; // Secret; set with `wrangler secret put PASSWORD_PEPPER`
+  SWIFT_SENDER_BIC: string; // Our BIC as the debtor agent and sender of SWIFT messages; set in wrangler.jsonc vars
+  MAIL_WEBHOOK_URL?: string; // Secret; the mail provider endpoint outgoing email is posted to. Email is not sent without it
+}
@@ -0,0 +1,37 @@
+import type { Env } from "./env";
+
+export type FeeQuote = {
+  fee: number;
+  fee_percentage: number;
+};
+
+/**
+ * Prices a transfer from the fee_rules schedule. Amounts, minimums and maximums are in the account's
+ * base currency. The most specific matching rule wins (destination country, then payment currency,
+ * then the default), and within it the highest amount tier the transfer reaches.
+ */
+export async function calculateFee(db: Env['DB'], { currency, country, baseAmount }: { currency: string; country: string; baseAmount: number }): Promise<FeeQuote> {
+  const rule = await db.prepare(
+    `SELECT percentage, min_fee, max_fee FROM fee_rules
+     WHERE (currency = ? OR currency IS NULL)
+       AND (country = ? OR country IS NULL)
+       AND amount_from <= ?
+     ORDER BY country IS NOT NULL DESC, currency IS NOT NULL DESC, amount_from DESC
+     LIMIT 1`
+  ).bind(currency, country, baseAmount).first();
+
+  if (!rule) {
+    throw new Error(`No fee rule matches ${currency} payments to ${country}`);
+  }
+
+  let fee = baseAmount * rule.percentage / 100;
+  fee = Math.max(fee, rule.min_fee);
+  if (rule.max_fee !== null) {
+    fee = Math.min(fee, rule.max_fee);
+  }
+
+  return {
+    fee: Math.round(fee * 100) / 100,
+    fee_percentage: rule.percentage,
+  };
+}
@@ -0,0 +1,153 @@
+import type { Env } from "./env";
+import type { FxQuote, FxQuoteRequest, PaymentBatchTotals } from "@/shared/types";
+import { calculateFee } from "./fees";
+
+// Accounts are opened in this currency, and payment limits and fee tiers are measured in it.
+// Payments are paid from it unless the customer picks another currency wallet.
+export const BASE_CURRENCY = 'USD';
+
+// How long a quoted rate is honoured for
+const FX_QUOTE_TTL_MS = 60 * 1000;
+
+export class FxQuoteError extends Error {
+  constructor(message: string, public readonly status: 400 | 409 | 410) {
+    super(message);
+    this.name = 'FxQuoteError';
+  }
+}
+
+function roundMoney(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+type QuoteRow = {
+  id: string;
+  user_id: string;
+  base_currency: string;
+  currency: string;
+  amount: number;
+  rate: number;
+  base_amount: number;
+  reference_amount: number;
+  country: string;
+  fee: number;
+  fee_percentage: number;
+  total_debit: number;
+  transaction_id: string | null;
+  expires_at: string;
+};
+
+function toQuoteResponse(row: QuoteRow): FxQuote {
+  return {
+    quote_id: row.id,
+    base_currency: row.base_currency,
+    currency: row.currency,
+    amount: row.amount,
+    rate: row.rate,
+    base_amount: row.base_amount,
+    reference_amount: row.reference_amount,
+    fee: row.fee,
+    fee_percentage: row.fee_percentage,
+    total_debit: row.total_debit,
+    expires_at: row.expires_at,
+  };
+}
+
+// Rates in fx_rates are units of each currency per 1 USD, so any pair is a ratio of two rows
+async function getRate(db: Env['DB'], currency: string): Promise<number> {
+  const row = await db.prepare('SELECT rate FROM fx_rates WHERE currency = ?').bind(currency).first();
+  if (!row) {
+    throw new FxQuoteError(`No exchange rate available for ${currency}`, 400);
+  }
+  return row.rate;
+}
+
+// Units of `to` per 1 unit of `from`, at the rates payments are quoted at
+export async function getConversionRate(db: Env['DB'], from: string, to: string): Promise<number> {
+  const [fromRate, toRate] = await Promise.all([getRate(db, from), getRate(db, to)]);
+  return Number((toRate / fromRate).toFixed(6));
+}
+
+// Destination country of a payment: characters 5-6 of the SWIFT/BIC
+function destinationCountry(swiftCode: string) {
+  return swiftCode.slice(4, 6);
+}
+
+// Quotes the full cost of sending `amount` in `currency`: converted amount plus transfer fee, debited
+// from the `source_currency` wallet (BASE_CURRENCY unless given)
+export async function createQuote(db: Env['DB'], userId: string, { amount, currency, swift_code, source_currency = BASE_CURRENCY }: FxQuoteRequest): Promise<FxQuote> {
+  const [quoteRate, sourceRate, baseRate] = await Promise.all([getRate(db, currency), getRate(db, source_currency), getRate(db, BASE_CURRENCY)]);
+  // Units of the payment currency per 1 unit of the source currency
+  const rate = Number((quoteRate / sourceRate).toFixed(6));
+  const baseAmount = roundMoney(amount / rate);
+  const referenceAmount = source_currency === BASE_CURRENCY ? baseAmount : roundMoney(amount * baseRate / quoteRate);
+  const country = destinationCountry(swift_code);
+  // Fee rules are in BASE_CURRENCY, so the fee is worked out there and converted to the source currency
+  const { fee: referenceFee, fee_percentage } = await calculateFee(db, { currency, country, baseAmount: referenceAmount });
+  const fee = source_currency === BASE_CURRENCY ? referenceFee : roundMoney(referenceFee * sourceRate / baseRate);
+  const now = new Date();
+
+  const row = await db.prepare(
+    `INSERT INTO fx_quotes (id, user_id, base_currency, currency, amount, rate, base_amount, reference_amount, country, fee, fee_percentage, total_debit, created_at, expires_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+     RETURNING *`
+  ).bind(
+    crypto.randomUUID(),
+    userId,
+    source_currency,
+    currency,
+    amount,
+    rate,
+    baseAmount,
+    referenceAmount,
+    country,
+    fee,
+    fee_percentage,
+    roundMoney(baseAmount + fee),
+    now.toISOString(),
+    new Date(now.getTime() + FX_QUOTE_TTL_MS).toISOString(),
+  ).first();
+
+  return toQuoteResponse(row);
+}
+
+// Loads a quote for booking a payment. Throws FxQuoteError unless the quote belongs to the user,
+// matches the payment, is unexpired and has not been used for another payment.
+export async function findUsableQuote(db: Env['DB'], userId: string, quoteId: string, payment: FxQuoteRequest): Promise<FxQuote> {
+  const row: QuoteRow | null = await db.prepare('SELECT * FROM fx_quotes WHERE id = ? AND user_id = ?').bind(quoteId, userId).first();
+
+  if (!row) {
+    throw new FxQuoteError('Unknown FX quote', 400);
+  }
+  if (
+    row.currency !== payment.currency ||
+    row.amount !== payment.amount ||
+    row.country !== destinationCountry(payment.swift_code) ||
+    row.base_currency !== (payment.source_currency ?? BASE_CURRENCY)
+  ) {
+    throw new FxQuoteError('FX quote does not match this payment', 400);
+  }
+  if (row.transaction_id) {
+    throw new FxQuoteError('FX quote has already been used', 409);
+  }
+  if (new Date(row.expires_at) <= new Date()) {
+    throw new FxQuoteError('FX quote has expired', 410);
+  }
+  return toQuoteResponse(row);
+}
+
+// Runs in the payment insert batch. transactions.fx_quote_id is unique, so a concurrent payment
+// using the same quote fails the batch instead of booking a second payment at this rate.
+export function buildQuoteRedemptionStatement(db: Env['DB'], quoteId: string, transactionId: string) {
+  return db.prepare('UPDATE fx_quotes SET transaction_id = ? WHERE id = ? AND transaction_id IS NULL').bind(transactionId, quoteId);
+}
+
+// Aggregate cost of several quotes, all of which are paid from the BASE_CURRENCY wallet
+export function summarizeQuotes(quotes: FxQuote[]): PaymentBatchTotals {
+  return {
+    base_currency: BASE_CURRENCY,
+    base_amount: roundMoney(quotes.reduce((sum, quote) => sum + quote.base_amount, 0)),
+    fee: roundMoney(quotes.reduce((sum, quote) => sum + quote.fee, 0)),
+    total_debit: roundMoney(quotes.reduce((sum, quote) => sum + quote.total_debit, 0)),
+  };
+}
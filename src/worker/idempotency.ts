@@ -0,0 +1,55 @@
+import type { Env } from "./env";
+import { sha256Hex } from "./encoding";
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+// Replays are honoured for a day; after that the key may be reused
+const IDEMPOTENCY_KEY_TTL_MS = 24 * 60 * 60 * 1000;
+
+export class IdempotencyKeyMismatchError extends Error {
+  constructor() {
+    super('Idempotency key was already used with a different request');
+    this.name = 'IdempotencyKeyMismatchError';
+  }
+}
+
+export function isValidIdempotencyKey(key: string) {
+  return /^[A-Za-z0-9_-]{8,255}$/.test(key);
+}
+
+export async function hashRequestBody(body: unknown) {
+  return sha256Hex(JSON.stringify(body));
+}
+
+function expiryCutoff() {
+  return new Date(Date.now() - IDEMPOTENCY_KEY_TTL_MS).toISOString();
+}
+
+// Returns the transaction_id created by an earlier request with the same key, or null if the key is unused.
+// Throws IdempotencyKeyMismatchError when the key was used for a different payment.
+export async function findIdempotentTransaction(db: Env['DB'], userId: string, key: string, requestHash: string): Promise<string | null> {
+  const row = await db.prepare(
+    `SELECT request_hash, transaction_id FROM idempotency_keys
+     WHERE user_id = ? AND idempotency_key = ? AND created_at >= ?`
+  ).bind(userId, key, expiryCutoff()).first();
+
+  if (!row) {
+    return null;
+  }
+  if (row.request_hash !== requestHash) {
+    throw new IdempotencyKeyMismatchError();
+  }
+  return row.transaction_id;
+}
+
+// Statements to run in the same batch as the payment insert, so the key and the payment are committed together.
+// A concurrent request with the same key fails the primary key and rolls back its payment.
+export function buildIdempotencyStatements(db: Env['DB'], userId: string, key: string, requestHash: string, transactionId: string, now: string) {
+  return [
+    db.prepare('DELETE FROM idempotency_keys WHERE user_id = ? AND created_at < ?').bind(userId, expiryCutoff()),
+    db.prepare(
+      `INSERT INTO idempotency_keys (user_id, idempotency_key, request_hash, transaction_id, created_at)
+       VALUES (?, ?, ?, ?, ?)`
+    ).bind(userId, key, requestHash, transactionId, now),
+  ];
+}
@@ -1,13 +1,119 @@
-import { Hono } from "hono";
+import { Hono, type ExecutionContext } from "hono";
 import { cors } from "hono/cors";
 import { zValidator } from "@hono/zod-validator";
-import { getCookie, setCookie } from "hono/cookie";
+import { getCookie } from "hono/cookie";
 import { z } from "zod";
-
-interface Env {
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  DB: any; // D1Database type from Cloudflare Workers
-}
+import {
+  BeneficiarySchema,
+  CurrencySchema,
+  EmployeeLoginSchema,
+  FxQuoteBatchRequestSchema,
+  FxQuoteRequestSchema,
+  LoginSchema,
+  MAX_SWIFT_SUBMISSION_SIZE,
+  PaymentBatchSchema,
+  PasskeyAssertionSchema,
+  PasskeyRegistrationSchema,
+  PasswordResetRequestSchema,
+  PasswordResetSchema,
+  PaymentSchema,
+  RegistrationSchema,
+  ScheduledPaymentSchema,
+  ScheduledPaymentUpdateSchema,
+  STEP_UP_REQUIRED,
+  SwiftCodeSchema,
+  todayUtc,
+  TwoFactorCodeSchema,
+  TwoFactorLoginSchema,
+  validateRecipientAccount,
+  WalletConversionSchema,
+  type FxQuote,
+  type PaymentBatch,
+  type PaymentBatchRowError,
+  type WalletBalances,
+  type WalletConversion,
+} from "@/shared/types";
+import type { Env } from "./env";
+import { lookupBic } from "./bic-directory";
+import { sendEmail } from "./email";
+import { BASE_CURRENCY, FxQuoteError, createQuote, findUsableQuote, getConversionRate, summarizeQuotes } from "./fx";
+import { buildConversionStatements, getLedgerBalances } from "./ledger";
+import { PaymentLimitError, enforcePaymentLimits, getAccountLimits } from "./limits";
+import {
+  LoginThrottledError,
+  checkLoginThrottle,
+  clearLoginFailures,
+  loginThrottleKeys,
+  notifyAccountLocked,
+  recordLoginFailure,
+  type ThrottleKeys,
+} from "./login-throttle";
+import { archiveNotification, listNotifications, markNotificationRead } from "./notifications";
+import {
+  authenticateWithPasskey,
+  createAuthenticationOptions,
+  createRegistrationOptions,
+  deletePasskey,
+  listPasskeys,
+  registerPasskey,
+} from "./passkeys";
+import { hashPassword, simulatePasswordCheck, verifyPassword } from "./password";
+import { createPasswordReset, resetPassword } from "./password-reset";
+import { pruneRateLimitBuckets, rateLimit } from "./rate-limit";
+import {
+  IDEMPOTENCY_KEY_HEADER,
+  IdempotencyKeyMismatchError,
+  buildIdempotencyStatements,
+  findIdempotentTransaction,
+  hashRequestBody,
+  isValidIdempotencyKey,
+} from "./idempotency";
+import {
+  CUSTOMER_CANCELLATIONS,
+  IllegalTransitionError,
+  PAYMENT_STATUSES,
+  PAYMENT_TRANSITIONS,
+  buildTransitionStatements,
+  transitionPayment,
+  transitionPaymentFrom,
+  type PaymentStatus,
+} from "./payment-state";
+import { InsufficientFundsError, buildPaymentStatements, generateBatchId, generateTransactionId, runPaymentBatch } from "./payments";
+import { renderReceiptPdf } from "./receipts";
+import { getStatement, renderStatementCsv, renderStatementOfx, renderStatementPdf, type StatementFormat } from "./statements";
+import { buildSwiftMessages, generateSubmissionId, type SwiftPayment } from "./swift-messages";
+import {
+  StepUpRequiredError,
+  completeLoginChallenge,
+  confirmTotpEnrolment,
+  createLoginChallenge,
+  disableTwoFactor,
+  getTwoFactorStatus,
+  isTwoFactorEnabled,
+  markSecondFactor,
+  regenerateRecoveryCodes,
+  requireFreshSecondFactor,
+  requireStepUp,
+  startTotpEnrolment,
+  verifySecondFactor,
+} from "./two-factor";
+import { PasskeyError, relyingPartyFor } from "./webauthn";
+import { editedRunDate, firstRunDate, isScheduleFinished, nextRunDate, runDueScheduledPayments } from "./scheduled-payments";
+import {
+  SESSION_TOKEN_COOKIE_NAME,
+  clearSessionCookie,
+  createSession,
+  listSessions,
+  resolveSession,
+  renewSession,
+  revokeOtherSessions,
+  revokeSession,
+  revokeSessionById,
+  sessionClientFor,
+  setSessionCookie,
+  touchSession,
+  type UserRecord,
+} from "./session";
 
 const app = new Hono<{ Bindings: Env }>();
 
@@ -15,73 +121,437 @@ const app = new Hono<{ Bindings: Env }>();
 app.use("*", cors({
   origin: "*",
   allowMethods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
-  allowHeaders: ["Content-Type", "Authorization"],
+  allowHeaders: ["Content-Type", "Authorization", IDEMPOTENCY_KEY_HEADER],
+  exposeHeaders: ["Retry-After"],
   credentials: true,
 }));
 
-// Simple session management
-const SESSION_TOKEN_COOKIE_NAME = 'session_token';
+// A generous per-IP limit on every API route; route groups such as sign-in and payments add stricter ones
+app.use("/api/*", rateLimit("global"));
 
-// Mock user data for demo
-const mockUser = {
-  id: '1',
-  email: 'user@example.com',
-  google_user_data: { given_name: 'John' },
-  created_at: new Date().toISOString()
-};
+app.onError((err, c) => {
+  if (err instanceof IllegalTransitionError) {
+    return c.json({ error: err.message }, 409);
+  }
+  if (err instanceof IdempotencyKeyMismatchError) {
+    return c.json({ error: err.message }, 422);
+  }
+  if (err instanceof FxQuoteError) {
+    return c.json({ error: err.message }, err.status);
+  }
+  if (err instanceof InsufficientFundsError) {
+    return c.json({ error: err.message }, 422);
+  }
+  if (err instanceof PaymentLimitError) {
+    return c.json({ error: err.message, code: err.code }, 422);
+  }
+  if (err instanceof StepUpRequiredError) {
+    return c.json({ error: err.message, code: STEP_UP_REQUIRED }, 403);
+  }
+  if (err instanceof PasskeyError) {
+    return c.json({ error: err.message }, err.status);
+  }
+  if (err instanceof LoginThrottledError) {
+    c.header('Retry-After', String(err.retryAfterSeconds));
+    return c.json({ error: err.message }, 429);
+  }
+  console.error(err);
+  return c.json({ error: "Internal server error" }, 500);
+});
 
-// Simple auth middleware
+function toUserResponse(user: UserRecord) {
+  return {
+    id: user.id,
+    email: user.email,
+    given_name: user.given_name,
+    username: user.username,
+    account_number: user.account_number,
+    role: user.role,
+    created_at: user.created_at,
+  };
+}
+
+// Resolves the session cookie to its user, renewing the session while it is in use
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 async function authMiddleware(c: any, next: any) {
   const sessionToken = getCookie(c, SESSION_TOKEN_COOKIE_NAME);
-  
-  if (sessionToken) {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    (c as any).set('user', mockUser);
-  } else {
+  if (!sessionToken) {
     return c.json({ error: "Unauthorized" }, 401);
   }
-  
+
+  const resolved = await resolveSession(c.env.DB, sessionToken);
+  if (!resolved) {
+    clearSessionCookie(c);
+    return c.json({ error: "Unauthorized" }, 401);
+  }
+
+  const renewed = await renewSession(c.env.DB, resolved.session);
+  if (renewed) {
+    setSessionCookie(c, sessionToken, renewed);
+  } else {
+    await touchSession(c.env.DB, resolved.session, sessionClientFor(c));
+  }
+
+  c.set('user', resolved.user);
+  c.set('session', renewed ?? resolved.session);
+
+  await next();
+}
+
+// Must run after authMiddleware
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function employeeMiddleware(c: any, next: any) {
+  if (c.get('user').role !== 'employee') {
+    return c.json({ error: "Forbidden" }, 403);
+  }
+
   await next();
 }
 
 // Get current user
-app.get("/api/users/me", async (c) => {
-  const sessionToken = getCookie(c, SESSION_TOKEN_COOKIE_NAME);
-  
-  if (sessionToken) {
-    return c.json(mockUser);
+app.get("/api/users/me", authMiddleware, async (c) => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const user = (c as any).get("user");
+  return c.json(toUserResponse(user));
+});
+
+const USER_COLUMNS = "id, email, given_name, username, account_number, role, created_at, updated_at";
+
+// Counts a failed sign-in. When it locks the username, the account's owner is told in-app and by email.
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function recordFailedLogin(c: any, throttle: ThrottleKeys, username: string) {
+  if (!(await recordLoginFailure(c.env.DB, throttle))) {
+    return;
   }
-  
-  return c.json({ error: "Unauthorized" }, 401);
+  const locked = await notifyAccountLocked(c.env.DB, throttle, username);
+  if (locked) {
+    c.executionCtx.waitUntil(sendEmail(c.env, { to: locked.email, subject: 'SecurePay: sign-in to your account was locked', text: locked.message }));
+  }
+}
+
+// Registration
+app.post("/api/register", rateLimit("auth"), zValidator("json", RegistrationSchema), async (c) => {
+  const registration = c.req.valid("json");
+  const now = new Date().toISOString();
+  const userId = crypto.randomUUID();
+  const duplicate = { error: "An account with these details already exists" };
+
+  // Checked before the password is hashed, so a duplicate does not cost a hash
+  const existing = await c.env.DB.prepare(
+    "SELECT id FROM users WHERE email = ? OR username = ? OR account_number = ?"
+  ).bind(registration.email.toLowerCase(), registration.username, registration.account_number).first();
+  if (existing) {
+    return c.json(duplicate, 409);
+  }
+  const passwordHash = await hashPassword(registration.password, c.env.PASSWORD_PEPPER);
+
+  try {
+    await c.env.DB.batch([
+      c.env.DB.prepare(
+        `INSERT INTO users (id, email, given_name, username, account_number, password_hash, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+      ).bind(
+        userId,
+        registration.email.toLowerCase(),
+        registration.full_name.split(" ")[0],
+        registration.username,
+        registration.account_number,
+        passwordHash,
+        now,
+        now,
+      ),
+      c.env.DB.prepare(
+        `INSERT INTO user_profiles (user_id, full_name, id_number, account_number, username, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      ).bind(userId, registration.full_name, registration.id_number, registration.account_number, registration.username, now, now),
+    ]);
+  } catch (err) {
+    // Lost a race with a registration for the same details that committed after our check
+    if (String(err).includes("UNIQUE constraint failed: users.")) {
+      return c.json(duplicate, 409);
+    }
+    throw err;
+  }
+
+  const user: UserRecord = await c.env.DB.prepare(`SELECT ${USER_COLUMNS} FROM users WHERE id = ?`).bind(userId).first();
+  const { token, session } = await createSession(c.env.DB, user.id, sessionClientFor(c));
+  setSessionCookie(c, token, session);
+
+  return c.json({ success: true, user: toUserResponse(user) }, 201);
 });
 
 // Login endpoint
-app.post("/api/login", async (c) => {
-  setCookie(c, SESSION_TOKEN_COOKIE_NAME, 'mock-session-token', {
-    httpOnly: true,
-    path: "/",
-    sameSite: "none",
-    secure: true,
-    maxAge: 60 * 24 * 60 * 60, // 60 days
-  });
+app.post("/api/login", rateLimit("auth"), zValidator("json", LoginSchema), async (c) => {
+  const { username, account_number, password } = c.req.valid("json");
+  const throttle = loginThrottleKeys('customer', username, sessionClientFor(c).ipAddress);
+  await checkLoginThrottle(c.env.DB, throttle);
+
+  const account = await c.env.DB.prepare(
+    `SELECT ${USER_COLUMNS}, password_hash FROM users WHERE username = ? AND account_number = ? AND role = 'customer'`
+  ).bind(username, account_number).first();
+
+  if (!account || !account.password_hash) {
+    await simulatePasswordCheck(password, c.env.PASSWORD_PEPPER);
+    await recordFailedLogin(c, throttle, username);
+    return c.json({ error: "Invalid username, account number or password" }, 401);
+  }
+
+  if (!(await verifyPassword(password, c.env.PASSWORD_PEPPER, account.password_hash))) {
+    await recordFailedLogin(c, throttle, username);
+    return c.json({ error: "Invalid username, account number or password" }, 401);
+  }
+  await clearLoginFailures(c.env.DB, throttle.account);
+
+  // The session is only created once the second factor has been checked by POST /api/login/2fa
+  if (await isTwoFactorEnabled(c.env.DB, account.id)) {
+    return c.json(await createLoginChallenge(c.env.DB, account.id));
+  }
 
+  const { token, session } = await createSession(c.env.DB, account.id, sessionClientFor(c));
+  setSessionCookie(c, token, session);
+
+  return c.json({ success: true, user: toUserResponse(account) });
+});
+
+// Employee login; employee accounts are provisioned by scripts/provision-employee.js
+app.post("/api/employee/login", rateLimit("auth"), zValidator("json", EmployeeLoginSchema), async (c) => {
+  const { username, password } = c.req.valid("json");
+  const throttle = loginThrottleKeys('employee', username, sessionClientFor(c).ipAddress);
+  await checkLoginThrottle(c.env.DB, throttle);
+
+  const account = await c.env.DB.prepare(
+    `SELECT ${USER_COLUMNS}, password_hash FROM users WHERE username = ? AND role = 'employee'`
+  ).bind(username).first();
+
+  if (!account || !account.password_hash) {
+    await simulatePasswordCheck(password, c.env.PASSWORD_PEPPER);
+    await recordFailedLogin(c, throttle, username);
+    return c.json({ error: "Invalid username or password" }, 401);
+  }
+
+  if (!(await verifyPassword(password, c.env.PASSWORD_PEPPER, account.password_hash))) {
+    await recordFailedLogin(c, throttle, username);
+    return c.json({ error: "Invalid username or password" }, 401);
+  }
+  await clearLoginFailures(c.env.DB, throttle.account);
+
+  if (await isTwoFactorEnabled(c.env.DB, account.id)) {
+    return c.json(await createLoginChallenge(c.env.DB, account.id));
+  }
+
+  const { token, session } = await createSession(c.env.DB, account.id, sessionClientFor(c));
+  setSessionCookie(c, token, session);
+
+  return c.json({ success: true, user: toUserResponse(account) });
+});
+
+// Second step of a customer or employee login for accounts with 2FA: an authenticator or recovery code
+app.post("/api/login/2fa", rateLimit("auth"), zValidator("json", TwoFactorLoginSchema), async (c) => {
+  const { challenge_token, code } = c.req.valid("json");
+
+  const userId = await completeLoginChallenge(c.env.DB, c.env.PASSWORD_PEPPER, challenge_token, code);
+  if (!userId) {
+    return c.json({ error: "Invalid code, or this sign-in has expired. Please try again." }, 401);
+  }
+
+  const account: UserRecord = await c.env.DB.prepare(`SELECT ${USER_COLUMNS} FROM users WHERE id = ?`).bind(userId).first();
+  const { token, session } = await createSession(c.env.DB, account.id, sessionClientFor(c), new Date().toISOString());
+  setSessionCookie(c, token, session);
+
+  return c.json({ success: true, user: toUserResponse(account) });
+});
+
+// Passkey sign-in for customers. The passkey stands in for both the password and the second factor, as
+// the authenticator has verified the customer with a PIN or biometrics.
+app.post("/api/login/passkey/options", rateLimit("auth"), async (c) => {
+  return c.json(await createAuthenticationOptions(c.env.DB, relyingPartyFor(c.req.url)));
+});
+
+app.post("/api/login/passkey", rateLimit("auth"), zValidator("json", PasskeyAssertionSchema), async (c) => {
+  const userId = await authenticateWithPasskey(c.env.DB, c.req.valid("json"), relyingPartyFor(c.req.url));
+
+  const account: UserRecord = await c.env.DB.prepare(`SELECT ${USER_COLUMNS} FROM users WHERE id = ?`).bind(userId).first();
+  const { token, session } = await createSession(c.env.DB, account.id, sessionClientFor(c), new Date().toISOString());
+  setSessionCookie(c, token, session);
+
+  return c.json({ success: true, user: toUserResponse(account) });
+});
+
+// Forgot password: emails a reset link if a customer has this address. The response is the same either
+// way, so it does not reveal which addresses have accounts.
+app.post("/api/password-reset", rateLimit("auth"), zValidator("json", PasswordResetRequestSchema), async (c) => {
+  const account = await c.env.DB.prepare("SELECT id, email FROM users WHERE email = ? AND role = 'customer'")
+    .bind(c.req.valid("json").email.toLowerCase()).first();
+
+  if (account) {
+    const { token } = await createPasswordReset(c.env.DB, account.id);
+    const link = `${new URL(c.req.url).origin}/reset-password?token=${encodeURIComponent(token)}`;
+    c.executionCtx.waitUntil(sendEmail(c.env, {
+      to: account.email,
+      subject: 'SecurePay: reset your password',
+      text: `Use this link within the next hour to choose a new password:\n\n${link}\n\nIf you did not ask to reset your password, you can ignore this email.`,
+    }));
+  }
+
+  return c.json({ success: true });
+});
+
+// Sets a new password from a reset link, signs out every device and unlocks the account
+app.post("/api/password-reset/confirm", rateLimit("auth"), zValidator("json", PasswordResetSchema), async (c) => {
+  const { token, password } = c.req.valid("json");
+  if (!(await resetPassword(c.env.DB, c.env.PASSWORD_PEPPER, token, password))) {
+    return c.json({ error: "This reset link is invalid or has expired. Please request a new one." }, 400);
+  }
   return c.json({ success: true });
 });
 
 // Logout
 app.get('/api/logout', async (c) => {
-  setCookie(c, SESSION_TOKEN_COOKIE_NAME, '', {
-    httpOnly: true,
-    path: '/',
-    sameSite: 'none',
-    secure: true,
-    maxAge: 0,
-  });
+  const sessionToken = getCookie(c, SESSION_TOKEN_COOKIE_NAME);
+  if (sessionToken) {
+    await revokeSession(c.env.DB, sessionToken);
+  }
+  clearSessionCookie(c);
 
   return c.json({ success: true }, 200);
 });
 
+// Two-factor authentication status and recovery codes left
+app.get("/api/auth/2fa", authMiddleware, async (c) => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const user = (c as any).get("user");
+  return c.json(await getTwoFactorStatus(c.env.DB, user.id));
+});
+
+// Starts enrolling an authenticator app; 2FA is turned on by confirming a code from it
+app.post("/api/auth/2fa/setup", authMiddleware, async (c) => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const user = (c as any).get("user");
+  const enrolment = await startTotpEnrolment(c.env.DB, c.env.PASSWORD_PEPPER, user.id, user.username ?? user.email);
+  if (!enrolment) {
+    return c.json({ error: "Two-factor authentication is already on" }, 409);
+  }
+  return c.json(enrolment, 201);
+});
+
+app.post("/api/auth/2fa/confirm", authMiddleware, rateLimit("auth"), zValidator("json", TwoFactorCodeSchema), async (c) => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const user = (c as any).get("user");
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const session = (c as any).get("session");
+
+  const recoveryCodes = await confirmTotpEnrolment(c.env.DB, c.env.PASSWORD_PEPPER, user.id, c.req.valid("json").code);
+  if (!recoveryCodes) {
+    return c.json({ error: "Invalid code. Check the time on your phone and try the latest code." }, 400);
+  }
+  await markSecondFactor(c.env.DB, session.id);
+
+  return c.json({ success: true, recovery_codes: recoveryCodes });
+});
+
+// Replaces the recovery codes; needs a current code so a stolen session cannot read new ones
+app.post("/api/auth/2fa/recovery-codes", authMiddleware, rateLimit("auth"), zValidator("json", TwoFactorCodeSchema), async (c) => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const user = (c as any).get("user");
+  if (!(await verifySecondFactor(c.env.DB, c.env.PASSWORD_PEPPER, user.id, c.req.valid("json").code))) {
+    return c.json({ error: "Invalid code" }, 400);
+  }
+  return c.json({ success: true, recovery_codes: await regenerateRecoveryCodes(c.env.DB, user.id) });
+});
+
+app.post("/api/auth/2fa/disable", authMiddleware, rateLimit("auth"), zValidator("json", TwoFactorCodeSchema), async (c) => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const user = (c as any).get("user");
+  if (!(await verifySecondFactor(c.env.DB, c.env.PASSWORD_PEPPER, user.id, c.req.valid("json").code))) {
+    return c.json({ error: "Invalid code" }, 400);
+  }
+  await disableTwoFactor(c.env.DB, user.id);
+  return c.json({ success: true });
+});
+
+// Proves the second factor again for actions that need a recent one, such as large payments
+app.post("/api/auth/step-up", authMiddleware, rateLimit("auth"), zValidator("json", TwoFactorCodeSchema), async (c) => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const user = (c as any).get("user");
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const session = (c as any).get("session");
+  if (!(await verifySecondFactor(c.env.DB, c.env.PASSWORD_PEPPER, user.id, c.req.valid("json").code))) {
+    return c.json({ error: "Invalid code" }, 400);
+  }
+  return c.json({ success: true, ...(await markSecondFactor(c.env.DB, session.id)) });
+});
+
+// Where the account is signed in
+app.get("/api/sessions", authMiddleware, async (c) => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const user = (c as any).get("user");
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const session = (c as any).get("session");
+  return c.json(await listSessions(c.env.DB, user.id, session.id));
+});
+
+// Signs out every other device, e.g. after a lost phone or a shared computer
+app.post("/api/sessions/revoke-others", authMiddleware, async (c) => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const user = (c as any).get("user");
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const session = (c as any).get("session");
+  return c.json({ success: true, revoked: await revokeOtherSessions(c.env.DB, user.id, session.id) });
+});
+
+app.delete("/api/sessions/:id", authMiddleware, async (c) => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const user = (c as any).get("user");
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const session = (c as any).get("session");
+  const sessionId = c.req.param("id");
+  if (!(await revokeSessionById(c.env.DB, user.id, sessionId))) {
+    return c.json({ error: "Session not found" }, 404);
+  }
+  // Revoking the current session is the same as logging out
+  if (sessionId === session.id) {
+    clearSessionCookie(c);
+  }
+  return c.json({ success: true });
+});
+
+// Passkeys the customer can sign in with
+app.get("/api/auth/passkeys", authMiddleware, async (c) => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const user = (c as any).get("user");
+  return c.json(await listPasskeys(c.env.DB, user.id));
+});
+
+// Starts adding a passkey. With 2FA on this needs a recent second factor, so a stolen session cannot add
+// a way back into the account.
+app.post("/api/auth/passkeys/options", authMiddleware, async (c) => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const user = (c as any).get("user");
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const session = (c as any).get("session");
+  if (user.role !== 'customer') {
+    return c.json({ error: "Passkeys are only available to customers" }, 403);
+  }
+  await requireFreshSecondFactor(c.env.DB, session);
+  return c.json(await createRegistrationOptions(c.env.DB, user, relyingPartyFor(c.req.url)));
+});
+
+app.post("/api/auth/passkeys", authMiddleware, zValidator("json", PasskeyRegistrationSchema), async (c) => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const user = (c as any).get("user");
+  const passkey = await registerPasskey(c.env.DB, user.id, c.req.valid("json"), relyingPartyFor(c.req.url));
+  return c.json(passkey, 201);
+});
+
+app.delete("/api/auth/passkeys/:id", authMiddleware, async (c) => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const user = (c as any).get("user");
+  if (!(await deletePasskey(c.env.DB, user.id, c.req.param("id")))) {
+    return c.json({ error: "Passkey not found" }, 404);
+  }
+  return c.json({ success: true });
+});
+
 // Enhanced User Profile Schema
 const AddressSchema = z.object({
   street_address: z.string().min(1, "Street address is required"),
@@ -255,59 +725,1011 @@ app.post("/api/profile/kyc-upload", authMiddleware, async (c) => {
 });
 
 // Transaction endpoints
-const PaymentSchema = z.object({
-  amount: z.number().positive("Amount must be positive").multipleOf(0.01, "Amount can have at most 2 decimal places"),
-  currency: z.enum(["USD", "EUR", "ZAR", "GBP", "JPY"]),
-  recipient_account: z.string().min(1, "Recipient account is required"),
-  swift_code: z.string().regex(/^[A-Z]{6}[A-Z0-9]{2}([A-Z0-9]{3})?$/, "Invalid SWIFT code format"),
-  reference: z.string().optional(),
+const TransactionQuerySchema = z.object({
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  status: z.enum(PAYMENT_STATUSES).optional(),
+  currency: z.enum(["USD", "EUR", "ZAR", "GBP", "JPY"]).optional(),
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD").optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD").optional(),
+  sort: z.enum(["asc", "desc"]).default("desc"),
 });
 
-app.get("/api/transactions", authMiddleware, async (c) => {
+// Cursors are opaque to the client; internally they carry the last row id seen
+function encodeCursor(id: number) {
+  return btoa(`txn:${id}`);
+}
+
+function decodeCursor(cursor: string): number | null {
+  try {
+    const match = /^txn:(\d+)$/.exec(atob(cursor));
+    return match ? Number(match[1]) : null;
+  } catch {
+    return null;
+  }
+}
+
+app.get("/api/transactions", authMiddleware, zValidator("query", TransactionQuerySchema), async (c) => {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const user = (c as any).get("user");
-  
-  // Mock transaction data for demo
-  const mockTransactions = [
-    {
-      id: 1,
-      user_id: user.id,
-      transaction_id: "TXN123456789",
-      amount: 1000.00,
-      currency: "USD",
-      recipient_account: "12345678",
-      swift_code: "ABCDEF12",
-      status: "Sent",
-      reference: "Payment for services",
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString()
+  const { cursor, limit, status, currency, from, to, sort } = c.req.valid("query");
+
+  const conditions = ["user_id = ?"];
+  const params: unknown[] = [user.id];
+
+  if (status) {
+    conditions.push("status = ?");
+    params.push(status);
+  }
+  if (currency) {
+    conditions.push("currency = ?");
+    params.push(currency);
+  }
+  if (from) {
+    conditions.push("created_at >= ?");
+    params.push(from);
+  }
+  if (to) {
+    // Inclusive of the whole "to" day
+    conditions.push("created_at < date(?, '+1 day')");
+    params.push(to);
+  }
+  if (cursor) {
+    const lastId = decodeCursor(cursor);
+    if (lastId === null) {
+      return c.json({ error: "Invalid cursor" }, 400);
     }
-  ];
+    conditions.push(sort === "desc" ? "id < ?" : "id > ?");
+    params.push(lastId);
+  }
+
+  // Ids are assigned in insertion order, so ordering by id matches ordering by created_at
+  const { results } = await c.env.DB.prepare(
+    `SELECT * FROM transactions WHERE ${conditions.join(" AND ")} ORDER BY id ${sort === "desc" ? "DESC" : "ASC"} LIMIT ?`
+  ).bind(...params, limit + 1).all();
+
+  const hasMore = results.length > limit;
+  const transactions = hasMore ? results.slice(0, limit) : results;
 
-  return c.json(mockTransactions);
+  return c.json({
+    transactions,
+    next_cursor: hasMore ? encodeCursor(transactions[transactions.length - 1].id) : null,
+  });
 });
 
-app.post("/api/transactions", authMiddleware, zValidator("json", PaymentSchema), async (c) => {
+// Responds to a retried request with the payment its idempotency key originally created
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function replayPayment(c: any, transactionId: string) {
+  const transaction = await c.env.DB.prepare("SELECT * FROM transactions WHERE transaction_id = ?").bind(transactionId).first();
+  c.header("Idempotent-Replayed", "true");
+  return c.json({ success: true, transaction_id: transactionId, data: transaction }, 201);
+}
+
+app.post("/api/transactions", authMiddleware, rateLimit("payments"), zValidator("json", PaymentSchema), async (c) => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const user = (c as any).get("user");
   const paymentData = c.req.valid("json");
 
-  // Generate unique transaction ID
-  const transactionId = `TXN${Date.now()}${Math.random().toString(36).substr(2, 6).toUpperCase()}`;
+  // Optional: when present, retries with the same key return the original payment instead of creating another
+  const idempotencyKey = c.req.header(IDEMPOTENCY_KEY_HEADER);
+  let requestHash: string | null = null;
+  if (idempotencyKey !== undefined) {
+    if (!isValidIdempotencyKey(idempotencyKey)) {
+      return c.json({ error: `Invalid ${IDEMPOTENCY_KEY_HEADER} header` }, 400);
+    }
+    // The quote is left out so a retry that had to fetch a fresh quote still replays the original payment
+    requestHash = await hashRequestBody({ ...paymentData, fx_quote_id: undefined });
+    const existingTransactionId = await findIdempotentTransaction(c.env.DB, user.id, idempotencyKey, requestHash);
+    if (existingTransactionId) {
+      return replayPayment(c, existingTransactionId);
+    }
+  }
+
+  if (!(await lookupBic(c.env.DB, paymentData.swift_code))) {
+    return c.json({ error: "Unknown SWIFT code" }, 400);
+  }
 
-  // In a real app, this would save to the database
-  // For now, just return success with transaction ID
-  return c.json({ success: true, transaction_id: transactionId, data: paymentData });
+  // The payment is booked at the rate and fee the customer was shown
+  const quote = await findUsableQuote(c.env.DB, user.id, paymentData.fx_quote_id, paymentData);
+  await enforcePaymentLimits(c.env.DB, user.id, [quote]);
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  await requireStepUp(c.env.DB, (c as any).get("session"), quote.reference_amount);
+
+  const transactionId = generateTransactionId();
+  const now = new Date().toISOString();
+
+  const statements = buildPaymentStatements(
+    c.env.DB,
+    transactionId,
+    { userId: user.id, ...paymentData },
+    quote,
+    { id: user.id, role: user.role },
+    now,
+  );
+  if (idempotencyKey !== undefined && requestHash) {
+    statements.push(...buildIdempotencyStatements(c.env.DB, user.id, idempotencyKey, requestHash, transactionId, now));
+  }
+
+  let insert;
+  try {
+    [insert] = await runPaymentBatch(c.env.DB, user.id, [quote], statements);
+  } catch (err) {
+    // Lost a race with a concurrent request using the same key: its payment was committed and ours rolled back
+    if (idempotencyKey !== undefined && requestHash) {
+      const existingTransactionId = await findIdempotentTransaction(c.env.DB, user.id, idempotencyKey, requestHash);
+      if (existingTransactionId) {
+        return replayPayment(c, existingTransactionId);
+      }
+    }
+    // Or with a different payment that used the same quote; this throws FxQuoteError if so
+    await findUsableQuote(c.env.DB, user.id, quote.quote_id, paymentData);
+    throw err;
+  }
+
+  return c.json({ success: true, transaction_id: transactionId, data: insert.results[0] }, 201);
+});
+
+// Locks the exchange rate and fee for a payment; the quote_id must be sent with POST /api/transactions
+app.post("/api/fx/quote", authMiddleware, rateLimit("payments"), zValidator("json", FxQuoteRequestSchema), async (c) => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const user = (c as any).get("user");
+  const quote = await createQuote(c.env.DB, user.id, c.req.valid("json"));
+  return c.json(quote, 201);
+});
+
+const FxRateQuerySchema = z.object({
+  from: CurrencySchema,
+  to: CurrencySchema,
+});
+
+// Indicative rate for converting between currencies, as used for quotes and wallet conversions
+app.get("/api/fx/rate", authMiddleware, zValidator("query", FxRateQuerySchema), async (c) => {
+  const { from, to } = c.req.valid("query");
+  return c.json({ from, to, rate: await getConversionRate(c.env.DB, from, to) });
+});
+
+// Prices every row of a bulk upload at once; each quote is then sent with its row to POST /api/payment-batches
+app.post("/api/fx/quotes", authMiddleware, rateLimit("payments"), zValidator("json", FxQuoteBatchRequestSchema), async (c) => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const user = (c as any).get("user");
+  const { payments } = c.req.valid("json");
+
+  const quotes = [];
+  for (const payment of payments) {
+    quotes.push(await createQuote(c.env.DB, user.id, payment));
+  }
+
+  return c.json({ quotes, totals: summarizeQuotes(quotes) }, 201);
+});
+
+// Books a bulk upload as linked Pending payments under one batch ID. All rows are checked first and the
+// batch is committed atomically, so it is either booked in full or not at all.
+app.post("/api/payment-batches", authMiddleware, rateLimit("payments"), zValidator("json", PaymentBatchSchema), async (c) => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const user = (c as any).get("user");
+  const { payments } = c.req.valid("json");
+
+  const rowErrors: PaymentBatchRowError[] = [];
+  const quotes: FxQuote[] = [];
+  const quoteIds = new Set<string>();
+  const knownBics = new Map<string, boolean>();
+  for (const [row, payment] of payments.entries()) {
+    if (!knownBics.has(payment.swift_code)) {
+      knownBics.set(payment.swift_code, (await lookupBic(c.env.DB, payment.swift_code)) !== null);
+    }
+    if (!knownBics.get(payment.swift_code)) {
+      rowErrors.push({ row, error: "Unknown SWIFT code" });
+      continue;
+    }
+    if (quoteIds.has(payment.fx_quote_id)) {
+      rowErrors.push({ row, error: "FX quote is used by another row" });
+      continue;
+    }
+    quoteIds.add(payment.fx_quote_id);
+    try {
+      quotes.push(await findUsableQuote(c.env.DB, user.id, payment.fx_quote_id, payment));
+    } catch (err) {
+      if (!(err instanceof FxQuoteError)) throw err;
+      rowErrors.push({ row, error: err.message });
+    }
+  }
+  if (rowErrors.length > 0) {
+    return c.json({ error: "Some payments in the batch could not be booked", row_errors: rowErrors }, 400);
+  }
+  // Limits apply to the batch as a whole, so a breach is not tied to any one row
+  await enforcePaymentLimits(c.env.DB, user.id, quotes);
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  await requireStepUp(c.env.DB, (c as any).get("session"), quotes.reduce((sum, quote) => sum + quote.reference_amount, 0));
+
+  const batchId = generateBatchId();
+  const totals = summarizeQuotes(quotes);
+  const now = new Date().toISOString();
+  const transactionIds = payments.map(() => generateTransactionId());
+
+  await runPaymentBatch(c.env.DB, user.id, quotes, [
+    c.env.DB.prepare(
+      `INSERT INTO payment_batches (id, user_id, payment_count, base_currency, base_amount, fee, total_debit, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    ).bind(batchId, user.id, payments.length, totals.base_currency, totals.base_amount, totals.fee, totals.total_debit, now),
+    ...payments.flatMap((payment, row) => buildPaymentStatements(
+      c.env.DB,
+      transactionIds[row],
+      { userId: user.id, ...payment, batchId },
+      quotes[row],
+      { id: user.id, role: user.role },
+      now,
+      `Bulk payment ${batchId}`,
+    )),
+  ]);
+
+  const batch: PaymentBatch = {
+    batch_id: batchId,
+    payment_count: payments.length,
+    transaction_ids: transactionIds,
+    totals,
+    created_at: now,
+  };
+  return c.json({ success: true, ...batch }, 201);
+});
+
+// Payment status history, oldest first. Customers only see their own payments.
+app.get("/api/transactions/:transactionId/timeline", authMiddleware, async (c) => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const user = (c as any).get("user");
+  const transactionId = c.req.param("transactionId");
+
+  const transaction = await c.env.DB.prepare(
+    "SELECT transaction_id, status, user_id FROM transactions WHERE transaction_id = ?"
+  ).bind(transactionId).first();
+  if (!transaction || (user.role !== "employee" && transaction.user_id !== user.id)) {
+    return c.json({ error: "Transaction not found" }, 404);
+  }
+
+  const { results } = await c.env.DB.prepare(
+    `SELECT id, from_status, to_status, actor_role, reason, created_at
+     FROM transaction_events WHERE transaction_id = ? ORDER BY id ASC`
+  ).bind(transactionId).all();
+
+  return c.json({
+    transaction_id: transaction.transaction_id,
+    status: transaction.status,
+    // Lets clients show which actions are still possible
+    next_statuses: PAYMENT_TRANSITIONS[transaction.status as keyof typeof PAYMENT_TRANSITIONS],
+    events: results,
+  });
+});
+
+// Stops a payment the customer no longer wants: cancels it while Pending, or asks staff to recall it
+// while Verified. Once a payment has been sent to SWIFT it can no longer be stopped here.
+app.post("/api/transactions/:transactionId/cancel", authMiddleware, async (c) => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const user = (c as any).get("user");
+  const transactionId = c.req.param("transactionId");
+
+  const transaction = await c.env.DB.prepare(
+    "SELECT status FROM transactions WHERE transaction_id = ? AND user_id = ?"
+  ).bind(transactionId, user.id).first();
+  if (!transaction) {
+    return c.json({ error: "Transaction not found" }, 404);
+  }
+
+  const cancellation = CUSTOMER_CANCELLATIONS[transaction.status as PaymentStatus];
+  if (!cancellation) {
+    return c.json({ error: `A payment that is ${transaction.status} can no longer be cancelled` }, 409);
+  }
+
+  const updated = await transitionPaymentFrom(
+    c.env.DB,
+    transactionId,
+    transaction.status,
+    cancellation.to,
+    { id: user.id, role: user.role },
+    cancellation.reason,
+  );
+  if (!updated) {
+    return c.json({ error: "The payment changed while it was being cancelled. Please refresh and try again." }, 409);
+  }
+
+  return c.json({ success: true, data: updated });
+});
+
+// PDF receipt for a payment, rendered in the worker. Customers can only download their own receipts.
+app.get("/api/transactions/:transactionId/receipt.pdf", authMiddleware, async (c) => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const user = (c as any).get("user");
+  const transactionId = c.req.param("transactionId");
+
+  const transaction = await c.env.DB.prepare(
+    `SELECT t.*, p.full_name AS payer_full_name, u.username AS payer_username, u.account_number AS payer_account_number
+     FROM transactions t JOIN users u ON u.id = t.user_id
+     LEFT JOIN user_profiles p ON p.user_id = u.id
+     WHERE t.transaction_id = ?`
+  ).bind(transactionId).first();
+  if (!transaction || (user.role !== "employee" && transaction.user_id !== user.id)) {
+    return c.json({ error: "Transaction not found" }, 404);
+  }
+
+  const pdf = renderReceiptPdf({
+    transaction,
+    payer: {
+      name: transaction.payer_full_name || transaction.payer_username || "-",
+      account_number: transaction.payer_account_number,
+    },
+    bank: await lookupBic(c.env.DB, transaction.swift_code),
+    generatedAt: new Date(),
+  });
+
+  return c.body(pdf, 200, {
+    "Content-Type": "application/pdf",
+    "Content-Disposition": `attachment; filename="receipt-${transactionId}.pdf"`,
+    "Cache-Control": "private, no-store",
+  });
+});
+
+// SWIFT/BIC directory lookup
+app.get("/api/swift/:bic", authMiddleware, async (c) => {
+  const bic = c.req.param("bic").toUpperCase();
+  if (!SwiftCodeSchema.safeParse(bic).success) {
+    return c.json({ error: "Invalid SWIFT code format" }, 400);
+  }
+
+  const bank = await lookupBic(c.env.DB, bic);
+  if (!bank) {
+    return c.json({ error: "Unknown SWIFT code" }, 404);
+  }
+
+  return c.json(bank);
+});
+
+// Beneficiary (saved payee) endpoints
+app.get("/api/beneficiaries", authMiddleware, async (c) => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const user = (c as any).get("user");
+
+  const { results } = await c.env.DB.prepare(
+    "SELECT * FROM beneficiaries WHERE user_id = ? ORDER BY nickname COLLATE NOCASE ASC"
+  ).bind(user.id).all();
+
+  return c.json(results);
+});
+
+app.post("/api/beneficiaries", authMiddleware, zValidator("json", BeneficiarySchema), async (c) => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const user = (c as any).get("user");
+  const beneficiary = c.req.valid("json");
+  const now = new Date().toISOString();
+
+  if (!(await lookupBic(c.env.DB, beneficiary.swift_code))) {
+    return c.json({ error: "Unknown SWIFT code" }, 400);
+  }
+
+  const duplicate = await c.env.DB.prepare(
+    "SELECT id FROM beneficiaries WHERE user_id = ? AND nickname = ? COLLATE NOCASE"
+  ).bind(user.id, beneficiary.nickname).first();
+  if (duplicate) {
+    return c.json({ error: "A payee with this nickname already exists" }, 409);
+  }
+
+  const created = await c.env.DB.prepare(
+    `INSERT INTO beneficiaries (id, user_id, nickname, account_number, swift_code, bank_name, country, default_currency, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+     RETURNING *`
+  ).bind(
+    crypto.randomUUID(),
+    user.id,
+    beneficiary.nickname,
+    beneficiary.account_number,
+    beneficiary.swift_code,
+    beneficiary.bank_name ?? null,
+    beneficiary.country,
+    beneficiary.default_currency,
+    now,
+    now,
+  ).first();
+
+  return c.json({ success: true, data: created }, 201);
+});
+
+app.put("/api/beneficiaries/:id", authMiddleware, zValidator("json", BeneficiarySchema), async (c) => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const user = (c as any).get("user");
+  const id = c.req.param("id");
+  const beneficiary = c.req.valid("json");
+
+  if (!(await lookupBic(c.env.DB, beneficiary.swift_code))) {
+    return c.json({ error: "Unknown SWIFT code" }, 400);
+  }
+
+  const duplicate = await c.env.DB.prepare(
+    "SELECT id FROM beneficiaries WHERE user_id = ? AND nickname = ? COLLATE NOCASE AND id != ?"
+  ).bind(user.id, beneficiary.nickname, id).first();
+  if (duplicate) {
+    return c.json({ error: "A payee with this nickname already exists" }, 409);
+  }
+
+  const updated = await c.env.DB.prepare(
+    `UPDATE beneficiaries
+     SET nickname = ?, account_number = ?, swift_code = ?, bank_name = ?, country = ?, default_currency = ?, updated_at = ?
+     WHERE id = ? AND user_id = ?
+     RETURNING *`
+  ).bind(
+    beneficiary.nickname,
+    beneficiary.account_number,
+    beneficiary.swift_code,
+    beneficiary.bank_name ?? null,
+    beneficiary.country,
+    beneficiary.default_currency,
+    new Date().toISOString(),
+    id,
+    user.id,
+  ).first();
+
+  if (!updated) {
+    return c.json({ error: "Payee not found" }, 404);
+  }
+
+  return c.json({ success: true, data: updated });
+});
+
+app.delete("/api/beneficiaries/:id", authMiddleware, async (c) => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const user = (c as any).get("user");
+
+  const { meta } = await c.env.DB.prepare(
+    "DELETE FROM beneficiaries WHERE id = ? AND user_id = ?"
+  ).bind(c.req.param("id"), user.id).run();
+
+  if (!meta.changes) {
+    return c.json({ error: "Payee not found" }, 404);
+  }
+
+  return c.json({ success: true });
+});
+
+// Scheduled and recurring payment endpoints
+app.get("/api/scheduled-payments", authMiddleware, async (c) => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const user = (c as any).get("user");
+
+  const { results } = await c.env.DB.prepare(
+    `SELECT * FROM scheduled_payments
+     WHERE user_id = ? AND status != 'Cancelled'
+     ORDER BY status = 'Completed' ASC, next_run_date ASC`
+  ).bind(user.id).all();
+
+  return c.json(results);
+});
+
+// The cron books each occurrence without a session, so a large schedule needs step-up when it is set up.
+// Occurrences are priced when they run; today's rate stands in for theirs.
+async function scheduleReferenceAmount(db: Env["DB"], schedule: { amount: number; currency: string }) {
+  return schedule.amount * await getConversionRate(db, schedule.currency, BASE_CURRENCY);
+}
+
+app.post("/api/scheduled-payments", authMiddleware, rateLimit("payments"), zValidator("json", ScheduledPaymentSchema), async (c) => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const user = (c as any).get("user");
+  const schedule = c.req.valid("json");
+
+  if (!(await lookupBic(c.env.DB, schedule.swift_code))) {
+    return c.json({ error: "Unknown SWIFT code" }, 400);
+  }
+  const nextRun = firstRunDate(schedule.frequency, schedule.start_date);
+  if (schedule.end_date && nextRun > schedule.end_date) {
+    return c.json({ error: "The schedule ends before its first payment date" }, 400);
+  }
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  await requireStepUp(c.env.DB, (c as any).get("session"), await scheduleReferenceAmount(c.env.DB, schedule));
+
+  const now = new Date().toISOString();
+  const created = await c.env.DB.prepare(
+    `INSERT INTO scheduled_payments (id, user_id, amount, currency, recipient_account, swift_code, reference, frequency,
+       start_date, end_date, max_runs, next_run_date, run_count, status, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 0, 'Active', ?, ?)
+     RETURNING *`
+  ).bind(
+    crypto.randomUUID(),
+    user.id,
+    schedule.amount,
+    schedule.currency,
+    schedule.recipient_account,
+    schedule.swift_code,
+    schedule.reference ?? null,
+    schedule.frequency,
+    schedule.start_date,
+    schedule.end_date ?? null,
+    schedule.max_runs ?? null,
+    nextRun,
+    now,
+    now,
+  ).first();
+
+  return c.json({ success: true, data: created }, 201);
+});
+
+// Replaces a schedule's details. The next payment is recalculated from a new start date when one is given;
+// otherwise the stored start date is kept, so a monthly schedule stays on its day of the month.
+app.put("/api/scheduled-payments/:id", authMiddleware, zValidator("json", ScheduledPaymentUpdateSchema), async (c) => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const user = (c as any).get("user");
+  const schedule = c.req.valid("json");
+
+  const existing = await c.env.DB.prepare(
+    "SELECT * FROM scheduled_payments WHERE id = ? AND user_id = ? AND status IN ('Active', 'Paused')"
+  ).bind(c.req.param("id"), user.id).first();
+  if (!existing) {
+    return c.json({ error: "Scheduled payment not found or no longer editable" }, 404);
+  }
+  if (!(await lookupBic(c.env.DB, schedule.swift_code))) {
+    return c.json({ error: "Unknown SWIFT code" }, 400);
+  }
+  const startDate = schedule.start_date ?? existing.start_date;
+  if (schedule.end_date && schedule.end_date < startDate) {
+    return c.json({ error: "End date must be on or after the start date" }, 400);
+  }
+  let nextRun: string | null;
+  if (schedule.start_date) {
+    nextRun = firstRunDate(schedule.frequency, schedule.start_date);
+    if (schedule.end_date && nextRun > schedule.end_date) {
+      return c.json({ error: "The schedule ends before its first payment date" }, 400);
+    }
+  } else {
+    nextRun = editedRunDate(existing, schedule.frequency);
+  }
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  await requireStepUp(c.env.DB, (c as any).get("session"), await scheduleReferenceAmount(c.env.DB, schedule));
+
+  // A schedule that has already made its last payment under the new end date or count is finished, so the
+  // cron does not pay it again
+  const finished = isScheduleFinished(
+    { end_date: schedule.end_date ?? null, max_runs: schedule.max_runs ?? null, run_count: existing.run_count },
+    nextRun,
+  );
+
+  // Only applied if no payment was made since the schedule was read
+  const updated = await c.env.DB.prepare(
+    `UPDATE scheduled_payments
+     SET amount = ?, currency = ?, recipient_account = ?, swift_code = ?, reference = ?, frequency = ?,
+       start_date = ?, end_date = ?, max_runs = ?, next_run_date = ?, status = ?, updated_at = ?
+     WHERE id = ? AND status = ? AND run_count = ? AND next_run_date = ?
+     RETURNING *`
+  ).bind(
+    schedule.amount,
+    schedule.currency,
+    schedule.recipient_account,
+    schedule.swift_code,
+    schedule.reference ?? null,
+    schedule.frequency,
+    startDate,
+    schedule.end_date ?? null,
+    schedule.max_runs ?? null,
+    nextRun ?? existing.next_run_date,
+    finished ? "Completed" : existing.status,
+    new Date().toISOString(),
+    existing.id,
+    existing.status,
+    existing.run_count,
+    existing.next_run_date,
+  ).first();
+
+  if (!updated) {
+    return c.json({ error: "The schedule changed while it was being edited. Please try again." }, 409);
+  }
+
+  return c.json({ success: true, data: updated });
+});
+
+app.post("/api/scheduled-payments/:id/pause", authMiddleware, async (c) => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const user = (c as any).get("user");
+
+  const updated = await c.env.DB.prepare(
+    `UPDATE scheduled_payments SET status = 'Paused', updated_at = ?
+     WHERE id = ? AND user_id = ? AND status = 'Active'
+     RETURNING *`
+  ).bind(new Date().toISOString(), c.req.param("id"), user.id).first();
+
+  if (!updated) {
+    return c.json({ error: "Only active schedules can be paused" }, 409);
+  }
+
+  return c.json({ success: true, data: updated });
+});
+
+// Occurrences that fell due while the schedule was paused are skipped, not paid late
+app.post("/api/scheduled-payments/:id/resume", authMiddleware, async (c) => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const user = (c as any).get("user");
+
+  const schedule = await c.env.DB.prepare(
+    "SELECT * FROM scheduled_payments WHERE id = ? AND user_id = ? AND status = 'Paused'"
+  ).bind(c.req.param("id"), user.id).first();
+  if (!schedule) {
+    return c.json({ error: "Only paused schedules can be resumed" }, 409);
+  }
+
+  const today = todayUtc();
+  let nextRun: string | null = schedule.next_run_date;
+  while (nextRun !== null && nextRun < today && schedule.frequency !== "once") {
+    nextRun = nextRunDate(schedule.frequency, schedule.start_date, nextRun);
+  }
+  const finished = isScheduleFinished(schedule, nextRun);
+
+  const updated = await c.env.DB.prepare(
+    `UPDATE scheduled_payments SET status = ?, next_run_date = ?, updated_at = ?
+     WHERE id = ? AND status = 'Paused'
+     RETURNING *`
+  ).bind(finished ? "Completed" : "Active", nextRun ?? schedule.next_run_date, new Date().toISOString(), schedule.id).first();
+
+  return c.json({ success: true, data: updated });
+});
+
+app.post("/api/scheduled-payments/:id/cancel", authMiddleware, async (c) => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const user = (c as any).get("user");
+
+  const updated = await c.env.DB.prepare(
+    `UPDATE scheduled_payments SET status = 'Cancelled', updated_at = ?
+     WHERE id = ? AND user_id = ? AND status IN ('Active', 'Paused')
+     RETURNING *`
+  ).bind(new Date().toISOString(), c.req.param("id"), user.id).first();
+
+  if (!updated) {
+    return c.json({ error: "Only active or paused schedules can be cancelled" }, 409);
+  }
+
+  return c.json({ success: true, data: updated });
+});
+
+// Employee payment verification endpoints
+const EmployeePaymentQuerySchema = z.object({
+  status: z.enum(["Pending", "Verified", "RecallRequested"]).default("Pending"),
+});
+
+const VerifyPaymentSchema = z.object({
+  account_checked: z.literal(true, { errorMap: () => ({ message: "Payee account must be checked" }) }),
+  swift_checked: z.literal(true, { errorMap: () => ({ message: "SWIFT code must be checked" }) }),
+});
+
+const RejectPaymentSchema = z.object({
+  reason: z.string().trim().min(1, "A reason is required").max(500),
+});
+
+const SubmitToSwiftSchema = z.object({
+  transaction_ids: z.array(z.string())
+    .min(1, "Select at least one payment")
+    .max(MAX_SWIFT_SUBMISSION_SIZE, `Submit at most ${MAX_SWIFT_SUBMISSION_SIZE} payments at a time`),
+  // pain.001 XML is always generated; MT103 is for correspondents that still need it
+  include_mt103: z.boolean().default(false),
+});
+
+// Automated format checks shown alongside each payment to guide the employee's manual review
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function getPaymentChecks(transaction: any) {
+  return {
+    account_format_valid: validateRecipientAccount(transaction.recipient_account, transaction.swift_code) === null,
+    swift_format_valid: /^[A-Z]{6}[A-Z0-9]{2}([A-Z0-9]{3})?$/.test(transaction.swift_code),
+  };
+}
+
+app.get("/api/employee/payments", authMiddleware, employeeMiddleware, zValidator("query", EmployeePaymentQuerySchema), async (c) => {
+  const { status } = c.req.valid("query");
+
+  const { results } = await c.env.DB.prepare(
+    `SELECT t.*, u.username AS customer_username, u.account_number AS customer_account_number
+     FROM transactions t JOIN users u ON u.id = t.user_id
+     WHERE t.status = ?
+     ORDER BY t.id ASC`
+  ).bind(status).all();
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return c.json(results.map((transaction: any) => ({ ...transaction, checks: getPaymentChecks(transaction) })));
+});
+
+app.post("/api/employee/payments/:transactionId/verify", authMiddleware, employeeMiddleware, zValidator("json", VerifyPaymentSchema), async (c) => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const employee = (c as any).get("user");
+  const transactionId = c.req.param("transactionId");
+
+  const transaction = await transitionPayment(
+    c.env.DB,
+    transactionId,
+    "Verified",
+    { id: employee.id, role: "employee" },
+    "Payee account and SWIFT code checked",
+  );
+  if (!transaction) {
+    return c.json({ error: "Payment not found" }, 404);
+  }
+
+  return c.json({ success: true, data: transaction });
+});
+
+app.post("/api/employee/payments/:transactionId/reject", authMiddleware, employeeMiddleware, zValidator("json", RejectPaymentSchema), async (c) => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const employee = (c as any).get("user");
+  const transactionId = c.req.param("transactionId");
+  const { reason } = c.req.valid("json");
+
+  const transaction = await transitionPayment(c.env.DB, transactionId, "Rejected", { id: employee.id, role: "employee" }, reason);
+  if (!transaction) {
+    return c.json({ error: "Payment not found" }, 404);
+  }
+
+  return c.json({ success: true, data: transaction });
+});
+
+// Accepting a recall cancels the payment and releases its held funds
+app.post("/api/employee/payments/:transactionId/recall/accept", authMiddleware, employeeMiddleware, async (c) => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const employee = (c as any).get("user");
+  const transactionId = c.req.param("transactionId");
+
+  const transaction = await transitionPaymentFrom(c.env.DB, transactionId, "RecallRequested", "Cancelled", { id: employee.id, role: "employee" }, "Recall accepted");
+  if (!transaction) {
+    return c.json({ error: "No recall has been requested for this payment" }, 404);
+  }
+
+  return c.json({ success: true, data: transaction });
+});
+
+// Declining a recall returns the payment to the Verified queue so it can be sent
+app.post("/api/employee/payments/:transactionId/recall/decline", authMiddleware, employeeMiddleware, zValidator("json", RejectPaymentSchema), async (c) => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const employee = (c as any).get("user");
+  const transactionId = c.req.param("transactionId");
+  const { reason } = c.req.valid("json");
+
+  const transaction = await transitionPaymentFrom(c.env.DB, transactionId, "RecallRequested", "Verified", { id: employee.id, role: "employee" }, reason);
+  if (!transaction) {
+    return c.json({ error: "No recall has been requested for this payment" }, 404);
+  }
+
+  return c.json({ success: true, data: transaction });
+});
+
+app.post("/api/employee/payments/submit", authMiddleware, employeeMiddleware, zValidator("json", SubmitToSwiftSchema), async (c) => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const employee = (c as any).get("user");
+  const { transaction_ids, include_mt103 } = c.req.valid("json");
+  const submittedAt = new Date();
+  const now = submittedAt.toISOString();
+
+  // Payments that are no longer Verified (e.g. already submitted), or whose customer has no account number
+  // to name as the debtor account, are skipped rather than failing the batch
+  const transactionIds = [...new Set(transaction_ids)];
+  const { results: verified } = await c.env.DB.prepare(
+    `SELECT t.*, p.full_name AS debtor_full_name, u.username AS debtor_username, u.account_number AS debtor_account_number
+     FROM transactions t JOIN users u ON u.id = t.user_id
+     LEFT JOIN user_profiles p ON p.user_id = u.id
+     WHERE t.status = 'Verified' AND u.account_number IS NOT NULL AND u.account_number != ''
+       AND t.transaction_id IN (${transactionIds.map(() => "?").join(", ")})
+     ORDER BY t.id ASC`
+  ).bind(...transactionIds).all();
+
+  if (verified.length === 0) {
+    return c.json({ success: true, submitted: [], submission_id: null });
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const payments: SwiftPayment[] = verified.map(({ debtor_full_name, debtor_username, debtor_account_number, ...payment }: any) => ({
+    ...payment,
+    debtor_name: debtor_full_name || debtor_username || payment.user_id,
+    debtor_account: debtor_account_number,
+  }));
+
+  // The messages are built before anything is written, and everything below commits in one batch
+  const submissionId = generateSubmissionId();
+  const messages = buildSwiftMessages(submissionId, submittedAt, c.env.SWIFT_SENDER_BIC, payments, include_mt103);
+  const statements = payments.flatMap((payment) => [
+    ...buildTransitionStatements(c.env.DB, {
+      transactionId: payment.transaction_id,
+      from: "Verified",
+      to: "Sent",
+      actor: { id: employee.id, role: "employee" },
+      reason: "Submitted to SWIFT",
+    }, now),
+    c.env.DB.prepare(
+      "UPDATE transactions SET swift_submission_id = ? WHERE transaction_id = ? AND status = 'Sent' AND swift_submission_id IS NULL"
+    ).bind(submissionId, payment.transaction_id),
+  ]);
+  // A payment that changed since it was read (e.g. the customer recalled it) is not tagged above. The
+  // messages would then cover a payment that was not sent, so pain001_xml is left NULL: the NOT NULL
+  // constraint fails and the whole batch rolls back.
+  statements.push(c.env.DB.prepare(
+    `INSERT INTO swift_submissions (id, submitted_by, payment_count, control_sum, pain001_xml, mt103_text, created_at)
+     VALUES (?, ?, ?, ?, CASE WHEN (SELECT COUNT(*) FROM transactions WHERE swift_submission_id = ?) = ? THEN ? END, ?, ?)`
+  ).bind(
+    submissionId,
+    employee.id,
+    payments.length,
+    messages.control_sum,
+    submissionId,
+    payments.length,
+    messages.pain001,
+    messages.mt103,
+    now,
+  ));
+
+  try {
+    await c.env.DB.batch(statements);
+  } catch (error) {
+    if (String(error).includes("NOT NULL constraint failed: swift_submissions.pain001_xml")) {
+      return c.json({ error: "Some payments changed while they were being submitted. Please refresh and try again." }, 409);
+    }
+    throw error;
+  }
+
+  return c.json({
+    success: true,
+    submitted: payments.map((payment) => payment.transaction_id),
+    submission_id: submissionId,
+  });
 });
 
-// Account balance endpoint
+// Recent SWIFT submissions, newest first, for reconciliation
+app.get("/api/employee/swift-submissions", authMiddleware, employeeMiddleware, async (c) => {
+  const { results } = await c.env.DB.prepare(
+    `SELECT id, submitted_by, payment_count, control_sum, mt103_text IS NOT NULL AS has_mt103, created_at
+     FROM swift_submissions ORDER BY created_at DESC LIMIT 50`
+  ).all();
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return c.json(results.map((row: any) => ({ ...row, has_mt103: Boolean(row.has_mt103) })));
+});
+
+// The messages exactly as generated at submission time
+app.get("/api/employee/swift-submissions/:submissionId/:file{pain\\.001\\.xml|mt103\\.txt}", authMiddleware, employeeMiddleware, async (c) => {
+  const submissionId = c.req.param("submissionId");
+  const file = c.req.param("file");
+
+  const submission = await c.env.DB.prepare(
+    "SELECT pain001_xml, mt103_text FROM swift_submissions WHERE id = ?"
+  ).bind(submissionId).first();
+  const content = file === "mt103.txt" ? submission?.mt103_text : submission?.pain001_xml;
+  if (!content) {
+    return c.json({ error: "Message not found" }, 404);
+  }
+
+  return c.body(content, 200, {
+    "Content-Type": file === "mt103.txt" ? "text/plain; charset=utf-8" : "application/xml; charset=utf-8",
+    "Content-Disposition": `attachment; filename="${submissionId}.${file}"`,
+    "Cache-Control": "private, no-store",
+  });
+});
+
+// Account balance endpoint: the customer's funds in the base currency, from the ledger
 app.get('/api/account/balance', authMiddleware, async (c) => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const user = (c as any).get("user");
+
+  const balances = await getLedgerBalances(c.env.DB, user.id);
+  const balance = balances.find((b) => b.currency === BASE_CURRENCY);
+
   return c.json({
-    available: 12500.75,
-    pending: 500.00,
-    currency: 'USD',
-    last_updated: new Date().toISOString(),
+    available: balance?.available ?? 0,
+    pending: balance?.pending ?? 0,
+    currency: BASE_CURRENCY,
+    last_updated: balance?.last_updated ?? new Date().toISOString(),
+  });
+});
+
+// Every currency wallet the customer holds, base currency first
+app.get('/api/account/balances', authMiddleware, async (c) => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const user = (c as any).get("user");
+
+  const balances = await getLedgerBalances(c.env.DB, user.id);
+  // The base currency wallet is listed even before anything has been posted to it
+  const base = balances.find((b) => b.currency === BASE_CURRENCY) ?? { currency: BASE_CURRENCY, available: 0, pending: 0, last_updated: null };
+  const now = new Date().toISOString();
+
+  const response: WalletBalances = {
+    base_currency: BASE_CURRENCY,
+    balances: [base, ...balances.filter((b) => b !== base)].map((b) => ({ ...b, last_updated: b.last_updated ?? now })),
+  };
+  return c.json(response);
+});
+
+// Converts available funds between two of the customer's wallets at the rate payments are quoted at
+app.post('/api/account/conversions', authMiddleware, rateLimit("payments"), zValidator("json", WalletConversionSchema), async (c) => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const user = (c as any).get("user");
+  const { from_currency, to_currency, amount } = c.req.valid("json");
+
+  const rate = await getConversionRate(c.env.DB, from_currency, to_currency);
+  const convertedAmount = Math.round(amount * rate * 100) / 100;
+  if (convertedAmount <= 0) {
+    return c.json({ error: "Amount is too small to convert" }, 400);
+  }
+
+  const now = new Date().toISOString();
+  const [entry] = await c.env.DB.batch(buildConversionStatements(c.env.DB, {
+    userId: user.id,
+    fromCurrency: from_currency,
+    toCurrency: to_currency,
+    amount,
+    convertedAmount,
+    rate,
+  }, now));
+  if (!entry.meta.changes) {
+    return c.json({ error: `Insufficient ${from_currency} funds` }, 422);
+  }
+
+  const conversion: WalletConversion = {
+    from_currency,
+    to_currency,
+    amount,
+    converted_amount: convertedAmount,
+    rate,
+    created_at: now,
+  };
+  return c.json({ success: true, ...conversion }, 201);
+});
+
+// Statements cover at most this many days
+const MAX_STATEMENT_DAYS = 366;
+
+const StatementQuerySchema = z.object({
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+  currency: CurrencySchema.default(BASE_CURRENCY),
+  format: z.enum(["csv", "ofx", "pdf"]).default("pdf"),
+}).refine((query) => query.from <= query.to, {
+  message: "The start date must not be after the end date",
+  path: ["to"],
+}).refine((query) => Date.parse(query.to) - Date.parse(query.from) < MAX_STATEMENT_DAYS * 24 * 60 * 60 * 1000, {
+  message: `Statements can cover at most ${MAX_STATEMENT_DAYS} days`,
+  path: ["from"],
+});
+
+const STATEMENT_CONTENT_TYPES: Record<StatementFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  ofx: "application/x-ofx",
+  pdf: "application/pdf",
+};
+
+// Statement of one wallet's available funds over a date range, for download or import into accounting software
+app.get("/api/statements", authMiddleware, zValidator("query", StatementQuerySchema), async (c) => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const user = (c as any).get("user");
+  const { from, to, currency, format } = c.req.valid("query");
+
+  const [statement, holder] = await Promise.all([
+    getStatement(c.env.DB, user.id, currency, from, to),
+    c.env.DB.prepare(
+      `SELECT p.full_name, u.username, u.account_number
+       FROM users u LEFT JOIN user_profiles p ON p.user_id = u.id
+       WHERE u.id = ?`
+    ).bind(user.id).first(),
+  ]);
+  const account = {
+    holder_name: holder?.full_name || holder?.username || "-",
+    account_number: holder?.account_number ?? null,
+    bank_bic: c.env.SWIFT_SENDER_BIC,
+  };
+  const generatedAt = new Date();
+
+  const body = format === "csv"
+    ? renderStatementCsv(statement)
+    : format === "ofx"
+      ? renderStatementOfx(statement, account, generatedAt)
+      : renderStatementPdf(statement, account, generatedAt);
+
+  return c.body(body, 200, {
+    "Content-Type": STATEMENT_CONTENT_TYPES[format],
+    "Content-Disposition": `attachment; filename="statement-${currency}-${from}-${to}.${format}"`,
+    "Cache-Control": "private, no-store",
   });
 });
 
+// Payment limits and how much of each is left today and this month
+app.get('/api/account/limits', authMiddleware, async (c) => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const user = (c as any).get("user");
+  return c.json(await getAccountLimits(c.env.DB, user.id));
+});
+
 // Transaction analytics endpoint
 app.get('/api/transactions/analytics', authMiddleware, async (c) => {
   return c.json({
@@ -426,16 +1848,21 @@ app.get('/api/notifications', authMiddleware, async (c) => {
     },
   ];
 
-  return c.json(mockNotifications);
+  // Stored notifications (security alerts so far) come first, ahead of the sample ones
+  return c.json([...(await listNotifications(c.env.DB, user.id)), ...mockNotifications]);
 });
 
 app.post('/api/notifications/:id/read', authMiddleware, async (c) => {
-  // In a real app, this would update the notification status
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const user = (c as any).get("user");
+  await markNotificationRead(c.env.DB, user.id, c.req.param('id'));
   return c.json({ success: true });
 });
 
 app.post('/api/notifications/:id/archive', authMiddleware, async (c) => {
-  // In a real app, this would archive the notification
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const user = (c as any).get("user");
+  await archiveNotification(c.env.DB, user.id, c.req.param('id'));
   return c.json({ success: true });
 });
 
@@ -472,7 +1899,7 @@ app.get('/api/chat/history', authMiddleware, async (c) => {
   return c.json(mockChatHistory);
 });
 
-app.post('/api/chat/send', authMiddleware, async (c) => {
+app.post('/api/chat/send', authMiddleware, rateLimit("chat"), async (c) => {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const user = (c as any).get("user");
   const messageData = await c.req.json();
@@ -645,7 +2072,7 @@ app.get('/api/faq', async (c) => {
   return c.json(mockFAQs);
 });
 
-app.post('/api/faq/:id/vote', async (c) => {
+app.post('/api/faq/:id/vote', rateLimit("faqVotes"), async (c) => {
   // In a real app, this would update the vote counts
   return c.json({ success: true });
 });
@@ -853,4 +2280,12 @@ app.get('/api/data/export/:id', authMiddleware, async (c) => {
   return c.json(mockExport);
 });
 
-export default app;
+export default {
+  fetch: app.fetch,
+  // Cron trigger (see wrangler.jsonc): books scheduled payments that have fallen due and clears out
+  // rate limit buckets that are full again
+  scheduled(_controller: unknown, env: Env, ctx: ExecutionContext) {
+    ctx.waitUntil(runDueScheduledPayments(env));
+    ctx.waitUntil(pruneRateLimitBuckets(env.DB));
+  },
+};
@@ -0,0 +1,168 @@
+import type { Env } from "./env";
+import { BASE_CURRENCY } from "./fx";
+
+/**
+ * Double-entry ledger. Every movement of money is an entry whose postings sum to zero. A posting adds
+ * its (signed) amount to one account, so customer account balances are what the bank owes the customer:
+ * - customer_available: funds the customer can spend
+ * - customer_held: funds reserved for payments that have not been sent yet
+ * - outgoing_settlement: payments sent through SWIFT
+ * - fee_income: transfer fees collected on sent payments
+ * - funding: the other side of deposits into customer accounts
+ * - fx_position: the bank's side of conversions between a customer's currency wallets
+ * Each customer has a wallet (an available and a held account) per currency; postings never mix currencies.
+ */
+export type LedgerAccountType = 'customer_available' | 'customer_held' | 'outgoing_settlement' | 'fee_income' | 'funding' | 'fx_position';
+
+export type LedgerEntryKind = 'deposit' | 'hold' | 'release' | 'settlement' | 'reversal' | 'conversion';
+
+export type LedgerBalance = {
+  currency: string;
+  available: number;
+  pending: number;
+  last_updated: string | null;
+};
+
+const CUSTOMER_ACCOUNTS: readonly LedgerAccountType[] = ['customer_available', 'customer_held'];
+
+// Payments debit the customer in their base currency. Payments booked before quotes existed have no
+// base currency, amount or fee and were debited at face value in the base currency.
+const PAYMENT_CURRENCY = `COALESCE(t.base_currency, '${BASE_CURRENCY}')`;
+
+const PAYMENT_AMOUNTS = {
+  total: 'COALESCE(t.total_debit, t.amount)',
+  base: 'COALESCE(t.base_amount, t.amount)',
+  fee: 'COALESCE(t.fee, 0)',
+};
+
+type PaymentLedgerEntryKind = Exclude<LedgerEntryKind, 'deposit' | 'conversion'>;
+
+type PaymentPosting = [LedgerAccountType, 1 | -1, keyof typeof PAYMENT_AMOUNTS];
+
+// What each payment movement posts, as (account, sign, amount) from the payment row
+const PAYMENT_POSTINGS: Record<PaymentLedgerEntryKind, readonly PaymentPosting[]> = {
+  // Booking a payment reserves its total debit; buildPaymentStatements() refuses one the wallet cannot cover
+  hold: [['customer_available', -1, 'total'], ['customer_held', 1, 'total']],
+  // Cancelled, rejected or failed before it was sent: the reservation goes back
+  release: [['customer_held', -1, 'total'], ['customer_available', 1, 'total']],
+  // Sent: the converted amount leaves the bank and the fee is earned
+  settlement: [['customer_held', -1, 'total'], ['outgoing_settlement', 1, 'base'], ['fee_income', 1, 'fee']],
+  // Returned by SWIFT after it was sent: the customer is refunded in full, fee included
+  reversal: [['outgoing_settlement', -1, 'base'], ['fee_income', -1, 'fee'], ['customer_available', 1, 'total']],
+};
+
+// Account IDs are derived from the owner and currency, so postings never need to look an account up
+export function customerAccountId(type: 'customer_available' | 'customer_held', currency: string, userId: string) {
+  return `${type}:${currency}:${userId}`;
+}
+
+function accountIdSql(type: LedgerAccountType) {
+  return CUSTOMER_ACCOUNTS.includes(type)
+    ? `'${type}:' || ${PAYMENT_CURRENCY} || ':' || t.user_id`
+    : `'${type}:' || ${PAYMENT_CURRENCY}`;
+}
+
+/**
+ * Statements that post a payment movement to the ledger, reading the amounts from the payment row.
+ * They must run in the same db.batch() directly after the statement that records the payment event:
+ * the entry is only written when that statement changed a row, and the postings only when the entry was.
+ */
+export function buildPaymentLedgerStatements(db: Env['DB'], transactionId: string, kind: PaymentLedgerEntryKind, now: string) {
+  const entryId = crypto.randomUUID();
+  const postings = PAYMENT_POSTINGS[kind];
+
+  return [
+    db.prepare(
+      `INSERT INTO ledger_entries (id, kind, transaction_id, created_at)
+       SELECT ?, ?, ?, ? WHERE changes() = 1`
+    ).bind(entryId, kind, transactionId, now),
+    db.prepare(
+      `INSERT OR IGNORE INTO ledger_accounts (id, user_id, type, currency, created_at)
+       ${postings.map(([type]) => `SELECT ${accountIdSql(type)}, ${CUSTOMER_ACCOUNTS.includes(type) ? 't.user_id' : 'NULL'}, '${type}', ${PAYMENT_CURRENCY}, ?
+       FROM transactions t WHERE t.transaction_id = ? AND EXISTS (SELECT 1 FROM ledger_entries WHERE id = ?)`).join('\n       UNION ALL ')}`
+    ).bind(...postings.flatMap(() => [now, transactionId, entryId])),
+    db.prepare(
+      `INSERT INTO ledger_postings (entry_id, account_id, amount)
+       ${postings.map(([type, sign, amount]) => `SELECT e.id, ${accountIdSql(type)}, ${sign < 0 ? '-' : ''}${PAYMENT_AMOUNTS[amount]}
+       FROM transactions t JOIN ledger_entries e ON e.id = ? WHERE t.transaction_id = ?`).join('\n       UNION ALL ')}`
+    ).bind(...postings.flatMap(() => [entryId, transactionId])),
+  ];
+}
+
+type ConversionRequest = {
+  userId: string;
+  fromCurrency: string;
+  toCurrency: string;
+  amount: number;
+  convertedAmount: number;
+  rate: number;
+};
+
+/**
+ * Statements that move `amount` from one of the customer's wallets to another as `convertedAmount`.
+ * The first writes the entry, and only when the source wallet has `amount` available, so a
+ * conversion can never overdraw it; check its meta.changes to see whether the conversion happened.
+ */
+export function buildConversionStatements(db: Env['DB'], { userId, fromCurrency, toCurrency, amount, convertedAmount, rate }: ConversionRequest, now: string) {
+  const entryId = crypto.randomUUID();
+  const fromWallet = customerAccountId('customer_available', fromCurrency, userId);
+  const toWallet = customerAccountId('customer_available', toCurrency, userId);
+  const description = `Converted ${fromCurrency} ${amount.toFixed(2)} to ${toCurrency} ${convertedAmount.toFixed(2)} at ${rate}`;
+
+  return [
+    db.prepare(
+      `INSERT INTO ledger_entries (id, kind, transaction_id, description, created_at)
+       SELECT ?, 'conversion', NULL, ?, ?
+       WHERE (SELECT ROUND(COALESCE(SUM(amount), 0) * 100) FROM ledger_postings WHERE account_id = ?) >= ?`
+    ).bind(entryId, description, now, fromWallet, Math.round(amount * 100)),
+    db.prepare(
+      `INSERT OR IGNORE INTO ledger_accounts (id, user_id, type, currency, created_at)
+       SELECT ?, ?, 'customer_available', ?, ? WHERE EXISTS (SELECT 1 FROM ledger_entries WHERE id = ?)
+       UNION ALL SELECT ?, NULL, 'fx_position', ?, ? WHERE EXISTS (SELECT 1 FROM ledger_entries WHERE id = ?)
+       UNION ALL SELECT ?, NULL, 'fx_position', ?, ? WHERE EXISTS (SELECT 1 FROM ledger_entries WHERE id = ?)`
+    ).bind(
+      toWallet, userId, toCurrency, now, entryId,
+      `fx_position:${fromCurrency}`, fromCurrency, now, entryId,
+      `fx_position:${toCurrency}`, toCurrency, now, entryId,
+    ),
+    db.prepare(
+      `INSERT INTO ledger_postings (entry_id, account_id, amount)
+       SELECT id, ?, ? FROM ledger_entries WHERE id = ?
+       UNION ALL SELECT id, ?, ? FROM ledger_entries WHERE id = ?
+       UNION ALL SELECT id, ?, ? FROM ledger_entries WHERE id = ?
+       UNION ALL SELECT id, ?, ? FROM ledger_entries WHERE id = ?`
+    ).bind(
+      fromWallet, -amount, entryId,
+      `fx_position:${fromCurrency}`, amount, entryId,
+      `fx_position:${toCurrency}`, -convertedAmount, entryId,
+      toWallet, convertedAmount, entryId,
+    ),
+  ];
+}
+
+function roundMoney(amount: number) {
+  return Math.round(amount * 100) / 100;
+}
+
+// The customer's available and held funds in each currency they have an account in
+export async function getLedgerBalances(db: Env['DB'], userId: string): Promise<LedgerBalance[]> {
+  const { results } = await db.prepare(
+    `SELECT a.currency,
+       COALESCE(SUM(CASE WHEN a.type = 'customer_available' THEN p.amount END), 0) AS available,
+       COALESCE(SUM(CASE WHEN a.type = 'customer_held' THEN p.amount END), 0) AS pending,
+       MAX(e.created_at) AS last_updated
+     FROM ledger_accounts a
+     LEFT JOIN ledger_postings p ON p.account_id = a.id
+     LEFT JOIN ledger_entries e ON e.id = p.entry_id
+     WHERE a.user_id = ? AND a.type IN ('customer_available', 'customer_held')
+     GROUP BY a.currency
+     ORDER BY a.currency`
+  ).bind(userId).all();
+
+  return (results as LedgerBalance[]).map(row => ({
+    currency: row.currency,
+    available: roundMoney(row.available),
+    pending: roundMoney(row.pending),
+    last_updated: row.last_updated,
+  }));
+}
@@ -0,0 +1,128 @@
+import type { Env } from "./env";
+import { findLimitBreach, type AccountLimits, type Currency, type LimitedPayment, type LimitUsage, type PaymentLimitCode } from "@/shared/types";
+import { BASE_CURRENCY } from "./fx";
+
+export class PaymentLimitError extends Error {
+  constructor(message: string, public readonly code: PaymentLimitCode) {
+    super(message);
+    this.name = 'PaymentLimitError';
+  }
+}
+
+type LimitRow = {
+  user_id: string | null;
+  currency: Currency | null;
+  per_transaction: number | null;
+  daily_limit: number | null;
+  monthly_limit: number | null;
+};
+
+type UsageRow = {
+  currency: string;
+  daily_amount: number;
+  monthly_amount: number;
+  daily_base_amount: number;
+  monthly_base_amount: number;
+};
+
+function toUsage(limit: number | null, used: number): LimitUsage {
+  const roundedUsed = Math.round(used * 100) / 100;
+  return {
+    limit,
+    used: roundedUsed,
+    remaining: limit === null ? null : Math.max(0, Math.round((limit - roundedUsed) * 100) / 100),
+  };
+}
+
+/**
+ * The customer's payment limits with what has been used today and this month (UTC). Customer rows in
+ * payment_limits replace the defaults for the same currency. Rejected, failed and cancelled payments do not count.
+ */
+export async function getAccountLimits(db: Env['DB'], userId: string, now = new Date()): Promise<AccountLimits> {
+  const today = now.toISOString().slice(0, 10);
+  const monthStart = `${today.slice(0, 7)}-01`;
+
+  const [{ results: limitRows }, { results: usageRows }] = await Promise.all([
+    db.prepare(
+      `SELECT user_id, currency, per_transaction, daily_limit, monthly_limit FROM payment_limits
+       WHERE user_id = ? OR user_id IS NULL
+       ORDER BY user_id IS NULL, currency IS NOT NULL, currency`
+    ).bind(userId).all(),
+    // Dates are compared as prefixes so both ISO timestamps and CURRENT_TIMESTAMP values match.
+    // Payments booked before quotes existed have no reference_amount and count at face value.
+    db.prepare(
+      `SELECT currency,
+         SUM(CASE WHEN created_at >= ? THEN amount ELSE 0 END) AS daily_amount,
+         SUM(amount) AS monthly_amount,
+         SUM(CASE WHEN created_at >= ? THEN COALESCE(reference_amount, amount) ELSE 0 END) AS daily_base_amount,
+         SUM(COALESCE(reference_amount, amount)) AS monthly_base_amount
+       FROM transactions
+       WHERE user_id = ? AND created_at >= ? AND status NOT IN ('Rejected', 'Failed', 'Cancelled')
+       GROUP BY currency`
+    ).bind(today, today, userId, monthStart).all(),
+  ]);
+
+  const rowsByCurrency = new Map<string, LimitRow>();
+  for (const row of limitRows as LimitRow[]) {
+    // Customer rows sort first, so a default only applies where the customer has no row of their own
+    if (!rowsByCurrency.has(row.currency ?? '')) {
+      rowsByCurrency.set(row.currency ?? '', row);
+    }
+  }
+
+  const usage = usageRows as UsageRow[];
+  const limits = [...rowsByCurrency.values()].map(row => {
+    const matching = row.currency ? usage.filter(u => u.currency === row.currency) : usage;
+    const daily = matching.reduce((sum, u) => sum + (row.currency ? u.daily_amount : u.daily_base_amount), 0);
+    const monthly = matching.reduce((sum, u) => sum + (row.currency ? u.monthly_amount : u.monthly_base_amount), 0);
+    return {
+      currency: row.currency,
+      per_transaction: row.per_transaction,
+      daily: toUsage(row.daily_limit, daily),
+      monthly: toUsage(row.monthly_limit, monthly),
+    };
+  });
+
+  const nextMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+  return {
+    base_currency: BASE_CURRENCY,
+    limits,
+    daily_reset_at: new Date(Date.parse(today) + 24 * 60 * 60 * 1000).toISOString(),
+    monthly_reset_at: nextMonth.toISOString(),
+  };
+}
+
+// Throws PaymentLimitError when the payments, booked together, would go over any of the customer's limits
+export async function enforcePaymentLimits(db: Env['DB'], userId: string, payments: LimitedPayment[]) {
+  const breach = findLimitBreach(await getAccountLimits(db, userId), payments);
+  if (breach) {
+    throw new PaymentLimitError(breach.message, breach.code);
+  }
+}
+
+/**
+ * SQL condition, with its parameters, that holds while one more payment stays within every one of the customer's
+ * limits, counting the payments booked so far the way getAccountLimits() does. buildPaymentStatements() only books a
+ * payment while it holds, so payments booked at the same time cannot go over a limit together.
+ */
+export function paymentLimitsCondition(userId: string, payment: Required<LimitedPayment>, now: string): [string, unknown[]] {
+  const today = now.slice(0, 10);
+  const monthStart = `${today.slice(0, 7)}-01`;
+  const measured = 'ROUND(CASE WHEN l.currency IS NULL THEN ? ELSE ? END * 100)';
+  const used = `(SELECT ROUND(COALESCE(SUM(CASE WHEN l.currency IS NULL THEN COALESCE(t.reference_amount, t.amount) ELSE t.amount END), 0) * 100)
+           FROM transactions t
+           WHERE t.user_id = ? AND t.created_at >= ? AND t.status NOT IN ('Rejected', 'Failed', 'Cancelled')
+             AND (l.currency IS NULL OR t.currency = l.currency))`;
+  const amounts = [payment.reference_amount, payment.amount];
+
+  return [
+    `NOT EXISTS (
+       SELECT 1 FROM payment_limits l
+       WHERE (l.user_id = ? OR (l.user_id IS NULL AND NOT EXISTS (SELECT 1 FROM payment_limits o WHERE o.user_id = ? AND o.currency IS l.currency)))
+         AND (l.currency IS NULL OR l.currency = ?)
+         AND (${measured} > ROUND(l.per_transaction * 100)
+           OR ${measured} > ROUND(l.daily_limit * 100) - ${used}
+           OR ${measured} > ROUND(l.monthly_limit * 100) - ${used}))`,
+    [userId, userId, payment.currency, ...amounts, ...amounts, userId, today, ...amounts, userId, monthStart],
+  ];
+}
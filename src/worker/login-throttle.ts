@@ -0,0 +1,156 @@
+import type { Env } from "./env";
+import { notificationStatement } from "./notifications";
+
+// Failed sign-ins are counted per attempted username and per IP address. After a few free attempts each
+// failure doubles the wait before the next attempt; enough failures on one username lock it for a while.
+// Counting by username rather than account means unknown usernames throttle exactly like real ones.
+
+type ThrottleScope = 'account' | 'ip';
+
+type ThrottlePolicy = {
+  freeFailures: number;
+  maxDelayMs: number;
+  lockout?: { after: number; durationMs: number };
+};
+
+const BASE_DELAY_MS = 1000;
+// Counters start again after this long without a failure
+const FAILURE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const ACCOUNT_LOCKOUT = { after: 10, durationMs: 30 * 60 * 1000 };
+
+const POLICIES: Record<ThrottleScope, ThrottlePolicy> = {
+  account: { freeFailures: 3, maxDelayMs: 5 * 60 * 1000, lockout: ACCOUNT_LOCKOUT },
+  // Higher, as several customers can share an office or mobile carrier address
+  ip: { freeFailures: 20, maxDelayMs: 15 * 60 * 1000 },
+};
+
+export const LOCKOUT_THRESHOLD = ACCOUNT_LOCKOUT.after;
+const LOCKOUT_DURATION_MINUTES = ACCOUNT_LOCKOUT.durationMs / 60000;
+
+export class LoginThrottledError extends Error {
+  constructor(message: string, public readonly retryAfterSeconds: number) {
+    super(message);
+    this.name = 'LoginThrottledError';
+  }
+}
+
+export type ThrottleKeys = {
+  role: 'customer' | 'employee';
+  account: string;
+  ip: string | null;
+};
+
+// Customers and employees sign in separately, so the same username is a different key for each
+export function loginThrottleKeys(role: 'customer' | 'employee', username: string, ipAddress: string | null): ThrottleKeys {
+  return { role, account: `${role}:${username}`, ip: ipAddress };
+}
+
+function scopedKeys(keys: ThrottleKeys): Array<[ThrottleScope, string]> {
+  return keys.ip ? [['account', keys.account], ['ip', keys.ip]] : [['account', keys.account]];
+}
+
+function delayAfter(policy: ThrottlePolicy, failures: number) {
+  if (policy.lockout && failures >= policy.lockout.after) {
+    return policy.lockout.durationMs;
+  }
+  if (failures <= policy.freeFailures) {
+    return 0;
+  }
+  return Math.min(BASE_DELAY_MS * 2 ** (failures - policy.freeFailures - 1), policy.maxDelayMs);
+}
+
+function formatWait(seconds: number) {
+  if (seconds < 60) {
+    return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  }
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
+
+/**
+ * Throws LoginThrottledError while the username or IP address has to wait before trying again. Call it
+ * before checking the password, so a throttled attempt is never checked and does not count as a failure.
+ */
+export async function checkLoginThrottle(db: Env['DB'], keys: ThrottleKeys) {
+  const now = Date.now();
+  for (const [scope, key] of scopedKeys(keys)) {
+    const row = await db.prepare(
+      'SELECT failures, blocked_until FROM login_throttles WHERE scope = ? AND key = ?'
+    ).bind(scope, key).first();
+    if (!row?.blocked_until) {
+      continue;
+    }
+    const waitMs = new Date(row.blocked_until).getTime() - now;
+    if (waitMs <= 0) {
+      continue;
+    }
+    const retryAfterSeconds = Math.ceil(waitMs / 1000);
+    const lockout = POLICIES[scope].lockout;
+    if (lockout && row.failures >= lockout.after) {
+      // Only customers can reset their own password; employees wait or ask an administrator
+      const unlock = keys.role === 'customer' ? ', or reset your password to unlock it now' : '';
+      throw new LoginThrottledError(
+        `Too many failed sign-in attempts. This account is locked for ${formatWait(retryAfterSeconds)}${unlock}.`,
+        retryAfterSeconds,
+      );
+    }
+    throw new LoginThrottledError(`Too many failed sign-in attempts. Try again in ${formatWait(retryAfterSeconds)}.`, retryAfterSeconds);
+  }
+}
+
+/**
+ * Counts a failed sign-in against the username and IP address. Returns true when this failure locked the
+ * username, so the account's owner can be told.
+ */
+export async function recordLoginFailure(db: Env['DB'], keys: ThrottleKeys) {
+  const now = Date.now();
+  let lockedOut = false;
+  for (const [scope, key] of scopedKeys(keys)) {
+    const policy = POLICIES[scope];
+    const row = await db.prepare(
+      `INSERT INTO login_throttles (scope, key, failures, last_failure_at) VALUES (?, ?, 1, ?)
+       ON CONFLICT (scope, key) DO UPDATE SET
+         failures = CASE WHEN last_failure_at > ? THEN failures + 1 ELSE 1 END,
+         last_failure_at = excluded.last_failure_at
+       RETURNING failures`
+    ).bind(scope, key, new Date(now).toISOString(), new Date(now - FAILURE_WINDOW_MS).toISOString()).first();
+
+    const delayMs = delayAfter(policy, row.failures);
+    await db.prepare('UPDATE login_throttles SET blocked_until = ? WHERE scope = ? AND key = ?')
+      .bind(delayMs > 0 ? new Date(now + delayMs).toISOString() : null, scope, key).run();
+    if (policy.lockout && row.failures === policy.lockout.after) {
+      lockedOut = true;
+    }
+  }
+  return lockedOut;
+}
+
+/**
+ * Tells the owner of a username that recordLoginFailure() just locked, with an in-app notification. Returns
+ * their email address and the message to email them, or null when no account has the username.
+ */
+export async function notifyAccountLocked(db: Env['DB'], keys: ThrottleKeys, username: string) {
+  const account = await db.prepare('SELECT id, email FROM users WHERE username = ? AND role = ?')
+    .bind(username, keys.role).first();
+  if (!account) {
+    return null;
+  }
+
+  const unlock = keys.role === 'customer' ? ', or straight away if you reset your password' : '';
+  const message = `Sign-in to your account was locked after ${LOCKOUT_THRESHOLD} failed attempts. It unlocks in `
+    + `${LOCKOUT_DURATION_MINUTES} minutes${unlock}. If this was not you, someone may be trying to guess your password.`;
+  await notificationStatement(db, account.id, {
+    title: 'Account Locked',
+    message,
+    category: 'security',
+    priority: 'urgent',
+  }).run();
+  return { email: account.email as string, message };
+}
+
+// Forgets the username's failures after a correct password or a password reset, which also lifts a lockout.
+// The IP address keeps its count: signing in to one account should not buy more guesses at others.
+export async function clearLoginFailures(db: Env['DB'], accountKey: string) {
+  await db.prepare("DELETE FROM login_throttles WHERE scope = 'account' AND key = ?").bind(accountKey).run();
+}
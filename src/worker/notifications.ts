@@ -0,0 +1,46 @@
+import type { Env } from "./env";
+import type { Notification, NotificationPriority } from "@/shared/types";
+
+type NewNotification = {
+  title: string;
+  message: string;
+  category: Notification['category'];
+  priority: NotificationPriority;
+};
+
+// Stores an in-app notification; returns the statement so callers can batch it with the change it reports
+export function notificationStatement(db: Env['DB'], userId: string, notification: NewNotification) {
+  return db.prepare(
+    `INSERT INTO notifications (id, user_id, type, title, message, category, priority, status, created_at)
+     VALUES (?, ?, 'in_app', ?, ?, ?, ?, 'unread', ?)`
+  ).bind(
+    crypto.randomUUID(),
+    userId,
+    notification.title,
+    notification.message,
+    notification.category,
+    notification.priority,
+    new Date().toISOString(),
+  );
+}
+
+export async function listNotifications(db: Env['DB'], userId: string): Promise<Notification[]> {
+  const { results } = await db.prepare(
+    `SELECT id, user_id, type, title, message, category, priority, status, created_at, read_at
+     FROM notifications WHERE user_id = ? ORDER BY created_at DESC LIMIT 100`
+  ).bind(userId).all();
+  return (results as Array<Notification & { read_at: string | null }>).map(({ read_at, ...row }) => (
+    read_at ? { ...row, read_at } : row
+  ));
+}
+
+export async function markNotificationRead(db: Env['DB'], userId: string, notificationId: string) {
+  await db.prepare(
+    "UPDATE notifications SET status = 'read', read_at = ? WHERE id = ? AND user_id = ? AND status = 'unread'"
+  ).bind(new Date().toISOString(), notificationId, userId).run();
+}
+
+export async function archiveNotification(db: Env['DB'], userId: string, notificationId: string) {
+  await db.prepare("UPDATE notifications SET status = 'archived' WHERE id = ? AND user_id = ?")
+    .bind(notificationId, userId).run();
+}
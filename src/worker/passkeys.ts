@@ -0,0 +1,165 @@
+import type { Env } from "./env";
+import type { Passkey, PasskeyAssertion, PasskeyCreationOptions, PasskeyRegistration, PasskeyRequestOptions } from "@/shared/types";
+import {
+  PasskeyError,
+  SUPPORTED_ALGORITHMS,
+  generateChallenge,
+  parseClientData,
+  userHandleFor,
+  verifyAssertion,
+  verifyRegistration,
+  type RelyingParty,
+  type StoredPasskey,
+} from "./webauthn";
+
+// A ceremony must be completed this long after its options were issued
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const MAX_PASSKEYS_PER_USER = 10;
+
+type ChallengeType = 'registration' | 'authentication';
+
+type PasskeyRow = {
+  id: string;
+  name: string;
+  backed_up: number;
+  created_at: string;
+  last_used_at: string | null;
+};
+
+function toPasskey(row: PasskeyRow): Passkey {
+  return { id: row.id, name: row.name, backed_up: row.backed_up === 1, created_at: row.created_at, last_used_at: row.last_used_at };
+}
+
+// Stores a challenge for one ceremony, clearing out ones that were never used
+async function storeChallenge(db: Env['DB'], type: ChallengeType, userId: string | null) {
+  const challenge = generateChallenge();
+  const now = new Date();
+  await db.batch([
+    db.prepare('DELETE FROM webauthn_challenges WHERE expires_at <= ?').bind(now.toISOString()),
+    db.prepare(
+      'INSERT INTO webauthn_challenges (challenge, user_id, type, created_at, expires_at) VALUES (?, ?, ?, ?, ?)'
+    ).bind(challenge, userId, type, now.toISOString(), new Date(now.getTime() + CHALLENGE_TTL_MS).toISOString()),
+  ]);
+  return challenge;
+}
+
+// Challenges are single use: taking one deletes it, so a signed response cannot be replayed
+async function consumeChallenge(db: Env['DB'], challenge: string, type: ChallengeType) {
+  return db.prepare(
+    'DELETE FROM webauthn_challenges WHERE challenge = ? AND type = ? AND expires_at > ? RETURNING user_id'
+  ).bind(challenge, type, new Date().toISOString()).first();
+}
+
+function parseTransports(value: string | null): string[] | undefined {
+  return value ? JSON.parse(value) : undefined;
+}
+
+export async function listPasskeys(db: Env['DB'], userId: string): Promise<Passkey[]> {
+  const { results } = await db.prepare(
+    'SELECT id, name, backed_up, created_at, last_used_at FROM passkeys WHERE user_id = ? ORDER BY created_at'
+  ).bind(userId).all();
+  return (results as PasskeyRow[]).map(toPasskey);
+}
+
+export async function deletePasskey(db: Env['DB'], userId: string, passkeyId: string) {
+  const { meta } = await db.prepare('DELETE FROM passkeys WHERE id = ? AND user_id = ?').bind(passkeyId, userId).run();
+  return meta.changes === 1;
+}
+
+// Options for creating a passkey on the customer's device. Passkeys they already have are excluded so
+// the same authenticator is not registered twice.
+export async function createRegistrationOptions(
+  db: Env['DB'],
+  user: { id: string; username: string | null; email: string; given_name: string | null },
+  rp: RelyingParty,
+): Promise<PasskeyCreationOptions> {
+  const { results } = await db.prepare('SELECT id, transports FROM passkeys WHERE user_id = ?').bind(user.id).all();
+  if (results.length >= MAX_PASSKEYS_PER_USER) {
+    throw new PasskeyError(`You can have at most ${MAX_PASSKEYS_PER_USER} passkeys. Remove one to add another.`, 400);
+  }
+
+  return {
+    challenge: await storeChallenge(db, 'registration', user.id),
+    rp: { id: rp.id, name: rp.name },
+    user: { id: userHandleFor(user.id), name: user.username ?? user.email, displayName: user.given_name ?? user.username ?? user.email },
+    pubKeyCredParams: SUPPORTED_ALGORITHMS.map(alg => ({ type: 'public-key' as const, alg })),
+    timeout: CHALLENGE_TTL_MS,
+    attestation: 'none',
+    authenticatorSelection: { residentKey: 'required', requireResidentKey: true, userVerification: 'required' },
+    excludeCredentials: (results as Array<{ id: string; transports: string | null }>).map(row => ({
+      id: row.id,
+      type: 'public-key' as const,
+      transports: parseTransports(row.transports),
+    })),
+  };
+}
+
+export async function registerPasskey(db: Env['DB'], userId: string, { name, credential }: PasskeyRegistration, rp: RelyingParty): Promise<Passkey> {
+  const failure = new PasskeyError('The passkey could not be registered. Please try again.', 400);
+  const { challenge } = parseClientData(credential.response.clientDataJSON, 'webauthn.create', rp, failure);
+  const issued = await consumeChallenge(db, challenge, 'registration');
+  if (!issued || issued.user_id !== userId) {
+    throw failure;
+  }
+
+  const verified = await verifyRegistration(credential.response, credential.id, challenge, rp);
+  const row: PasskeyRow = { id: verified.credentialId, name, backed_up: verified.backedUp ? 1 : 0, created_at: new Date().toISOString(), last_used_at: null };
+  const { meta } = await db.prepare(
+    `INSERT INTO passkeys (id, user_id, name, public_key, algorithm, sign_count, transports, backed_up, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT (id) DO NOTHING`
+  ).bind(
+    row.id,
+    userId,
+    name,
+    verified.publicKey,
+    verified.algorithm,
+    verified.signCount,
+    credential.response.transports ? JSON.stringify(credential.response.transports) : null,
+    row.backed_up,
+    row.created_at,
+  ).run();
+  if (meta.changes === 0) {
+    throw new PasskeyError('This passkey is already registered', 400);
+  }
+  return toPasskey(row);
+}
+
+// Options for signing in with a passkey. No credentials are listed: the customer picks one of the passkeys
+// saved on their device, and the passkey says which account it belongs to.
+export async function createAuthenticationOptions(db: Env['DB'], rp: RelyingParty): Promise<PasskeyRequestOptions> {
+  return {
+    challenge: await storeChallenge(db, 'authentication', null),
+    rpId: rp.id,
+    timeout: CHALLENGE_TTL_MS,
+    userVerification: 'required',
+    allowCredentials: [],
+  };
+}
+
+/**
+ * Verifies a passkey sign-in and returns the customer's user ID. Only customer accounts can sign in with a
+ * passkey. Throws PasskeyError (401) if the assertion does not check out.
+ */
+export async function authenticateWithPasskey(db: Env['DB'], assertion: PasskeyAssertion, rp: RelyingParty) {
+  const failure = new PasskeyError('Passkey sign-in failed', 401);
+  const { challenge } = parseClientData(assertion.response.clientDataJSON, 'webauthn.get', rp, failure);
+  if (!(await consumeChallenge(db, challenge, 'authentication'))) {
+    throw failure;
+  }
+
+  const passkey: (StoredPasskey & { user_id: string }) | null = await db.prepare(
+    `SELECT p.user_id, p.public_key, p.algorithm, p.sign_count
+     FROM passkeys p JOIN users u ON u.id = p.user_id
+     WHERE p.id = ? AND u.role = 'customer'`
+  ).bind(assertion.id).first();
+  if (!passkey || (assertion.response.userHandle && assertion.response.userHandle !== userHandleFor(passkey.user_id))) {
+    throw failure;
+  }
+
+  const { signCount } = await verifyAssertion(assertion.response, passkey, rp);
+  await db.prepare('UPDATE passkeys SET sign_count = ?, last_used_at = ? WHERE id = ?')
+    .bind(signCount, new Date().toISOString(), assertion.id).run();
+
+  return passkey.user_id;
+}
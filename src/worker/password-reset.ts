@@ -0,0 +1,68 @@
+import type { Env } from "./env";
+import { sha256Hex, toBase64Url } from "./encoding";
+import { clearLoginFailures, loginThrottleKeys } from "./login-throttle";
+import { notificationStatement } from "./notifications";
+import { hashPassword } from "./password";
+
+// A reset link works once, within this long of being requested
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * Creates a single-use reset token for a customer and returns it, replacing any earlier link that was not
+ * used. Only the token's SHA-256 digest is stored; the token itself goes out in the reset email.
+ */
+export async function createPasswordReset(db: Env['DB'], userId: string) {
+  const token = toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + PASSWORD_RESET_TTL_MS).toISOString();
+  await db.batch([
+    db.prepare('DELETE FROM password_resets WHERE user_id = ? AND used_at IS NULL').bind(userId),
+    db.prepare(
+      'INSERT INTO password_resets (id, user_id, token_hash, created_at, expires_at) VALUES (?, ?, ?, ?, ?)'
+    ).bind(
+      crypto.randomUUID(),
+      userId,
+      await sha256Hex(token),
+      now.toISOString(),
+      expiresAt,
+    ),
+  ]);
+  return { token, expiresAt };
+}
+
+/**
+ * Sets a new password with a reset token. Every session is signed out, and failed sign-ins are forgotten so
+ * a locked account is unlocked. Returns false if the token is unknown, used or expired.
+ */
+export async function resetPassword(db: Env['DB'], pepper: string, token: string, password: string) {
+  const now = new Date().toISOString();
+  const reset = await db.prepare(
+    `UPDATE password_resets SET used_at = ?
+     WHERE token_hash = ? AND used_at IS NULL AND expires_at > ?
+     RETURNING user_id`
+  ).bind(now, await sha256Hex(token), now).first();
+  if (!reset) {
+    return false;
+  }
+
+  const user = await db.prepare("SELECT id, username FROM users WHERE id = ? AND role = 'customer'").bind(reset.user_id).first();
+  if (!user) {
+    return false;
+  }
+
+  await db.batch([
+    db.prepare('UPDATE users SET password_hash = ?, updated_at = ? WHERE id = ?')
+      .bind(await hashPassword(password, pepper), now, user.id),
+    db.prepare('DELETE FROM sessions WHERE user_id = ?').bind(user.id),
+    notificationStatement(db, user.id, {
+      title: 'Password Changed',
+      message: 'Your password was reset and all devices were signed out. If this was not you, contact support immediately.',
+      category: 'security',
+      priority: 'high',
+    }),
+  ]);
+  if (user.username) {
+    await clearLoginFailures(db, loginThrottleKeys('customer', user.username, null).account);
+  }
+  return true;
+}
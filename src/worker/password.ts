@@ -0,0 +1,47 @@
+// Password hashing with PBKDF2-SHA256 from WebCrypto.
+// The password is first keyed with a server-side pepper (HMAC-SHA256) so a leaked
+// database alone is not enough to mount an offline guessing attack.
+
+import { fromBase64, timingSafeEqual, toBase64 } from "./encoding";
+
+const ALGORITHM_ID = 'pbkdf2-sha256';
+// Workers caps PBKDF2 at 100k iterations
+const PBKDF2_ITERATIONS = 100_000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+
+const encoder = new TextEncoder();
+
+async function applyPepper(password: string, pepper: string) {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(pepper), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return crypto.subtle.sign('HMAC', key, encoder.encode(password));
+}
+
+async function deriveHash(password: string, pepper: string, salt: Uint8Array, iterations: number) {
+  const peppered = await applyPepper(password, pepper);
+  const key = await crypto.subtle.importKey('raw', peppered, 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, HASH_BITS);
+  return new Uint8Array(bits);
+}
+
+// Stored as `pbkdf2-sha256$<iterations>$<salt>$<hash>` so parameters can be raised later
+// without invalidating existing hashes
+export async function hashPassword(password: string, pepper: string) {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await deriveHash(password, pepper, salt, PBKDF2_ITERATIONS);
+  return [ALGORITHM_ID, PBKDF2_ITERATIONS, toBase64(salt), toBase64(hash)].join('$');
+}
+
+export async function verifyPassword(password: string, pepper: string, stored: string) {
+  const [algorithm, iterations, salt, hash] = stored.split('$');
+  if (algorithm !== ALGORITHM_ID || !iterations || !salt || !hash) {
+    return false;
+  }
+  const candidate = await deriveHash(password, pepper, fromBase64(salt), Number(iterations));
+  return timingSafeEqual(candidate, fromBase64(hash));
+}
+
+// Used when no account matches so that response timing does not reveal whether it exists
+export async function simulatePasswordCheck(password: string, pepper: string) {
+  await deriveHash(password, pepper, new Uint8Array(SALT_BYTES), PBKDF2_ITERATIONS);
+}
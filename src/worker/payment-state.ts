@@ -0,0 +1,121 @@
+import type { Env } from "./env";
+import type { UserRole } from "./session";
+import { buildPaymentLedgerStatements, type LedgerEntryKind } from "./ledger";
+
+export type PaymentStatus = 'Pending' | 'Verified' | 'RecallRequested' | 'Sent' | 'Failed' | 'Rejected' | 'Cancelled';
+
+export type TransitionActor = {
+  id: string | null;
+  role: UserRole | 'system';
+};
+
+// Every legal status change; anything not listed here is refused
+export const PAYMENT_TRANSITIONS: Record<PaymentStatus, readonly PaymentStatus[]> = {
+  Pending: ['Verified', 'Rejected', 'Failed', 'Cancelled'],
+  Verified: ['Sent', 'Rejected', 'Failed', 'RecallRequested'],
+  // The customer asked for a verified payment back: staff accept (Cancelled) or decline (back to Verified)
+  RecallRequested: ['Cancelled', 'Verified', 'Rejected', 'Failed'],
+  // SWIFT can still return a payment after submission
+  Sent: ['Failed'],
+  Failed: [],
+  Rejected: [],
+  Cancelled: [],
+};
+
+// Every status, for validating filters; taken from the transition table so new statuses are included
+export const PAYMENT_STATUSES = Object.keys(PAYMENT_TRANSITIONS) as [PaymentStatus, ...PaymentStatus[]];
+
+// Payments in these statuses have not left the account yet, so their total debit is held
+export const HELD_PAYMENT_STATUSES: readonly PaymentStatus[] = ['Pending', 'Verified', 'RecallRequested'];
+
+// What a customer's cancel request does: an unverified payment is cancelled outright, a verified one
+// is held back from SWIFT until staff act on the recall. Payments in other statuses cannot be stopped.
+export const CUSTOMER_CANCELLATIONS: Partial<Record<PaymentStatus, { to: PaymentStatus; reason: string }>> = {
+  Pending: { to: 'Cancelled', reason: 'Cancelled by customer' },
+  Verified: { to: 'RecallRequested', reason: 'Recall requested by customer' },
+};
+
+export class IllegalTransitionError extends Error {
+  constructor(public readonly from: PaymentStatus, public readonly to: PaymentStatus) {
+    super(`Cannot move payment from ${from} to ${to}`);
+    this.name = 'IllegalTransitionError';
+  }
+}
+
+export function canTransition(from: PaymentStatus, to: PaymentStatus) {
+  return PAYMENT_TRANSITIONS[from].includes(to);
+}
+
+export function assertTransition(from: PaymentStatus, to: PaymentStatus) {
+  if (!canTransition(from, to)) {
+    throw new IllegalTransitionError(from, to);
+  }
+}
+
+type TransitionRequest = {
+  transactionId: string;
+  from: PaymentStatus;
+  to: PaymentStatus;
+  actor: TransitionActor;
+  reason?: string;
+};
+
+// The ledger movement a transition posts, if any: leaving a held status releases or settles the
+// hold, and a payment SWIFT returns after it was sent is refunded
+function ledgerMovement(from: PaymentStatus, to: PaymentStatus): Exclude<LedgerEntryKind, 'deposit' | 'conversion'> | null {
+  if (to === 'Sent') return 'settlement';
+  if (from === 'Sent' && to === 'Failed') return 'reversal';
+  if (HELD_PAYMENT_STATUSES.includes(from) && !HELD_PAYMENT_STATUSES.includes(to)) return 'release';
+  return null;
+}
+
+// Returns the UPDATE, event INSERT and ledger postings for one transition, UPDATE first. They must run in
+// the same db.batch(): the event and postings are only recorded when the guarded UPDATE changed the row.
+export function buildTransitionStatements(db: Env['DB'], { transactionId, from, to, actor, reason }: TransitionRequest, now: string) {
+  assertTransition(from, to);
+
+  // A declined recall returns the payment to Verified; it keeps its original verifier
+  const verifying = to === 'Verified' && from === 'Pending';
+  const timestampColumn = verifying ? ', verified_by = ?, verified_at = ?' : to === 'Sent' ? ', sent_at = ?' : '';
+  const timestampParams = verifying ? [actor.id, now] : to === 'Sent' ? [now] : [];
+  const movement = ledgerMovement(from, to);
+
+  return [
+    db.prepare(
+      `UPDATE transactions SET status = ?, updated_at = ?${timestampColumn}
+       WHERE transaction_id = ? AND status = ?
+       RETURNING *`
+    ).bind(to, now, ...timestampParams, transactionId, from),
+    db.prepare(
+      `INSERT INTO transaction_events (transaction_id, from_status, to_status, actor_id, actor_role, reason, created_at)
+       SELECT ?, ?, ?, ?, ?, ?, ? WHERE changes() = 1`
+    ).bind(transactionId, from, to, actor.id, actor.role, reason ?? null, now),
+    ...(movement ? buildPaymentLedgerStatements(db, transactionId, movement, now) : []),
+  ];
+}
+
+export function buildCreationEventStatement(db: Env['DB'], transactionId: string, actor: TransitionActor, now: string, reason = 'Payment created') {
+  return db.prepare(
+    `INSERT INTO transaction_events (transaction_id, from_status, to_status, actor_id, actor_role, reason, created_at)
+     VALUES (?, NULL, 'Pending', ?, ?, ?, ?)`
+  ).bind(transactionId, actor.id, actor.role, reason, now);
+}
+
+// Moves a single payment to `to`, returning the updated row, or null when the payment was not in
+// an eligible state (it does not exist, or a concurrent change got there first)
+export async function transitionPayment(db: Env['DB'], transactionId: string, to: PaymentStatus, actor: TransitionActor, reason?: string) {
+  const current = await db.prepare('SELECT status FROM transactions WHERE transaction_id = ?').bind(transactionId).first();
+  if (!current) {
+    return null;
+  }
+
+  return transitionPaymentFrom(db, transactionId, current.status, to, actor, reason);
+}
+
+// Moves a payment from `from` to `to`, returning the updated row, or null when it is not currently in `from`
+export async function transitionPaymentFrom(db: Env['DB'], transactionId: string, from: PaymentStatus, to: PaymentStatus, actor: TransitionActor, reason?: string) {
+  const now = new Date().toISOString();
+  const [update] = await db.batch(buildTransitionStatements(db, { transactionId, from, to, actor, reason }, now));
+
+  return update.results[0] ?? null;
+}
@@ -0,0 +1,113 @@
+import type { Env } from "./env";
+import type { FxQuote } from "@/shared/types";
+import { buildQuoteRedemptionStatement } from "./fx";
+import { buildPaymentLedgerStatements, customerAccountId } from "./ledger";
+import { enforcePaymentLimits, paymentLimitsCondition } from "./limits";
+import { buildCreationEventStatement, type TransitionActor } from "./payment-state";
+
+export type NewPayment = {
+  userId: string;
+  amount: number;
+  currency: string;
+  recipient_account: string;
+  swift_code: string;
+  reference?: string | null;
+  // Set for payments booked together from a bulk upload
+  batchId?: string | null;
+};
+
+export class InsufficientFundsError extends Error {
+  // `unfundedCurrency` is set when the wallet has never been credited, as for customers who registered
+  // after the ledger was introduced: they start at zero until a deposit is recorded
+  constructor(unfundedCurrency?: string) {
+    super(unfundedCurrency
+      ? `Insufficient funds: your ${unfundedCurrency} account has not been funded yet. Please contact the bank to make a deposit before sending payments.`
+      : 'Insufficient funds');
+    this.name = 'InsufficientFundsError';
+  }
+}
+
+export function generateTransactionId() {
+  return `TXN${Date.now()}${Math.random().toString(36).substr(2, 6).toUpperCase()}`;
+}
+
+export function generateBatchId() {
+  return `BATCH${Date.now()}${Math.random().toString(36).substr(2, 6).toUpperCase()}`;
+}
+
+// Statements that book a Pending payment at a quoted rate and fee. Run them with runPaymentBatch(), together
+// with anything else that must commit atomically with the payment; the first returns the new row.
+export function buildPaymentStatements(db: Env['DB'], transactionId: string, payment: NewPayment, quote: FxQuote, actor: TransitionActor, now: string, reason?: string) {
+  const [withinLimits, limitParams] = paymentLimitsCondition(payment.userId, quote, now);
+
+  return [
+    // The hold must not overdraw the wallet the payment is paid from, and the payment must stay within the
+    // customer's limits. If either fails, the transaction ID or the amount is NULL, so the insert fails its
+    // NOT NULL constraint and the whole batch rolls back.
+    db.prepare(
+      `INSERT INTO transactions (user_id, transaction_id, amount, currency, recipient_account, swift_code, status, reference,
+         fx_quote_id, fx_rate, base_currency, base_amount, reference_amount, fee, total_debit, batch_id, created_at, updated_at)
+       VALUES (?, CASE WHEN (SELECT ROUND(COALESCE(SUM(amount), 0) * 100) FROM ledger_postings WHERE account_id = ?) >= ? THEN ? END,
+         CASE WHEN ${withinLimits} THEN ? END, ?, ?, ?, 'Pending', ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       RETURNING *`
+    ).bind(
+      payment.userId,
+      customerAccountId('customer_available', quote.base_currency, payment.userId),
+      Math.round(quote.total_debit * 100),
+      transactionId,
+      ...limitParams,
+      payment.amount,
+      payment.currency,
+      payment.recipient_account,
+      payment.swift_code,
+      payment.reference ?? null,
+      quote.quote_id,
+      quote.rate,
+      quote.base_currency,
+      quote.base_amount,
+      quote.reference_amount,
+      quote.fee,
+      quote.total_debit,
+      payment.batchId ?? null,
+      now,
+      now,
+    ),
+    buildCreationEventStatement(db, transactionId, actor, now, reason),
+    // Holds the total debit until the payment is sent or stopped
+    ...buildPaymentLedgerStatements(db, transactionId, 'hold', now),
+    buildQuoteRedemptionStatement(db, quote.quote_id, transactionId),
+  ];
+}
+
+// The first currency the payments are paid from whose wallet has never had a posting
+async function findUnfundedWallet(db: Env['DB'], userId: string, quotes: FxQuote[]) {
+  for (const currency of new Set(quotes.map(quote => quote.base_currency))) {
+    const posting = await db.prepare('SELECT 1 FROM ledger_postings WHERE account_id = ? LIMIT 1')
+      .bind(customerAccountId('customer_available', currency, userId)).first();
+    if (!posting) {
+      return currency;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Runs a db.batch() that books the quoted payments with buildPaymentStatements(), with nothing committed if it
+ * throws. Throws InsufficientFundsError when a payment's total debit is more than its wallet has available, and
+ * PaymentLimitError when the payments would go over one of the customer's limits.
+ */
+export async function runPaymentBatch(db: Env['DB'], userId: string, quotes: FxQuote[], statements: unknown[]) {
+  try {
+    return await db.batch(statements);
+  } catch (err) {
+    if (String(err).includes('NOT NULL constraint failed: transactions.transaction_id')) {
+      throw new InsufficientFundsError(await findUnfundedWallet(db, userId, quotes));
+    }
+    if (String(err).includes('NOT NULL constraint failed: transactions.amount')) {
+      // The limits were checked before booking, so payments committed since have used them up. Checking
+      // again counts those and says which limit is exceeded.
+      await enforcePaymentLimits(db, userId, quotes);
+    }
+    throw err;
+  }
+}
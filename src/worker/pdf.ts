@@ -0,0 +1,109 @@
+// Minimal PDF writer for documents generated in the worker (receipts, statements). It only supports
+// what those need: A4 pages of text in the standard PDF fonts, filled rectangles and lines.
+
+export const PDF_PAGE_WIDTH = 595;
+export const PDF_PAGE_HEIGHT = 842;
+
+export type PdfFont = 'regular' | 'bold' | 'mono';
+
+// RGB components from 0 to 1
+export type PdfColor = [number, number, number];
+
+// SecurePay document colours
+export const BRAND_BLUE: PdfColor = [0.15, 0.39, 0.92];
+export const TEXT_MUTED: PdfColor = [0.39, 0.45, 0.55];
+export const RULE_COLOR: PdfColor = [0.89, 0.91, 0.94];
+
+// Positions are in points from the top-left corner of the page; text is placed by its baseline
+export type PdfOperation =
+  | { type: 'text'; x: number; y: number; text: string; size?: number; font?: PdfFont; color?: PdfColor }
+  | { type: 'rect'; x: number; y: number; width: number; height: number; color: PdfColor }
+  | { type: 'line'; x1: number; y1: number; x2: number; y2: number; width?: number; color?: PdfColor };
+
+const FONT_RESOURCES: Record<PdfFont, { name: string; baseFont: string }> = {
+  regular: { name: 'F1', baseFont: 'Helvetica' },
+  bold: { name: 'F2', baseFont: 'Helvetica-Bold' },
+  mono: { name: 'F3', baseFont: 'Courier' },
+};
+
+// Characters outside Latin-1 that WinAnsiEncoding still has a code for
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99,
+};
+
+// Standard fonts only cover WinAnsiEncoding; anything else is printed as '?'
+function encodeText(text: string) {
+  let encoded = '';
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    const byte = WIN_ANSI_EXTRAS[char] ?? (code < 0x20 || (code > 0x7e && code < 0xa0) || code > 0xff ? 0x3f : code);
+    encoded += byte === 0x28 || byte === 0x29 || byte === 0x5c ? `\\${String.fromCharCode(byte)}` : String.fromCharCode(byte);
+  }
+  return encoded;
+}
+
+function formatNumber(value: number) {
+  return Number(value.toFixed(2)).toString();
+}
+
+function formatColor([r, g, b]: PdfColor) {
+  return `${formatNumber(r)} ${formatNumber(g)} ${formatNumber(b)}`;
+}
+
+function renderOperation(operation: PdfOperation) {
+  switch (operation.type) {
+    case 'text': {
+      const font = FONT_RESOURCES[operation.font ?? 'regular'];
+      return `BT /${font.name} ${formatNumber(operation.size ?? 10)} Tf ${formatColor(operation.color ?? [0, 0, 0])} rg ` +
+        `${formatNumber(operation.x)} ${formatNumber(PDF_PAGE_HEIGHT - operation.y)} Td (${encodeText(operation.text)}) Tj ET`;
+    }
+    case 'rect':
+      return `${formatColor(operation.color)} rg ${formatNumber(operation.x)} ${formatNumber(PDF_PAGE_HEIGHT - operation.y - operation.height)} ` +
+        `${formatNumber(operation.width)} ${formatNumber(operation.height)} re f`;
+    case 'line':
+      return `${formatColor(operation.color ?? [0, 0, 0])} RG ${formatNumber(operation.width ?? 1)} w ` +
+        `${formatNumber(operation.x1)} ${formatNumber(PDF_PAGE_HEIGHT - operation.y1)} m ${formatNumber(operation.x2)} ${formatNumber(PDF_PAGE_HEIGHT - operation.y2)} l S`;
+  }
+}
+
+// Renders one PDF with a page per entry of `pages`
+export function renderPdf(pages: PdfOperation[][], { title }: { title: string }): Uint8Array {
+  const objects: string[] = [];
+  // Objects are numbered from 1 in the order they are added
+  const addObject = (body: string) => objects.push(body);
+
+  const fonts = Object.values(FONT_RESOURCES);
+  const firstPageObject = 4 + fonts.length;
+  const pageObjects = pages.map((_, index) => firstPageObject + index * 2);
+
+  addObject('<< /Type /Catalog /Pages 2 0 R >>');
+  addObject(`<< /Type /Pages /Kids [${pageObjects.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  addObject(`<< /Title (${encodeText(title)}) /Producer (SecurePay) /CreationDate (D:${new Date().toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z) >>`);
+  for (const font of fonts) {
+    addObject(`<< /Type /Font /Subtype /Type1 /BaseFont /${font.baseFont} /Encoding /WinAnsiEncoding >>`);
+  }
+  const fontDictionary = fonts.map((font, index) => `/${font.name} ${4 + index} 0 R`).join(' ');
+
+  pages.forEach((operations, index) => {
+    const content = operations.map(renderOperation).join('\n');
+    addObject(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] ` +
+      `/Resources << /Font << ${fontDictionary} >> >> /Contents ${pageObjects[index] + 1} 0 R >>`
+    );
+    addObject(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+  });
+
+  // Every character is a single byte, so string offsets are byte offsets
+  let output = '%PDF-1.4\n';
+  const offsets = objects.map((body, index) => {
+    const offset = output.length;
+    output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Uint8Array.from(output, char => char.charCodeAt(0));
+}
@@ -0,0 +1,80 @@
+import type { Env } from "./env";
+import { sessionClientFor } from "./session";
+
+// Token buckets in D1, so a limit holds across isolates. Each bucket holds up to `capacity` requests and
+// refills continuously at `perMinute`; a request takes one token or is turned away with 429.
+
+type RateLimitPolicy = {
+  capacity: number;
+  perMinute: number;
+};
+
+export const RATE_LIMITS = {
+  // Every API request, per IP address
+  global: { capacity: 300, perMinute: 300 },
+  // Sign-in, registration, password resets and 2FA codes
+  auth: { capacity: 10, perMinute: 10 },
+  // Creating payments, batches, FX quotes, conversions and schedules
+  payments: { capacity: 20, perMinute: 10 },
+  chat: { capacity: 20, perMinute: 20 },
+  faqVotes: { capacity: 5, perMinute: 5 },
+} satisfies Record<string, RateLimitPolicy>;
+
+export type RateLimitGroup = keyof typeof RATE_LIMITS;
+
+// Buckets untouched this long are full again, so they can be deleted
+const STALE_BUCKET_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Takes a token from the bucket. Returns 0 if the request may go ahead, otherwise the number of seconds
+ * until a token is available.
+ */
+export async function takeToken(db: Env['DB'], key: string, policy: RateLimitPolicy) {
+  const now = Date.now();
+  const perMs = policy.perMinute / 60000;
+  // Refills for the time since the last request, then takes a token if there is one. Without a token the
+  // conflict update is skipped and nothing is returned.
+  const taken = await db.prepare(
+    `INSERT INTO rate_limit_buckets (key, tokens, updated_at) VALUES (?, ?, ?)
+     ON CONFLICT (key) DO UPDATE SET
+       tokens = MIN(?, tokens + MAX(0, excluded.updated_at - updated_at) * ?) - 1,
+       updated_at = excluded.updated_at
+     WHERE MIN(?, tokens + MAX(0, excluded.updated_at - updated_at) * ?) >= 1
+     RETURNING tokens`
+  ).bind(key, policy.capacity - 1, now, policy.capacity, perMs, policy.capacity, perMs).first();
+  if (taken) {
+    return 0;
+  }
+
+  const bucket = await db.prepare('SELECT tokens, updated_at FROM rate_limit_buckets WHERE key = ?').bind(key).first();
+  const available = Math.min(policy.capacity, bucket.tokens + Math.max(0, now - bucket.updated_at) * perMs);
+  return Math.max(1, Math.ceil((1 - available) / perMs / 1000));
+}
+
+// Requests with no session and no client IP, such as ones that did not come through Cloudflare, share one bucket
+const UNKNOWN_CLIENT = 'ip:unknown';
+
+/**
+ * Middleware limiting a group of routes. After authMiddleware it limits each session; otherwise each IP
+ * address, with requests from an unknown address counted together.
+ */
+export function rateLimit(group: RateLimitGroup) {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return async (c: any, next: any) => {
+    const session = c.get('session');
+    const ipAddress = sessionClientFor(c).ipAddress;
+    const subject = session ? `session:${session.id}` : ipAddress ? `ip:${ipAddress}` : UNKNOWN_CLIENT;
+    const retryAfterSeconds = await takeToken(c.env.DB, `${group}:${subject}`, RATE_LIMITS[group]);
+    if (retryAfterSeconds > 0) {
+      c.header('Retry-After', String(retryAfterSeconds));
+      return c.json({ error: `Too many requests. Please try again in ${retryAfterSeconds} second${retryAfterSeconds === 1 ? '' : 's'}.` }, 429);
+    }
+
+    await next();
+  };
+}
+
+// Run from the cron trigger
+export async function pruneRateLimitBuckets(db: Env['DB']) {
+  await db.prepare('DELETE FROM rate_limit_buckets WHERE updated_at < ?').bind(Date.now() - STALE_BUCKET_MS).run();
+}
@@ -0,0 +1,99 @@
+import type { BankDirectoryEntry, Transaction } from "@/shared/types";
+import { PAYMENT_STATUS_LABELS } from "@/shared/types";
+import { BRAND_BLUE, PDF_PAGE_WIDTH, RULE_COLOR, TEXT_MUTED, renderPdf, type PdfOperation } from "./pdf";
+
+export type ReceiptData = {
+  transaction: Transaction;
+  payer: { name: string; account_number: string | null };
+  bank: BankDirectoryEntry | null;
+  generatedAt: Date;
+};
+
+const MARGIN = 50;
+const VALUE_X = 220;
+
+// Receipts only show the last four characters of an account number
+export function maskAccount(account: string) {
+  const compact = account.replace(/\s+/g, '');
+  return compact.length <= 4 ? compact : `****${compact.slice(-4)}`;
+}
+
+function formatMoney(amount: number, currency: string) {
+  return `${currency} ${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+// Rows written with CURRENT_TIMESTAMP have no zone; they are UTC
+export function parseStoredTimestamp(value: string) {
+  return new Date(/[zZ]|[+-]\d\d:?\d\d$/.test(value) ? value : `${value.replace(' ', 'T')}Z`);
+}
+
+function formatTimestamp(value: string | null | undefined) {
+  if (!value) return '-';
+  const date = parseStoredTimestamp(value);
+  return isNaN(date.getTime()) ? value : `${date.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+}
+
+// A branded one-page receipt for a payment
+export function renderReceiptPdf({ transaction, payer, bank, generatedAt }: ReceiptData): Uint8Array {
+  const operations: PdfOperation[] = [
+    { type: 'rect', x: 0, y: 0, width: PDF_PAGE_WIDTH, height: 90, color: BRAND_BLUE },
+    { type: 'text', x: MARGIN, y: 48, text: 'SecurePay', size: 24, font: 'bold', color: [1, 1, 1] },
+    { type: 'text', x: MARGIN, y: 70, text: 'International Payment Receipt', size: 12, color: [1, 1, 1] },
+  ];
+  let y = 130;
+
+  const section = (title: string, rows: Array<[string, string, boolean?]>) => {
+    operations.push(
+      { type: 'text', x: MARGIN, y, text: title, size: 12, font: 'bold', color: BRAND_BLUE },
+      { type: 'line', x1: MARGIN, y1: y + 6, x2: PDF_PAGE_WIDTH - MARGIN, y2: y + 6, color: RULE_COLOR },
+    );
+    y += 24;
+    for (const [label, value, mono] of rows) {
+      operations.push(
+        { type: 'text', x: MARGIN, y, text: label, color: TEXT_MUTED },
+        { type: 'text', x: VALUE_X, y, text: value, font: mono ? 'mono' : 'regular' },
+      );
+      y += 16;
+    }
+    y += 14;
+  };
+
+  const baseCurrency = transaction.base_currency ?? transaction.currency;
+
+  section('Payment', [
+    ['Transaction ID', transaction.transaction_id, true],
+    ['Status', PAYMENT_STATUS_LABELS[transaction.status] ?? transaction.status],
+    ['Reference', transaction.reference || '-'],
+    ...(transaction.batch_id ? [['Bulk payment batch', transaction.batch_id, true] as [string, string, boolean]] : []),
+  ]);
+  section('Payer', [
+    ['Name', payer.name],
+    ['Account', payer.account_number ? maskAccount(payer.account_number) : '-', true],
+  ]);
+  section('Payee', [
+    ['Account', maskAccount(transaction.recipient_account), true],
+    ['SWIFT / BIC', transaction.swift_code, true],
+    ['Bank', bank ? `${bank.bank_name}, ${bank.city} (${bank.country})` : '-'],
+  ]);
+  section('Amount', [
+    ['Amount sent', formatMoney(transaction.amount, transaction.currency)],
+    ['Exchange rate', transaction.fx_rate ? `1 ${baseCurrency} = ${transaction.fx_rate.toFixed(4)} ${transaction.currency}` : '-'],
+    ['Converted amount', transaction.base_amount != null ? formatMoney(transaction.base_amount, baseCurrency) : '-'],
+    ['Transfer fee', transaction.fee != null ? formatMoney(transaction.fee, baseCurrency) : '-'],
+    ['Total debited', transaction.total_debit != null ? formatMoney(transaction.total_debit, baseCurrency) : formatMoney(transaction.amount, transaction.currency)],
+  ]);
+  section('Timeline', [
+    ['Created', formatTimestamp(transaction.created_at)],
+    ['Verified', formatTimestamp(transaction.verified_at)],
+    ['Sent to SWIFT', formatTimestamp(transaction.sent_at)],
+    ['Last updated', formatTimestamp(transaction.updated_at)],
+  ]);
+
+  operations.push(
+    { type: 'line', x1: MARGIN, y1: y, x2: PDF_PAGE_WIDTH - MARGIN, y2: y, color: RULE_COLOR },
+    { type: 'text', x: MARGIN, y: y + 18, text: `Generated ${formatTimestamp(generatedAt.toISOString())}. Account numbers are masked for your security.`, size: 8, color: TEXT_MUTED },
+    { type: 'text', x: MARGIN, y: y + 30, text: 'Keep this receipt for your records. Contact SecurePay support quoting the transaction ID with any questions.', size: 8, color: TEXT_MUTED },
+  );
+
+  return renderPdf([operations], { title: `SecurePay receipt ${transaction.transaction_id}` });
+}
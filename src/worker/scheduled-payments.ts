@@ -0,0 +1,143 @@
+import type { Env } from "./env";
+import { todayUtc, type ScheduledPayment, type ScheduleFrequency } from "@/shared/types";
+import { lookupBic } from "./bic-directory";
+import { createQuote } from "./fx";
+import { enforcePaymentLimits } from "./limits";
+import { buildPaymentStatements, generateTransactionId, runPaymentBatch } from "./payments";
+
+// Most schedules booked per cron run; any others due wait for the next run
+const DUE_SCHEDULES_BATCH_SIZE = 100;
+
+function parseDate(date: string) {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+function formatDate(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+function daysInMonth(year: number, month: number) {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+// Last weekday of the month; bank holidays are not taken into account
+function lastBusinessDayOfMonth(year: number, month: number) {
+  const date = new Date(Date.UTC(year, month, daysInMonth(year, month)));
+  while (date.getUTCDay() === 0 || date.getUTCDay() === 6) {
+    date.setUTCDate(date.getUTCDate() - 1);
+  }
+  return date;
+}
+
+// Date of the first payment of a new or edited schedule
+export function firstRunDate(frequency: ScheduleFrequency, startDate: string): string {
+  if (frequency !== 'last_business_day') {
+    return startDate;
+  }
+  const start = parseDate(startDate);
+  const candidate = lastBusinessDayOfMonth(start.getUTCFullYear(), start.getUTCMonth());
+  return formatDate(candidate >= start
+    ? candidate
+    : lastBusinessDayOfMonth(start.getUTCFullYear(), start.getUTCMonth() + 1));
+}
+
+// Date of the payment after `previous`, or null for one-off payments. Monthly payments stay on the start
+// date's day of the month, falling back to the month's last day when it is shorter.
+export function nextRunDate(frequency: ScheduleFrequency, startDate: string, previous: string): string | null {
+  const date = parseDate(previous);
+  switch (frequency) {
+    case 'once':
+      return null;
+    case 'weekly':
+      date.setUTCDate(date.getUTCDate() + 7);
+      return formatDate(date);
+    case 'monthly': {
+      const year = date.getUTCFullYear();
+      const month = date.getUTCMonth() + 1;
+      const day = Math.min(parseDate(startDate).getUTCDate(), daysInMonth(year, month));
+      return formatDate(new Date(Date.UTC(year, month, day)));
+    }
+    case 'last_business_day':
+      return formatDate(lastBusinessDayOfMonth(date.getUTCFullYear(), date.getUTCMonth() + 1));
+  }
+}
+
+// Next payment date of a schedule edited without a new start date. The next payment stays where it is unless the
+// frequency changes; a new frequency counts on from the day of the last payment, or from the start date if none was made.
+export function editedRunDate(schedule: ScheduledPayment, frequency: ScheduleFrequency): string | null {
+  if (frequency === schedule.frequency) {
+    return schedule.next_run_date;
+  }
+  if (schedule.last_run_at === null) {
+    return firstRunDate(frequency, schedule.start_date);
+  }
+  return nextRunDate(frequency, schedule.start_date, schedule.last_run_at.slice(0, 10));
+}
+
+// Whether a schedule has nothing left to run once its next payment would be on `next`
+export function isScheduleFinished(schedule: Pick<ScheduledPayment, 'end_date' | 'max_runs' | 'run_count'>, next: string | null) {
+  return next === null
+    || (schedule.end_date !== null && next > schedule.end_date)
+    || (schedule.max_runs !== null && schedule.run_count >= schedule.max_runs);
+}
+
+async function runScheduledPayment(db: Env['DB'], schedule: ScheduledPayment) {
+  const runDate = schedule.next_run_date;
+  const next = nextRunDate(schedule.frequency, schedule.start_date, runDate);
+  const runCount = schedule.run_count + 1;
+  const finished = isScheduleFinished({ ...schedule, run_count: runCount }, next);
+  const now = new Date().toISOString();
+
+  // Claim the run before booking it, so overlapping cron invocations pay each occurrence at most once
+  const claimed = await db.prepare(
+    `UPDATE scheduled_payments SET next_run_date = ?, run_count = ?, status = ?, last_run_at = ?, updated_at = ?
+     WHERE id = ? AND status = 'Active' AND next_run_date = ?
+     RETURNING id`
+  ).bind(next ?? runDate, runCount, finished ? 'Completed' : 'Active', now, now, schedule.id, runDate).first();
+  if (!claimed) {
+    return;
+  }
+
+  try {
+    if (!(await lookupBic(db, schedule.swift_code))) {
+      throw new Error('Unknown SWIFT code');
+    }
+    // Each occurrence is booked at the rate and fee in force on the day it runs
+    const quote = await createQuote(db, schedule.user_id, schedule);
+    await enforcePaymentLimits(db, schedule.user_id, [quote]);
+    const transactionId = generateTransactionId();
+
+    await runPaymentBatch(db, schedule.user_id, [quote], [
+      ...buildPaymentStatements(
+        db,
+        transactionId,
+        { userId: schedule.user_id, ...schedule },
+        quote,
+        { id: null, role: 'system' },
+        now,
+        `Scheduled payment for ${runDate}`,
+      ),
+      db.prepare('UPDATE scheduled_payments SET last_transaction_id = ?, last_error = NULL WHERE id = ?').bind(transactionId, schedule.id),
+    ]);
+  } catch (err) {
+    console.error(`Scheduled payment ${schedule.id} failed for ${runDate}:`, err);
+    await db.prepare('UPDATE scheduled_payments SET last_error = ? WHERE id = ?')
+      .bind(err instanceof Error ? err.message : 'Payment could not be created', schedule.id)
+      .run();
+  }
+}
+
+// Entry point for the cron trigger: books every active schedule whose next payment date has arrived.
+// A schedule that fell behind catches up one occurrence per run.
+export async function runDueScheduledPayments(env: Env) {
+  const { results } = await env.DB.prepare(
+    `SELECT * FROM scheduled_payments
+     WHERE status = 'Active' AND next_run_date <= ?
+     ORDER BY next_run_date ASC
+     LIMIT ?`
+  ).bind(todayUtc(), DUE_SCHEDULES_BATCH_SIZE).all();
+
+  for (const schedule of results as ScheduledPayment[]) {
+    await runScheduledPayment(env.DB, schedule);
+  }
+}
@@ -0,0 +1,216 @@
+import type { Context } from "hono";
+import { setCookie } from "hono/cookie";
+import type { Env } from "./env";
+import type { ActiveSession } from "@/shared/types";
+import { sha256Hex, toBase64Url } from "./encoding";
+import { describeDevice } from "./user-agent";
+
+export const SESSION_TOKEN_COOKIE_NAME = 'session_token';
+
+// Sessions slide forward on activity but never outlive the absolute maximum
+const SESSION_IDLE_TTL_MS = 12 * 60 * 60 * 1000; // 12 hours
+const SESSION_MAX_LIFETIME_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+// last_seen_at is only written when it is older than this, to avoid a write on every request
+const LAST_SEEN_RESOLUTION_MS = 5 * 60 * 1000;
+const MAX_USER_AGENT_LENGTH = 512;
+
+export interface SessionRecord {
+  id: string;
+  user_id: string;
+  created_at: string;
+  expires_at: string;
+  last_seen_at: string;
+  // When the session last proved the second factor (at login or a step-up), if it has
+  second_factor_at: string | null;
+  device_label: string | null;
+  user_agent: string | null;
+  ip_address: string | null;
+}
+
+// The device and address a request came from, recorded on the session
+export interface SessionClient {
+  userAgent: string | null;
+  ipAddress: string | null;
+}
+
+export type UserRole = 'customer' | 'employee';
+
+export interface UserRecord {
+  id: string;
+  email: string;
+  given_name: string | null;
+  username: string | null;
+  account_number: string | null;
+  role: UserRole;
+  created_at: string;
+  updated_at: string;
+}
+
+// The raw token only ever lives in the cookie; the database stores its SHA-256 digest
+export async function hashSessionToken(token: string) {
+  return sha256Hex(token);
+}
+
+export function sessionClientFor(c: Context): SessionClient {
+  return {
+    userAgent: c.req.header('User-Agent')?.slice(0, MAX_USER_AGENT_LENGTH) ?? null,
+    ipAddress: c.req.header('CF-Connecting-IP') ?? null,
+  };
+}
+
+export async function createSession(db: Env['DB'], userId: string, client: SessionClient, secondFactorAt: string | null = null) {
+  const token = toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+  const now = new Date();
+  const session: SessionRecord = {
+    id: crypto.randomUUID(),
+    user_id: userId,
+    created_at: now.toISOString(),
+    expires_at: new Date(now.getTime() + SESSION_IDLE_TTL_MS).toISOString(),
+    last_seen_at: now.toISOString(),
+    second_factor_at: secondFactorAt,
+    device_label: describeDevice(client.userAgent),
+    user_agent: client.userAgent,
+    ip_address: client.ipAddress,
+  };
+
+  await db.prepare(
+    `INSERT INTO sessions (id, user_id, token_hash, created_at, expires_at, last_seen_at, second_factor_at, device_label, user_agent, ip_address)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  ).bind(
+    session.id,
+    session.user_id,
+    await hashSessionToken(token),
+    session.created_at,
+    session.expires_at,
+    session.last_seen_at,
+    session.second_factor_at,
+    session.device_label,
+    session.user_agent,
+    session.ip_address,
+  ).run();
+
+  return { token, session };
+}
+
+export async function resolveSession(db: Env['DB'], token: string) {
+  const row = await db.prepare(
+    `SELECT s.id AS session_id, s.created_at AS session_created_at, s.expires_at, s.last_seen_at, s.second_factor_at,
+            s.device_label, s.user_agent, s.ip_address,
+            u.id, u.email, u.given_name, u.username, u.account_number, u.role, u.created_at, u.updated_at
+     FROM sessions s JOIN users u ON u.id = s.user_id
+     WHERE s.token_hash = ?`
+  ).bind(await hashSessionToken(token)).first();
+
+  if (!row) {
+    return null;
+  }
+
+  if (new Date(row.expires_at).getTime() <= Date.now()) {
+    await db.prepare('DELETE FROM sessions WHERE id = ?').bind(row.session_id).run();
+    return null;
+  }
+
+  const session: SessionRecord = {
+    id: row.session_id,
+    user_id: row.id,
+    created_at: row.session_created_at,
+    expires_at: row.expires_at,
+    last_seen_at: row.last_seen_at,
+    second_factor_at: row.second_factor_at,
+    device_label: row.device_label,
+    user_agent: row.user_agent,
+    ip_address: row.ip_address,
+  };
+  const user: UserRecord = {
+    id: row.id,
+    email: row.email,
+    given_name: row.given_name,
+    username: row.username,
+    account_number: row.account_number,
+    role: row.role,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+
+  return { session, user };
+}
+
+// Extends the session once more than half of the idle window has elapsed, to avoid a write on every request
+export async function renewSession(db: Env['DB'], session: SessionRecord): Promise<SessionRecord | null> {
+  const now = Date.now();
+  const expiresAt = new Date(session.expires_at).getTime();
+  if (expiresAt - now > SESSION_IDLE_TTL_MS / 2) {
+    return null;
+  }
+
+  const hardLimit = new Date(session.created_at).getTime() + SESSION_MAX_LIFETIME_MS;
+  const renewedExpiry = Math.min(now + SESSION_IDLE_TTL_MS, hardLimit);
+  if (renewedExpiry <= expiresAt) {
+    return null;
+  }
+
+  const renewed: SessionRecord = {
+    ...session,
+    expires_at: new Date(renewedExpiry).toISOString(),
+    last_seen_at: new Date(now).toISOString(),
+  };
+  await db.prepare('UPDATE sessions SET expires_at = ?, last_seen_at = ? WHERE id = ?')
+    .bind(renewed.expires_at, renewed.last_seen_at, renewed.id).run();
+
+  return renewed;
+}
+
+// Records that the session is still in use, and from where, at most every few minutes
+export async function touchSession(db: Env['DB'], session: SessionRecord, client: SessionClient) {
+  const now = Date.now();
+  if (now - new Date(session.last_seen_at).getTime() < LAST_SEEN_RESOLUTION_MS && client.ipAddress === session.ip_address) {
+    return;
+  }
+  await db.prepare('UPDATE sessions SET last_seen_at = ?, ip_address = ? WHERE id = ?')
+    .bind(new Date(now).toISOString(), client.ipAddress, session.id).run();
+}
+
+export async function revokeSession(db: Env['DB'], token: string) {
+  await db.prepare('DELETE FROM sessions WHERE token_hash = ?').bind(await hashSessionToken(token)).run();
+}
+
+// The user's sessions that have not expired, most recently used first
+export async function listSessions(db: Env['DB'], userId: string, currentSessionId: string): Promise<ActiveSession[]> {
+  const { results } = await db.prepare(
+    `SELECT id, device_label, user_agent, ip_address, created_at, last_seen_at, expires_at
+     FROM sessions WHERE user_id = ? AND expires_at > ?
+     ORDER BY last_seen_at DESC`
+  ).bind(userId, new Date().toISOString()).all();
+  return (results as Omit<ActiveSession, 'current'>[]).map(row => ({ ...row, current: row.id === currentSessionId }));
+}
+
+export async function revokeSessionById(db: Env['DB'], userId: string, sessionId: string) {
+  const { meta } = await db.prepare('DELETE FROM sessions WHERE id = ? AND user_id = ?').bind(sessionId, userId).run();
+  return meta.changes === 1;
+}
+
+// Signs the user out everywhere except the session making the request; returns how many were revoked
+export async function revokeOtherSessions(db: Env['DB'], userId: string, currentSessionId: string) {
+  const { meta } = await db.prepare('DELETE FROM sessions WHERE user_id = ? AND id != ?').bind(userId, currentSessionId).run();
+  return meta.changes;
+}
+
+export function setSessionCookie(c: Context, token: string, session: SessionRecord) {
+  setCookie(c, SESSION_TOKEN_COOKIE_NAME, token, {
+    httpOnly: true,
+    path: '/',
+    sameSite: 'none',
+    secure: true,
+    maxAge: Math.max(0, Math.floor((new Date(session.expires_at).getTime() - Date.now()) / 1000)),
+  });
+}
+
+export function clearSessionCookie(c: Context) {
+  setCookie(c, SESSION_TOKEN_COOKIE_NAME, '', {
+    httpOnly: true,
+    path: '/',
+    sameSite: 'none',
+    secure: true,
+    maxAge: 0,
+  });
+}
@@ -0,0 +1,317 @@
+import type { Env } from "./env";
+import { PAYMENT_STATUS_LABELS, type PaymentStatus } from "@/shared/types";
+import { customerAccountId, type LedgerEntryKind } from "./ledger";
+import { BRAND_BLUE, PDF_PAGE_HEIGHT, PDF_PAGE_WIDTH, RULE_COLOR, TEXT_MUTED, renderPdf, type PdfOperation } from "./pdf";
+import { maskAccount, parseStoredTimestamp } from "./receipts";
+
+export type StatementFormat = 'csv' | 'ofx' | 'pdf';
+
+export type StatementLine = {
+  posting_id: number;
+  posted_at: string;
+  kind: LedgerEntryKind;
+  description: string;
+  transaction_id: string | null;
+  reference: string | null;
+  amount: number;
+  // Balance after this line
+  balance: number;
+};
+
+// A wallet's available funds over a date range; from and to are inclusive UTC dates
+export type Statement = {
+  currency: string;
+  from: string;
+  to: string;
+  opening_balance: number;
+  closing_balance: number;
+  lines: StatementLine[];
+};
+
+export type StatementAccount = {
+  holder_name: string;
+  account_number: string | null;
+  bank_bic: string;
+};
+
+type PostingRow = {
+  posting_id: number;
+  amount: number;
+  kind: LedgerEntryKind;
+  description: string | null;
+  transaction_id: string | null;
+  created_at: string;
+  recipient_account: string | null;
+  payment_amount: number | null;
+  payment_currency: string | null;
+  payment_status: PaymentStatus | null;
+  reference: string | null;
+};
+
+function roundMoney(amount: number) {
+  return Math.round(amount * 100) / 100;
+}
+
+function nextDay(date: string) {
+  return new Date(Date.parse(date) + 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+function describePosting(row: PostingRow) {
+  const payment = row.payment_currency && row.payment_amount !== null
+    ? `${row.payment_currency} ${row.payment_amount.toFixed(2)} to ${maskAccount(row.recipient_account ?? '')}`
+    : row.transaction_id;
+  switch (row.kind) {
+    case 'hold':
+      return `Payment ${payment}`;
+    case 'release':
+      return `${row.payment_status ? PAYMENT_STATUS_LABELS[row.payment_status] : 'Stopped'} payment released: ${payment}`;
+    case 'reversal':
+      return `Returned payment refunded: ${payment}`;
+    default:
+      return row.description ?? (row.kind === 'deposit' ? 'Deposit' : 'Conversion');
+  }
+}
+
+/**
+ * The statement of one of the customer's wallets. It follows the available balance, so a payment is
+ * debited when it is booked and credited back if it is cancelled, rejected or returned; deposits and
+ * conversions appear as they are made.
+ */
+export async function getStatement(db: Env['DB'], userId: string, currency: string, from: string, to: string): Promise<Statement> {
+  const accountId = customerAccountId('customer_available', currency, userId);
+  const end = nextDay(to);
+
+  // Dates are compared as prefixes so both ISO timestamps and CURRENT_TIMESTAMP values match
+  const [opening, { results }] = await Promise.all([
+    db.prepare(
+      `SELECT COALESCE(SUM(p.amount), 0) AS balance FROM ledger_postings p
+       JOIN ledger_entries e ON e.id = p.entry_id
+       WHERE p.account_id = ? AND e.created_at < ?`
+    ).bind(accountId, from).first(),
+    db.prepare(
+      `SELECT p.id AS posting_id, p.amount, e.kind, e.description, e.transaction_id, e.created_at,
+         t.recipient_account, t.amount AS payment_amount, t.currency AS payment_currency, t.status AS payment_status, t.reference
+       FROM ledger_postings p
+       JOIN ledger_entries e ON e.id = p.entry_id
+       LEFT JOIN transactions t ON t.transaction_id = e.transaction_id
+       WHERE p.account_id = ? AND e.created_at >= ? AND e.created_at < ?
+       ORDER BY e.created_at, p.id`
+    ).bind(accountId, from, end).all(),
+  ]);
+
+  let balance = roundMoney(opening.balance);
+  const lines = (results as PostingRow[]).map(row => {
+    balance = roundMoney(balance + row.amount);
+    return {
+      posting_id: row.posting_id,
+      posted_at: row.created_at,
+      kind: row.kind,
+      description: describePosting(row),
+      transaction_id: row.transaction_id,
+      reference: row.reference,
+      amount: roundMoney(row.amount),
+      balance,
+    };
+  });
+
+  return {
+    currency,
+    from,
+    to,
+    opening_balance: roundMoney(opening.balance),
+    closing_balance: balance,
+    lines,
+  };
+}
+
+function csvField(value: string | number | null) {
+  const text = value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One row per posting, framed by opening and closing balance rows
+export function renderStatementCsv(statement: Statement): string {
+  const rows: Array<Array<string | number | null>> = [
+    ['date', 'type', 'description', 'transaction_id', 'reference', 'amount', 'balance', 'currency'],
+    [statement.from, 'opening_balance', 'Opening balance', null, null, null, statement.opening_balance.toFixed(2), statement.currency],
+    ...statement.lines.map(line => [
+      parseStoredTimestamp(line.posted_at).toISOString(),
+      line.kind,
+      line.description,
+      line.transaction_id,
+      line.reference,
+      line.amount.toFixed(2),
+      line.balance.toFixed(2),
+      statement.currency,
+    ]),
+    [statement.to, 'closing_balance', 'Closing balance', null, null, null, statement.closing_balance.toFixed(2), statement.currency],
+  ];
+  return rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+function toOfxDate(date: Date) {
+  return date.toISOString().replace(/[-:T]/g, '').slice(0, 14);
+}
+
+// OFX 1.x is SGML in US-ASCII: element values must not contain markup characters
+function toOfxText(value: string, maxLength: number) {
+  return value.replace(/[<>&]/g, ' ').replace(/[^\x20-\x7e]/g, '?').slice(0, maxLength);
+}
+
+/**
+ * OFX 1.0.2 bank statement, the format most accounting packages import. Each posting is a statement
+ * transaction whose FITID is the posting ID, so re-importing an overlapping range does not duplicate lines.
+ */
+export function renderStatementOfx(statement: Statement, account: StatementAccount, generatedAt: Date): string {
+  const transactions = statement.lines.map(line => [
+    '<STMTTRN>',
+    `<TRNTYPE>${line.amount < 0 ? 'DEBIT' : 'CREDIT'}`,
+    `<DTPOSTED>${toOfxDate(parseStoredTimestamp(line.posted_at))}`,
+    `<TRNAMT>${line.amount.toFixed(2)}`,
+    `<FITID>${line.posting_id}`,
+    `<NAME>${toOfxText(line.description, 32)}`,
+    `<MEMO>${toOfxText([line.transaction_id, line.reference].filter(Boolean).join(' ') || line.description, 255)}`,
+    '</STMTTRN>',
+  ].join('\n'));
+
+  return [
+    'OFXHEADER:100',
+    'DATA:OFXSGML',
+    'VERSION:102',
+    'SECURITY:NONE',
+    'ENCODING:USASCII',
+    'CHARSET:1252',
+    'COMPRESSION:NONE',
+    'OLDFILEUID:NONE',
+    'NEWFILEUID:NONE',
+    '',
+    '<OFX>',
+    '<SIGNONMSGSRSV1>',
+    '<SONRS>',
+    '<STATUS>',
+    '<CODE>0',
+    '<SEVERITY>INFO',
+    '</STATUS>',
+    `<DTSERVER>${toOfxDate(generatedAt)}`,
+    '<LANGUAGE>ENG',
+    '</SONRS>',
+    '</SIGNONMSGSRSV1>',
+    '<BANKMSGSRSV1>',
+    '<STMTTRNRS>',
+    '<TRNUID>0',
+    '<STATUS>',
+    '<CODE>0',
+    '<SEVERITY>INFO',
+    '</STATUS>',
+    '<STMTRS>',
+    `<CURDEF>${statement.currency}`,
+    '<BANKACCTFROM>',
+    `<BANKID>${account.bank_bic.slice(0, 8)}`,
+    // ACCTID holds 22 characters: the end of the account number, then the wallet currency
+    `<ACCTID>${toOfxText((account.account_number ?? 'SECUREPAY').replace(/\s+/g, '').slice(-18), 18)}-${statement.currency}`,
+    '<ACCTTYPE>CHECKING',
+    '</BANKACCTFROM>',
+    '<BANKTRANLIST>',
+    `<DTSTART>${statement.from.replace(/-/g, '')}`,
+    `<DTEND>${nextDay(statement.to).replace(/-/g, '')}`,
+    ...transactions,
+    '</BANKTRANLIST>',
+    '<LEDGERBAL>',
+    `<BALAMT>${statement.closing_balance.toFixed(2)}`,
+    `<DTASOF>${nextDay(statement.to).replace(/-/g, '')}`,
+    '</LEDGERBAL>',
+    '</STMTRS>',
+    '</STMTTRNRS>',
+    '</BANKMSGSRSV1>',
+    '</OFX>',
+    '',
+  ].join('\n');
+}
+
+const MARGIN = 50;
+const ROW_HEIGHT = 15;
+const PAGE_BOTTOM = PDF_PAGE_HEIGHT - 70;
+const MONO_SIZE = 9;
+
+function formatAmount(amount: number) {
+  return amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+// Courier glyphs are 0.6em wide, which is what lets amounts be right-aligned
+function rightAligned(text: string, right: number, y: number, highlight = false): PdfOperation {
+  return { type: 'text', x: right - text.length * 0.6 * MONO_SIZE, y, text, size: MONO_SIZE, font: 'mono', ...(highlight ? { color: BRAND_BLUE } : {}) };
+}
+
+// A branded statement, as many pages as the postings need
+export function renderStatementPdf(statement: Statement, account: StatementAccount, generatedAt: Date): Uint8Array {
+  const pages: PdfOperation[][] = [];
+  let operations: PdfOperation[] = [];
+  let y = 0;
+
+  const tableHeader = () => {
+    operations.push(
+      { type: 'text', x: MARGIN, y, text: 'Date', size: 9, font: 'bold', color: TEXT_MUTED },
+      { type: 'text', x: 120, y, text: 'Description', size: 9, font: 'bold', color: TEXT_MUTED },
+      { type: 'text', x: 425, y, text: 'Amount', size: 9, font: 'bold', color: TEXT_MUTED },
+      { type: 'text', x: 505, y, text: 'Balance', size: 9, font: 'bold', color: TEXT_MUTED },
+      { type: 'line', x1: MARGIN, y1: y + 5, x2: PDF_PAGE_WIDTH - MARGIN, y2: y + 5, color: RULE_COLOR },
+    );
+    y += ROW_HEIGHT + 4;
+  };
+
+  const newPage = () => {
+    operations = [];
+    pages.push(operations);
+    operations.push(
+      { type: 'text', x: MARGIN, y: 40, text: `SecurePay statement - ${statement.currency} wallet - ${statement.from} to ${statement.to}`, size: 9, color: TEXT_MUTED },
+      { type: 'text', x: PDF_PAGE_WIDTH - MARGIN - 40, y: 40, text: `Page ${pages.length}`, size: 9, color: TEXT_MUTED },
+    );
+    y = 70;
+    tableHeader();
+  };
+
+  const row = (date: string, description: string, amount: string, balance: string, bold = false) => {
+    if (y > PAGE_BOTTOM) {
+      newPage();
+    }
+    operations.push(
+      { type: 'text', x: MARGIN, y, text: date, size: 9, ...(bold ? { font: 'bold' as const } : {}) },
+      { type: 'text', x: 120, y, text: description.length > 48 ? `${description.slice(0, 47)}...` : description, size: 9, ...(bold ? { font: 'bold' as const } : {}) },
+      rightAligned(amount, 470, y),
+      rightAligned(balance, PDF_PAGE_WIDTH - MARGIN, y, bold),
+    );
+    y += ROW_HEIGHT;
+  };
+
+  // First page: letterhead, account and period
+  pages.push(operations);
+  operations.push(
+    { type: 'rect', x: 0, y: 0, width: PDF_PAGE_WIDTH, height: 90, color: BRAND_BLUE },
+    { type: 'text', x: MARGIN, y: 48, text: 'SecurePay', size: 24, font: 'bold', color: [1, 1, 1] },
+    { type: 'text', x: MARGIN, y: 70, text: 'Account Statement', size: 12, color: [1, 1, 1] },
+    { type: 'text', x: MARGIN, y: 125, text: account.holder_name, size: 12, font: 'bold' },
+    { type: 'text', x: MARGIN, y: 142, text: `Account ${account.account_number ? maskAccount(account.account_number) : '-'}  |  ${statement.currency} wallet  |  BIC ${account.bank_bic}`, color: TEXT_MUTED },
+    { type: 'text', x: MARGIN, y: 157, text: `Period ${statement.from} to ${statement.to} (UTC)`, color: TEXT_MUTED },
+  );
+  y = 195;
+  tableHeader();
+
+  row(statement.from, 'Opening balance', '', formatAmount(statement.opening_balance), true);
+  for (const line of statement.lines) {
+    row(parseStoredTimestamp(line.posted_at).toISOString().slice(0, 10), line.description, formatAmount(line.amount), formatAmount(line.balance));
+  }
+  row(statement.to, 'Closing balance', '', formatAmount(statement.closing_balance), true);
+
+  const credits = statement.lines.filter(line => line.amount > 0).reduce((sum, line) => sum + line.amount, 0);
+  const debits = statement.lines.filter(line => line.amount < 0).reduce((sum, line) => sum + line.amount, 0);
+  if (y > PAGE_BOTTOM - 40) {
+    newPage();
+  }
+  operations.push(
+    { type: 'line', x1: MARGIN, y1: y, x2: PDF_PAGE_WIDTH - MARGIN, y2: y, color: RULE_COLOR },
+    { type: 'text', x: MARGIN, y: y + 18, text: `${statement.lines.length} postings. Money in ${statement.currency} ${formatAmount(roundMoney(credits))}, money out ${statement.currency} ${formatAmount(roundMoney(-debits))}.`, size: 8, color: TEXT_MUTED },
+    { type: 'text', x: MARGIN, y: y + 30, text: `Generated ${generatedAt.toISOString().slice(0, 16).replace('T', ' ')} UTC. Balances are available funds; payments are debited when they are booked.`, size: 8, color: TEXT_MUTED },
+  );
+
+  return renderPdf(pages, { title: `SecurePay statement ${statement.currency} ${statement.from} to ${statement.to}` });
+}
@@ -0,0 +1,177 @@
+import type { Transaction } from "@/shared/types";
+import { isIban, normalizeAccountNumber } from "@/shared/types";
+
+// A payment being submitted, with the customer who is paying it. Both messages identify the customer by
+// their account number, so payments from customers without one cannot be submitted.
+export type SwiftPayment = Transaction & {
+  debtor_name: string;
+  debtor_account: string;
+};
+
+export type SwiftMessages = {
+  pain001: string;
+  mt103: string | null;
+  control_sum: number;
+};
+
+// Neither message has a field we can fill from our payee data, which holds no payee name
+const UNKNOWN_CREDITOR_NAME = 'NOT PROVIDED';
+
+export function generateSubmissionId() {
+  return `SUB${Date.now()}${Math.random().toString(36).substr(2, 6).toUpperCase()}`;
+}
+
+// Payments are stored to the cent in every currency, so they are sent that way rather than rounded
+function formatAmount(amount: number, decimalSeparator = '.') {
+  return amount.toFixed(2).replace('.', decimalSeparator);
+}
+
+function escapeXml(value: string) {
+  return value.replace(/[<>&'"]/g, char => `&${{ '<': 'lt', '>': 'gt', '&': 'amp', "'": 'apos', '"': 'quot' }[char]};`);
+}
+
+// 12-character logical terminal address for FIN headers: the BIC with a terminal code before the
+// branch, which is XXX (primary office) for 8-character BICs
+function toTerminalAddress(bic: string, terminal: string) {
+  return `${bic.slice(0, 8)}${terminal}${bic.slice(8) || 'XXX'}`;
+}
+
+function accountXml(account: string) {
+  const normalized = normalizeAccountNumber(account);
+  // Othr/Id is Max34Text, which has to have at least one character
+  if (!normalized) {
+    throw new Error('Cannot generate pain.001 for an empty account number');
+  }
+  return isIban(normalized)
+    ? `<Id><IBAN>${normalized}</IBAN></Id>`
+    : `<Id><Othr><Id>${escapeXml(normalized)}</Id></Othr></Id>`;
+}
+
+/**
+ * ISO 20022 customer credit transfer initiation (pain.001.001.09). Payments are grouped into one
+ * payment information block per paying customer, in the order given; each payment's transaction ID is
+ * its end-to-end ID so bank reports can be matched back to it.
+ */
+export function buildPain001(messageId: string, createdAt: Date, senderBic: string, payments: SwiftPayment[]): string {
+  const controlSum = (items: SwiftPayment[]) => items.reduce((sum, payment) => sum + payment.amount, 0).toFixed(2);
+  const executionDate = createdAt.toISOString().slice(0, 10);
+
+  const byDebtor = new Map<string, SwiftPayment[]>();
+  for (const payment of payments) {
+    byDebtor.set(payment.user_id, [...(byDebtor.get(payment.user_id) ?? []), payment]);
+  }
+
+  const paymentInfo = [...byDebtor.values()].map((debtorPayments, index) => {
+    const [{ debtor_name, debtor_account }] = debtorPayments;
+    const transfers = debtorPayments.map(payment => `
+      <CdtTrfTxInf>
+        <PmtId>
+          <InstrId>${payment.transaction_id}</InstrId>
+          <EndToEndId>${payment.transaction_id}</EndToEndId>
+        </PmtId>
+        <Amt>
+          <InstdAmt Ccy="${payment.currency}">${formatAmount(payment.amount)}</InstdAmt>
+        </Amt>
+        <CdtrAgt>
+          <FinInstnId>
+            <BICFI>${payment.swift_code}</BICFI>
+          </FinInstnId>
+        </CdtrAgt>
+        <Cdtr>
+          <Nm>${UNKNOWN_CREDITOR_NAME}</Nm>
+        </Cdtr>
+        <CdtrAcct>
+          ${accountXml(payment.recipient_account)}
+        </CdtrAcct>${payment.reference ? `
+        <RmtInf>
+          <Ustrd>${escapeXml(payment.reference.slice(0, 140))}</Ustrd>
+        </RmtInf>` : ''}
+      </CdtTrfTxInf>`).join('');
+
+    return `
+    <PmtInf>
+      <PmtInfId>${messageId}-${index + 1}</PmtInfId>
+      <PmtMtd>TRF</PmtMtd>
+      <NbOfTxs>${debtorPayments.length}</NbOfTxs>
+      <CtrlSum>${controlSum(debtorPayments)}</CtrlSum>
+      <ReqdExctnDt>
+        <Dt>${executionDate}</Dt>
+      </ReqdExctnDt>
+      <Dbtr>
+        <Nm>${escapeXml(debtor_name.slice(0, 140))}</Nm>
+      </Dbtr>
+      <DbtrAcct>
+        ${accountXml(debtor_account)}
+      </DbtrAcct>
+      <DbtrAgt>
+        <FinInstnId>
+          <BICFI>${senderBic}</BICFI>
+        </FinInstnId>
+      </DbtrAgt>${transfers}
+    </PmtInf>`;
+  }).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:pain.001.001.09">
+  <CstmrCdtTrfInitn>
+    <GrpHdr>
+      <MsgId>${messageId}</MsgId>
+      <CreDtTm>${createdAt.toISOString().slice(0, 19)}Z</CreDtTm>
+      <NbOfTxs>${payments.length}</NbOfTxs>
+      <CtrlSum>${controlSum(payments)}</CtrlSum>
+      <InitgPty>
+        <Nm>SecurePay</Nm>
+      </InitgPty>
+    </GrpHdr>${paymentInfo}
+  </CstmrCdtTrfInitn>
+</Document>
+`;
+}
+
+// SWIFT FIN messages only allow the X character set; anything else becomes a space
+function toSwiftText(value: string, maxLength: number) {
+  return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^A-Za-z0-9/\-?:().,'+ ]/g, ' ').slice(0, maxLength);
+}
+
+// Splits free text into the 35-character lines FIN fields use
+function toSwiftLines(value: string, maxLines: number) {
+  const text = toSwiftText(value, 35 * maxLines);
+  const lines: string[] = [];
+  for (let i = 0; i < text.length; i += 35) {
+    lines.push(text.slice(i, i + 35));
+  }
+  return lines;
+}
+
+/**
+ * Legacy MT103 single customer credit transfers, one FIN message per payment. The sender's reference
+ * (field 20) only holds 16 characters, so it is the end of the transaction ID; the full ID is repeated
+ * in the remittance information (field 70).
+ */
+export function buildMt103(createdAt: Date, senderBic: string, payments: SwiftPayment[]): string {
+  const valueDate = createdAt.toISOString().slice(2, 10).replace(/-/g, '');
+
+  return payments.map(payment => {
+    const fields = [
+      `:20:${payment.transaction_id.slice(-16)}`,
+      ':23B:CRED',
+      `:32A:${valueDate}${payment.currency}${formatAmount(payment.amount, ',')}`,
+      `:50K:/${toSwiftText(normalizeAccountNumber(payment.debtor_account), 34)}`,
+      ...toSwiftLines(payment.debtor_name, 4),
+      `:57A:${payment.swift_code}`,
+      `:59:/${toSwiftText(normalizeAccountNumber(payment.recipient_account), 34)}`,
+      UNKNOWN_CREDITOR_NAME,
+      `:70:${toSwiftLines(`${payment.transaction_id} ${payment.reference ?? ''}`.trim(), 4).join('\r\n')}`,
+      ':71A:SHA',
+    ];
+    return `{1:F01${toTerminalAddress(senderBic, 'A')}0000000000}{2:I103${toTerminalAddress(payment.swift_code, 'X')}N}{4:\r\n${fields.join('\r\n')}\r\n-}`;
+  }).join('\r\n');
+}
+
+export function buildSwiftMessages(messageId: string, createdAt: Date, senderBic: string, payments: SwiftPayment[], includeMt103: boolean): SwiftMessages {
+  return {
+    pain001: buildPain001(messageId, createdAt, senderBic, payments),
+    mt103: includeMt103 ? buildMt103(createdAt, senderBic, payments) : null,
+    control_sum: Number(payments.reduce((sum, payment) => sum + payment.amount, 0).toFixed(2)),
+  };
+}
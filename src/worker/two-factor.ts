@@ -0,0 +1,210 @@
+import type { Env } from "./env";
+import type { TwoFactorStatus } from "@/shared/types";
+import { STEP_UP_PAYMENT_THRESHOLD } from "@/shared/types";
+import { sha256Hex, toBase64Url } from "./encoding";
+import type { SessionRecord } from "./session";
+import { buildOtpauthUri, decryptTotpSecret, encryptTotpSecret, generateTotpSecret, toBase32, verifyTotp } from "./totp";
+
+const ISSUER = 'SecurePay';
+const RECOVERY_CODE_COUNT = 10;
+// A login waits this long for its second factor, and allows this many wrong codes
+const LOGIN_CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const LOGIN_CHALLENGE_MAX_ATTEMPTS = 5;
+// How long a second factor proven in a session covers step-up actions
+const STEP_UP_TTL_MS = 10 * 60 * 1000;
+
+export class StepUpRequiredError extends Error {
+  constructor() {
+    super('Enter a code from your authenticator app to confirm this action');
+    this.name = 'StepUpRequiredError';
+  }
+}
+
+type TotpRow = {
+  secret: string;
+  confirmed_at: string | null;
+  last_used_step: number | null;
+};
+
+// Recovery codes are compared without case or separators, as customers type them back in
+function normalizeRecoveryCode(code: string) {
+  return code.toLowerCase().replace(/[^a-z2-7]/g, '');
+}
+
+function generateRecoveryCode() {
+  const code = toBase32(crypto.getRandomValues(new Uint8Array(7))).slice(0, 10).toLowerCase();
+  return `${code.slice(0, 5)}-${code.slice(5)}`;
+}
+
+async function getTotp(db: Env['DB'], userId: string): Promise<TotpRow | null> {
+  return db.prepare('SELECT secret, confirmed_at, last_used_step FROM user_totp WHERE user_id = ?').bind(userId).first();
+}
+
+export async function isTwoFactorEnabled(db: Env['DB'], userId: string) {
+  return (await getTotp(db, userId))?.confirmed_at != null;
+}
+
+export async function getTwoFactorStatus(db: Env['DB'], userId: string): Promise<TwoFactorStatus> {
+  const row = await db.prepare(
+    `SELECT t.confirmed_at,
+       (SELECT COUNT(*) FROM recovery_codes r WHERE r.user_id = ? AND r.used_at IS NULL) AS recovery_codes_remaining
+     FROM users u LEFT JOIN user_totp t ON t.user_id = u.id
+     WHERE u.id = ?`
+  ).bind(userId, userId).first();
+
+  return {
+    enabled: row?.confirmed_at != null,
+    confirmed_at: row?.confirmed_at ?? null,
+    recovery_codes_remaining: row?.confirmed_at != null ? row.recovery_codes_remaining : 0,
+  };
+}
+
+/**
+ * Starts enrolling an authenticator, replacing any enrolment that was never confirmed. 2FA is not on
+ * until confirmTotpEnrolment accepts a code from it. Returns null if 2FA is already on.
+ */
+export async function startTotpEnrolment(db: Env['DB'], pepper: string, userId: string, accountName: string) {
+  const secret = generateTotpSecret();
+  const { meta } = await db.prepare(
+    `INSERT INTO user_totp (user_id, secret, confirmed_at, last_used_step, created_at) VALUES (?, ?, NULL, NULL, ?)
+     ON CONFLICT (user_id) DO UPDATE SET secret = excluded.secret, last_used_step = NULL, created_at = excluded.created_at
+     WHERE user_totp.confirmed_at IS NULL`
+  ).bind(userId, await encryptTotpSecret(secret, pepper), new Date().toISOString()).run();
+
+  if (meta.changes === 0) {
+    return null;
+  }
+  return { secret, otpauth_uri: buildOtpauthUri(secret, accountName, ISSUER) };
+}
+
+// Records the accepted step only if no other request has used it (or a later one) in the meantime
+async function acceptTotp(db: Env['DB'], pepper: string, userId: string, row: TotpRow, code: string, confirm: boolean) {
+  const step = await verifyTotp(await decryptTotpSecret(row.secret, pepper), code, row.last_used_step);
+  if (step === null) {
+    return false;
+  }
+  const { meta } = await db.prepare(
+    `UPDATE user_totp SET last_used_step = ?${confirm ? ', confirmed_at = ?' : ''}
+     WHERE user_id = ? AND (last_used_step IS NULL OR last_used_step < ?)`
+  ).bind(...(confirm ? [step, new Date().toISOString()] : [step]), userId, step).run();
+  return meta.changes === 1;
+}
+
+function buildRecoveryCodeStatements(db: Env['DB'], userId: string, codeHashes: string[], now: string) {
+  return [
+    db.prepare('DELETE FROM recovery_codes WHERE user_id = ?').bind(userId),
+    ...codeHashes.map(hash => db.prepare(
+      'INSERT INTO recovery_codes (id, user_id, code_hash, used_at, created_at) VALUES (?, ?, ?, NULL, ?)'
+    ).bind(crypto.randomUUID(), userId, hash, now)),
+  ];
+}
+
+// Replaces the customer's recovery codes; the codes are only ever shown this once
+export async function regenerateRecoveryCodes(db: Env['DB'], userId: string) {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+  const hashes = await Promise.all(codes.map(code => sha256Hex(normalizeRecoveryCode(code))));
+  await db.batch(buildRecoveryCodeStatements(db, userId, hashes, new Date().toISOString()));
+  return codes;
+}
+
+// Turns 2FA on with the first code from the new authenticator and issues recovery codes. Returns null if the code is wrong.
+export async function confirmTotpEnrolment(db: Env['DB'], pepper: string, userId: string, code: string) {
+  const row = await getTotp(db, userId);
+  if (!row || row.confirmed_at || !(await acceptTotp(db, pepper, userId, row, code, true))) {
+    return null;
+  }
+  return regenerateRecoveryCodes(db, userId);
+}
+
+/**
+ * Checks a second factor for a customer with 2FA on: a current authenticator code, or an unused
+ * recovery code, which is used up. Each code is accepted once.
+ */
+export async function verifySecondFactor(db: Env['DB'], pepper: string, userId: string, code: string) {
+  const row = await getTotp(db, userId);
+  if (!row?.confirmed_at) {
+    return false;
+  }
+  const compact = code.replace(/\s+/g, '');
+  if (/^\d{6}$/.test(compact)) {
+    return acceptTotp(db, pepper, userId, row, compact, false);
+  }
+
+  const { meta } = await db.prepare(
+    'UPDATE recovery_codes SET used_at = ? WHERE user_id = ? AND code_hash = ? AND used_at IS NULL'
+  ).bind(new Date().toISOString(), userId, await sha256Hex(normalizeRecoveryCode(code))).run();
+  return meta.changes === 1;
+}
+
+export async function disableTwoFactor(db: Env['DB'], userId: string) {
+  await db.batch([
+    db.prepare('DELETE FROM user_totp WHERE user_id = ?').bind(userId),
+    db.prepare('DELETE FROM recovery_codes WHERE user_id = ?').bind(userId),
+    db.prepare('UPDATE sessions SET second_factor_at = NULL WHERE user_id = ?').bind(userId),
+  ]);
+}
+
+// A password login waiting for its second factor. Like session tokens, only the token's digest is stored.
+export async function createLoginChallenge(db: Env['DB'], userId: string) {
+  const token = toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + LOGIN_CHALLENGE_TTL_MS).toISOString();
+
+  await db.batch([
+    // A customer only has one login in progress at a time
+    db.prepare('DELETE FROM login_challenges WHERE user_id = ? OR expires_at <= ?').bind(userId, now.toISOString()),
+    db.prepare(
+      `INSERT INTO login_challenges (id, user_id, token_hash, attempts, created_at, expires_at)
+       VALUES (?, ?, ?, 0, ?, ?)`
+    ).bind(crypto.randomUUID(), userId, await sha256Hex(token), now.toISOString(), expiresAt),
+  ]);
+
+  return { two_factor_required: true as const, challenge_token: token, expires_at: expiresAt };
+}
+
+/**
+ * Completes a login challenge with a second factor. Returns the user ID on success, which uses up the
+ * challenge; null if the challenge has expired, used up its attempts or the code is wrong.
+ */
+export async function completeLoginChallenge(db: Env['DB'], pepper: string, token: string, code: string) {
+  const tokenHash = await sha256Hex(token);
+  // Counting the attempt first means concurrent guesses cannot get past the limit
+  const challenge = await db.prepare(
+    `UPDATE login_challenges SET attempts = attempts + 1
+     WHERE token_hash = ? AND expires_at > ? AND attempts < ?
+     RETURNING id, user_id`
+  ).bind(tokenHash, new Date().toISOString(), LOGIN_CHALLENGE_MAX_ATTEMPTS).first();
+
+  if (!challenge || !(await verifySecondFactor(db, pepper, challenge.user_id, code))) {
+    return null;
+  }
+  await db.prepare('DELETE FROM login_challenges WHERE id = ?').bind(challenge.id).run();
+  return challenge.user_id as string;
+}
+
+// Records that the session has just proven the second factor
+export async function markSecondFactor(db: Env['DB'], sessionId: string) {
+  const now = new Date().toISOString();
+  await db.prepare('UPDATE sessions SET second_factor_at = ? WHERE id = ?').bind(now, sessionId).run();
+  return { second_factor_at: now, step_up_expires_at: new Date(Date.parse(now) + STEP_UP_TTL_MS).toISOString() };
+}
+
+/**
+ * Throws StepUpRequiredError unless the session has proven the second factor recently. Customers without
+ * 2FA are not asked.
+ */
+export async function requireFreshSecondFactor(db: Env['DB'], session: SessionRecord) {
+  if (session.second_factor_at && Date.now() - Date.parse(session.second_factor_at) < STEP_UP_TTL_MS) {
+    return;
+  }
+  if (await isTwoFactorEnabled(db, session.user_id)) {
+    throw new StepUpRequiredError();
+  }
+}
+
+// Payments of `referenceAmount` (USD) at or above the threshold need a fresh second factor
+export async function requireStepUp(db: Env['DB'], session: SessionRecord, referenceAmount: number) {
+  if (referenceAmount >= STEP_UP_PAYMENT_THRESHOLD) {
+    await requireFreshSecondFactor(db, session);
+  }
+}
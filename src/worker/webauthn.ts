@@ -0,0 +1,252 @@
+// WebAuthn (passkey) ceremony checks with WebCrypto. Attestation is not requested ("none"), so the
+// attestation statement is never verified: a passkey is trusted because the signed-in customer created it.
+
+import { decodeCbor, type CborValue } from "./cbor";
+import { fromBase64Url, timingSafeEqual, toBase64Url } from "./encoding";
+
+export class PasskeyError extends Error {
+  constructor(message: string, public readonly status: 400 | 401) {
+    super(message);
+    this.name = 'PasskeyError';
+  }
+}
+
+// COSE algorithm identifiers we accept, in order of preference
+export const COSE_ES256 = -7;
+export const COSE_RS256 = -257;
+export const SUPPORTED_ALGORITHMS = [COSE_ES256, COSE_RS256];
+
+// Authenticator data flags
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_BACKED_UP = 0x10;
+const FLAG_ATTESTED_CREDENTIAL = 0x40;
+
+export type RelyingParty = {
+  id: string;
+  origin: string;
+  name: string;
+};
+
+// The worker serves the app, so passkeys belong to the host the request came in on
+export function relyingPartyFor(requestUrl: string): RelyingParty {
+  const url = new URL(requestUrl);
+  return { id: url.hostname, origin: url.origin, name: 'SecurePay' };
+}
+
+export function generateChallenge() {
+  return toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+type ClientData = {
+  type: string;
+  challenge: string;
+  origin: string;
+};
+
+// The challenge the browser signed, checked against the ceremony type and origin
+export function parseClientData(clientDataJSON: string, type: 'webauthn.create' | 'webauthn.get', rp: RelyingParty, failure: PasskeyError) {
+  let clientData: ClientData;
+  try {
+    clientData = JSON.parse(new TextDecoder().decode(fromBase64Url(clientDataJSON)));
+  } catch {
+    throw failure;
+  }
+  if (clientData.type !== type || clientData.origin !== rp.origin || typeof clientData.challenge !== 'string') {
+    throw failure;
+  }
+  return clientData;
+}
+
+type AuthenticatorData = {
+  rpIdHash: Uint8Array;
+  flags: number;
+  signCount: number;
+  credential?: { id: string; publicKey: Map<number | string, CborValue> };
+};
+
+function parseAuthenticatorData(data: Uint8Array): AuthenticatorData {
+  if (data.length < 37) {
+    throw new Error('Authenticator data is too short');
+  }
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const flags = data[32];
+  const result: AuthenticatorData = { rpIdHash: data.slice(0, 32), flags, signCount: view.getUint32(33) };
+
+  if (flags & FLAG_ATTESTED_CREDENTIAL) {
+    // 16-byte AAGUID, then the credential ID's length and the ID, then its COSE public key
+    const idLength = view.getUint16(53);
+    const id = data.slice(55, 55 + idLength);
+    if (id.length !== idLength) {
+      throw new Error('Authenticator data is too short');
+    }
+    const { value } = decodeCbor(data.slice(55 + idLength));
+    if (!(value instanceof Map)) {
+      throw new Error('Credential public key is not a COSE key');
+    }
+    result.credential = { id: toBase64Url(id), publicKey: value };
+  }
+  return result;
+}
+
+async function checkAuthenticatorData(authData: AuthenticatorData, rp: RelyingParty, failure: PasskeyError) {
+  const expectedHash = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(rp.id));
+  // Passkeys replace the password, so the authenticator must have verified the customer (PIN or biometrics)
+  const required = FLAG_USER_PRESENT | FLAG_USER_VERIFIED;
+  if (!timingSafeEqual(authData.rpIdHash, new Uint8Array(expectedHash)) || (authData.flags & required) !== required) {
+    throw failure;
+  }
+}
+
+function bytesField(key: Map<number | string, CborValue>, label: number) {
+  const value = key.get(label);
+  if (!(value instanceof Uint8Array)) {
+    throw new Error(`COSE key is missing parameter ${label}`);
+  }
+  return toBase64Url(value);
+}
+
+// COSE public key (RFC 9053) to a JWK WebCrypto can import
+function coseToJwk(key: Map<number | string, CborValue>): { algorithm: number; jwk: JsonWebKey } {
+  const kty = key.get(1);
+  const algorithm = key.get(3);
+  if (kty === 2 && algorithm === COSE_ES256 && key.get(-1) === 1) {
+    return { algorithm, jwk: { kty: 'EC', crv: 'P-256', x: bytesField(key, -2), y: bytesField(key, -3) } };
+  }
+  if (kty === 3 && algorithm === COSE_RS256) {
+    return { algorithm, jwk: { kty: 'RSA', n: bytesField(key, -1), e: bytesField(key, -2) } };
+  }
+  throw new Error('Unsupported passkey algorithm');
+}
+
+function importParams(algorithm: number) {
+  return algorithm === COSE_ES256
+    ? { name: 'ECDSA', namedCurve: 'P-256' }
+    : { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' };
+}
+
+// ECDSA signatures in WebAuthn are DER sequences; WebCrypto wants the raw 64-byte r || s
+function derToRawSignature(der: Uint8Array) {
+  const readInteger = (at: number) => {
+    if (der[at] !== 0x02) throw new Error('Malformed signature');
+    const length = der[at + 1];
+    let value = der.slice(at + 2, at + 2 + length);
+    while (value.length > 32 && value[0] === 0) value = value.slice(1);
+    if (value.length > 32) throw new Error('Malformed signature');
+    const padded = new Uint8Array(32);
+    padded.set(value, 32 - value.length);
+    return { value: padded, next: at + 2 + length };
+  };
+  if (der[0] !== 0x30) throw new Error('Malformed signature');
+  const r = readInteger(2);
+  const s = readInteger(r.next);
+  const raw = new Uint8Array(64);
+  raw.set(r.value);
+  raw.set(s.value, 32);
+  return raw;
+}
+
+export type VerifiedRegistration = {
+  credentialId: string;
+  publicKey: string; // JWK as JSON
+  algorithm: number;
+  signCount: number;
+  backedUp: boolean;
+};
+
+/**
+ * Checks a new passkey from navigator.credentials.create() against the expected challenge and relying
+ * party, and extracts its public key. Throws PasskeyError (400) if it does not check out.
+ */
+export async function verifyRegistration(
+  response: { clientDataJSON: string; attestationObject: string },
+  credentialId: string,
+  expectedChallenge: string,
+  rp: RelyingParty,
+): Promise<VerifiedRegistration> {
+  const failure = new PasskeyError('The passkey could not be registered. Please try again.', 400);
+  const clientData = parseClientData(response.clientDataJSON, 'webauthn.create', rp, failure);
+  if (clientData.challenge !== expectedChallenge) {
+    throw failure;
+  }
+
+  try {
+    const { value: attestation } = decodeCbor(fromBase64Url(response.attestationObject));
+    const authDataBytes = attestation instanceof Map ? attestation.get('authData') : null;
+    if (!(authDataBytes instanceof Uint8Array)) {
+      throw failure;
+    }
+    const authData = parseAuthenticatorData(authDataBytes);
+    await checkAuthenticatorData(authData, rp, failure);
+    if (!authData.credential || authData.credential.id !== credentialId) {
+      throw failure;
+    }
+
+    const { algorithm, jwk } = coseToJwk(authData.credential.publicKey);
+    // Fails here rather than at sign-in if the key is not usable
+    await crypto.subtle.importKey('jwk', jwk, importParams(algorithm), false, ['verify']);
+
+    return {
+      credentialId,
+      publicKey: JSON.stringify(jwk),
+      algorithm,
+      signCount: authData.signCount,
+      backedUp: (authData.flags & FLAG_BACKED_UP) !== 0,
+    };
+  } catch (err) {
+    if (err instanceof PasskeyError) throw err;
+    throw failure;
+  }
+}
+
+export type StoredPasskey = {
+  public_key: string;
+  algorithm: number;
+  sign_count: number;
+};
+
+/**
+ * Checks a sign-in assertion from navigator.credentials.get() with the stored passkey. The challenge
+ * has already been matched. Returns the new signature counter. Throws PasskeyError (401) if it fails.
+ */
+export async function verifyAssertion(
+  response: { clientDataJSON: string; authenticatorData: string; signature: string },
+  passkey: StoredPasskey,
+  rp: RelyingParty,
+) {
+  const failure = new PasskeyError('Passkey sign-in failed', 401);
+  try {
+    const authDataBytes = fromBase64Url(response.authenticatorData);
+    const authData = parseAuthenticatorData(authDataBytes);
+    await checkAuthenticatorData(authData, rp, failure);
+
+    const clientDataHash = new Uint8Array(await crypto.subtle.digest('SHA-256', fromBase64Url(response.clientDataJSON)));
+    const signedData = new Uint8Array(authDataBytes.length + clientDataHash.length);
+    signedData.set(authDataBytes);
+    signedData.set(clientDataHash, authDataBytes.length);
+
+    const signature = fromBase64Url(response.signature);
+    const key = await crypto.subtle.importKey('jwk', JSON.parse(passkey.public_key), importParams(passkey.algorithm), false, ['verify']);
+    const valid = passkey.algorithm === COSE_ES256
+      ? await crypto.subtle.verify({ name: 'ECDSA', hash: 'SHA-256' }, key, derToRawSignature(signature), signedData)
+      : await crypto.subtle.verify('RSASSA-PKCS1-v1_5', key, signature, signedData);
+    if (!valid) {
+      throw failure;
+    }
+
+    // Authenticators that count signatures only ever count up; going backwards means the key was cloned.
+    // Synced passkeys always report zero.
+    if ((authData.signCount !== 0 || passkey.sign_count !== 0) && authData.signCount <= passkey.sign_count) {
+      throw failure;
+    }
+    return { signCount: authData.signCount };
+  } catch (err) {
+    if (err instanceof PasskeyError) throw err;
+    throw failure;
+  }
+}
+
+// The WebAuthn user handle identifies the account without any personal details: it is the user ID
+export function userHandleFor(userId: string) {
+  return toBase64Url(new TextEncoder().encode(userId));
+}
@@ -0,0 +1,7 @@
+declare module "cloudflare:test" {
+  interface ProvidedEnv extends Env {
+    TEST_MIGRATIONS: D1Migration[];
+  }
+}
+
+type Env = import("../src/worker/env").Env;
@@ -0,0 +1,164 @@
+// A software authenticator for the passkey tests. It creates credentials and signs assertions the way a
+// platform authenticator does, with attestation "none", so tests can build responses the recorded ones do not cover.
+
+import { fromBase64Url, toBase64Url } from "@/worker/encoding";
+import { COSE_ES256, COSE_RS256, type RelyingParty } from "@/worker/webauthn";
+
+export const FLAG_USER_PRESENT = 0x01;
+export const FLAG_USER_VERIFIED = 0x04;
+export const FLAG_BACKUP_ELIGIBLE = 0x08;
+export const FLAG_BACKED_UP = 0x10;
+const FLAG_ATTESTED_CREDENTIAL = 0x40;
+
+// What a synced passkey reports: present, verified and backed up
+export const SYNCED_PASSKEY_FLAGS = FLAG_USER_PRESENT | FLAG_USER_VERIFIED | FLAG_BACKUP_ELIGIBLE | FLAG_BACKED_UP;
+
+export type TestCredential = {
+  id: string;
+  algorithm: typeof COSE_ES256 | typeof COSE_RS256;
+  privateKey: JsonWebKey;
+  publicKey: JsonWebKey;
+};
+
+type CborInput = number | string | Uint8Array | CborInput[] | Map<number | string, CborInput>;
+
+function cborHeader(major: number, argument: number) {
+  if (argument < 24) return [(major << 5) | argument];
+  if (argument < 0x100) return [(major << 5) | 24, argument];
+  if (argument < 0x10000) return [(major << 5) | 25, argument >> 8, argument & 0xff];
+  return [(major << 5) | 26, (argument >>> 24) & 0xff, (argument >> 16) & 0xff, (argument >> 8) & 0xff, argument & 0xff];
+}
+
+export function encodeCbor(value: CborInput): Uint8Array {
+  const parts: ArrayLike<number>[] = [];
+  const write = (item: CborInput) => {
+    if (typeof item === "number") {
+      parts.push(item >= 0 ? cborHeader(0, item) : cborHeader(1, -1 - item));
+    } else if (typeof item === "string") {
+      const bytes = new TextEncoder().encode(item);
+      parts.push(cborHeader(3, bytes.length), bytes);
+    } else if (item instanceof Uint8Array) {
+      parts.push(cborHeader(2, item.length), item);
+    } else if (Array.isArray(item)) {
+      parts.push(cborHeader(4, item.length));
+      item.forEach(write);
+    } else {
+      parts.push(cborHeader(5, item.size));
+      for (const [key, entry] of item) {
+        write(key);
+        write(entry);
+      }
+    }
+  };
+  write(value);
+  return concat(...parts);
+}
+
+export function concat(...parts: ArrayLike<number>[]) {
+  const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+}
+
+function signingParams(algorithm: TestCredential["algorithm"]) {
+  return algorithm === COSE_ES256
+    ? { name: "ECDSA", namedCurve: "P-256", hash: "SHA-256" }
+    : { name: "RSASSA-PKCS1-v1_5", modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: "SHA-256" };
+}
+
+export async function createCredential(algorithm: TestCredential["algorithm"]): Promise<TestCredential> {
+  const keys = await crypto.subtle.generateKey(signingParams(algorithm), true, ["sign", "verify"]) as CryptoKeyPair;
+  return {
+    id: toBase64Url(crypto.getRandomValues(new Uint8Array(16))),
+    algorithm,
+    privateKey: await crypto.subtle.exportKey("jwk", keys.privateKey) as JsonWebKey,
+    publicKey: await crypto.subtle.exportKey("jwk", keys.publicKey) as JsonWebKey,
+  };
+}
+
+function coseKey({ algorithm, publicKey }: TestCredential) {
+  return algorithm === COSE_ES256
+    ? new Map<number, CborInput>([[1, 2], [3, COSE_ES256], [-1, 1], [-2, fromBase64Url(publicKey.x!)], [-3, fromBase64Url(publicKey.y!)]])
+    : new Map<number, CborInput>([[1, 3], [3, COSE_RS256], [-1, fromBase64Url(publicKey.n!)], [-2, fromBase64Url(publicKey.e!)]]);
+}
+
+type AuthenticatorDataOptions = {
+  rpId: string;
+  flags: number;
+  signCount: number;
+};
+
+async function authenticatorData({ rpId, flags, signCount }: AuthenticatorDataOptions, credential?: TestCredential) {
+  const rpIdHash = new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(rpId)));
+  const counter = new Uint8Array(4);
+  new DataView(counter.buffer).setUint32(0, signCount);
+  if (!credential) {
+    return concat(rpIdHash, [flags], counter);
+  }
+  const id = fromBase64Url(credential.id);
+  return concat(rpIdHash, [flags | FLAG_ATTESTED_CREDENTIAL], counter, new Uint8Array(16), [id.length >> 8, id.length & 0xff], id, encodeCbor(coseKey(credential)));
+}
+
+function clientDataJSON(type: string, challenge: string, origin: string) {
+  return toBase64Url(new TextEncoder().encode(JSON.stringify({ type, challenge, origin, crossOrigin: false })));
+}
+
+// WebCrypto signs ECDSA as raw r || s; authenticators send a DER sequence of two integers
+function rawToDerSignature(raw: Uint8Array) {
+  const integer = (bytes: Uint8Array) => {
+    let start = 0;
+    while (start < bytes.length - 1 && bytes[start] === 0) start++;
+    const value = bytes[start] & 0x80 ? concat([0], bytes.slice(start)) : bytes.slice(start);
+    return concat([0x02, value.length], value);
+  };
+  const body = concat(integer(raw.slice(0, 32)), integer(raw.slice(32)));
+  return concat([0x30, body.length], body);
+}
+
+type CeremonyOptions = Partial<AuthenticatorDataOptions> & {
+  challenge: string;
+  rp: RelyingParty;
+  type?: string;
+  origin?: string;
+};
+
+// A navigator.credentials.create() response for the credential, as PublicKeyCredential.toJSON() gives it
+export async function registrationResponse(credential: TestCredential, options: CeremonyOptions) {
+  const { challenge, rp, type = "webauthn.create", origin = rp.origin, rpId = rp.id, flags = SYNCED_PASSKEY_FLAGS, signCount = 0 } = options;
+  const authData = await authenticatorData({ rpId, flags, signCount }, credential);
+  return {
+    id: credential.id,
+    type: "public-key" as const,
+    response: {
+      clientDataJSON: clientDataJSON(type, challenge, origin),
+      attestationObject: toBase64Url(encodeCbor(new Map<string, CborInput>([["fmt", "none"], ["attStmt", new Map()], ["authData", authData]]))),
+    },
+  };
+}
+
+// A navigator.credentials.get() response signed with the credential
+export async function assertionResponse(credential: TestCredential, options: CeremonyOptions & { userHandle?: string }) {
+  const { challenge, rp, type = "webauthn.get", origin = rp.origin, rpId = rp.id, flags = SYNCED_PASSKEY_FLAGS, signCount = 0, userHandle } = options;
+  const authData = await authenticatorData({ rpId, flags, signCount });
+  const clientData = clientDataJSON(type, challenge, origin);
+  const clientDataHash = new Uint8Array(await crypto.subtle.digest("SHA-256", fromBase64Url(clientData)));
+
+  const params = signingParams(credential.algorithm);
+  const key = await crypto.subtle.importKey("jwk", credential.privateKey, params, false, ["sign"]);
+  const signature = new Uint8Array(await crypto.subtle.sign(params, key, concat(authData, clientDataHash)));
+
+  return {
+    id: credential.id,
+    type: "public-key" as const,
+    response: {
+      clientDataJSON: clientData,
+      authenticatorData: toBase64Url(authData),
+      signature: toBase64Url(credential.algorithm === COSE_ES256 ? rawToDerSignature(signature) : signature),
+      userHandle,
+    },
+  };
+}
@@ -0,0 +1,124 @@
+// Passkey ceremonies recorded from tests/fixtures/authenticator.ts for the relying party below, with attestation
+// "none". Each includes the credential's private key so tests can sign variations of the recorded assertion.
+
+import type { TestCredential } from "./authenticator";
+
+export const RP = { id: "securepay.example", origin: "https://securepay.example", name: "SecurePay" };
+
+// The user the passkeys were registered for; the assertions carry its user handle
+export const PASSKEY_USER_ID = "customer-1";
+
+type RecordedPasskey = {
+  credential: TestCredential;
+  registration: {
+    challenge: string;
+    credential: { id: string; type: "public-key"; response: { clientDataJSON: string; attestationObject: string } };
+  };
+  assertion: {
+    challenge: string;
+    credential: { id: string; type: "public-key"; response: { clientDataJSON: string; authenticatorData: string; signature: string; userHandle: string } };
+  };
+};
+
+// A synced passkey: backed up, and its signature counter is always zero
+export const ES256_PASSKEY: RecordedPasskey = {
+  credential: {
+    id: "0LsN6ZdtyXqzPRfe8uT4vA",
+    algorithm: -7,
+    privateKey: {
+      kty: "EC",
+      key_ops: ["sign"],
+      ext: true,
+      crv: "P-256",
+      x: "P5SNI7NIM9YT4KfhcS_sFSCtOHwXok7rWSEWP7TSuow",
+      y: "dp74Jy9rMudNsU7Sp0qqiBIcg8-U8C_536DvCjxiXAo",
+      d: "I_vPmKiGhYuHsUb6DbLEPBgVXtr6AF6PBP4jkQPaHZg",
+    },
+    publicKey: {
+      kty: "EC",
+      key_ops: ["verify"],
+      ext: true,
+      crv: "P-256",
+      x: "P5SNI7NIM9YT4KfhcS_sFSCtOHwXok7rWSEWP7TSuow",
+      y: "dp74Jy9rMudNsU7Sp0qqiBIcg8-U8C_536DvCjxiXAo",
+    },
+  },
+  registration: {
+    challenge: "SQJqHPnV1dG0sUkCpefuiofu3wORYpGKvQliGmukB68",
+    credential: {
+      id: "0LsN6ZdtyXqzPRfe8uT4vA",
+      type: "public-key",
+      response: {
+        clientDataJSON: "eyJ0eXBlIjoid2ViYXV0aG4uY3JlYXRlIiwiY2hhbGxlbmdlIjoiU1FKcUhQblYxZEcwc1VrQ3BlZnVpb2Z1M3dPUllwR0t2UWxpR211a0I2OCIsIm9yaWdpbiI6Imh0dHBzOi8vc2VjdXJlcGF5LmV4YW1wbGUiLCJjcm9zc09yaWdpbiI6ZmFsc2V9",
+        attestationObject: "o2NmbXRkbm9uZWdhdHRTdG10oGhhdXRoRGF0YViUhpBhf0RT5IoxGqmJhQNlbB6rUIM2iqrD2TTmgGTxuRZdAAAAAAAAAAAAAAAAAAAAAAAAAAAAENC7DemXbcl6sz0X3vLk-LylAQIDJiABIVggP5SNI7NIM9YT4KfhcS_sFSCtOHwXok7rWSEWP7TSuowiWCB2nvgnL2sy502xTtKnSqqIEhyDz5TwL_nfoO8KPGJcCg",
+      },
+    },
+  },
+  assertion: {
+    challenge: "5YbiYO1sXZjhlvlSy7ErC3nwIOqt2I2ZIA5DQzEMPqs",
+    credential: {
+      id: "0LsN6ZdtyXqzPRfe8uT4vA",
+      type: "public-key",
+      response: {
+        clientDataJSON: "eyJ0eXBlIjoid2ViYXV0aG4uZ2V0IiwiY2hhbGxlbmdlIjoiNVliaVlPMXNYWmpobHZsU3k3RXJDM253SU9xdDJJMlpJQTVEUXpFTVBxcyIsIm9yaWdpbiI6Imh0dHBzOi8vc2VjdXJlcGF5LmV4YW1wbGUiLCJjcm9zc09yaWdpbiI6ZmFsc2V9",
+        authenticatorData: "hpBhf0RT5IoxGqmJhQNlbB6rUIM2iqrD2TTmgGTxuRYdAAAAAA",
+        signature: "MEYCIQDt8zb2YJ6S4z2rmXi4UCvP8-TFo9KU5mwdmrNzGWP5HAIhALCFpdY_So8aKtxu3PxiY8__gTeW7ft-LnU7kszD-no3",
+        userHandle: "Y3VzdG9tZXItMQ",
+      },
+    },
+  },
+};
+
+// A device-bound passkey that counts signatures: registered at 1, signed in at 2
+export const RS256_PASSKEY: RecordedPasskey = {
+  credential: {
+    id: "QS6fx93LqaeblBlDTtHHyQ",
+    algorithm: -257,
+    privateKey: {
+      kty: "RSA",
+      key_ops: ["sign"],
+      alg: "RS256",
+      ext: true,
+      d: "F0zG-SbMyqiODIBW3rqlQK2ELaCeK2DcU0BFr92hmemrFD-PusNzAncsC1OEj4ai_tjKQf0lTfMG7CTl8YS7MTSrWdG_tFxJrFNwZxzXDnoU1_dltDEqgt-9U58u8QwIN1aF1_cIvHWPKxXJLX54wD6lbw2bzvM8GCUPQpLUMXtCCLPX45k0ybvx987SG5VwysP11_usJWr3EuSrssyS9VtEQKEFKKKE2DLp2wZ_JW2Pd9aTB0RcaMqvGzV12VdMKmwJBviBVFsIh0j4sTkAxvX7H2lIMLijeI7wyNx07NUpRM3HdsAvlvNBR5q6I0CwS_JarVr7_9fSLGWEHsQv-Q",
+      n: "tZpKUKSWBLL6v_hPAgKGwtfqDaIhdZig_6M7JPSFZdUxjB0qfxWf4Z78cBYpKdpqc6fNi5bR9EnjFQRfH8KFn3QXCBYWvvvQlbQPmtZe_85qCu_uFeqt3_LajEcECoC7KLZ29we1dEuN2XRqedy4pIIstxHCuv8xzhMCn1LKA7wVS0ikXvct2iBhhT-LjqPLg24QAKpAkG_-Lgjp6qSfxuyj5zjXQuhBvFYkfTm_uvOzloHc7VDO6yZuxQTmMC21jHcA0RNFu5bj2oRduNIjElXAEzztcp-7I8bXE7Owy3EWampbosq113L5uEKmlU7ZWNX6lTrhb00gczgLg8zqew",
+      e: "AQAB",
+      p: "8ms44ow_IAphc0dHg_v1tUuxDI6XHy_ZbSJuMbNGkQmTpaX_p_9MfJe1fFoPdDZHJQV0iNCx1G9IwgqstGRHXLySjYMgkVtl5999yiwa0P82dzoT45S-r5-o2dIKe_QGn9EhaOs30CLPDDxFqsQffnuMgvcgsX6W2_gWVOyWlNM",
+      q: "v8bXXpaSOqEBS6AlfLMC9QLBdIV_lo8PRH6maGeVqIGTlP44UsoE-YhvVWdl10ezbO1z15w4ke4EnhJcLly5WTOA6SiLgDY5_-nepd8zsKOflDBMQsD59WwFtsBCv71eAg4Oh86lmHoNjQmimWNITa1sGFj8geeNqweV8B-0ark",
+      dp: "iKh7Q_NN7rELaKIpJbVXOWG3KF4FwVYHGyfKuQfYYxDkBADFU55vLtmTPMvEZH3os20U2b_UT-6ANKsx2uug8x12_IGMTYUZuJJb5ing4CrPOH0sEyKaMIUv-cMXl_Lj_Ro23F-lchb9Y2di2rZ_Dp11g6ru6kBzqQN9C1joNnM",
+      dq: "LLIA-9CH4BYqIR__3KIz7DpqL-f1JnfNDR-fVPHfVVhttunQ4qqmoimEGRlyCMxzKs3kk7mbDZe1h8mrpjqCECIKx0xlxsnclqJA-9ObTm20AWuIOn6TQvmcE02XwOw3fq8b_9bPjUvU4KwAM1OKRGBIsxv6LaRzxgqMjVw2RjE",
+      qi: "a_eUs_AMNZ5QVLBHrk6ZSTI_eXvh5umtnsJmUkFZ7qpl4NjzDBPfYEc5-HYdNTeIJ22hUjXDdktcZxbmsP7G5XQ4nGLY27C1udiRfhtuBlpCq_Q14UytsvKnOv6xf64Kh8nDqhGGV2tqW7UVtNnVOYzP1_3xZ2fs7aoxhLGdI30",
+    },
+    publicKey: {
+      kty: "RSA",
+      key_ops: ["verify"],
+      alg: "RS256",
+      ext: true,
+      n: "tZpKUKSWBLL6v_hPAgKGwtfqDaIhdZig_6M7JPSFZdUxjB0qfxWf4Z78cBYpKdpqc6fNi5bR9EnjFQRfH8KFn3QXCBYWvvvQlbQPmtZe_85qCu_uFeqt3_LajEcECoC7KLZ29we1dEuN2XRqedy4pIIstxHCuv8xzhMCn1LKA7wVS0ikXvct2iBhhT-LjqPLg24QAKpAkG_-Lgjp6qSfxuyj5zjXQuhBvFYkfTm_uvOzloHc7VDO6yZuxQTmMC21jHcA0RNFu5bj2oRduNIjElXAEzztcp-7I8bXE7Owy3EWampbosq113L5uEKmlU7ZWNX6lTrhb00gczgLg8zqew",
+      e: "AQAB",
+    },
+  },
+  registration: {
+    challenge: "uhKz6q9h4jQ70oKVHpJK_lABsgBFM3_zuE-yAiuVIkU",
+    credential: {
+      id: "QS6fx93LqaeblBlDTtHHyQ",
+      type: "public-key",
+      response: {
+        clientDataJSON: "eyJ0eXBlIjoid2ViYXV0aG4uY3JlYXRlIiwiY2hhbGxlbmdlIjoidWhLejZxOWg0alE3MG9LVkhwSktfbEFCc2dCRk0zX3p1RS15QWl1VklrVSIsIm9yaWdpbiI6Imh0dHBzOi8vc2VjdXJlcGF5LmV4YW1wbGUiLCJjcm9zc09yaWdpbiI6ZmFsc2V9",
+        attestationObject: "o2NmbXRkbm9uZWdhdHRTdG10oGhhdXRoRGF0YVkBV4aQYX9EU-SKMRqpiYUDZWweq1CDNoqqw9k05oBk8bkWRQAAAAEAAAAAAAAAAAAAAAAAAAAAABBBLp_H3cupp5uUGUNO0cfJpAEDAzkBACBZAQC1mkpQpJYEsvq_-E8CAobC1-oNoiF1mKD_ozsk9IVl1TGMHSp_FZ_hnvxwFikp2mpzp82LltH0SeMVBF8fwoWfdBcIFha--9CVtA-a1l7_zmoK7-4V6q3f8tqMRwQKgLsotnb3B7V0S43ZdGp53Likgiy3EcK6_zHOEwKfUsoDvBVLSKRe9y3aIGGFP4uOo8uDbhAAqkCQb_4uCOnqpJ_G7KPnONdC6EG8ViR9Ob-687OWgdztUM7rJm7FBOYwLbWMdwDRE0W7luPahF240iMSVcATPO1yn7sjxtcTs7DLcRZqaluiyrXXcvm4QqaVTtlY1fqVOuFvTSBzOAuDzOp7IUMBAAE",
+      },
+    },
+  },
+  assertion: {
+    challenge: "1NAj4JNjU8BxM07DP-3UKUfmsI3k8UnjXk3k3wXlOJc",
+    credential: {
+      id: "QS6fx93LqaeblBlDTtHHyQ",
+      type: "public-key",
+      response: {
+        clientDataJSON: "eyJ0eXBlIjoid2ViYXV0aG4uZ2V0IiwiY2hhbGxlbmdlIjoiMU5BajRKTmpVOEJ4TTA3RFAtM1VLVWZtc0kzazhVbmpYazNrM3dYbE9KYyIsIm9yaWdpbiI6Imh0dHBzOi8vc2VjdXJlcGF5LmV4YW1wbGUiLCJjcm9zc09yaWdpbiI6ZmFsc2V9",
+        authenticatorData: "hpBhf0RT5IoxGqmJhQNlbB6rUIM2iqrD2TTmgGTxuRYFAAAAAg",
+        signature: "BAV8DHh0W6077WamK8Qg-DR80EcRvu7V8PmnDnalRGyY8Dalf2sXbcgn_rAmQGN0sswR3LVONJtYjW9iwiNJf3SKDJ5EKQ07AvW_MH1MX34P820gSxfl76mB8-KyHMl4E5s-1uCT92nXL65nFMD9wEWAYHcuCWf8f0Jjyi5VizFOJHevjoBtc7fRPwqU9RXxfvAU-OIPS6L6bhjqJZCSW889w_R7K72qHNUdjSpY7GYSTBYxlUnKcIYLFwzO4rXGJFlwdV0QNv4F8x8Tsu6CCJcnY7ZxCJHv1sWIJDwBdX5PNuQGXyaWRWnxGafGvdNaiXkKqIDZSkbtfItgzd4b4Q",
+        userHandle: "Y3VzdG9tZXItMQ",
+      },
+    },
+  },
+};
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { decodeCbor } from "@/worker/cbor";
+import { fromBase64Url } from "@/worker/encoding";
+import { ES256_PASSKEY, RS256_PASSKEY } from "../../fixtures/passkeys";
+
+function bytes(...values: number[]) {
+  return new Uint8Array(values);
+}
+
+describe("decodeCbor", () => {
+  it("decodes integers of every length", () => {
+    expect(decodeCbor(bytes(0x17)).value).toBe(23);
+    expect(decodeCbor(bytes(0x18, 0xff)).value).toBe(255);
+    expect(decodeCbor(bytes(0x19, 0x01, 0x00)).value).toBe(256);
+    expect(decodeCbor(bytes(0x1a, 0x00, 0x01, 0x00, 0x00)).value).toBe(65536);
+    expect(decodeCbor(bytes(0x1b, 0, 0, 0, 1, 0, 0, 0, 0)).value).toBe(2 ** 32);
+  });
+
+  it("decodes negative integers", () => {
+    expect(decodeCbor(bytes(0x26)).value).toBe(-7);
+    expect(decodeCbor(bytes(0x39, 0x01, 0x00)).value).toBe(-257);
+  });
+
+  it("decodes byte and text strings", () => {
+    expect(decodeCbor(bytes(0x43, 1, 2, 3)).value).toEqual(bytes(1, 2, 3));
+    expect(decodeCbor(bytes(0x64, 0x6e, 0x6f, 0x6e, 0x65)).value).toBe("none");
+  });
+
+  it("decodes arrays, maps and simple values", () => {
+    expect(decodeCbor(bytes(0x83, 0xf4, 0xf5, 0xf6)).value).toEqual([false, true, null]);
+    expect(decodeCbor(bytes(0xa2, 0x01, 0x02, 0x61, 0x61, 0x20)).value).toEqual(new Map<number | string, unknown>([[1, 2], ["a", -1]]));
+  });
+
+  it("reports how many bytes the first item took", () => {
+    expect(decodeCbor(bytes(0x43, 1, 2, 3, 0xff, 0xff))).toEqual({ value: bytes(1, 2, 3), length: 4 });
+  });
+
+  it("decodes recorded attestation objects", () => {
+    for (const passkey of [ES256_PASSKEY, RS256_PASSKEY]) {
+      const attestation = fromBase64Url(passkey.registration.credential.response.attestationObject);
+      const { value, length } = decodeCbor(attestation);
+
+      expect(length).toBe(attestation.length);
+      expect(value).toBeInstanceOf(Map);
+      expect((value as Map<string, unknown>).get("fmt")).toBe("none");
+      expect((value as Map<string, unknown>).get("attStmt")).toEqual(new Map());
+      expect((value as Map<string, unknown>).get("authData")).toBeInstanceOf(Uint8Array);
+    }
+  });
+});
+
+describe("decodeCbor with malformed data", () => {
+  it("refuses data cut short at any point", () => {
+    const attestation = fromBase64Url(ES256_PASSKEY.registration.credential.response.attestationObject);
+    for (let length = 0; length < attestation.length; length++) {
+      expect(() => decodeCbor(attestation.slice(0, length))).toThrow(Error);
+    }
+  });
+
+  it("refuses lengths longer than the data", () => {
+    expect(() => decodeCbor(bytes(0x5a, 0xff, 0xff, 0xff, 0xff, 1, 2))).toThrow("Unexpected end of CBOR data");
+    expect(() => decodeCbor(bytes(0x9a, 0xff, 0xff, 0xff, 0xff))).toThrow(Error);
+    expect(() => decodeCbor(bytes(0xba, 0xff, 0xff, 0xff, 0xff))).toThrow("Unexpected end of CBOR data");
+  });
+
+  it("refuses indefinite lengths and reserved length encodings", () => {
+    expect(() => decodeCbor(bytes(0x5f, 0x41, 0x01, 0xff))).toThrow("Unsupported CBOR length encoding");
+    expect(() => decodeCbor(bytes(0x1c))).toThrow("Unsupported CBOR length encoding");
+  });
+
+  it("refuses integers too large to represent exactly", () => {
+    expect(() => decodeCbor(bytes(0x1b, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff))).toThrow("CBOR integer is too large");
+  });
+
+  it("refuses tags, floats and other simple values", () => {
+    expect(() => decodeCbor(bytes(0xc0, 0x60))).toThrow("Unsupported CBOR item");
+    expect(() => decodeCbor(bytes(0xf9, 0x3c, 0x00))).toThrow("Unsupported CBOR simple value");
+    expect(() => decodeCbor(bytes(0xf7))).toThrow("Unsupported CBOR simple value");
+  });
+
+  it("refuses map keys that are not integers or text", () => {
+    expect(() => decodeCbor(bytes(0xa1, 0x41, 0x00, 0x01))).toThrow("Unsupported CBOR map key");
+  });
+});
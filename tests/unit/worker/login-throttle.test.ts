@@ -0,0 +1,252 @@
+import { env } from "cloudflare:test";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  LOCKOUT_THRESHOLD,
+  LoginThrottledError,
+  checkLoginThrottle,
+  clearLoginFailures,
+  loginThrottleKeys,
+  notifyAccountLocked,
+  recordLoginFailure,
+  type ThrottleKeys,
+} from "@/worker/login-throttle";
+
+const IP = "198.51.100.7";
+const OTHER_IP = "203.0.113.9";
+
+// Records `times` failures; returns whether the last one locked the username
+async function fail(keys: ThrottleKeys, times = 1) {
+  let lockedOut = false;
+  for (let i = 0; i < times; i++) {
+    lockedOut = await recordLoginFailure(env.DB, keys);
+  }
+  return lockedOut;
+}
+
+// Seconds until the next attempt is allowed, or 0 when it is allowed now
+async function waitFor(keys: ThrottleKeys) {
+  try {
+    await checkLoginThrottle(env.DB, keys);
+    return 0;
+  } catch (err) {
+    if (!(err instanceof LoginThrottledError)) throw err;
+    return err.retryAfterSeconds;
+  }
+}
+
+async function throttleError(keys: ThrottleKeys) {
+  return checkLoginThrottle(env.DB, keys).then(() => null, (err: LoginThrottledError) => err);
+}
+
+function advance(ms: number) {
+  vi.setSystemTime(Date.now() + ms);
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(new Date("2025-03-03T09:00:00.000Z"));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("backoff", () => {
+  it("lets the first three failures through without a wait", async () => {
+    const keys = loginThrottleKeys("customer", "alice", IP);
+    await fail(keys, 3);
+
+    expect(await waitFor(keys)).toBe(0);
+  });
+
+  it("doubles the wait with each further failure", async () => {
+    const keys = loginThrottleKeys("customer", "alice", IP);
+    await fail(keys, 3);
+
+    const waits = [];
+    for (let i = 0; i < 6; i++) {
+      await fail(keys);
+      waits.push(await waitFor(keys));
+    }
+    expect(waits).toEqual([1, 2, 4, 8, 16, 32]);
+  });
+
+  it("allows the next attempt once the wait has passed", async () => {
+    const keys = loginThrottleKeys("customer", "alice", IP);
+    await fail(keys, 5);
+    expect(await waitFor(keys)).toBe(2);
+
+    advance(1000);
+    expect(await waitFor(keys)).toBe(1);
+    advance(1000);
+    expect(await waitFor(keys)).toBe(0);
+  });
+
+  it("says how long to wait", async () => {
+    const keys = loginThrottleKeys("customer", "alice", IP);
+    await fail(keys, 4);
+
+    expect((await throttleError(keys))?.message).toBe("Too many failed sign-in attempts. Try again in 1 second.");
+  });
+
+  it("starts counting again after a day without failures", async () => {
+    const keys = loginThrottleKeys("customer", "alice", IP);
+    await fail(keys, 5);
+
+    advance(24 * 60 * 60 * 1000 + 1);
+    await fail(keys);
+    expect(await waitFor(keys)).toBe(0);
+  });
+});
+
+describe("lockout", () => {
+  it(`locks the username at ${LOCKOUT_THRESHOLD} failures`, async () => {
+    const keys = loginThrottleKeys("customer", "alice", IP);
+
+    expect(await fail(keys, LOCKOUT_THRESHOLD - 1)).toBe(false);
+    expect(await fail(keys)).toBe(true);
+    expect(await waitFor(keys)).toBe(30 * 60);
+  });
+
+  it("reports the lockout only on the failure that caused it", async () => {
+    const keys = loginThrottleKeys("customer", "alice", IP);
+    await fail(keys, LOCKOUT_THRESHOLD);
+
+    expect(await fail(keys)).toBe(false);
+  });
+
+  it("tells customers they can reset their password to unlock", async () => {
+    const keys = loginThrottleKeys("customer", "alice", IP);
+    await fail(keys, LOCKOUT_THRESHOLD);
+
+    expect((await throttleError(keys))?.message).toBe(
+      "Too many failed sign-in attempts. This account is locked for 30 minutes, or reset your password to unlock it now.",
+    );
+  });
+
+  it("does not offer employees a password reset", async () => {
+    const keys = loginThrottleKeys("employee", "staff1", IP);
+    await fail(keys, LOCKOUT_THRESHOLD);
+
+    expect((await throttleError(keys))?.message).toBe("Too many failed sign-in attempts. This account is locked for 30 minutes.");
+  });
+
+  it("unlocks after 30 minutes", async () => {
+    const keys = loginThrottleKeys("customer", "alice", IP);
+    await fail(keys, LOCKOUT_THRESHOLD);
+
+    advance(30 * 60 * 1000);
+    expect(await waitFor(keys)).toBe(0);
+  });
+
+  it("is lifted by clearing the username's failures", async () => {
+    const keys = loginThrottleKeys("customer", "alice", IP);
+    await fail(keys, LOCKOUT_THRESHOLD);
+
+    await clearLoginFailures(env.DB, keys.account);
+    expect(await waitFor(keys)).toBe(0);
+  });
+});
+
+describe("per account and per IP address", () => {
+  it("throttles a username from every IP address", async () => {
+    await fail(loginThrottleKeys("customer", "alice", IP), 4);
+
+    expect(await waitFor(loginThrottleKeys("customer", "alice", OTHER_IP))).toBe(1);
+    expect(await waitFor(loginThrottleKeys("customer", "alice", null))).toBe(1);
+  });
+
+  it("does not throttle other usernames from the same IP address", async () => {
+    await fail(loginThrottleKeys("customer", "alice", IP), LOCKOUT_THRESHOLD);
+
+    expect(await waitFor(loginThrottleKeys("customer", "bob", IP))).toBe(0);
+  });
+
+  it("throttles an IP address after 20 failures across usernames", async () => {
+    for (let i = 0; i < 20; i++) {
+      await fail(loginThrottleKeys("customer", `user${i}`, IP));
+    }
+    expect(await waitFor(loginThrottleKeys("customer", "bob", IP))).toBe(0);
+
+    await fail(loginThrottleKeys("customer", "user20", IP));
+    expect(await waitFor(loginThrottleKeys("customer", "bob", IP))).toBe(1);
+    expect(await waitFor(loginThrottleKeys("customer", "bob", OTHER_IP))).toBe(0);
+  });
+
+  it("caps an IP address's wait at 15 minutes and never locks it", async () => {
+    for (let i = 0; i < 40; i++) {
+      await fail(loginThrottleKeys("customer", `user${i}`, IP));
+    }
+
+    expect(await waitFor(loginThrottleKeys("customer", "bob", IP))).toBe(15 * 60);
+  });
+
+  it("keeps the IP address's failures when a username's are cleared", async () => {
+    for (let i = 0; i < 20; i++) {
+      await fail(loginThrottleKeys("customer", `user${i}`, IP));
+    }
+    const keys = loginThrottleKeys("customer", "alice", IP);
+    await fail(keys);
+
+    await clearLoginFailures(env.DB, keys.account);
+    expect(await waitFor(keys)).toBe(1);
+  });
+
+  it("counts customers and employees with the same username separately", async () => {
+    await fail(loginThrottleKeys("employee", "alice", null), LOCKOUT_THRESHOLD);
+
+    expect(await waitFor(loginThrottleKeys("customer", "alice", null))).toBe(0);
+  });
+});
+
+describe("notifyAccountLocked", () => {
+  beforeEach(async () => {
+    await env.DB.prepare(
+      `INSERT INTO users (id, email, username, account_number, role) VALUES
+         ('customer-1', 'alice@example.com', 'alice', '1234567890', 'customer'),
+         ('employee-1', 'staff1@example.com', 'staff1', NULL, 'employee')`
+    ).run();
+  });
+
+  async function notificationsFor(userId: string) {
+    const { results } = await env.DB.prepare("SELECT title, message, category, priority, status FROM notifications WHERE user_id = ?")
+      .bind(userId).all();
+    return results;
+  }
+
+  it("adds an urgent security notification for the account's owner", async () => {
+    const locked = await notifyAccountLocked(env.DB, loginThrottleKeys("customer", "alice", IP), "alice");
+
+    expect(locked).toEqual({ email: "alice@example.com", message: expect.stringContaining(`after ${LOCKOUT_THRESHOLD} failed attempts`) });
+    expect(await notificationsFor("customer-1")).toEqual([{
+      title: "Account Locked",
+      message: locked?.message,
+      category: "security",
+      priority: "urgent",
+      status: "unread",
+    }]);
+  });
+
+  it("tells customers a password reset unlocks the account", async () => {
+    const locked = await notifyAccountLocked(env.DB, loginThrottleKeys("customer", "alice", IP), "alice");
+
+    expect(locked?.message).toContain("unlocks in 30 minutes, or straight away if you reset your password");
+  });
+
+  it("does not offer employees a password reset", async () => {
+    const locked = await notifyAccountLocked(env.DB, loginThrottleKeys("employee", "staff1", IP), "staff1");
+
+    expect(locked?.message).toContain("unlocks in 30 minutes.");
+    expect(locked?.message).not.toContain("reset your password");
+  });
+
+  it("does nothing for a username nobody has", async () => {
+    expect(await notifyAccountLocked(env.DB, loginThrottleKeys("customer", "mallory", IP), "mallory")).toBeNull();
+    expect(await env.DB.prepare("SELECT COUNT(*) AS count FROM notifications").first("count")).toBe(0);
+  });
+
+  it("only notifies an account with the role that was signing in", async () => {
+    expect(await notifyAccountLocked(env.DB, loginThrottleKeys("customer", "staff1", IP), "staff1")).toBeNull();
+    expect(await notificationsFor("employee-1")).toEqual([]);
+  });
+});
@@ -0,0 +1,155 @@
+import { env } from "cloudflare:test";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { authenticateWithPasskey, listPasskeys, registerPasskey } from "@/worker/passkeys";
+import { PasskeyError } from "@/worker/webauthn";
+import { ES256_PASSKEY, PASSKEY_USER_ID, RP, RS256_PASSKEY } from "../../fixtures/passkeys";
+
+const OTHER_USER_ID = "customer-2";
+const NOW = new Date("2025-03-03T09:00:00.000Z");
+
+function advance(ms: number) {
+  vi.setSystemTime(Date.now() + ms);
+}
+
+// Stores a recorded ceremony's challenge as if its options had just been issued
+async function issueChallenge(challenge: string, type: "registration" | "authentication", userId: string | null) {
+  await env.DB.prepare(
+    "INSERT INTO webauthn_challenges (challenge, user_id, type, created_at, expires_at) VALUES (?, ?, ?, ?, ?)"
+  ).bind(challenge, userId, type, new Date().toISOString(), new Date(Date.now() + 5 * 60 * 1000).toISOString()).run();
+}
+
+async function register(passkey: typeof ES256_PASSKEY) {
+  return registerPasskey(env.DB, PASSKEY_USER_ID, { name: "Phone", credential: passkey.registration.credential }, RP);
+}
+
+async function registered(passkey: typeof ES256_PASSKEY) {
+  await issueChallenge(passkey.registration.challenge, "registration", PASSKEY_USER_ID);
+  await register(passkey);
+}
+
+async function signIn(passkey: typeof ES256_PASSKEY) {
+  return authenticateWithPasskey(env.DB, passkey.assertion.credential, RP);
+}
+
+async function rejection(promise: Promise<unknown>) {
+  return promise.then(() => null, (err: Error) => err);
+}
+
+function expectRejected(err: Error | null, status: 400 | 401) {
+  expect(err).toBeInstanceOf(PasskeyError);
+  expect((err as PasskeyError).status).toBe(status);
+}
+
+async function storedSignCount(passkey: typeof ES256_PASSKEY) {
+  return env.DB.prepare("SELECT sign_count FROM passkeys WHERE id = ?").bind(passkey.credential.id).first("sign_count");
+}
+
+beforeEach(async () => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(NOW);
+  await env.DB.prepare(
+    `INSERT INTO users (id, email, username, account_number, role) VALUES
+       (?, 'alice@example.com', 'alice', '1234567890', 'customer'),
+       (?, 'bob@example.com', 'bob', '9876543210', 'customer')`
+  ).bind(PASSKEY_USER_ID, OTHER_USER_ID).run();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("registerPasskey", () => {
+  it("saves a passkey registered against a challenge issued to the customer", async () => {
+    await issueChallenge(ES256_PASSKEY.registration.challenge, "registration", PASSKEY_USER_ID);
+
+    const passkey = await register(ES256_PASSKEY);
+
+    expect(passkey).toMatchObject({ id: ES256_PASSKEY.credential.id, name: "Phone", backed_up: true, last_used_at: null });
+    expect(await listPasskeys(env.DB, PASSKEY_USER_ID)).toEqual([passkey]);
+  });
+
+  it("refuses a challenge that has already been used", async () => {
+    await registered(ES256_PASSKEY);
+
+    const err = await rejection(register(ES256_PASSKEY));
+
+    expectRejected(err, 400);
+    expect(err!.message).toBe("The passkey could not be registered. Please try again.");
+  });
+
+  it("refuses a challenge issued to another customer", async () => {
+    await issueChallenge(ES256_PASSKEY.registration.challenge, "registration", OTHER_USER_ID);
+
+    expectRejected(await rejection(register(ES256_PASSKEY)), 400);
+    expect(await listPasskeys(env.DB, PASSKEY_USER_ID)).toEqual([]);
+  });
+
+  it("refuses a challenge issued for signing in", async () => {
+    await issueChallenge(ES256_PASSKEY.registration.challenge, "authentication", null);
+
+    expectRejected(await rejection(register(ES256_PASSKEY)), 400);
+  });
+
+  it("refuses a challenge that has expired", async () => {
+    await issueChallenge(ES256_PASSKEY.registration.challenge, "registration", PASSKEY_USER_ID);
+    advance(5 * 60 * 1000);
+
+    expectRejected(await rejection(register(ES256_PASSKEY)), 400);
+  });
+});
+
+describe("authenticateWithPasskey", () => {
+  it("signs the customer in and records the use", async () => {
+    await registered(RS256_PASSKEY);
+    await issueChallenge(RS256_PASSKEY.assertion.challenge, "authentication", null);
+
+    expect(await signIn(RS256_PASSKEY)).toBe(PASSKEY_USER_ID);
+    expect(await storedSignCount(RS256_PASSKEY)).toBe(2);
+    expect((await listPasskeys(env.DB, PASSKEY_USER_ID))[0].last_used_at).toBe(NOW.toISOString());
+  });
+
+  it("refuses a replayed sign-in", async () => {
+    await registered(ES256_PASSKEY);
+    await issueChallenge(ES256_PASSKEY.assertion.challenge, "authentication", null);
+    await signIn(ES256_PASSKEY);
+
+    expectRejected(await rejection(signIn(ES256_PASSKEY)), 401);
+  });
+
+  it("refuses a challenge that was never issued", async () => {
+    await registered(ES256_PASSKEY);
+
+    expectRejected(await rejection(signIn(ES256_PASSKEY)), 401);
+  });
+
+  it("refuses a passkey that is not registered", async () => {
+    await issueChallenge(ES256_PASSKEY.assertion.challenge, "authentication", null);
+
+    expectRejected(await rejection(signIn(ES256_PASSKEY)), 401);
+  });
+
+  it("refuses a user handle for another customer", async () => {
+    await registered(ES256_PASSKEY);
+    await env.DB.prepare("UPDATE passkeys SET user_id = ? WHERE id = ?").bind(OTHER_USER_ID, ES256_PASSKEY.credential.id).run();
+    await issueChallenge(ES256_PASSKEY.assertion.challenge, "authentication", null);
+
+    expectRejected(await rejection(signIn(ES256_PASSKEY)), 401);
+  });
+
+  it("does not let employees sign in with a passkey", async () => {
+    await registered(ES256_PASSKEY);
+    await env.DB.prepare("UPDATE users SET role = 'employee' WHERE id = ?").bind(PASSKEY_USER_ID).run();
+    await issueChallenge(ES256_PASSKEY.assertion.challenge, "authentication", null);
+
+    expectRejected(await rejection(signIn(ES256_PASSKEY)), 401);
+  });
+
+  it("refuses a signature counter lower than the last one seen, leaving the stored counter alone", async () => {
+    await registered(RS256_PASSKEY);
+    await env.DB.prepare("UPDATE passkeys SET sign_count = 7 WHERE id = ?").bind(RS256_PASSKEY.credential.id).run();
+    await issueChallenge(RS256_PASSKEY.assertion.challenge, "authentication", null);
+
+    expectRejected(await rejection(signIn(RS256_PASSKEY)), 401);
+    expect(await storedSignCount(RS256_PASSKEY)).toBe(7);
+  });
+});
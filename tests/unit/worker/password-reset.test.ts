@@ -0,0 +1,137 @@
+import { env } from "cloudflare:test";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { sha256Hex } from "@/worker/encoding";
+import {
+  LOCKOUT_THRESHOLD,
+  LoginThrottledError,
+  checkLoginThrottle,
+  loginThrottleKeys,
+  recordLoginFailure,
+} from "@/worker/login-throttle";
+import { hashPassword, verifyPassword } from "@/worker/password";
+import { createPasswordReset, resetPassword } from "@/worker/password-reset";
+import { createSession } from "@/worker/session";
+
+const OLD_PASSWORD = "Old-password-123";
+const NEW_PASSWORD = "New-password-456!";
+const IP = "198.51.100.7";
+
+async function addUser(id: string, username: string, role: "customer" | "employee") {
+  await env.DB.prepare(
+    "INSERT INTO users (id, email, username, account_number, role, password_hash) VALUES (?, ?, ?, ?, ?, ?)"
+  ).bind(id, `${username}@example.com`, username, role === "customer" ? "1234567890" : null, role, await hashPassword(OLD_PASSWORD, env.PASSWORD_PEPPER)).run();
+}
+
+async function passwordHashOf(userId: string): Promise<string> {
+  return env.DB.prepare("SELECT password_hash FROM users WHERE id = ?").bind(userId).first("password_hash");
+}
+
+beforeEach(async () => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(new Date("2025-03-03T09:00:00.000Z"));
+  await addUser("customer-1", "alice", "customer");
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("createPasswordReset", () => {
+  it("stores only a digest of the token, valid for an hour", async () => {
+    const { token, expiresAt } = await createPasswordReset(env.DB, "customer-1");
+
+    expect(expiresAt).toBe("2025-03-03T10:00:00.000Z");
+    const { results } = await env.DB.prepare("SELECT token_hash FROM password_resets WHERE user_id = ?").bind("customer-1").all();
+    expect(results).toEqual([{ token_hash: await sha256Hex(token) }]);
+  });
+
+  it("replaces an earlier link that was not used", async () => {
+    const first = await createPasswordReset(env.DB, "customer-1");
+    const second = await createPasswordReset(env.DB, "customer-1");
+
+    expect(await resetPassword(env.DB, env.PASSWORD_PEPPER, first.token, NEW_PASSWORD)).toBe(false);
+    expect(await resetPassword(env.DB, env.PASSWORD_PEPPER, second.token, NEW_PASSWORD)).toBe(true);
+  });
+});
+
+describe("resetPassword", () => {
+  it("sets the new password", async () => {
+    const { token } = await createPasswordReset(env.DB, "customer-1");
+
+    expect(await resetPassword(env.DB, env.PASSWORD_PEPPER, token, NEW_PASSWORD)).toBe(true);
+    const stored = await passwordHashOf("customer-1");
+    expect(await verifyPassword(NEW_PASSWORD, env.PASSWORD_PEPPER, stored)).toBe(true);
+    expect(await verifyPassword(OLD_PASSWORD, env.PASSWORD_PEPPER, stored)).toBe(false);
+  });
+
+  it("signs the customer out everywhere and tells them", async () => {
+    await createSession(env.DB, "customer-1", { userAgent: null, ipAddress: IP });
+    await createSession(env.DB, "customer-1", { userAgent: null, ipAddress: null });
+    const { token } = await createPasswordReset(env.DB, "customer-1");
+
+    await resetPassword(env.DB, env.PASSWORD_PEPPER, token, NEW_PASSWORD);
+    expect(await env.DB.prepare("SELECT COUNT(*) AS count FROM sessions WHERE user_id = ?").bind("customer-1").first("count")).toBe(0);
+    const { results } = await env.DB.prepare("SELECT title, category, priority FROM notifications WHERE user_id = ?").bind("customer-1").all();
+    expect(results).toEqual([{ title: "Password Changed", category: "security", priority: "high" }]);
+  });
+
+  it("accepts a token only once", async () => {
+    const { token } = await createPasswordReset(env.DB, "customer-1");
+
+    expect(await resetPassword(env.DB, env.PASSWORD_PEPPER, token, NEW_PASSWORD)).toBe(true);
+    expect(await resetPassword(env.DB, env.PASSWORD_PEPPER, token, "Another-password-789")).toBe(false);
+    expect(await verifyPassword(NEW_PASSWORD, env.PASSWORD_PEPPER, await passwordHashOf("customer-1"))).toBe(true);
+  });
+
+  it("refuses a token after an hour", async () => {
+    const { token } = await createPasswordReset(env.DB, "customer-1");
+
+    vi.setSystemTime(new Date("2025-03-03T10:00:00.000Z"));
+    expect(await resetPassword(env.DB, env.PASSWORD_PEPPER, token, NEW_PASSWORD)).toBe(false);
+    expect(await verifyPassword(OLD_PASSWORD, env.PASSWORD_PEPPER, await passwordHashOf("customer-1"))).toBe(true);
+  });
+
+  it("refuses an unknown token", async () => {
+    expect(await resetPassword(env.DB, env.PASSWORD_PEPPER, "not-a-token", NEW_PASSWORD)).toBe(false);
+  });
+
+  it("does not reset an employee's password", async () => {
+    await addUser("employee-1", "staff1", "employee");
+    const { token } = await createPasswordReset(env.DB, "employee-1");
+
+    expect(await resetPassword(env.DB, env.PASSWORD_PEPPER, token, NEW_PASSWORD)).toBe(false);
+    expect(await verifyPassword(OLD_PASSWORD, env.PASSWORD_PEPPER, await passwordHashOf("employee-1"))).toBe(true);
+  });
+});
+
+describe("unlocking with a password reset", () => {
+  const keys = loginThrottleKeys("customer", "alice", IP);
+
+  beforeEach(async () => {
+    for (let i = 0; i < LOCKOUT_THRESHOLD; i++) {
+      await recordLoginFailure(env.DB, keys);
+    }
+  });
+
+  it("lifts a lockout straight away", async () => {
+    await expect(checkLoginThrottle(env.DB, keys)).rejects.toBeInstanceOf(LoginThrottledError);
+    const { token } = await createPasswordReset(env.DB, "customer-1");
+
+    await resetPassword(env.DB, env.PASSWORD_PEPPER, token, NEW_PASSWORD);
+    await expect(checkLoginThrottle(env.DB, keys)).resolves.toBeUndefined();
+  });
+
+  it("keeps the IP address's failures", async () => {
+    const { token } = await createPasswordReset(env.DB, "customer-1");
+
+    await resetPassword(env.DB, env.PASSWORD_PEPPER, token, NEW_PASSWORD);
+    const { results } = await env.DB.prepare("SELECT scope, key, failures FROM login_throttles").all();
+    expect(results).toEqual([{ scope: "ip", key: IP, failures: LOCKOUT_THRESHOLD }]);
+  });
+
+  it("leaves the lockout in place when the token is refused", async () => {
+    await resetPassword(env.DB, env.PASSWORD_PEPPER, "not-a-token", NEW_PASSWORD);
+
+    await expect(checkLoginThrottle(env.DB, keys)).rejects.toBeInstanceOf(LoginThrottledError);
+  });
+});
@@ -0,0 +1,168 @@
+import { env } from "cloudflare:test";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Currency } from "@/shared/types";
+import { createQuote } from "@/worker/fx";
+import { PaymentLimitError } from "@/worker/limits";
+import { InsufficientFundsError, buildPaymentStatements, generateTransactionId, runPaymentBatch } from "@/worker/payments";
+
+const USER_ID = "customer-1";
+const NOW = "2025-03-03T09:00:00.000Z";
+
+async function credit(amount: number, currency = "USD") {
+  const entryId = crypto.randomUUID();
+  await env.DB.batch([
+    env.DB.prepare("INSERT INTO ledger_entries (id, kind, transaction_id, description, created_at) VALUES (?, 'deposit', NULL, 'Deposit', ?)").bind(entryId, NOW),
+    env.DB.prepare("INSERT INTO ledger_postings (entry_id, account_id, amount) VALUES (?, ?, ?)").bind(entryId, `customer_available:${currency}:${USER_ID}`, amount),
+  ]);
+}
+
+async function setLimits(limits: { currency?: Currency; per_transaction?: number; daily_limit?: number; monthly_limit?: number }) {
+  await env.DB.prepare(
+    `INSERT INTO payment_limits (user_id, currency, per_transaction, daily_limit, monthly_limit, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?)`
+  ).bind(USER_ID, limits.currency ?? null, limits.per_transaction ?? null, limits.daily_limit ?? null, limits.monthly_limit ?? null, NOW).run();
+}
+
+// Books the payments in one batch, the way POST /api/payment-batches does, without checking limits first
+async function bookFrom(sourceCurrency: Currency, ...amounts: number[]) {
+  const quotes = await Promise.all(amounts.map(amount => createQuote(env.DB, USER_ID, { amount, currency: "USD", swift_code: "DEUTDEFF", source_currency: sourceCurrency })));
+  const statements = quotes.flatMap(quote => buildPaymentStatements(
+    env.DB,
+    generateTransactionId(),
+    { userId: USER_ID, amount: quote.amount, currency: quote.currency, recipient_account: "DE89370400440532013000", swift_code: "DEUTDEFF" },
+    quote,
+    { id: USER_ID, role: "customer" },
+    new Date().toISOString(),
+  ));
+  await runPaymentBatch(env.DB, USER_ID, quotes, statements);
+}
+
+async function book(...amounts: number[]) {
+  await bookFrom("USD", ...amounts);
+}
+
+async function bookingError(...amounts: number[]) {
+  return book(...amounts).then(() => null, (err: Error) => err);
+}
+
+async function paymentCount() {
+  const row = await env.DB.prepare("SELECT COUNT(*) AS count FROM transactions WHERE user_id = ?").bind(USER_ID).first();
+  return row.count;
+}
+
+beforeEach(async () => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(new Date(NOW));
+  await credit(10000);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("funds", () => {
+  it("books a payment the wallet can cover", async () => {
+    await book(100);
+
+    expect(await paymentCount()).toBe(1);
+  });
+
+  it("refuses a payment that would overdraw the wallet, with nothing booked", async () => {
+    const err = await bookingError(9000, 2000);
+
+    expect(err).toBeInstanceOf(InsufficientFundsError);
+    expect(err?.message).toBe("Insufficient funds");
+    expect(await paymentCount()).toBe(0);
+  });
+
+  it("asks the customer to have a wallet that was never credited funded first", async () => {
+    const err = await bookFrom("EUR", 100).then(() => null, (err: Error) => err);
+
+    expect(err).toBeInstanceOf(InsufficientFundsError);
+    expect(err?.message).toBe("Insufficient funds: your EUR account has not been funded yet. Please contact the bank to make a deposit before sending payments.");
+    expect(await paymentCount()).toBe(0);
+  });
+});
+
+describe("limits", () => {
+  it("refuses a payment over the per-transaction limit", async () => {
+    await setLimits({ per_transaction: 50 });
+
+    const err = await bookingError(60);
+
+    expect(err).toBeInstanceOf(PaymentLimitError);
+    expect((err as PaymentLimitError).code).toBe("PER_TRANSACTION_LIMIT_EXCEEDED");
+  });
+
+  it("counts payments already booked today against the daily limit", async () => {
+    await setLimits({ daily_limit: 100 });
+    await book(60);
+
+    const err = await bookingError(60);
+
+    expect(err).toBeInstanceOf(PaymentLimitError);
+    expect((err as PaymentLimitError).code).toBe("DAILY_LIMIT_EXCEEDED");
+    expect(await paymentCount()).toBe(1);
+  });
+
+  it("counts earlier payments in the same batch, refusing the batch as a whole", async () => {
+    await setLimits({ daily_limit: 100 });
+
+    expect(await bookingError(60, 60)).toBeInstanceOf(PaymentLimitError);
+    expect(await paymentCount()).toBe(0);
+  });
+
+  it("allows payments up to the limit exactly", async () => {
+    await setLimits({ daily_limit: 100 });
+    await book(60, 40);
+
+    expect(await paymentCount()).toBe(2);
+  });
+
+  it("counts payments from earlier in the month against the monthly limit", async () => {
+    await setLimits({ monthly_limit: 100 });
+    await book(60);
+    vi.setSystemTime(new Date("2025-03-04T09:00:00.000Z"));
+
+    const err = await bookingError(60);
+
+    expect((err as PaymentLimitError).code).toBe("MONTHLY_LIMIT_EXCEEDED");
+  });
+
+  it("starts counting again in a new month", async () => {
+    await setLimits({ monthly_limit: 100 });
+    await book(60);
+    vi.setSystemTime(new Date("2025-04-01T00:00:00.000Z"));
+
+    await book(60);
+
+    expect(await paymentCount()).toBe(2);
+  });
+
+  it("does not count stopped payments", async () => {
+    await setLimits({ daily_limit: 100 });
+    await book(60);
+    await env.DB.prepare("UPDATE transactions SET status = 'Cancelled' WHERE user_id = ?").bind(USER_ID).run();
+
+    await book(60);
+
+    expect(await paymentCount()).toBe(2);
+  });
+
+  it("applies a currency's limit only to payments in that currency", async () => {
+    await setLimits({ currency: "EUR", daily_limit: 10 });
+
+    await book(60);
+
+    expect(await paymentCount()).toBe(1);
+  });
+
+  it("lets the customer's own limit replace the default", async () => {
+    await setLimits({ per_transaction: 30000 });
+    await credit(30000);
+
+    await book(26000);
+
+    expect(await paymentCount()).toBe(1);
+  });
+});
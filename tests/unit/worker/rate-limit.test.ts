@@ -0,0 +1,179 @@
+import { env } from "cloudflare:test";
+import { Hono } from "hono";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Env } from "@/worker/env";
+import { RATE_LIMITS, pruneRateLimitBuckets, rateLimit, takeToken } from "@/worker/rate-limit";
+
+const PAYMENTS = RATE_LIMITS.payments;
+
+function advance(ms: number) {
+  vi.setSystemTime(Date.now() + ms);
+}
+
+// Takes `times` tokens; returns the wait the last one was given
+async function take(key: string, times = 1) {
+  let retryAfterSeconds = 0;
+  for (let i = 0; i < times; i++) {
+    retryAfterSeconds = await takeToken(env.DB, key, PAYMENTS);
+  }
+  return retryAfterSeconds;
+}
+
+// An app with two limited groups. The X-Session header stands in for a session from authMiddleware.
+const app = new Hono<{ Bindings: Env }>();
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+app.use("*", async (c: any, next) => {
+  const sessionId = c.req.header("X-Session");
+  if (sessionId) c.set("session", { id: sessionId });
+  await next();
+});
+app.post("/payments", rateLimit("payments"), (c) => c.json({ success: true }));
+app.post("/login", rateLimit("auth"), (c) => c.json({ success: true }));
+
+async function request(path: string, client: { ip?: string; session?: string } = {}) {
+  const headers: Record<string, string> = {};
+  if (client.ip) headers["CF-Connecting-IP"] = client.ip;
+  if (client.session) headers["X-Session"] = client.session;
+  return app.request(path, { method: "POST", headers }, env);
+}
+
+// Sends requests until one is limited, failing if none is within `max`; returns how many got through
+async function requestsAllowed(path: string, client: { ip?: string; session?: string }, max = 50) {
+  for (let allowed = 0; allowed < max; allowed++) {
+    if ((await request(path, client)).status === 429) return allowed;
+  }
+  throw new Error(`No limit within ${max} requests`);
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(new Date("2025-03-03T09:00:00.000Z"));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("takeToken", () => {
+  it("allows a burst up to the bucket size", async () => {
+    expect(await take("test", PAYMENTS.capacity)).toBe(0);
+    expect(await take("test")).toBeGreaterThan(0);
+  });
+
+  it("refills at the policy's rate", async () => {
+    await take("test", PAYMENTS.capacity);
+
+    // 10 a minute is one every 6 seconds
+    advance(5999);
+    expect(await take("test")).toBeGreaterThan(0);
+    advance(1);
+    expect(await take("test")).toBe(0);
+    expect(await take("test")).toBeGreaterThan(0);
+  });
+
+  it("refills no further than the bucket size", async () => {
+    await take("test", PAYMENTS.capacity);
+    advance(60 * 60 * 1000);
+
+    expect(await take("test", PAYMENTS.capacity)).toBe(0);
+    expect(await take("test")).toBeGreaterThan(0);
+  });
+
+  it("returns the seconds until the next token, rounded up", async () => {
+    await take("test", PAYMENTS.capacity);
+    expect(await take("test")).toBe(6);
+
+    advance(2500);
+    expect(await take("test")).toBe(4);
+
+    advance(3000);
+    expect(await take("test")).toBe(1);
+  });
+
+  it("does not use up tokens on refused requests", async () => {
+    await take("test", PAYMENTS.capacity);
+    await take("test", 5);
+    advance(6000);
+
+    expect(await take("test")).toBe(0);
+  });
+
+  it("keeps each key's bucket separate", async () => {
+    await take("test", PAYMENTS.capacity);
+
+    expect(await take("other")).toBe(0);
+  });
+});
+
+describe("rateLimit", () => {
+  it("refuses requests over the limit with 429 and Retry-After", async () => {
+    const client = { ip: "198.51.100.7" };
+    await requestsAllowed("/payments", client);
+
+    const response = await request("/payments", client);
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get("Retry-After")).toBe("6");
+    expect(await response.json()).toEqual({ error: "Too many requests. Please try again in 6 seconds." });
+  });
+
+  it("says 1 second, not 1 seconds", async () => {
+    const client = { ip: "198.51.100.7" };
+    await requestsAllowed("/payments", client);
+    advance(5500);
+
+    const response = await request("/payments", client);
+
+    expect(response.headers.get("Retry-After")).toBe("1");
+    expect(await response.json()).toEqual({ error: "Too many requests. Please try again in 1 second." });
+  });
+
+  it("lets requests through again once the bucket has refilled", async () => {
+    const client = { ip: "198.51.100.7" };
+    await requestsAllowed("/payments", client);
+    advance(6000);
+
+    expect((await request("/payments", client)).status).toBe(200);
+  });
+
+  it("counts each group separately", async () => {
+    const client = { ip: "198.51.100.7" };
+
+    expect(await requestsAllowed("/login", client)).toBe(RATE_LIMITS.auth.capacity);
+    expect(await requestsAllowed("/payments", client)).toBe(PAYMENTS.capacity);
+  });
+
+  it("counts each IP address separately", async () => {
+    await requestsAllowed("/payments", { ip: "198.51.100.7" });
+
+    expect((await request("/payments", { ip: "203.0.113.9" })).status).toBe(200);
+  });
+
+  it("counts each session separately, whatever address it comes from", async () => {
+    await requestsAllowed("/payments", { ip: "198.51.100.7", session: "session-1" });
+
+    expect((await request("/payments", { ip: "198.51.100.7", session: "session-2" })).status).toBe(200);
+    expect((await request("/payments", { ip: "198.51.100.7" })).status).toBe(200);
+    expect((await request("/payments", { ip: "203.0.113.9", session: "session-1" })).status).toBe(429);
+  });
+
+  it("puts requests with no session and no IP address in one shared bucket", async () => {
+    expect(await requestsAllowed("/payments", {})).toBe(PAYMENTS.capacity);
+    expect((await request("/payments", {})).status).toBe(429);
+    expect((await request("/payments", { ip: "198.51.100.7" })).status).toBe(200);
+  });
+});
+
+describe("pruneRateLimitBuckets", () => {
+  it("deletes buckets unused for a day", async () => {
+    await take("old");
+    advance(12 * 60 * 60 * 1000);
+    await take("recent");
+    advance(12 * 60 * 60 * 1000 + 1);
+
+    await pruneRateLimitBuckets(env.DB);
+
+    const { results } = await env.DB.prepare("SELECT key FROM rate_limit_buckets").all();
+    expect(results).toEqual([{ key: "recent" }]);
+  });
+});
@@ -0,0 +1,72 @@
+import { createExecutionContext, env, waitOnExecutionContext } from "cloudflare:test";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import worker from "@/worker/index";
+import { hashPassword } from "@/worker/password";
+
+vi.mock("@/worker/password", async (importOriginal) => {
+  const original = await importOriginal<typeof import("@/worker/password")>();
+  return { ...original, hashPassword: vi.fn(original.hashPassword) };
+});
+
+const ALICE = {
+  full_name: "Alice Example",
+  id_number: "9001015009087",
+  account_number: "1234567890",
+  username: "alice",
+  email: "alice@example.com",
+  password: "Correct-horse-1",
+};
+
+async function register(registration: typeof ALICE) {
+  const ctx = createExecutionContext();
+  const response = await worker.fetch(new Request("https://securepay.example/api/register", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "CF-Connecting-IP": "198.51.100.7" },
+    body: JSON.stringify(registration),
+  }), env, ctx);
+  await waitOnExecutionContext(ctx);
+  return response;
+}
+
+async function userCount() {
+  return env.DB.prepare("SELECT COUNT(*) AS count FROM users").first("count");
+}
+
+beforeEach(() => {
+  vi.mocked(hashPassword).mockClear();
+});
+
+describe("POST /api/register", () => {
+  it("creates the account and signs the customer in", async () => {
+    const response = await register(ALICE);
+
+    expect(response.status).toBe(201);
+    expect(response.headers.get("Set-Cookie")).toBeTruthy();
+    expect(await userCount()).toBe(1);
+  });
+
+  it.each([
+    ["email", { email: "ALICE@example.com", username: "alice2", account_number: "1234567891" }],
+    ["username", { email: "alice2@example.com", username: "alice", account_number: "1234567891" }],
+    ["account number", { email: "alice2@example.com", username: "alice2", account_number: "1234567890" }],
+  ])("refuses a second account with the same %s without hashing its password", async (_field, details) => {
+    await register(ALICE);
+    vi.mocked(hashPassword).mockClear();
+
+    const response = await register({ ...ALICE, ...details });
+
+    expect(response.status).toBe(409);
+    expect(await response.json()).toEqual({ error: "An account with these details already exists" });
+    expect(hashPassword).not.toHaveBeenCalled();
+    expect(await userCount()).toBe(1);
+  });
+
+  it("refuses the loser of two registrations for the same details made at the same time with 409", async () => {
+    const responses = await Promise.all([register(ALICE), register({ ...ALICE, email: "alice2@example.com" })]);
+
+    expect(responses.map(response => response.status).sort()).toEqual([201, 409]);
+    // Both got past the duplicate check before either was saved
+    expect(hashPassword).toHaveBeenCalledTimes(2);
+    expect(await userCount()).toBe(1);
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+import { buildMt103, buildPain001, buildSwiftMessages, type SwiftPayment } from "@/worker/swift-messages";
+
+const CREATED_AT = new Date("2025-03-03T09:30:15.123Z");
+const SENDER_BIC = "SPAYUS33XXX";
+
+function payment(overrides: Partial<SwiftPayment> = {}): SwiftPayment {
+  return {
+    id: 1,
+    user_id: "customer-1",
+    transaction_id: "TXN1740994215123ABC123",
+    amount: 100,
+    currency: "EUR",
+    recipient_account: "DE89 3704 0044 0532 0130 00",
+    swift_code: "COBADEFFXXX",
+    status: "Verified",
+    created_at: "2025-03-03T09:00:00.000Z",
+    updated_at: "2025-03-03T09:00:00.000Z",
+    debtor_name: "Alice Example",
+    debtor_account: "1234567890",
+    ...overrides,
+  };
+}
+
+// Contents of every `name` element; not for elements nested inside one of the same name
+function elementBlocks(xml: string, name: string) {
+  return [...xml.matchAll(new RegExp(`<${name}(?: [^>]*)?>([\\s\\S]*?)</${name}>`, "g"))].map(match => match[1]);
+}
+
+// Names of the direct children of each `parent` element, in document order
+function childElements(xml: string, parent: string) {
+  return elementBlocks(xml, parent).map(block => {
+    const names: string[] = [];
+    let depth = 0;
+    for (const [, closing, name] of block.matchAll(/<(\/?)([A-Za-z0-9]+)[^>]*>/g)) {
+      if (closing) {
+        depth--;
+      } else {
+        if (depth === 0) names.push(name);
+        depth++;
+      }
+    }
+    return names;
+  });
+}
+
+// Text of every element at `path`, where each name is inside the one before it
+function elementText(xml: string, path: string[]): string[] {
+  const [name, ...rest] = path;
+  if (rest.length === 0) {
+    return [...xml.matchAll(new RegExp(`<${name}(?: [^>]*)?>([^<]*)</${name}>`, "g"))].map(match => match[1]);
+  }
+  return elementBlocks(xml, name).flatMap(block => elementText(block, rest));
+}
+
+describe("buildPain001", () => {
+  const payments = [
+    payment({ transaction_id: "TXN1", amount: 0.1, reference: "Invoice 42" }),
+    payment({ transaction_id: "TXN2", amount: 0.2 }),
+    payment({ transaction_id: "TXN3", amount: 1500.5, user_id: "customer-2", debtor_name: "Bob Example", debtor_account: "9876543210" }),
+  ];
+  const xml = buildPain001("SUB1", CREATED_AT, SENDER_BIC, payments);
+
+  it("is a pain.001.001.09 document", () => {
+    expect(xml).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>\n<Document xmlns="urn:iso:std:iso:20022:tech:xsd:pain.001.001.09">/);
+    expect(childElements(xml, "Document")).toEqual([["CstmrCdtTrfInitn"]]);
+  });
+
+  it("puts elements in schema order", () => {
+    expect(childElements(xml, "CstmrCdtTrfInitn")).toEqual([["GrpHdr", "PmtInf", "PmtInf"]]);
+    expect(childElements(xml, "GrpHdr")).toEqual([["MsgId", "CreDtTm", "NbOfTxs", "CtrlSum", "InitgPty"]]);
+    expect(childElements(xml, "PmtInf")).toEqual([
+      ["PmtInfId", "PmtMtd", "NbOfTxs", "CtrlSum", "ReqdExctnDt", "Dbtr", "DbtrAcct", "DbtrAgt", "CdtTrfTxInf", "CdtTrfTxInf"],
+      ["PmtInfId", "PmtMtd", "NbOfTxs", "CtrlSum", "ReqdExctnDt", "Dbtr", "DbtrAcct", "DbtrAgt", "CdtTrfTxInf"],
+    ]);
+    expect(childElements(xml, "CdtTrfTxInf")).toEqual([
+      ["PmtId", "Amt", "CdtrAgt", "Cdtr", "CdtrAcct", "RmtInf"],
+      ["PmtId", "Amt", "CdtrAgt", "Cdtr", "CdtrAcct"],
+      ["PmtId", "Amt", "CdtrAgt", "Cdtr", "CdtrAcct"],
+    ]);
+    expect(childElements(xml, "PmtId")).toEqual([["InstrId", "EndToEndId"], ["InstrId", "EndToEndId"], ["InstrId", "EndToEndId"]]);
+  });
+
+  it("fills in the group header", () => {
+    expect(elementText(xml, ["GrpHdr", "MsgId"])).toEqual(["SUB1"]);
+    expect(elementText(xml, ["GrpHdr", "CreDtTm"])).toEqual(["2025-03-03T09:30:15Z"]);
+  });
+
+  it("counts every payment and sums them to the cent in the group header", () => {
+    expect(elementText(xml, ["GrpHdr", "NbOfTxs"])).toEqual(["3"]);
+    expect(elementText(xml, ["GrpHdr", "CtrlSum"])).toEqual(["1500.80"]);
+  });
+
+  it("groups payments by customer, with a count and sum for each group", () => {
+    expect(elementText(xml, ["PmtInf", "NbOfTxs"])).toEqual(["2", "1"]);
+    expect(elementText(xml, ["PmtInf", "CtrlSum"])).toEqual(["0.30", "1500.50"]);
+    expect(elementText(xml, ["PmtInfId"])).toEqual(["SUB1-1", "SUB1-2"]);
+    expect(elementText(xml, ["Dbtr", "Nm"])).toEqual(["Alice Example", "Bob Example"]);
+  });
+
+  it("uses each transaction ID as its end-to-end ID", () => {
+    expect(elementText(xml, ["EndToEndId"])).toEqual(["TXN1", "TXN2", "TXN3"]);
+    expect(elementText(xml, ["Amt", "InstdAmt"])).toEqual(["0.10", "0.20", "1500.50"]);
+  });
+
+  it("sends an IBAN as IBAN, without spaces", () => {
+    expect(elementText(xml, ["CdtrAcct", "IBAN"])).toEqual(["DE89370400440532013000", "DE89370400440532013000", "DE89370400440532013000"]);
+  });
+
+  it("sends any other account number as Othr", () => {
+    const domestic = buildPain001("SUB2", CREATED_AT, SENDER_BIC, [payment({ recipient_account: "0210-00052", swift_code: "CHASUS33XXX" })]);
+
+    expect(elementText(domestic, ["CdtrAcct", "Othr", "Id"])).toEqual(["021000052"]);
+    expect(elementText(domestic, ["CdtrAcct", "IBAN"])).toEqual([]);
+    expect(elementText(xml, ["DbtrAcct", "Othr", "Id"])).toEqual(["1234567890", "9876543210"]);
+  });
+
+  it("escapes free text", () => {
+    const escaped = buildPain001("SUB3", CREATED_AT, SENDER_BIC, [payment({ debtor_name: "Smith & <Sons>", reference: "\"Q1\" 'fees'" })]);
+
+    expect(elementText(escaped, ["Dbtr", "Nm"])).toEqual(["Smith &amp; &lt;Sons&gt;"]);
+    expect(elementText(escaped, ["RmtInf", "Ustrd"])).toEqual(["&quot;Q1&quot; &apos;fees&apos;"]);
+  });
+
+  it("refuses a debtor without an account number rather than sending an empty Othr/Id", () => {
+    expect(() => buildPain001("SUB4", CREATED_AT, SENDER_BIC, [payment({ debtor_account: "" })])).toThrow();
+  });
+});
+
+describe("buildMt103", () => {
+  it("writes one message per payment with the customer's account and name", () => {
+    const mt103 = buildMt103(CREATED_AT, SENDER_BIC, [payment({ amount: 1234.5 }), payment({ transaction_id: "TXN2" })]);
+    const messages = mt103.split("\r\n{1:");
+
+    expect(messages).toHaveLength(2);
+    expect(mt103).toContain("{1:F01SPAYUS33AXXX0000000000}{2:I103COBADEFFXXXXN}");
+    expect(mt103).toContain(":32A:250303EUR1234,50\r\n");
+    expect(mt103).toContain(":50K:/1234567890\r\nAlice Example\r\n");
+    expect(mt103).toContain(":59:/DE89370400440532013000\r\n");
+  });
+});
+
+describe("buildSwiftMessages", () => {
+  it("only includes MT103 when asked", () => {
+    const payments = [payment({ amount: 10.1 }), payment({ transaction_id: "TXN2", amount: 20.2 })];
+
+    expect(buildSwiftMessages("SUB5", CREATED_AT, SENDER_BIC, payments, false).mt103).toBeNull();
+    expect(buildSwiftMessages("SUB5", CREATED_AT, SENDER_BIC, payments, true).mt103).not.toBeNull();
+    expect(buildSwiftMessages("SUB5", CREATED_AT, SENDER_BIC, payments, false).control_sum).toBe(30.3);
+  });
+});
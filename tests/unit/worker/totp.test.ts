@@ -0,0 +1,122 @@
+import { env } from "cloudflare:test";
+import { describe, expect, it } from "vitest";
+import {
+  decryptTotpSecret,
+  encryptTotpSecret,
+  fromBase32,
+  generateTotp,
+  generateTotpSecret,
+  toBase32,
+  totpStep,
+  verifyTotp,
+} from "@/worker/totp";
+
+// The RFC 6238 SHA-1 seed, "12345678901234567890" in ASCII
+const RFC_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+// RFC 6238 appendix B SHA-1 test vectors: time in seconds and the last six of the eight digits given there
+const RFC_VECTORS: [number, string][] = [
+  [59, "287082"],
+  [1111111109, "081804"],
+  [1111111111, "050471"],
+  [1234567890, "005924"],
+  [2000000000, "279037"],
+  [20000000000, "353130"],
+];
+
+const TIME = 1111111111 * 1000;
+
+describe("base32", () => {
+  it("round-trips bytes", () => {
+    const bytes = crypto.getRandomValues(new Uint8Array(20));
+
+    expect(fromBase32(toBase32(bytes))).toEqual(bytes);
+  });
+
+  it("reads secrets typed with spaces, padding or in lower case", () => {
+    expect(fromBase32("gezd gnbv gy3t qojq gezd gnbv gy3t qojq==")).toEqual(fromBase32(RFC_SECRET));
+  });
+
+  it("refuses characters outside the alphabet", () => {
+    expect(() => fromBase32("GEZDGNB1")).toThrow();
+  });
+
+  it("generates 20-byte secrets", () => {
+    expect(fromBase32(generateTotpSecret())).toHaveLength(20);
+  });
+});
+
+describe("generateTotp", () => {
+  it.each(RFC_VECTORS)("matches the RFC 6238 test vector at %i seconds", async (seconds, code) => {
+    expect(await generateTotp(RFC_SECRET, totpStep(seconds * 1000))).toBe(code);
+  });
+
+  it("uses 30-second steps", () => {
+    expect(totpStep(59 * 1000)).toBe(1);
+    expect(totpStep(60 * 1000)).toBe(2);
+  });
+});
+
+describe("verifyTotp", () => {
+  const step = totpStep(TIME);
+
+  it("accepts the current code and returns its step", async () => {
+    expect(await verifyTotp(RFC_SECRET, "050471", null, TIME)).toBe(step);
+  });
+
+  it("accepts codes from one step either side for clock drift", async () => {
+    expect(await verifyTotp(RFC_SECRET, await generateTotp(RFC_SECRET, step - 1), null, TIME)).toBe(step - 1);
+    expect(await verifyTotp(RFC_SECRET, await generateTotp(RFC_SECRET, step + 1), null, TIME)).toBe(step + 1);
+  });
+
+  it("refuses codes two steps away", async () => {
+    expect(await verifyTotp(RFC_SECRET, await generateTotp(RFC_SECRET, step - 2), null, TIME)).toBeNull();
+    expect(await verifyTotp(RFC_SECRET, await generateTotp(RFC_SECRET, step + 2), null, TIME)).toBeNull();
+  });
+
+  it("refuses a code from a step already used, or an earlier one", async () => {
+    expect(await verifyTotp(RFC_SECRET, "050471", step, TIME)).toBeNull();
+    expect(await verifyTotp(RFC_SECRET, await generateTotp(RFC_SECRET, step - 1), step - 1, TIME)).toBeNull();
+  });
+
+  it("still accepts a later code after one has been used", async () => {
+    expect(await verifyTotp(RFC_SECRET, await generateTotp(RFC_SECRET, step + 1), step, TIME)).toBe(step + 1);
+  });
+
+  it("refuses a wrong code and anything that is not six digits", async () => {
+    expect(await verifyTotp(RFC_SECRET, "050472", null, TIME)).toBeNull();
+    expect(await verifyTotp(RFC_SECRET, "50471", null, TIME)).toBeNull();
+    expect(await verifyTotp(RFC_SECRET, "14050471", null, TIME)).toBeNull();
+    expect(await verifyTotp(RFC_SECRET, "05047a", null, TIME)).toBeNull();
+  });
+});
+
+describe("secret storage", () => {
+  it("decrypts what it encrypted", async () => {
+    const stored = await encryptTotpSecret(RFC_SECRET, env.PASSWORD_PEPPER);
+
+    expect(await decryptTotpSecret(stored, env.PASSWORD_PEPPER)).toBe(RFC_SECRET);
+  });
+
+  it("does not store the secret in the clear, and uses a fresh IV each time", async () => {
+    const first = await encryptTotpSecret(RFC_SECRET, env.PASSWORD_PEPPER);
+    const second = await encryptTotpSecret(RFC_SECRET, env.PASSWORD_PEPPER);
+
+    expect(first).not.toContain(RFC_SECRET);
+    expect(first).toMatch(/^[A-Za-z0-9+/=]+\.[A-Za-z0-9+/=]+$/);
+    expect(first).not.toBe(second);
+  });
+
+  it("cannot be decrypted with a different pepper", async () => {
+    const stored = await encryptTotpSecret(RFC_SECRET, env.PASSWORD_PEPPER);
+
+    await expect(decryptTotpSecret(stored, "another-pepper")).rejects.toThrow();
+  });
+
+  it("cannot be decrypted once tampered with", async () => {
+    const [iv, ciphertext] = (await encryptTotpSecret(RFC_SECRET, env.PASSWORD_PEPPER)).split(".");
+    const tampered = `${iv}.${ciphertext[0] === "A" ? "B" : "A"}${ciphertext.slice(1)}`;
+
+    await expect(decryptTotpSecret(tampered, env.PASSWORD_PEPPER)).rejects.toThrow();
+  });
+});
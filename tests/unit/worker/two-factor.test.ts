@@ -0,0 +1,177 @@
+import { env } from "cloudflare:test";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { STEP_UP_PAYMENT_THRESHOLD } from "@/shared/types";
+import type { SessionRecord } from "@/worker/session";
+import { generateTotp, totpStep } from "@/worker/totp";
+import {
+  StepUpRequiredError,
+  confirmTotpEnrolment,
+  getTwoFactorStatus,
+  isTwoFactorEnabled,
+  requireStepUp,
+  startTotpEnrolment,
+  verifySecondFactor,
+} from "@/worker/two-factor";
+
+const USER_ID = "customer-1";
+const NOW = new Date("2025-03-03T09:00:00.000Z");
+
+function advance(ms: number) {
+  vi.setSystemTime(Date.now() + ms);
+}
+
+// Enrols an authenticator and turns 2FA on; returns its secret and the recovery codes
+async function enableTwoFactor() {
+  const enrolment = await startTotpEnrolment(env.DB, env.PASSWORD_PEPPER, USER_ID, "alice");
+  const recoveryCodes = await confirmTotpEnrolment(env.DB, env.PASSWORD_PEPPER, USER_ID, await generateTotp(enrolment!.secret));
+  // Later codes in these tests come from the next step on
+  advance(30 * 1000);
+  return { secret: enrolment!.secret, recoveryCodes: recoveryCodes! };
+}
+
+function session(secondFactorAt: string | null = null): SessionRecord {
+  return {
+    id: "session-1",
+    user_id: USER_ID,
+    created_at: NOW.toISOString(),
+    expires_at: new Date(NOW.getTime() + 60 * 60 * 1000).toISOString(),
+    last_seen_at: NOW.toISOString(),
+    second_factor_at: secondFactorAt,
+    device_label: null,
+    user_agent: null,
+    ip_address: null,
+  };
+}
+
+async function stepUpError(session: SessionRecord, referenceAmount: number) {
+  return requireStepUp(env.DB, session, referenceAmount).then(() => null, (err: Error) => err);
+}
+
+beforeEach(async () => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(NOW);
+  await env.DB.prepare(
+    "INSERT INTO users (id, email, username, account_number, role) VALUES (?, 'alice@example.com', 'alice', '1234567890', 'customer')"
+  ).bind(USER_ID).run();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("enrolment", () => {
+  it("stores the secret encrypted", async () => {
+    const enrolment = await startTotpEnrolment(env.DB, env.PASSWORD_PEPPER, USER_ID, "alice");
+    const stored = await env.DB.prepare("SELECT secret FROM user_totp WHERE user_id = ?").bind(USER_ID).first("secret");
+
+    expect(enrolment!.otpauth_uri).toContain(`secret=${enrolment!.secret}`);
+    expect(stored).not.toContain(enrolment!.secret);
+  });
+
+  it("only turns 2FA on once a code from the authenticator is confirmed", async () => {
+    const enrolment = await startTotpEnrolment(env.DB, env.PASSWORD_PEPPER, USER_ID, "alice");
+    expect(await isTwoFactorEnabled(env.DB, USER_ID)).toBe(false);
+
+    expect(await confirmTotpEnrolment(env.DB, env.PASSWORD_PEPPER, USER_ID, "000000")).toBeNull();
+    expect(await isTwoFactorEnabled(env.DB, USER_ID)).toBe(false);
+
+    const recoveryCodes = await confirmTotpEnrolment(env.DB, env.PASSWORD_PEPPER, USER_ID, await generateTotp(enrolment!.secret));
+    expect(recoveryCodes).toHaveLength(10);
+    expect(await getTwoFactorStatus(env.DB, USER_ID)).toMatchObject({ enabled: true, recovery_codes_remaining: 10 });
+  });
+
+  it("does not replace an authenticator that is already on", async () => {
+    await enableTwoFactor();
+
+    expect(await startTotpEnrolment(env.DB, env.PASSWORD_PEPPER, USER_ID, "alice")).toBeNull();
+  });
+});
+
+describe("verifySecondFactor", () => {
+  it("accepts a current code", async () => {
+    const { secret } = await enableTwoFactor();
+
+    expect(await verifySecondFactor(env.DB, env.PASSWORD_PEPPER, USER_ID, await generateTotp(secret))).toBe(true);
+  });
+
+  it("refuses a code that has already been used", async () => {
+    const { secret } = await enableTwoFactor();
+    const code = await generateTotp(secret);
+
+    expect(await verifySecondFactor(env.DB, env.PASSWORD_PEPPER, USER_ID, code)).toBe(true);
+    expect(await verifySecondFactor(env.DB, env.PASSWORD_PEPPER, USER_ID, code)).toBe(false);
+  });
+
+  it("refuses a code from before the last one used, even within the drift window", async () => {
+    const { secret } = await enableTwoFactor();
+    const step = totpStep();
+
+    expect(await verifySecondFactor(env.DB, env.PASSWORD_PEPPER, USER_ID, await generateTotp(secret, step + 1))).toBe(true);
+    expect(await verifySecondFactor(env.DB, env.PASSWORD_PEPPER, USER_ID, await generateTotp(secret, step))).toBe(false);
+  });
+
+  it("accepts the next code once the step has moved on", async () => {
+    const { secret } = await enableTwoFactor();
+    await verifySecondFactor(env.DB, env.PASSWORD_PEPPER, USER_ID, await generateTotp(secret));
+    advance(30 * 1000);
+
+    expect(await verifySecondFactor(env.DB, env.PASSWORD_PEPPER, USER_ID, await generateTotp(secret))).toBe(true);
+  });
+
+  it("refuses every code while 2FA is off", async () => {
+    const enrolment = await startTotpEnrolment(env.DB, env.PASSWORD_PEPPER, USER_ID, "alice");
+
+    expect(await verifySecondFactor(env.DB, env.PASSWORD_PEPPER, USER_ID, await generateTotp(enrolment!.secret))).toBe(false);
+  });
+
+  it("accepts each recovery code once", async () => {
+    const { recoveryCodes } = await enableTwoFactor();
+
+    expect(await verifySecondFactor(env.DB, env.PASSWORD_PEPPER, USER_ID, recoveryCodes[0])).toBe(true);
+    expect(await verifySecondFactor(env.DB, env.PASSWORD_PEPPER, USER_ID, recoveryCodes[0])).toBe(false);
+    expect(await verifySecondFactor(env.DB, env.PASSWORD_PEPPER, USER_ID, recoveryCodes[1])).toBe(true);
+    expect(await getTwoFactorStatus(env.DB, USER_ID)).toMatchObject({ recovery_codes_remaining: 8 });
+  });
+
+  it("accepts a recovery code typed without its dash or in upper case", async () => {
+    const { recoveryCodes } = await enableTwoFactor();
+
+    expect(await verifySecondFactor(env.DB, env.PASSWORD_PEPPER, USER_ID, recoveryCodes[0].replace("-", "").toUpperCase())).toBe(true);
+  });
+
+  it("refuses a made-up recovery code", async () => {
+    await enableTwoFactor();
+
+    expect(await verifySecondFactor(env.DB, env.PASSWORD_PEPPER, USER_ID, "aaaaa-bbbbb")).toBe(false);
+  });
+});
+
+describe("requireStepUp", () => {
+  it("lets payments below the threshold through for customers with 2FA", async () => {
+    await enableTwoFactor();
+
+    expect(await stepUpError(session(), STEP_UP_PAYMENT_THRESHOLD - 0.01)).toBeNull();
+  });
+
+  it("asks for a second factor at the threshold and above", async () => {
+    await enableTwoFactor();
+
+    expect(await stepUpError(session(), STEP_UP_PAYMENT_THRESHOLD)).toBeInstanceOf(StepUpRequiredError);
+    expect(await stepUpError(session(), STEP_UP_PAYMENT_THRESHOLD * 2)).toBeInstanceOf(StepUpRequiredError);
+  });
+
+  it("does not ask customers without 2FA", async () => {
+    expect(await stepUpError(session(), STEP_UP_PAYMENT_THRESHOLD * 2)).toBeNull();
+  });
+
+  it("does not ask again within ten minutes of a second factor", async () => {
+    await enableTwoFactor();
+    const provenAt = new Date().toISOString();
+
+    advance(9 * 60 * 1000);
+    expect(await stepUpError(session(provenAt), STEP_UP_PAYMENT_THRESHOLD)).toBeNull();
+
+    advance(60 * 1000);
+    expect(await stepUpError(session(provenAt), STEP_UP_PAYMENT_THRESHOLD)).toBeInstanceOf(StepUpRequiredError);
+  });
+});
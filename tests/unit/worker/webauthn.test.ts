@@ -0,0 +1,209 @@
+import { describe, expect, it } from "vitest";
+import { fromBase64Url, toBase64Url } from "@/worker/encoding";
+import { COSE_ES256, COSE_RS256, PasskeyError, verifyAssertion, verifyRegistration, type StoredPasskey } from "@/worker/webauthn";
+import {
+  FLAG_BACKED_UP,
+  FLAG_USER_PRESENT,
+  FLAG_USER_VERIFIED,
+  SYNCED_PASSKEY_FLAGS,
+  assertionResponse,
+  registrationResponse,
+} from "../../fixtures/authenticator";
+import { ES256_PASSKEY, RP, RS256_PASSKEY } from "../../fixtures/passkeys";
+
+const OTHER_RP = { id: "evil.example", origin: "https://evil.example", name: "SecurePay" };
+
+async function registrationError(...args: Parameters<typeof verifyRegistration>) {
+  return verifyRegistration(...args).then(() => null, (err: Error) => err);
+}
+
+async function assertionError(...args: Parameters<typeof verifyAssertion>) {
+  return verifyAssertion(...args).then(() => null, (err: Error) => err);
+}
+
+// The stored passkey as registerPasskey() saves it from the recorded registration
+async function registered(passkey: typeof ES256_PASSKEY): Promise<StoredPasskey> {
+  const { credential, challenge } = passkey.registration;
+  const verified = await verifyRegistration(credential.response, credential.id, challenge, RP);
+  return { public_key: verified.publicKey, algorithm: verified.algorithm, sign_count: verified.signCount };
+}
+
+function expectRejected(err: Error | null, status: 400 | 401) {
+  expect(err).toBeInstanceOf(PasskeyError);
+  expect((err as PasskeyError).status).toBe(status);
+}
+
+describe("verifyRegistration", () => {
+  it("reads an ES256 passkey's public key from a recorded registration", async () => {
+    const { credential, challenge } = ES256_PASSKEY.registration;
+
+    const verified = await verifyRegistration(credential.response, credential.id, challenge, RP);
+
+    expect(verified).toMatchObject({ credentialId: credential.id, algorithm: COSE_ES256, signCount: 0, backedUp: true });
+    expect(JSON.parse(verified.publicKey)).toEqual({
+      kty: "EC",
+      crv: "P-256",
+      x: ES256_PASSKEY.credential.publicKey.x,
+      y: ES256_PASSKEY.credential.publicKey.y,
+    });
+  });
+
+  it("reads an RS256 passkey's public key from a recorded registration", async () => {
+    const { credential, challenge } = RS256_PASSKEY.registration;
+
+    const verified = await verifyRegistration(credential.response, credential.id, challenge, RP);
+
+    expect(verified).toMatchObject({ credentialId: credential.id, algorithm: COSE_RS256, signCount: 1, backedUp: false });
+    expect(JSON.parse(verified.publicKey)).toEqual({ kty: "RSA", n: RS256_PASSKEY.credential.publicKey.n, e: "AQAB" });
+  });
+
+  it("refuses a registration for a different challenge", async () => {
+    const { credential } = ES256_PASSKEY.registration;
+
+    expectRejected(await registrationError(credential.response, credential.id, ES256_PASSKEY.assertion.challenge, RP), 400);
+  });
+
+  it("refuses a registration made on another origin", async () => {
+    const { credential, challenge } = ES256_PASSKEY.registration;
+
+    expectRejected(await registrationError(credential.response, credential.id, challenge, { ...RP, origin: OTHER_RP.origin }), 400);
+  });
+
+  it("refuses a registration for another relying party ID", async () => {
+    const { challenge } = ES256_PASSKEY.registration;
+    const credential = await registrationResponse(ES256_PASSKEY.credential, { challenge, rp: RP, rpId: OTHER_RP.id });
+
+    expectRejected(await registrationError(credential.response, credential.id, challenge, RP), 400);
+  });
+
+  it("refuses a registration where the authenticator did not verify the user", async () => {
+    const { challenge } = ES256_PASSKEY.registration;
+    const credential = await registrationResponse(ES256_PASSKEY.credential, { challenge, rp: RP, flags: FLAG_USER_PRESENT | FLAG_BACKED_UP });
+
+    expectRejected(await registrationError(credential.response, credential.id, challenge, RP), 400);
+  });
+
+  it("refuses a sign-in response offered as a registration", async () => {
+    const { credential, challenge } = ES256_PASSKEY.assertion;
+    const response = { clientDataJSON: credential.response.clientDataJSON, attestationObject: credential.response.authenticatorData };
+
+    expectRejected(await registrationError(response, credential.id, challenge, RP), 400);
+  });
+
+  it("refuses a registration for a different credential ID", async () => {
+    const { credential, challenge } = ES256_PASSKEY.registration;
+
+    expectRejected(await registrationError(credential.response, RS256_PASSKEY.credential.id, challenge, RP), 400);
+  });
+
+  it("refuses a truncated or malformed attestation object", async () => {
+    const { credential, challenge } = ES256_PASSKEY.registration;
+    const attestation = fromBase64Url(credential.response.attestationObject);
+
+    for (const attestationObject of [
+      toBase64Url(attestation.slice(0, 20)),
+      toBase64Url(attestation.slice(0, attestation.length - 10)),
+      toBase64Url(new Uint8Array([0xbf, 0xff])),
+      toBase64Url(new Uint8Array(300).fill(0x81)),
+      "",
+    ]) {
+      expectRejected(await registrationError({ ...credential.response, attestationObject }, credential.id, challenge, RP), 400);
+    }
+  });
+
+  it("refuses client data that is not JSON", async () => {
+    const { credential, challenge } = ES256_PASSKEY.registration;
+    const response = { ...credential.response, clientDataJSON: toBase64Url(new TextEncoder().encode("{not json")) };
+
+    expectRejected(await registrationError(response, credential.id, challenge, RP), 400);
+  });
+});
+
+describe("verifyAssertion", () => {
+  it("verifies a recorded ES256 sign-in", async () => {
+    const passkey = await registered(ES256_PASSKEY);
+
+    expect(await verifyAssertion(ES256_PASSKEY.assertion.credential.response, passkey, RP)).toEqual({ signCount: 0 });
+  });
+
+  it("verifies a recorded RS256 sign-in and returns the new signature counter", async () => {
+    const passkey = await registered(RS256_PASSKEY);
+
+    expect(await verifyAssertion(RS256_PASSKEY.assertion.credential.response, passkey, RP)).toEqual({ signCount: 2 });
+  });
+
+  it("refuses a sign-in signed by another passkey", async () => {
+    const passkey = await registered(RS256_PASSKEY);
+    const { response } = ES256_PASSKEY.assertion.credential;
+
+    expectRejected(await assertionError(response, { ...passkey, public_key: JSON.stringify(ES256_PASSKEY.credential.publicKey) }, RP), 401);
+    expectRejected(await assertionError(response, passkey, RP), 401);
+  });
+
+  it("refuses a sign-in whose client data was changed after signing", async () => {
+    const passkey = await registered(ES256_PASSKEY);
+    const { response } = ES256_PASSKEY.assertion.credential;
+    const clientData = JSON.parse(new TextDecoder().decode(fromBase64Url(response.clientDataJSON)));
+    const clientDataJSON = toBase64Url(new TextEncoder().encode(JSON.stringify({ ...clientData, challenge: ES256_PASSKEY.registration.challenge })));
+
+    expectRejected(await assertionError({ ...response, clientDataJSON }, passkey, RP), 401);
+  });
+
+  it("refuses a sign-in for another relying party ID", async () => {
+    const passkey = await registered(ES256_PASSKEY);
+    const { response } = await assertionResponse(ES256_PASSKEY.credential, { challenge: ES256_PASSKEY.assertion.challenge, rp: RP, rpId: OTHER_RP.id });
+
+    expectRejected(await assertionError(response, passkey, RP), 401);
+    expectRejected(await assertionError(ES256_PASSKEY.assertion.credential.response, passkey, OTHER_RP), 401);
+  });
+
+  it("refuses a sign-in where the authenticator did not verify the user", async () => {
+    const passkey = await registered(ES256_PASSKEY);
+    const { response } = await assertionResponse(ES256_PASSKEY.credential, {
+      challenge: ES256_PASSKEY.assertion.challenge,
+      rp: RP,
+      flags: SYNCED_PASSKEY_FLAGS & ~FLAG_USER_VERIFIED,
+    });
+
+    expectRejected(await assertionError(response, passkey, RP), 401);
+  });
+
+  it("refuses a signature counter that has not gone up", async () => {
+    const passkey = await registered(RS256_PASSKEY);
+    const sign = (signCount: number) => assertionResponse(RS256_PASSKEY.credential, {
+      challenge: RS256_PASSKEY.assertion.challenge,
+      rp: RP,
+      flags: FLAG_USER_PRESENT | FLAG_USER_VERIFIED,
+      signCount,
+    });
+
+    expect(await verifyAssertion((await sign(6)).response, { ...passkey, sign_count: 5 }, RP)).toEqual({ signCount: 6 });
+    expectRejected(await assertionError((await sign(5)).response, { ...passkey, sign_count: 5 }, RP), 401);
+    expectRejected(await assertionError((await sign(4)).response, { ...passkey, sign_count: 5 }, RP), 401);
+    expectRejected(await assertionError((await sign(0)).response, { ...passkey, sign_count: 5 }, RP), 401);
+  });
+
+  it("accepts a zero counter from a passkey that has never counted", async () => {
+    const passkey = await registered(ES256_PASSKEY);
+    const { response } = await assertionResponse(ES256_PASSKEY.credential, { challenge: ES256_PASSKEY.assertion.challenge, rp: RP });
+
+    expect(await verifyAssertion(response, passkey, RP)).toEqual({ signCount: 0 });
+  });
+
+  it("refuses truncated authenticator data and malformed signatures", async () => {
+    const passkey = await registered(ES256_PASSKEY);
+    const { response } = ES256_PASSKEY.assertion.credential;
+    const authenticatorData = fromBase64Url(response.authenticatorData);
+    const signature = fromBase64Url(response.signature);
+
+    for (const malformed of [
+      { ...response, authenticatorData: toBase64Url(authenticatorData.slice(0, 36)) },
+      { ...response, authenticatorData: "" },
+      { ...response, signature: toBase64Url(signature.slice(0, signature.length - 1)) },
+      { ...response, signature: toBase64Url(new Uint8Array([0x30, 0x06, 0x02, 0x40])) },
+      { ...response, signature: "" },
+    ]) {
+      expectRejected(await assertionError(malformed, passkey, RP), 401);
+    }
+  });
+});
@@ -0,0 +1,34 @@
+import path from "path";
+import { defineWorkersConfig, readD1Migrations } from "@cloudflare/vitest-pool-workers/config";
+
+// Worker tests run inside workerd against a local D1 database with every migration applied
+export default defineWorkersConfig(async () => {
+  const migrations = await readD1Migrations(path.resolve(__dirname, "./migrations"));
+
+  return {
+    resolve: {
+      alias: {
+        "@": path.resolve(__dirname, "./src"),
+      },
+    },
+    test: {
+      include: ["tests/**/*.test.ts"],
+      setupFiles: ["./tests/apply-migrations.ts"],
+      poolOptions: {
+        workers: {
+          singleWorker: true,
+          miniflare: {
+            compatibilityDate: "2025-06-17",
+            compatibilityFlags: ["nodejs_compat"],
+            d1Databases: ["DB"],
+            bindings: {
+              PASSWORD_PEPPER: "test-pepper",
+              SWIFT_SENDER_BIC: "SPAYUS33XXX",
+              TEST_MIGRATIONS: migrations,
+            },
+          },
+        },
+      },
+    },
+  };
+});